@@ -202,15 +202,31 @@ function extractRejectReason(rest: string): {
 
 // ─── Main Entry Point ───────────────────────────────────────────────────────
 
+/** Re-runs of an intent whose STATE write lost the revision compare-and-swap */
+const CONFLICT_RETRIES = 2;
+
 /**
  * Unified orchestrator entry point.
  *
  * Takes a project root and a raw user message, classifies the intent,
  * and routes to the appropriate function. Returns a JSON-serializable result.
+ * A CONFLICT (another process wrote STATE.json mid-update) re-runs the intent
+ * against the fresh state, up to CONFLICT_RETRIES times.
  */
 export function auto(
   projectRoot: string,
   message: string,
+): Record<string, unknown> {
+  let result = autoOnce(projectRoot, message);
+  for (let retry = 0; retry < CONFLICT_RETRIES && result.code === "CONFLICT"; retry++) {
+    result = autoOnce(projectRoot, message);
+  }
+  return result;
+}
+
+function autoOnce(
+  projectRoot: string,
+  message: string,
 ): Record<string, unknown> {
   const intent = classify(message);
 
@@ -309,7 +325,7 @@ export function auto(
           switch (intent.type) {
             case "continue":
               return {
-                ...wrapDispatchResult(dispatch(projectRoot)),
+                ...wrapDispatchResult(projectRoot, dispatch(projectRoot)),
                 _sanitized: warnings,
               };
             case "query":
@@ -385,11 +401,11 @@ function handleStartStory(
   if (result.type === "error") {
     return { action: "error", code: result.code, message: result.message };
   }
-  return wrapDispatchResult(dispatch(projectRoot));
+  return wrapDispatchResult(projectRoot, dispatch(projectRoot));
 }
 
 function handleDispatch(projectRoot: string): Record<string, unknown> {
-  return wrapDispatchResult(dispatch(projectRoot));
+  return wrapDispatchResult(projectRoot, dispatch(projectRoot));
 }
 
 function handleCustom(
@@ -400,11 +416,12 @@ function handleCustom(
     instruction,
   );
   startCustom(projectRoot, instruction, { agentTeams });
-  return wrapDispatchResult(dispatch(projectRoot));
+  return wrapDispatchResult(projectRoot, dispatch(projectRoot));
 }
 
 /** Convert DispatchResult to AutoResult */
 function wrapDispatchResult(
+  projectRoot: string,
   result: ReturnType<typeof dispatch>,
 ): Record<string, unknown> {
   switch (result.type) {
@@ -412,7 +429,7 @@ function wrapDispatchResult(
       // Look up next_step so the caller knows the pipeline trajectory
       let next_step: string | null = null;
       try {
-        const rule = getRule(result.step);
+        const rule = getRule(result.step, projectRoot, readState(projectRoot).task_type);
         next_step = rule.next_on_pass;
       } catch {
         // step might be "done" or unknown — leave null
@@ -0,0 +1,203 @@
+/**
+ * backlog.ts — Story Backlog (.ai/BACKLOG.json)
+ *
+ * A queue of stories that have not started yet, each with a priority,
+ * a complexity marker (S/M/L → getDispatchMode) and `blocked_by` edges to
+ * other stories. dispatch.ts records completed stories here and, when a story
+ * reaches "done", starts the next unblocked one (see startNextStory).
+ *
+ * File format:
+ *
+ *   {
+ *     "items": [
+ *       { "story": "US-009", "title": "Export CSV", "priority": 1,
+ *         "complexity": "M", "blocked_by": ["US-007"], "task_type": "story",
+ *         "added_at": "2026-01-01T00:00:00.000Z" }
+ *     ],
+ *     "completed": ["US-007"]
+ *   }
+ *
+ * All operations are synchronous file I/O — zero LLM tokens.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { DISPATCH_MODES } from "./rules";
+import { writeFileAtomic, withStateLock } from "./lock";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface BacklogItem {
+  story: string;
+  title: string | null;
+  /** Lower runs first (1 = most urgent). Ties keep insertion order. */
+  priority: number;
+  /** S / M / L — feeds getDispatchMode() when the story is started */
+  complexity: string;
+  /** Stories that must reach "done" before this one can start */
+  blocked_by: string[];
+  task_type: string;
+  added_at: string;
+}
+
+export interface Backlog {
+  items: BacklogItem[];
+  /** Story ids that reached "done" — satisfies blocked_by edges */
+  completed: string[];
+}
+
+/** A backlog item plus whether its blockers are all completed */
+export interface BacklogEntry extends BacklogItem {
+  ready: boolean;
+  waiting_on: string[];
+}
+
+export type BacklogResult =
+  | { type: "ok"; item: BacklogItem; message: string }
+  | { type: "error"; code: string; message: string; recoverable: boolean };
+
+export const DEFAULT_PRIORITY = 3;
+
+// ─── File I/O ────────────────────────────────────────────────────────────────
+
+/** Resolve the BACKLOG.json path for a project root */
+export function backlogPath(projectRoot: string): string {
+  return join(projectRoot, ".ai", "BACKLOG.json");
+}
+
+/** Read BACKLOG.json. A missing file is an empty backlog. */
+export function readBacklog(projectRoot: string): Backlog {
+  const path = backlogPath(projectRoot);
+  if (!existsSync(path)) return { items: [], completed: [] };
+  const parsed = JSON.parse(readFileSync(path, "utf-8"));
+  return {
+    items: Array.isArray(parsed.items) ? parsed.items : [],
+    completed: Array.isArray(parsed.completed) ? parsed.completed : [],
+  };
+}
+
+/** Write BACKLOG.json atomically. Creates .ai/ directory if needed. */
+export function writeBacklog(projectRoot: string, backlog: Backlog): void {
+  writeFileAtomic(backlogPath(projectRoot), JSON.stringify(backlog, null, 2) + "\n");
+}
+
+// ─── Queue Operations ────────────────────────────────────────────────────────
+
+export interface AddBacklogOptions {
+  title?: string;
+  priority?: number;
+  complexity?: string;
+  blockedBy?: string[];
+  taskType?: string;
+  /** Story ids outside the backlog a blocker may name (active stories) */
+  knownStories?: string[];
+}
+
+/**
+ * Add a story to the backlog.
+ * `knownStories` are story ids outside the backlog that a blocker may name
+ * (the active stories in STATE.json) — anything else is rejected so a typo
+ * cannot block a story forever. Runs under the project's STATE lock.
+ */
+export function addBacklogItem(
+  projectRoot: string,
+  story: string,
+  options: AddBacklogOptions = {},
+): BacklogResult {
+  const result = withStateLock(projectRoot, () => _addBacklogItem(projectRoot, story, options));
+  if (result.acquired) return result.value;
+  return { type: "error", code: "LOCKED", message: result.message, recoverable: true };
+}
+
+function _addBacklogItem(
+  projectRoot: string,
+  story: string,
+  options: AddBacklogOptions,
+): BacklogResult {
+  const backlog = readBacklog(projectRoot);
+  const complexity = options.complexity ?? "S";
+  const priority = options.priority ?? DEFAULT_PRIORITY;
+  const blockedBy = options.blockedBy ?? [];
+
+  if (backlog.items.some((i) => i.story === story)) {
+    return { type: "error", code: "DUPLICATE_STORY", message: `Story ${story} is already in the backlog`, recoverable: false };
+  }
+  if (!(complexity in DISPATCH_MODES)) {
+    return {
+      type: "error",
+      code: "INVALID_COMPLEXITY",
+      message: `Invalid complexity "${complexity}". Valid: ${Object.keys(DISPATCH_MODES).join(", ")}`,
+      recoverable: false,
+    };
+  }
+  if (!Number.isInteger(priority) || priority < 1) {
+    return { type: "error", code: "INVALID_PRIORITY", message: `priority must be an integer >= 1, got ${priority}`, recoverable: false };
+  }
+
+  const known = new Set([
+    ...backlog.items.map((i) => i.story),
+    ...backlog.completed,
+    ...(options.knownStories ?? []),
+  ]);
+  const unknown = blockedBy.filter((b) => b === story || !known.has(b));
+  if (unknown.length > 0) {
+    return {
+      type: "error",
+      code: "UNKNOWN_BLOCKER",
+      message: `blocked_by must name other backlog, active or completed stories — unknown: ${unknown.join(", ")}`,
+      recoverable: false,
+    };
+  }
+
+  const item: BacklogItem = {
+    story,
+    title: options.title ?? null,
+    priority,
+    complexity,
+    blocked_by: blockedBy,
+    task_type: options.taskType ?? "story",
+    added_at: new Date().toISOString(),
+  };
+  backlog.items.push(item);
+  writeBacklog(projectRoot, backlog);
+  return { type: "ok", item, message: `Added ${story} to backlog (priority ${priority}, complexity ${complexity})` };
+}
+
+/** Backlog items in run order (priority, then insertion) with readiness. */
+export function listBacklog(projectRoot: string): BacklogEntry[] {
+  const backlog = readBacklog(projectRoot);
+  const completed = new Set(backlog.completed);
+  return backlog.items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => a.item.priority - b.item.priority || a.index - b.index)
+    .map(({ item }) => {
+      const waiting_on = item.blocked_by.filter((b) => !completed.has(b));
+      return { ...item, ready: waiting_on.length === 0, waiting_on };
+    });
+}
+
+/** The first ready backlog item in run order, or null. */
+export function nextBacklogItem(projectRoot: string): BacklogEntry | null {
+  return listBacklog(projectRoot).find((e) => e.ready) ?? null;
+}
+
+/** Remove a story from the backlog queue (it has been started). */
+export function removeBacklogItem(projectRoot: string, story: string): void {
+  const backlog = readBacklog(projectRoot);
+  const items = backlog.items.filter((i) => i.story !== story);
+  if (items.length === backlog.items.length) return;
+  writeBacklog(projectRoot, { ...backlog, items });
+}
+
+/**
+ * Record that a story reached "done", unblocking stories that depend on it.
+ * Creates BACKLOG.json when needed, so stories queued later can still be
+ * blocked by — and unblocked by — stories finished before the first
+ * `backlog add`.
+ */
+export function markStoryCompleted(projectRoot: string, story: string): void {
+  const backlog = readBacklog(projectRoot);
+  if (backlog.completed.includes(story)) return;
+  backlog.completed.push(story);
+  writeBacklog(projectRoot, backlog);
+}
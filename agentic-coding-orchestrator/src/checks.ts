@@ -0,0 +1,68 @@
+/**
+ * checks.ts — Named Post-Checks (.ai/checks/)
+ *
+ * Runs a step's post-checks (lint, typecheck, test, format, custom — see
+ * getPostChecks in rules.ts) one after another. Each check's output tail
+ * goes to `.ai/checks/<name>.log`; the CheckResult that lands in STATE only
+ * points at it, and buildPrompt() quotes the tail of failing checks in the
+ * next retry prompt.
+ *
+ * A synchronous shell execution — zero LLM tokens.
+ */
+
+import { existsSync, mkdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { writeFileAtomic } from "./lock";
+import { runShell } from "./shell";
+import type { PostCheck } from "./rules";
+import type { CheckResult } from "./state";
+
+/** Characters of combined stdout + stderr kept per check */
+const OUTPUT_TAIL_CHARS = 16000;
+
+/** Resolve the directory check output is written to */
+export function checksDir(projectRoot: string): string {
+  return join(projectRoot, ".ai", "checks");
+}
+
+/** Run every check (none are skipped after a failure) and write its output tail */
+export function runChecks(projectRoot: string, checks: PostCheck[]): CheckResult[] {
+  if (checks.length > 0) mkdirSync(checksDir(projectRoot), { recursive: true });
+  return checks.map((check) => {
+    const proc = runShell(projectRoot, check.command, check.timeout_sec);
+    const output = `.ai/checks/${check.name}.log`;
+    const status = proc.timed_out
+      ? `timed out after ${check.timeout_sec}s`
+      : proc.error ? `could not run: ${proc.error}` : `exit ${proc.exit_code}`;
+    writeFileAtomic(
+      join(projectRoot, output),
+      `$ ${check.command}\n# ${status} in ${proc.duration_ms}ms\n` +
+        (proc.stdout + proc.stderr).slice(-OUTPUT_TAIL_CHARS),
+    );
+    return {
+      name: check.name,
+      kind: check.kind,
+      command: check.command,
+      required: check.required,
+      passed: proc.exit_code === 0,
+      exit_code: proc.exit_code,
+      timed_out: proc.timed_out,
+      duration_ms: proc.duration_ms,
+      output,
+    };
+  });
+}
+
+/** True unless a required check failed */
+export function checksPassed(results: CheckResult[]): boolean {
+  return results.every((r) => r.passed || !r.required);
+}
+
+/** Last `lines` lines of a check's saved output (without the header), "" if gone */
+export function readCheckOutputTail(projectRoot: string, result: CheckResult, lines: number): string {
+  const path = join(projectRoot, result.output);
+  if (!existsSync(path)) return "";
+  const body = readFileSync(path, "utf-8").split("\n").slice(2);
+  while (body.length > 0 && body[body.length - 1].trim() === "") body.pop();
+  return body.slice(-lines).join("\n");
+}
@@ -7,6 +7,11 @@
  *   start-story <project-root> <story-id>       Begin a new User Story (micro-waterfall)
  *   start-custom <project-root> <instruction>   Begin a custom ad-hoc task
  *   dispatch <project-root>                     Dispatch next step (prints prompt)
+ *   run <project-root> [--until review|done]    Drive the story with an executor until it stops
+ *   watch <workspace-root>                      Daemon: apply fresh HANDOFFs, time out stuck steps
+ *   serve <workspace-root> [--port <n>]         Local HTTP/JSON API + server-sent events
+ *   mcp <project-root>                          MCP stdio server with executor tools
+ *   notify <project-root> [--event <type>]      Send a test event to the configured notifiers
  *   peek <project-root>                         [FIX P1] Read-only dispatch preview
  *   apply-handoff <project-root>                Parse HANDOFF.md → update STATE
  *   approve <project-root> [note]               Approve review step
@@ -15,21 +20,30 @@
  *   check-prereqs <project-root>                Check prerequisite files [v0.6.0]
  *   status <project-root>                       Print current STATE.json
  *   reopen <project-root> <target-step>         Reopen completed story at step [v0.8.0]
+ *   undo <project-root> [n]                     Undo the last n state-changing actions
  *   review <project-root>                       On-demand review session prompt [v0.8.0]
  *   triage <project-root>                       Triage ISSUES into action plan [v0.8.0]
+ *   rules <project-root> [step]                 Print effective step rules + pipeline (defaults + .ai/step-rules.yaml)
+ *   backlog add|list|next <project-root> ...    Story backlog (.ai/BACKLOG.json)
+ *   events <project-root> [filters]             State transition journal (.ai/events.jsonl)
+ *   handoff-schema                              Print the HANDOFF front matter JSON Schema
+ *
+ * dispatch, peek, apply-handoff, approve, reject, rollback, reopen,
+ * report-error and post-check accept `--story <id>` to act on one of several
+ * active stories.
  */
 
 import { resolve } from "path";
-import { execSync } from "child_process";
-import { readState, writeState, initState, writeClaudeMd, appendLog } from "./state";
+import { readState, writeState, initState, writeClaudeMd, appendLog, focusStory, activeStoryIds } from "./state";
 import {
   dispatch,
   peek,
   applyHandoff,
-  runPostCheck,
+  runPostChecks,
   approveReview,
   rejectReview,
   startStory,
+  startNextStory,
   startCustom,
   detectFramework,
   queryProjectStatus,
@@ -37,10 +51,24 @@ import {
   rollback,
   checkPrerequisites,
   reopen,
+  undo,
   review,
   triage,
 } from "./dispatch";
 import { auto } from "./auto";
+import { claudeCodeExecutor, commandExecutor } from "./executor";
+import { runStory, formatTranscriptEntry, RUN_UNTIL, RunUntil, RunStopReason } from "./supervisor";
+import { watchWorkspace } from "./watch";
+import { startServer, DEFAULT_PORT } from "./server";
+import { serveMcp } from "./mcp";
+import { makeNotification, sendNotifications, loadNotifiers, flushNotifications } from "./notify";
+import { NOTIFICATION_EVENT_TYPES, NotificationEventType } from "./step-rules";
+import { getRulesTable } from "./rules";
+import { addBacklogItem, listBacklog } from "./backlog";
+import { withStateLock } from "./lock";
+import { withAction, readEvents, StateEvent } from "./events";
+import { HANDOFF_SCHEMA } from "./handoff";
+import { describeTestRun } from "./test-runner";
 import { readFileSync } from "fs";
 import { join, dirname } from "path";
 
@@ -50,18 +78,29 @@ import { join, dirname } from "path";
 const [, , command, ...rawArgs] = process.argv;
 const args = rawArgs.map(a => a.replace(/[^\x20-\x7E]/g, "").trim());
 
+// `--story <id>` selects one of several active stories. Pulled out up front
+// so the positional arguments of every command stay where they were.
+const storyFlagIdx = args.indexOf("--story");
+const storyFlag = storyFlagIdx >= 0 ? args[storyFlagIdx + 1] : undefined;
+if (storyFlagIdx >= 0) args.splice(storyFlagIdx, 2);
+
 function usage(): never {
   console.error(`Usage: orchestrator <command> [args]
 
 Commands:
   auto <project-root> <message...>                 Unified entry — classify message & route automatically
   init <project-root> <project-name>              Initialize .ai/STATE.json
-  start-story <project-root> <story-id>           Begin a new User Story (micro-waterfall)
+  start-story <project-root> <story-id> [--task-type <type>]
+                                                  Begin a new User Story (micro-waterfall or project pipeline)
   start-custom <project-root> <instruction>       Begin a custom ad-hoc task
   dispatch <project-root>                         Dispatch next step (prints prompt to stdout)
+  run <project-root> [--until review|done] [--command <cmd>] [--max-steps <n>]
+      [--permission-mode <mode>] [--allowed-tools <a,b>]
+                                                  Loop dispatch → executor → apply-handoff until done,
+                                                  needs_human or blocked (default executor: claude -p)
   peek <project-root>                             [NEW] Read-only dispatch preview (no state mutation)
   apply-handoff <project-root>           Parse HANDOFF.md → update STATE.json
-  post-check <project-root>              Run step's post_check command
+  post-check <project-root>              Run the step's post-checks (output in .ai/checks/)
   approve <project-root> [note]          Approve review step
   reject <project-root> <reason> [note]  Reject review step
   status <project-root>                  Print current STATE.json
@@ -70,13 +109,59 @@ Commands:
   query <project-root>                   Project status summary (for OpenClaw)
   detect <project-root>                  Check if project uses the framework
   list-projects <workspace-root>         List all projects in workspace
+  watch <workspace-root> [--interval <sec>] [--settle <ms>]
+                                         Daemon: apply fresh HANDOFF.md files and time out
+                                         stuck steps in every project (events as JSON lines)
+  serve <workspace-root> [--port <n>] [--host <h>] [--token <t>]
+                                         HTTP/JSON API for every project + /events stream
+                                         (default 127.0.0.1:${DEFAULT_PORT}; token also from $ORCHESTRATOR_API_TOKEN,
+                                          generated and printed when neither is set)
+  mcp <project-root>                     MCP server on stdio: get_current_task, submit_handoff,
+                                         check_off_checklist_item, report_clarification_needed
+  notify <project-root> [--event <type>] Send a test event (default: dispatched) to the notifiers
+                                         in .ai/step-rules.yaml \`notify:\` and print the outcomes
   reopen <project-root> <target-step>    Reopen completed story at step [v0.8.0]
+  undo <project-root> [n]                Undo the last n state-changing actions (default 1)
   review <project-root>                  Generate on-demand review session prompt [v0.8.0]
   triage <project-root>                  Triage unfixed ISSUES into action plan [v0.8.0]
+  rules <project-root> [step] [--task-type <type>]
+                                         Print effective step rules + pipeline (defaults + .ai/step-rules.yaml)
+  backlog add <project-root> <story-id> [--title <t>] [--priority <n>] [--complexity S|M|L]
+              [--blocked-by <id,id>] [--task-type <type>]
+                                         Queue a story (.ai/BACKLOG.json)
+  backlog list <project-root>            List queued stories in run order
+  backlog next <project-root>            Start the next unblocked story
+  events <project-root> [--step <s>] [--action <a>] [--since <iso>] [--until <iso>] [--json]
+                                         State transitions from .ai/events.jsonl (--story filters)
+  handoff-schema                         Print the JSON Schema for HANDOFF.md front matter
+
+Options:
+  --story <id>   Act on this active story (dispatch, peek, apply-handoff, approve,
+                 reject, rollback, reopen, report-error, post-check). Default: the focused story.
 `);
   process.exit(1);
 }
 
+/** Value following `--name` in args, or undefined */
+function flagValue(name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+/** One-line summary of a journal event: `ts action(actor) story from → to` */
+function formatEvent(e: StateEvent): string {
+  const at = (s: StateEvent["after"] | null) => (s ? `${s.step}/${s.status}#${s.attempt}` : "(new)");
+  return `${e.ts}  ${e.action}(${e.actor})  ${e.story ?? "-"}  ${at(e.before)} → ${at(e.after)}`;
+}
+
+/**
+ * process.exit() once the notifications queued by dispatch(), applyHandoff(),
+ * approve and reject are delivered — exiting at once would drop them
+ */
+function exitAfterNotifications(code: number): void {
+  void flushNotifications().then(() => process.exit(code));
+}
+
 function resolveRoot(raw: string | undefined): string {
   if (!raw) {
     console.error("Error: <project-root> is required");
@@ -205,7 +290,9 @@ try {
         process.exit(1);
       }
       const force = args.includes("--force");
-      const result = startStory(projectRoot, storyId, { force });
+      const taskTypeIdx = args.indexOf("--task-type");
+      const taskType = taskTypeIdx >= 0 ? args[taskTypeIdx + 1] : undefined;
+      const result = startStory(projectRoot, storyId, { force, taskType });
       if (result.type === "error") {
         console.log(JSON.stringify(result, null, 2));
         console.error(`[start-story] ERROR (${result.code}): ${result.message}`);
@@ -249,7 +336,7 @@ try {
 
     case "dispatch": {
       const projectRoot = resolveRoot(args[0]);
-      const result = dispatch(projectRoot);
+      const result = dispatch(projectRoot, storyFlag);
 
       switch (result.type) {
         case "dispatched": {
@@ -286,7 +373,7 @@ try {
           console.error(`[dispatch] BLOCKED: ${result.reason}`);
           // [FIX P1] Use exit(0) — blocked is an expected orchestrator state,
           // not an error. exit(1) breaks dispatch-claude-code.sh (set -e).
-          process.exit(0);
+          exitAfterNotifications(0);
           break;
         case "already_running":
           console.error(
@@ -299,7 +386,7 @@ try {
           );
           // [FIX P1] Use exit(0) — timeout is an expected orchestrator state.
           // exit(1) would abort dispatch-claude-code.sh before it can retry.
-          process.exit(0);
+          exitAfterNotifications(0);
           break;
         case "error":
           console.log(JSON.stringify(result, null, 2));
@@ -314,7 +401,7 @@ try {
     // [FIX P1] New command: read-only dispatch preview
     case "peek": {
       const projectRoot = resolveRoot(args[0]);
-      const result = peek(projectRoot);
+      const result = peek(projectRoot, storyFlag);
 
       switch (result.type) {
         case "dispatched": {
@@ -361,9 +448,50 @@ try {
       break;
     }
 
+    case "run": {
+      const projectRoot = resolveRoot(args[0]);
+      const until = flagValue("--until") ?? "done";
+      if (!RUN_UNTIL.includes(until as RunUntil)) {
+        console.error(`Error: --until must be one of: ${RUN_UNTIL.join(", ")}`);
+        process.exit(1);
+      }
+      const maxSteps = flagValue("--max-steps");
+      if (maxSteps !== undefined && !(Number(maxSteps) > 0)) {
+        console.error("Error: --max-steps must be a positive number");
+        process.exit(1);
+      }
+      const shellCommand = flagValue("--command");
+      const allowedTools = flagValue("--allowed-tools");
+      const executor = shellCommand
+        ? commandExecutor(shellCommand)
+        : claudeCodeExecutor({
+            permissionMode: flagValue("--permission-mode"),
+            allowedTools: allowedTools ? allowedTools.split(",").map((t) => t.trim()).filter(Boolean) : [],
+          });
+
+      console.error(`[run] ${projectRoot} with ${executor.name}, until ${until}`);
+      runStory(projectRoot, executor, {
+        until: until as RunUntil,
+        storyId: storyFlag,
+        maxSteps: maxSteps !== undefined ? Number(maxSteps) : undefined,
+        onStep: (entry) => console.error(`[run] ${formatTranscriptEntry(entry)}`),
+      }).then((result) => {
+        console.log(JSON.stringify(result, null, 2));
+        console.error(`[run] STOPPED (${result.stopped}) at ${result.story ?? "-"} ${result.step}: ${result.message}`);
+        // Reaching a checkpoint is the expected end of a run
+        const expected: RunStopReason[] = ["done", "review", "needs_human"];
+        process.exit(expected.includes(result.stopped) ? 0 : result.stopped === "error" ? 1 : 2);
+      }).catch((err: Error) => {
+        console.log(JSON.stringify({ type: "error", code: "INTERNAL_ERROR", message: err.message }, null, 2));
+        console.error(`[INTERNAL] ${err.message}`);
+        process.exit(127);
+      });
+      break;
+    }
+
     case "apply-handoff": {
       const projectRoot = resolveRoot(args[0]);
-      const result = applyHandoff(projectRoot);
+      const result = applyHandoff(projectRoot, storyFlag);
       console.log(JSON.stringify(result, null, 2));
       if (result.type === "error") {
         console.error(`[apply-handoff] ERROR (${result.code}): ${result.message}`);
@@ -383,22 +511,51 @@ try {
         console.error(
           `[apply-handoff] Applied → step: ${s.step}, status: ${s.status}, reason: ${s.reason ?? "(none)"}`,
         );
+        for (const issue of result.validation) {
+          console.error(`[apply-handoff] SCHEMA (${issue.kind}): ${issue.message}`);
+        }
+        if (result.test_run) {
+          console.error(`[apply-handoff] TESTS: ${describeTestRun(result.test_run)}`);
+        }
+        if (result.files?.unreported.length) {
+          console.error(`[apply-handoff] FILES: changed but not reported: ${result.files.unreported.join(", ")}`);
+        }
+        if (result.files?.untouched.length) {
+          console.error(`[apply-handoff] FILES: reported but untouched: ${result.files.untouched.join(", ")}`);
+        }
+        if (result.scope && result.scope.violations.length > 0) {
+          console.error(`[apply-handoff] SCOPE (${result.scope.mode}): outside claude_writes: ${result.scope.violations.join(", ")}`);
+        }
+        for (const c of result.post_checks?.checks ?? []) {
+          const outcome = c.passed ? "passed" : c.timed_out ? "timed out" : `failed (exit ${c.exit_code})`;
+          console.error(`[apply-handoff] POST_CHECK ${c.name}${c.required ? "" : " (optional)"}: ${outcome} — ${c.output}`);
+        }
       }
       break;
     }
 
     case "post-check": {
       const projectRoot = resolveRoot(args[0]);
-      const passed = runPostCheck(projectRoot, execSync as any);
-      console.log(passed ? "post_check: PASSED" : "post_check: FAILED");
-      if (!passed) process.exit(1);
+      let report;
+      try {
+        report = runPostChecks(projectRoot, storyFlag);
+      } catch (err) {
+        console.error(`Error: ${(err as Error).message}`);
+        process.exit(1);
+      }
+      for (const c of report.checks) {
+        const outcome = c.passed ? "PASSED" : c.timed_out ? "TIMED OUT" : `FAILED (exit ${c.exit_code})`;
+        console.log(`${c.name}${c.required ? "" : " (optional)"}: ${outcome} in ${c.duration_ms}ms — ${c.output}`);
+      }
+      console.log(report.passed ? "post_check: PASSED" : "post_check: FAILED");
+      if (!report.passed) process.exit(1);
       break;
     }
 
     case "approve": {
       const projectRoot = resolveRoot(args[0]);
       const note = args[1] || undefined;
-      const approveResult = approveReview(projectRoot, note);
+      const approveResult = approveReview(projectRoot, note, storyFlag);
       if (approveResult.type === "error") {
         console.log(JSON.stringify(approveResult, null, 2));
         console.error(`[approve] ERROR (${approveResult.code}): ${approveResult.message}`);
@@ -418,7 +575,7 @@ try {
         process.exit(1);
       }
       const note = args[2] || undefined;
-      const rejectResult = rejectReview(projectRoot, reason, note);
+      const rejectResult = rejectReview(projectRoot, reason, note, storyFlag);
       if (rejectResult.type === "error") {
         console.log(JSON.stringify(rejectResult, null, 2));
         console.error(`[reject] ERROR (${rejectResult.code}): ${rejectResult.message}`);
@@ -468,6 +625,99 @@ try {
       break;
     }
 
+    case "watch": {
+      const workspaceRoot = resolveRoot(args[0]);
+      const interval = flagValue("--interval");
+      const settle = flagValue("--settle");
+      if ((interval !== undefined && !(Number(interval) > 0)) || (settle !== undefined && !(Number(settle) >= 0))) {
+        console.error("Error: --interval must be a positive number of seconds, --settle a number of ms");
+        process.exit(1);
+      }
+      const watcher = watchWorkspace(workspaceRoot, {
+        interval_ms: interval !== undefined ? Number(interval) * 1000 : undefined,
+        settle_ms: settle !== undefined ? Number(settle) : undefined,
+        listeners: [
+          (event) => {
+            // One JSON object per line on stdout, a readable line on stderr
+            console.log(JSON.stringify(event));
+            console.error(`[watch] ${event.type} ${event.story ?? "-"} ${event.step ?? "-"}: ${event.message}`);
+          },
+        ],
+      });
+      console.error(`[watch] ${workspaceRoot}: watching ${watcher.projects.length} project(s). Ctrl-C to stop.`);
+      const shutdown = () => {
+        watcher.stop();
+        exitAfterNotifications(0);
+      };
+      process.on("SIGINT", shutdown);
+      process.on("SIGTERM", shutdown);
+      break;
+    }
+
+    case "serve": {
+      const workspaceRoot = resolveRoot(args[0]);
+      const port = flagValue("--port");
+      if (port !== undefined && !(Number.isInteger(Number(port)) && Number(port) >= 0 && Number(port) < 65536)) {
+        console.error("Error: --port must be a port number (0-65535)");
+        process.exit(1);
+      }
+      const token = flagValue("--token") ?? process.env.ORCHESTRATOR_API_TOKEN;
+      startServer(workspaceRoot, {
+        port: port !== undefined ? Number(port) : undefined,
+        host: flagValue("--host"),
+        token,
+      })
+        .then((api) => {
+          console.error(`[serve] ${workspaceRoot}: listening on ${api.url}. Ctrl-C to stop.`);
+          if (!token) console.error(`[serve] Generated token: ${api.token}`);
+          const shutdown = () => {
+            api.close().then(() => exitAfterNotifications(0));
+          };
+          process.on("SIGINT", shutdown);
+          process.on("SIGTERM", shutdown);
+        })
+        .catch((err: Error) => {
+          console.error(`[serve] ERROR: ${err.message}`);
+          process.exit(1);
+        });
+      break;
+    }
+
+    case "mcp": {
+      // stdout carries the protocol — nothing else may be printed to it
+      const projectRoot = resolveRoot(args[0]);
+      serveMcp(projectRoot).then(() => exitAfterNotifications(0));
+      break;
+    }
+
+    // Check a project's notify: config end to end
+    case "notify": {
+      const projectRoot = resolveRoot(args[0]);
+      const type = (flagValue("--event") ?? "dispatched") as NotificationEventType;
+      if (!NOTIFICATION_EVENT_TYPES.includes(type)) {
+        console.error(`Error: --event must be one of ${NOTIFICATION_EVENT_TYPES.join(", ")}`);
+        process.exit(1);
+      }
+      const notifiers = loadNotifiers(projectRoot);
+      if (notifiers.length === 0) {
+        console.error("[notify] No notifiers configured (notify: in .ai/step-rules.yaml)");
+        process.exit(1);
+      }
+      const state = (() => { try { return readState(projectRoot); } catch { return null; } })();
+      const event = makeNotification(projectRoot, type, {
+        story: storyFlag ?? state?.story ?? null,
+        step: state?.step ?? null,
+        attempt: state?.attempt ?? null,
+        message: `Test ${type} notification from orchestrator notify`,
+      });
+      sendNotifications(projectRoot, [event], notifiers).then((outcomes) => {
+        for (const o of outcomes) console.log(`${o.ok ? "OK    " : "FAILED"} ${o.notifier}${o.error ? `: ${o.error}` : ""}`);
+        if (outcomes.length === 0) console.error(`[notify] No notifier subscribes to ${type}`);
+        process.exit(outcomes.length > 0 && outcomes.every((o) => o.ok) ? 0 : 1);
+      });
+      break;
+    }
+
     // [v0.6.0] Rollback to a previous step
     case "rollback": {
       const projectRoot = resolveRoot(args[0]);
@@ -480,7 +730,7 @@ try {
         process.exit(1);
       }
       const force = args.includes("--force");
-      const rollbackResult = rollback(projectRoot, targetStep, { force });
+      const rollbackResult = rollback(projectRoot, targetStep, { force, story: storyFlag });
       if (rollbackResult.type === "error") {
         console.log(JSON.stringify(rollbackResult, null, 2));
         console.error(`[rollback] ERROR (${rollbackResult.code}): ${rollbackResult.message}`);
@@ -524,13 +774,25 @@ try {
         );
         process.exit(1);
       }
-      const state = readState(projectRoot);
-      state.status = "failing";
-      state.completed_at = new Date().toISOString();
-      state.last_error = errorMsg;
-      writeState(projectRoot, state);
-      appendLog(projectRoot, "ERROR", "cli:report-error", `step="${state.step}" ${errorMsg}`);
-      console.log(`Recorded error for step "${state.step}": ${errorMsg}`);
+      const reported = withStateLock(projectRoot, () => withAction("reportError", () => {
+        const state = readState(projectRoot);
+        if (storyFlag && !focusStory(state, storyFlag)) return null;
+        state.status = "failing";
+        state.completed_at = new Date().toISOString();
+        state.last_error = errorMsg;
+        writeState(projectRoot, state);
+        return state.step;
+      }));
+      if (!reported.acquired) {
+        console.error(`Error (LOCKED): ${reported.message}`);
+        process.exit(1);
+      }
+      if (reported.value === null) {
+        console.error(`Error: story "${storyFlag}" is not active`);
+        process.exit(1);
+      }
+      appendLog(projectRoot, "ERROR", "cli:report-error", `step="${reported.value}" ${errorMsg}`);
+      console.log(`Recorded error for step "${reported.value}": ${errorMsg}`);
       break;
     }
 
@@ -546,7 +808,7 @@ try {
         process.exit(1);
       }
       const humanNote = args[2] || undefined;
-      const reopenResult = reopen(projectRoot, targetStep, { humanNote });
+      const reopenResult = reopen(projectRoot, targetStep, { humanNote, story: storyFlag });
       if (reopenResult.type === "error") {
         console.log(JSON.stringify(reopenResult, null, 2));
         console.error(`[reopen] ERROR (${reopenResult.code}): ${reopenResult.message}`);
@@ -559,6 +821,20 @@ try {
       break;
     }
 
+    // Restore STATE (and CHECKLIST.md) from before the last n actions
+    case "undo": {
+      const projectRoot = resolveRoot(args[0]);
+      const steps = args[1] ? Number(args[1]) : 1;
+      const undoResult = undo(projectRoot, steps);
+      if (undoResult.type === "error") {
+        console.log(JSON.stringify(undoResult, null, 2));
+        console.error(`[undo] ERROR (${undoResult.code}): ${undoResult.message}`);
+        process.exit(undoResult.recoverable ? 2 : 1);
+      }
+      console.log(undoResult.message);
+      break;
+    }
+
     // [v0.8.0] On-demand review session — generate prompt
     case "review": {
       const projectRoot = resolveRoot(args[0]);
@@ -586,6 +862,116 @@ try {
       break;
     }
 
+    // Effective rules table — validates .ai/step-rules.yaml
+    case "rules": {
+      const projectRoot = resolveRoot(args[0]);
+      const taskTypeIdx = args.indexOf("--task-type");
+      const taskType = taskTypeIdx >= 0 ? args[taskTypeIdx + 1] : undefined;
+      const step = args[1] && !args[1].startsWith("--") ? args[1] : undefined;
+      let table;
+      try {
+        table = getRulesTable(projectRoot, taskType);
+      } catch (err) {
+        const result = { type: "error", code: "INVALID_STEP_RULES", message: (err as Error).message, recoverable: false };
+        console.log(JSON.stringify(result, null, 2));
+        console.error(`[rules] ERROR (INVALID_STEP_RULES): ${result.message}`);
+        process.exit(1);
+      }
+      if (step) {
+        const rule = step === "bootstrap" ? table.bootstrap : table.steps[step];
+        if (!rule) {
+          console.error(`Error: unknown step "${step}"`);
+          process.exit(1);
+        }
+        console.log(JSON.stringify(rule, null, 2));
+      } else {
+        console.log(JSON.stringify({ pipeline: table.pipeline, rules: { bootstrap: table.bootstrap, ...table.steps } }, null, 2));
+      }
+      console.error(`[rules] source: ${table.source ?? "(defaults only)"}`);
+      break;
+    }
+
+    // State transition journal — filter by story, step, action, time range
+    case "events": {
+      const projectRoot = resolveRoot(args[0]);
+      const since = flagValue("--since");
+      const until = flagValue("--until");
+      for (const bound of [since, until]) {
+        if (bound !== undefined && Number.isNaN(Date.parse(bound))) {
+          console.error(`Error: invalid time "${bound}" (use ISO 8601, e.g. 2026-01-31T09:00:00Z)`);
+          process.exit(1);
+        }
+      }
+      const events = readEvents(projectRoot, {
+        story: storyFlag,
+        step: flagValue("--step"),
+        action: flagValue("--action"),
+        since,
+        until,
+      });
+      if (args.includes("--json")) {
+        for (const e of events) console.log(JSON.stringify(e));
+      } else {
+        for (const e of events) console.log(formatEvent(e));
+      }
+      console.error(`[events] ${events.length} event(s)`);
+      break;
+    }
+
+    // Versioned JSON Schema that applyHandoff validates front matter against
+    case "handoff-schema": {
+      console.log(JSON.stringify(HANDOFF_SCHEMA, null, 2));
+      break;
+    }
+
+    // Story backlog — queue with priorities and blocked_by edges
+    case "backlog": {
+      const sub = args[0];
+      const projectRoot = resolveRoot(args[1]);
+      if (sub === "add") {
+        const storyId = args[2];
+        if (!storyId || storyId.startsWith("--")) {
+          console.error("Error: <story-id> is required");
+          console.error("Example: orchestrator backlog add ./project US-009 --priority 1 --blocked-by US-007");
+          process.exit(1);
+        }
+        const priority = flagValue("--priority");
+        const blockedBy = flagValue("--blocked-by");
+        const state = (() => { try { return readState(projectRoot); } catch { return null; } })();
+        const result = addBacklogItem(projectRoot, storyId, {
+          title: flagValue("--title"),
+          priority: priority !== undefined ? Number(priority) : undefined,
+          complexity: flagValue("--complexity"),
+          blockedBy: blockedBy ? blockedBy.split(",").map((b) => b.trim()).filter(Boolean) : [],
+          taskType: flagValue("--task-type"),
+          knownStories: state ? activeStoryIds(state) : [],
+        });
+        if (result.type === "error") {
+          console.log(JSON.stringify(result, null, 2));
+          console.error(`[backlog] ERROR (${result.code}): ${result.message}`);
+          process.exit(1);
+        }
+        console.log(result.message);
+      } else if (sub === "list") {
+        const entries = listBacklog(projectRoot);
+        console.log(JSON.stringify(entries, null, 2));
+        console.error(`[backlog] ${entries.length} queued, ${entries.filter((e) => e.ready).length} ready`);
+      } else if (sub === "next") {
+        const result = startNextStory(projectRoot);
+        if (result.type === "error") {
+          console.log(JSON.stringify(result, null, 2));
+          console.error(`[backlog] ${result.code}: ${result.message}`);
+          // Empty / all-blocked backlog is an expected state, not a failure
+          process.exit(result.code === "BACKLOG_EMPTY" || result.code === "BACKLOG_BLOCKED" ? 0 : 1);
+        }
+        console.log(`Started story ${result.state.story} (step: ${result.state.step}, attempt: ${result.state.attempt})`);
+      } else {
+        console.error("Usage: orchestrator backlog add|list|next <project-root> ...");
+        process.exit(1);
+      }
+      break;
+    }
+
     default:
       if (command) {
         console.error(`Unknown command: ${command}`);
@@ -8,9 +8,17 @@
  * Main entry points:
  *   dispatch(projectRoot)  — dispatch next step (mutates STATE)
  *   peek(projectRoot)      — [FIX P1] read-only dispatch preview (no mutation)
+ *
+ * Every mutating entry point runs its read-modify-write of STATE.json under
+ * `.ai/STATE.lock` (see lock.ts) and returns a recoverable LOCKED error if
+ * another process holds it past LOCK_TIMEOUT_MS.
+ *
+ * Multi-story: STATE's flat fields are the focused story; other active stories
+ * are parked in `state.stories`. Entry points that take a story id focus that
+ * story first (see focusStory in state.ts).
  */
 
-import { existsSync, readFileSync, writeFileSync, mkdirSync, unlinkSync, statSync } from "fs";
+import { existsSync, readFileSync, writeFileSync, mkdirSync, statSync } from "fs";
 import { join } from "path";
 import {
   readState,
@@ -20,18 +28,70 @@ import {
   isMaxedOut,
   markRunning,
   sanitize,
+  normalizeStatus,
   appendLog,
   appendHistory,
+  focusStory,
+  parkStory,
+  activeStoryIds,
+  StateConflictError,
+  migrateState,
+  repairState,
+  statePath,
   State,
+  CheckResult,
+  CommitRecord,
 } from "./state";
 import {
   getRule,
+  getRulesTable,
   resolvePaths,
   getFailTarget,
   getStepSequence,
+  getDispatchMode,
+  getPostChecks,
   StepRule,
   DEFAULT_TEAM_ROLES,
 } from "./rules";
+import { withStateLock, LockResult, writeFileAtomic } from "./lock";
+import { withAction } from "./events";
+import {
+  parseHandoff,
+  parseHandoffContent,
+  formatHandoff,
+  handoffPath,
+  HandoffParseError,
+  HandoffData,
+  HandoffFields,
+  HandoffIssue,
+  validateHandoff,
+} from "./handoff";
+import { readFailingTests } from "./test-reports";
+import { runTestCommand, describeTestRun, TestRun } from "./test-runner";
+import { readStepRuleOverrides, ScopeMode, GitConfig, GIT_DEFAULTS } from "./step-rules";
+import { runChecks, checksPassed, readCheckOutputTail } from "./checks";
+import {
+  filesChangedSince,
+  filesChangedSinceSnapshot,
+  isGitRepo,
+  currentBranch,
+  switchToBranch,
+  findStoryCommit,
+  uncommittedFiles,
+  resolveCommit,
+  isOnBranch,
+  CommitInfo,
+} from "./git";
+import { findScopeViolations, matchesAnyGlob, ALWAYS_WRITABLE } from "./scope";
+import { withUndo, readUndoStack, writeUndoStack, restoreSnapshotFiles } from "./undo";
+import {
+  listBacklog,
+  nextBacklogItem,
+  removeBacklogItem,
+  markStoryCompleted,
+  BacklogEntry,
+} from "./backlog";
+import { queueNotifications, dispatchNotifications, resultNotifications, NotificationEvent } from "./notify";
 
 // ─── Config Constants ────────────────────────────────────────────────────────
 
@@ -79,15 +139,30 @@ const STEP_ALIAS_MAP: Record<string, string> = {
 
 export type DispatchResult =
   | { type: "dispatched"; project: string | null; story: string | null; step: string; attempt: number; prompt: string; fw_lv: number }
-  | { type: "done"; story: string; summary: string; review_suggested?: boolean }
-  | { type: "needs_human"; step: string; message: string }
-  | { type: "blocked"; step: string; reason: string }
-  | { type: "already_running"; step: string; elapsed_min: number; last_error: string | null }
-  | { type: "timeout"; step: string; elapsed_min: number; last_error: string | null }
-  | { type: "error"; code: string; message: string; step?: string; recoverable: boolean };
+  | {
+      type: "done";
+      story: string;
+      summary: string;
+      commits: CommitRecord[];
+      review_suggested?: boolean;
+      next_story?: string;
+    }
+  | { type: "needs_human"; story: string | null; step: string; message: string }
+  | { type: "blocked"; story: string | null; step: string; reason: string }
+  | { type: "already_running"; story: string | null; step: string; elapsed_min: number; last_error: string | null }
+  | { type: "timeout"; story: string | null; step: string; elapsed_min: number; last_error: string | null }
+  | { type: "error"; code: string; message: string; step?: string; state?: State; recoverable: boolean };
 
 export type HandoffResult =
-  | { type: "applied"; state: State }
+  | {
+      type: "applied";
+      state: State;
+      validation: HandoffIssue[];
+      test_run?: TestRun;
+      post_checks?: PostCheckReport;
+      scope?: ScopeReport;
+      files?: FilesReport;
+    }
   | { type: "stale"; state: State; message: string }
   | { type: "pending"; state: State; message: string }
   | { type: "missing"; state: State; message: string }
@@ -95,7 +170,7 @@ export type HandoffResult =
 
 export type ActionResult =
   | { type: "ok"; state: State; message: string }
-  | { type: "error"; code: string; message: string; recoverable: boolean };
+  | { type: "error"; code: string; message: string; state?: State; recoverable: boolean };
 
 // ─── Main Dispatch Function ──────────────────────────────────────────────────
 
@@ -108,9 +183,14 @@ export type ActionResult =
  *
  * This function updates STATE.json as a side effect (marks running, advances
  * steps, etc.).
+ *
+ * With `storyId`, that active story is focused first. Without it, the focused
+ * story is used — or the first parked story once the focused one is done.
  */
-export function dispatch(projectRoot: string): DispatchResult {
-  return _dispatch(projectRoot, false);
+export function dispatch(projectRoot: string, storyId?: string): DispatchResult {
+  return locked(projectRoot, "dispatch", () =>
+    notifying(projectRoot, () => _dispatch(projectRoot, false, storyId), (r) => dispatchNotifications(projectRoot, r)),
+  );
 }
 
 /**
@@ -122,12 +202,12 @@ export function dispatch(projectRoot: string): DispatchResult {
  *   - Monitoring / debugging without state contamination
  *   - OpenClaw dry-run checks
  */
-export function peek(projectRoot: string): DispatchResult {
-  return _dispatch(projectRoot, true);
+export function peek(projectRoot: string, storyId?: string): DispatchResult {
+  return _dispatch(projectRoot, true, storyId);
 }
 
 /** Internal dispatch implementation with optional dry-run mode */
-function _dispatch(projectRoot: string, dryRun: boolean): DispatchResult {
+function _dispatch(projectRoot: string, dryRun: boolean, storyId?: string): DispatchResult {
   let state: State;
   try {
     state = readState(projectRoot);
@@ -141,9 +221,21 @@ function _dispatch(projectRoot: string, dryRun: boolean): DispatchResult {
     };
   }
 
+  const rulesError = checkStepRules(projectRoot, "dispatch");
+  if (rulesError) return rulesError;
+
+  if (storyId) {
+    const storyError = selectStory(projectRoot, state, storyId, "dispatch");
+    if (storyError) return storyError;
+  } else if (state.step === "done") {
+    const [next] = Object.keys(state.stories);
+    if (next) focusStory(state, next);
+  }
+
   try {
     return _dispatchInner(projectRoot, state, dryRun);
   } catch (err) {
+    rethrowConflict(err);
     // Catch-all: record error in state and return structured result
     const msg = (err as Error).message;
     state.last_error = `[dispatch] ${msg}`;
@@ -166,11 +258,12 @@ function _dispatchInner(projectRoot: string, state: State, dryRun: boolean): Dis
     return {
       type: "done",
       story: state.story ?? "(no story)",
-      summary: `Story ${state.story} completed.`,
+      summary: `Story ${state.story} completed.${describeCommits(state)}`,
+      commits: state.commits,
     };
   }
 
-  const rule = getRule(state.step);
+  const rule = getRule(state.step, projectRoot, state.task_type);
 
   // ── Running state check ──
   if (state.status === "running") {
@@ -180,11 +273,12 @@ function _dispatchInner(projectRoot: string, state: State, dryRun: boolean): Dis
         state.status = "timeout";
         state.completed_at = new Date().toISOString();
         state.last_error = `Step "${state.step}" timed out after ${elapsed.toFixed(1)} min (limit: ${state.timeout_min} min)`;
-        writeState(projectRoot, state);
+        withAction("timeout", () => writeState(projectRoot, state));
         appendLog(projectRoot, "TIMEOUT", "dispatch", `Step "${state.step}" timed out after ${elapsed.toFixed(1)}min (limit: ${state.timeout_min}min)`);
       }
       return {
         type: "timeout",
+        story: state.story,
         step: state.step,
         elapsed_min: elapsed,
         last_error: state.last_error,
@@ -196,6 +290,7 @@ function _dispatchInner(projectRoot: string, state: State, dryRun: boolean): Dis
     if (!dryRun) {
       return {
         type: "already_running",
+        story: state.story,
         step: state.step,
         elapsed_min: elapsedMinutes(state.dispatched_at!),
         last_error: state.last_error,
@@ -211,8 +306,9 @@ function _dispatchInner(projectRoot: string, state: State, dryRun: boolean): Dis
     }
     return {
       type: "needs_human",
+      story: state.story,
       step: state.step,
-      message: formatReviewRequest(state),
+      message: formatReviewRequest(state, rule),
     };
   }
 
@@ -236,7 +332,9 @@ function _dispatchInner(projectRoot: string, state: State, dryRun: boolean): Dis
     state.tests = null;
     state.failing_tests = [];
     state.lint_pass = null;
+    state.checks = [];
     state.files_changed = [];
+    state.files_changed_actual = null;
 
     // Check if we just reached "done"
     if (state.step === "done") {
@@ -254,23 +352,35 @@ function _dispatchInner(projectRoot: string, state: State, dryRun: boolean): Dis
       const result: any = {
         type: "done",
         story: state.story ?? "(no story)",
-        summary: `Story ${state.story} completed. All steps passed.`,
+        summary: `Story ${state.story} completed. All steps passed.${describeCommits(state)}`,
+        commits: state.commits,
       };
       if (review_suggested) {
         result.review_suggested = true;
       }
+
+      // Backlog: unblock dependents and start the next ready story
+      if (!dryRun && state.story) {
+        markStoryCompleted(projectRoot, state.story);
+        const next = startNextStory(projectRoot);
+        if (next.type === "ok") {
+          result.next_story = next.state.story;
+          result.summary += ` Started ${next.state.story} from the backlog.`;
+        }
+      }
       return result;
     }
 
     // Recurse: the new step might also require human
-    const newRule = getRule(state.step);
+    const newRule = getRule(state.step, projectRoot, state.task_type);
     if (newRule.requires_human) {
       state.status = "needs_human";
       if (!dryRun) writeState(projectRoot, state);
       return {
         type: "needs_human",
+        story: state.story,
         step: state.step,
-        message: formatReviewRequest(state),
+        message: formatReviewRequest(state, newRule),
       };
     }
 
@@ -289,6 +399,7 @@ function _dispatchInner(projectRoot: string, state: State, dryRun: boolean): Dis
       }
       return {
         type: "blocked",
+        story: state.story,
         step: state.step,
         reason:
           `Max attempts (${state.max_attempts}) exhausted at step "${state.step}". ` +
@@ -300,14 +411,14 @@ function _dispatchInner(projectRoot: string, state: State, dryRun: boolean): Dis
 
     // Feature 1: Escalation logic for post-reopen verify failures
     // If verify fails after reopen with no explicit reason, escalate by rolling back one step deeper
-    let target = getFailTarget(state.step, state.reason);
+    let target = getFailTarget(state.step, state.reason, projectRoot, state.task_type);
     if (
       state.step === "verify" &&
       state.reopened_from !== null &&
       state.reason === null  // only escalate for pure RED failure (no specific reason)
     ) {
       // Find the step before reopened_from
-      const earlierStep = getEarlierStep(state.reopened_from);
+      const earlierStep = getEarlierStep(state.reopened_from, projectRoot, state.task_type);
       if (earlierStep !== null) {
         // Escalate to the earlier step (overriding normal routing)
         target = earlierStep;
@@ -328,7 +439,7 @@ function _dispatchInner(projectRoot: string, state: State, dryRun: boolean): Dis
       // Route to different step
       state.step = target;
       state.attempt = 1;
-      const targetRule = getRule(target);
+      const targetRule = getRule(target, projectRoot, state.task_type);
       state.max_attempts = targetRule.max_attempts;
       state.timeout_min = targetRule.timeout_min;
     } else {
@@ -342,8 +453,8 @@ function _dispatchInner(projectRoot: string, state: State, dryRun: boolean): Dis
   const prereq = checkPrerequisites(projectRoot);
 
   // ── Dispatch executor ──
-  const currentRule = getRule(state.step);
-  let prompt = buildPrompt(state, currentRule);
+  const currentRule = getRule(state.step, projectRoot, state.task_type);
+  let prompt = buildPrompt(state, currentRule, projectRoot);
 
   // Append prerequisite warnings to prompt if files missing
   if (!prereq.ok) {
@@ -367,8 +478,20 @@ function _dispatchInner(projectRoot: string, state: State, dryRun: boolean): Dis
   // Detect framework adoption level so caller knows the context richness
   const framework = detectFramework(projectRoot);
 
+  // Story branch: the executor works in whatever is checked out
+  if (state.branch) {
+    const onBranch = currentBranch(projectRoot);
+    if (onBranch !== null && onBranch !== state.branch) {
+      const message =
+        `Story ${state.story} works on branch "${state.branch}" but "${onBranch}" is checked out. ` +
+        `Run: git checkout ${state.branch}`;
+      if (!dryRun) appendLog(projectRoot, "WARN", "dispatch", `WRONG_BRANCH: ${message}`);
+      return { type: "error", code: "WRONG_BRANCH", message, step: state.step, recoverable: true };
+    }
+  }
+
   if (!dryRun) {
-    const running = markRunning(state);
+    const running = markRunning(state, projectRoot);
     writeState(projectRoot, running);
   }
 
@@ -385,11 +508,18 @@ function _dispatchInner(projectRoot: string, state: State, dryRun: boolean): Dis
 
 // ─── Prompt Builder ──────────────────────────────────────────────────────────
 
+/** Failing test names listed in a prompt; the rest are summarized as a count */
+const MAX_PROMPT_FAILING_TESTS = 30;
+
+/** Output lines quoted per failing post-check */
+const PROMPT_CHECK_OUTPUT_LINES = 20;
+
 /**
  * Build the dispatch prompt from the template.
- * Pure template filling — zero LLM reasoning.
+ * Pure template filling — zero LLM reasoning. With `projectRoot`, failing
+ * post-checks are quoted from their .ai/checks/ output.
  */
-export function buildPrompt(state: State, rule: StepRule): string {
+export function buildPrompt(state: State, rule: StepRule, projectRoot?: string): string {
   const storyId = state.story ?? "BOOTSTRAP";
   const reads = resolvePaths(rule.claude_reads, storyId);
 
@@ -421,12 +551,34 @@ export function buildPrompt(state: State, rule: StepRule): string {
     lines.push("");
   }
 
-  // Previous failure context
-  if (state.attempt > 1 && state.failing_tests.length > 0) {
+  // Previous failure context — also after a failing verify routed back to impl
+  if (state.failing_tests.length > 0) {
     lines.push("Previous attempt had these failing tests:");
-    for (const t of state.failing_tests) {
+    for (const t of state.failing_tests.slice(0, MAX_PROMPT_FAILING_TESTS)) {
       lines.push(`- ${t}`);
     }
+    if (state.failing_tests.length > MAX_PROMPT_FAILING_TESTS) {
+      lines.push(`- ... and ${state.failing_tests.length - MAX_PROMPT_FAILING_TESTS} more`);
+    }
+    lines.push("");
+  }
+
+  if (state.reason === "scope_violation" && state.last_error) {
+    lines.push("Previous attempt was rejected for writing outside this step's scope:");
+    lines.push(`- ${state.last_error.replace(/^\[scope\] /, "")}`);
+    lines.push("Revert those changes, or leave them for the step that owns them.");
+    lines.push("");
+  }
+
+  const failedChecks = state.checks.filter((c) => !c.passed);
+  if (failedChecks.length > 0) {
+    lines.push("Post-checks failed after the previous attempt:");
+    for (const c of failedChecks) {
+      const outcome = c.timed_out ? "timed out" : `exited ${c.exit_code}`;
+      lines.push(`- ${c.name}${c.required ? "" : " (optional)"}: \`${c.command}\` ${outcome} — full output in ${c.output}`);
+      const tail = projectRoot ? readCheckOutputTail(projectRoot, c, PROMPT_CHECK_OUTPUT_LINES) : "";
+      if (tail) lines.push("```", tail, "```");
+    }
     lines.push("");
   }
 
@@ -547,6 +699,9 @@ export function buildPrompt(state: State, rule: StepRule): string {
   lines.push(
     "  - YAML front matter: fill in story, step, attempt, status, reason, files_changed, tests values",
   );
+  lines.push(
+    "  - If tests fail, list them under failing_tests, or point test_reports at the runner's JUnit XML / TAP / JSON report",
+  );
   lines.push(
     "  - Markdown body: record what was done, what's unresolved, what next session should note",
   );
@@ -579,183 +734,370 @@ export function buildPrompt(state: State, rule: StepRule): string {
 
 // ─── Handoff Parser ──────────────────────────────────────────────────────────
 
-export interface HandoffData {
-  story: string | null;
-  step: string | null;
-  attempt: number | null;
-  status: string | null;
-  reason: string | null;
-  files_changed: string[];
-  tests_pass: number | null;
-  tests_fail: number | null;
-  tests_skip: number | null;
-  body: string;
+// Parsing lives in handoff.ts; re-exported here for existing importers.
+export { parseHandoff };
+export type { HandoffData };
+
+// ─── Post-Hook: Apply HANDOFF Results to STATE ───────────────────────────────
+
+/**
+ * After executor exits, read HANDOFF.md and update STATE.json accordingly.
+ * This is the TypeScript equivalent of the Protocol's post-execution hook.
+ *
+ * Call this after the executor process exits, before the next dispatch().
+ *
+ * Returns a structured HandoffResult so the caller (hook, LLM, CLI) can
+ * see exactly what happened — never throws.
+ *
+ * The HANDOFF is applied to `storyId` if given, else to the story named in
+ * its front matter when that story is active, else to the focused story.
+ */
+export function applyHandoff(projectRoot: string, storyId?: string): HandoffResult {
+  // The project's test command and post-checks may run for minutes — run
+  // them before taking the lock; _applyHandoff() discards the results if the
+  // story moved on meanwhile.
+  const target = readHandoffTarget(projectRoot, storyId);
+  const tests = target && runTestsForHandoff(projectRoot, target);
+  const checks = target && runChecksForHandoff(projectRoot, target);
+  return locked(projectRoot, "applyHandoff", () =>
+    notifying(projectRoot, () => _applyHandoff(projectRoot, storyId, tests, checks), (r) => resultNotifications(projectRoot, r)),
+  );
 }
 
+/** Statuses an executor may report in a submitted HANDOFF */
+const HANDOFF_STATUSES = ["pass", "failing", "needs_human"];
+
 /**
- * Parse HANDOFF.md — prioritize YAML front matter, fallback to grep.
- * Direct translation of Protocol's hook pseudocode.
+ * Write HANDOFF.md from structured fields and apply it — the MCP
+ * `submit_handoff` path. story, step and attempt default to the running
+ * story's. Fields that do not match HANDOFF_SCHEMA are refused
+ * (HANDOFF_INVALID) before anything is written, so the executor can fix
+ * and resubmit.
  */
-export function parseHandoff(projectRoot: string): HandoffData | null {
-  const handoffPath = join(projectRoot, ".ai", "HANDOFF.md");
-  if (!existsSync(handoffPath)) return null;
-  const content = readFileSync(handoffPath, "utf-8");
-  const lines = content.split("\n");
+export function submitHandoff(
+  projectRoot: string,
+  fields: HandoffFields,
+  body = "",
+  storyId?: string,
+): HandoffResult {
+  let state: State;
+  try {
+    state = readState(projectRoot);
+  } catch (err) {
+    return { type: "error", code: "STATE_NOT_FOUND", message: (err as Error).message, recoverable: false };
+  }
+  const target = storyId ?? fields.story;
+  const storyError = selectStory(projectRoot, state, target, "submitHandoff");
+  if (storyError) return storyError;
+  if (state.status !== "running") {
+    return {
+      type: "error",
+      code: "NOT_RUNNING",
+      message: `Story "${state.story}" is not running (step "${state.step}", status "${state.status}") — there is nothing to hand off`,
+      state,
+      recoverable: false,
+    };
+  }
 
-  // Check for YAML front matter
-  if (lines[0]?.trim() === "---") {
-    return parseYamlFrontMatter(content);
+  const content = formatHandoff({ story: state.story, step: state.step, attempt: state.attempt, ...fields }, body);
+  const problems: string[] = [];
+  try {
+    for (const issue of validateHandoff(parseHandoffContent(content))) {
+      problems.push(issue.kind === "unknown_key" ? `${issue.key} is not a HANDOFF field` : issue.message);
+    }
+  } catch (err) {
+    problems.push((err as Error).message); // a key that is not a plain word
+  }
+  if (!HANDOFF_STATUSES.includes(String(fields.status))) {
+    problems.push(`status must be one of ${HANDOFF_STATUSES.join(", ")}`);
+  }
+  if (problems.length > 0) {
+    appendLog(projectRoot, "WARN", "submitHandoff", `HANDOFF_INVALID: ${problems.join("; ")}`);
+    return { type: "error", code: "HANDOFF_INVALID", message: problems.join("; "), state, recoverable: true };
   }
 
-  // Fallback: grep markdown body for reason keywords
-  return parseFallback(content);
+  writeFileAtomic(handoffPath(projectRoot), content);
+  return applyHandoff(projectRoot, state.story ?? undefined);
 }
 
-/** Parse YAML front matter format (hybrid HANDOFF.md) */
-function parseYamlFrontMatter(content: string): HandoffData {
-  const parts = content.split("---");
-  // parts[0] = "" (before first ---), parts[1] = YAML, parts[2+] = body
-  const yamlBlock = parts[1] ?? "";
-  const body = parts.slice(2).join("---").trim();
+/** The story/step a HANDOFF is about to be applied to, read without the lock */
+interface HandoffTarget {
+  state: State;
+  handoff: HandoffData;
+}
 
-  const yaml = parseSimpleYaml(yamlBlock);
+/** A test command run together with the story/step it was run for */
+interface HandoffTestRun {
+  story: string | null;
+  step: string;
+  mode: "override" | "check";
+  run: TestRun;
+}
 
-  return {
-    story: yaml["story"] ?? null,
-    step: yaml["step"] ?? null,
-    attempt: yaml["attempt"] ? parseInt(yaml["attempt"], 10) : null,
-    status: yaml["status"] ?? null,
-    reason: (yaml["reason"] as string) || null,
-    files_changed: parseYamlList(yaml["files_changed"]),
-    tests_pass: yaml["tests_pass"]
-      ? parseInt(yaml["tests_pass"], 10)
-      : null,
-    tests_fail: yaml["tests_fail"]
-      ? parseInt(yaml["tests_fail"], 10)
-      : null,
-    tests_skip: yaml["tests_skip"]
-      ? parseInt(yaml["tests_skip"], 10)
-      : null,
-    body,
-  };
+/**
+ * Resolve the story and step the HANDOFF would be applied to. Returns null
+ * when there is nothing to apply or the HANDOFF is for another step —
+ * _applyHandoff() reports those cases.
+ */
+function readHandoffTarget(projectRoot: string, storyId?: string): HandoffTarget | null {
+  let state: State;
+  let handoff: HandoffData | null;
+  try {
+    state = readState(projectRoot);
+    handoff = parseHandoff(projectRoot);
+  } catch {
+    return null;
+  }
+  if (!handoff) return null;
+  const target = storyId ?? handoff.story;
+  if (target && target !== state.story && !focusStory(state, target)) return null;
+  const handoffStep = handoff.step && (STEP_ALIAS_MAP[handoff.step.toLowerCase()] ?? handoff.step);
+  if (handoffStep && handoffStep !== state.step) return null;
+  return { state, handoff };
 }
 
-/** Fallback parser: grep for reason keywords in markdown body */
-function parseFallback(content: string): HandoffData {
-  const reasonMap: Record<string, string> = {
-    "NEEDS CLARIFICATION": "needs_clarification",
-    "CONSTITUTION VIOLATION": "constitution_violation",
-    "SCOPE WARNING": "scope_warning",
-  };
+/**
+ * Run the `test:` command from .ai/step-rules.yaml if the HANDOFF about to
+ * be applied finishes one of its `after` steps; null when no run is needed.
+ */
+function runTestsForHandoff(projectRoot: string, { state }: HandoffTarget): HandoffTestRun | null {
+  let config;
+  try {
+    config = readStepRuleOverrides(projectRoot)?.test;
+  } catch {
+    return null; // dispatch() reports INVALID_STEP_RULES
+  }
+  if (!config || !config.after.includes(state.step)) return null;
 
-  let reason: string | null = null;
-  for (const [keyword, code] of Object.entries(reasonMap)) {
-    if (content.includes(keyword)) {
-      reason = code;
-      break;
-    }
+  const run = runTestCommand(projectRoot, config);
+  appendLog(projectRoot, "INFO", "applyHandoff", `Test command for step "${state.step}": ${describeTestRun(run)}`);
+  for (const warning of run.warnings) appendLog(projectRoot, "WARN", "applyHandoff", warning);
+  return { story: state.story, step: state.step, mode: config.mode, run };
+}
+
+/**
+ * Run the step's post-checks if the executor reports `pass` (or no status
+ * — _applyHandoff() infers it). A step reported as failing is retried
+ * anyway, so its checks are not worth the wait.
+ */
+function runChecksForHandoff(projectRoot: string, { state, handoff }: HandoffTarget): PostCheckReport | null {
+  if (handoff.status && normalizeStatus(handoff.status) !== "pass") return null;
+  let rule: StepRule;
+  try {
+    rule = getRule(state.step, projectRoot, state.task_type);
+  } catch {
+    return null;
   }
+  const postChecks = getPostChecks(rule);
+  if (postChecks.length === 0) return null;
+  const checks = runChecks(projectRoot, postChecks);
+  logChecks(projectRoot, "applyHandoff", checks);
+  return { story: state.story, step: state.step, passed: checksPassed(checks), checks };
+}
+
+/** Files git saw change during a step, checked against its claude_writes */
+export interface ScopeReport {
+  mode: ScopeMode;
+  /** Resolved claude_writes globs (`.ai/**` is always allowed on top) */
+  allowed: string[];
+  changed: string[];
+  /** Changed files matching none of `allowed` */
+  violations: string[];
+}
+
+/**
+ * Compare the files the step changed (files_changed_actual, else git's view
+ * since dispatched_at) with its claude_writes. null when the check is off,
+ * the step was never dispatched, or the project is not a git repository.
+ */
+function checkScope(projectRoot: string, state: State): ScopeReport | null {
+  let mode: ScopeMode = "enforce";
+  try {
+    mode = readStepRuleOverrides(projectRoot)?.scope ?? "enforce";
+  } catch { /* dispatch() reports INVALID_STEP_RULES */ }
+  if (mode === "off" || !state.dispatched_at) return null;
+  const changed = state.files_changed_actual ?? filesChangedSince(projectRoot, state.dispatched_at);
+  if (changed === null) return null;
+  const rule = getRule(state.step, projectRoot, state.task_type);
+  const allowed = resolvePaths(rule.claude_writes, state.story ?? "BOOTSTRAP");
+  return { mode, allowed, changed, violations: findScopeViolations(changed, allowed) };
+}
 
+/** The executor's files_changed compared with what git saw change */
+export interface FilesReport {
+  reported: string[];
+  actual: string[];
+  /** Changed but not listed in HANDOFF (`.ai/` excluded) */
+  unreported: string[];
+  /** Listed in HANDOFF but unchanged */
+  untouched: string[];
+}
+
+/**
+ * Compute the files the step really changed from the git_base snapshot
+ * taken at dispatch; null without a snapshot or outside git.
+ */
+function compareFilesChanged(projectRoot: string, state: State, reported: string[]): FilesReport | null {
+  if (!state.git_base) return null;
+  const actual = filesChangedSinceSnapshot(projectRoot, state.git_base);
+  if (actual === null) return null;
+  const listed = reported.map((f) => f.replace(/^\.\//, ""));
   return {
-    story: null,
-    step: null,
-    attempt: null,
-    status: reason ? "failing" : "pass",
-    reason,
-    files_changed: [],
-    tests_pass: null,
-    tests_fail: null,
-    tests_skip: null,
-    body: content,
+    reported,
+    actual,
+    unreported: actual.filter((f) => !listed.includes(f) && !matchesAnyGlob(f, ALWAYS_WRITABLE)),
+    untouched: reported.filter((f, i) => !actual.includes(listed[i])),
   };
 }
 
 /**
- * Minimal YAML parser for flat key: value pairs.
- * Handles simple scalars and inline lists. NOT a full YAML parser —
- * just enough for HANDOFF.md front matter.
- *
- * [FIX P2] Improved to handle:
- *   - Inline bracket lists: `files: [a.go, b.ts]`
- *   - Values containing colons: `reason: needs_clarification: details here`
- *     (only first colon splits key/value, rest is part of the value)
+ * Fail a reported pass that wrote outside claude_writes with reason
+ * `scope_violation` (enforce mode), naming the offending paths.
  */
-function parseSimpleYaml(block: string): Record<string, string> {
-  const result: Record<string, string> = {};
-  let currentKey: string | null = null;
-  let listValues: string[] = [];
-
-  for (const line of block.split("\n")) {
-    const trimmed = line.trim();
-    if (!trimmed) continue;
-
-    // List item (indented "- value")
-    if (trimmed.startsWith("- ") && currentKey) {
-      listValues.push(trimmed.slice(2).trim());
-      continue;
-    }
+function applyScope(projectRoot: string, state: State, report: ScopeReport): void {
+  if (report.violations.length === 0) return;
+  const message =
+    `step "${state.step}" may only write ${report.allowed.length > 0 ? report.allowed.join(", ") : "nothing"}` +
+    ` (plus .ai/), but changed: ${report.violations.join(", ")}`;
+  appendLog(projectRoot, "WARN", "applyHandoff", `SCOPE_VIOLATION: ${message}`);
+  if (report.mode !== "enforce" || state.status !== "pass") return;
+  state.status = "failing";
+  state.reason = "scope_violation";
+  state.last_error = `[scope] ${message}`;
+}
 
-    // Flush previous list
-    if (currentKey && listValues.length > 0) {
-      result[currentKey] = JSON.stringify(listValues);
-      listValues = [];
-    }
+/** Files the commit step is told not to commit (update-memory writes them next) */
+const COMMIT_STEP_LEAVES = ["PROJECT_MEMORY.md", ".ai/history.md"];
 
-    // Key: value pair — use FIRST colon only, rest is value
-    const colonIdx = trimmed.indexOf(":");
-    if (colonIdx > 0) {
-      const key = trimmed.slice(0, colonIdx).trim();
-      const value = trimmed.slice(colonIdx + 1).trim();
-      currentKey = key;
-
-      if (value) {
-        // [FIX P2] Handle inline bracket lists: `files: [a.go, b.ts]`
-        if (value.startsWith("[") && value.endsWith("]")) {
-          const inner = value.slice(1, -1);
-          const items = inner.split(",").map((s) => s.trim()).filter(Boolean);
-          result[key] = JSON.stringify(items);
-          currentKey = null;
-        } else {
-          // "null" → empty
-          result[key] = value === "null" ? "" : value;
-          currentKey = null; // not expecting list items
-        }
+/**
+ * Commit step: verify and record commit_hash. In a git repository a
+ * reported pass fails if the hash is not a commit there; on a story branch
+ * it also needs a commit mentioning the story id made on the branch during
+ * the step (used when HANDOFF has no hash), and no uncommitted changes
+ * besides `.ai/` and COMMIT_STEP_LEAVES. Outside git the hash is kept as
+ * reported.
+ */
+function applyCommitStep(projectRoot: string, state: State, handoff: HandoffData): void {
+  if (state.step !== "commit") return;
+  if (!isGitRepo(projectRoot)) {
+    if (handoff.commit_hash) state.commit_hash = handoff.commit_hash;
+    return;
+  }
+
+  const problems: string[] = [];
+  let commit = handoff.commit_hash ? resolveCommit(projectRoot, handoff.commit_hash) : null;
+  if (state.status === "pass") {
+    if (handoff.commit_hash && !commit) {
+      problems.push(`commit_hash "${handoff.commit_hash}" is not a commit in this repository`);
+    }
+    if (state.branch && state.story) {
+      const since = state.git_base?.head ?? null;
+      const found = findStoryCommit(projectRoot, state.branch, state.story, since);
+      if (!found) {
+        problems.push(`no commit mentioning ${state.story} on ${state.branch}${since ? " since the commit step started" : ""}`);
+      } else if (!handoff.commit_hash) {
+        commit = resolveCommit(projectRoot, found);
+      }
+      if (commit && !isOnBranch(projectRoot, commit.hash, state.branch)) {
+        problems.push(`commit ${commit.hash.slice(0, 7)} is not on ${state.branch}`);
       }
-      // else: value on next lines (list)
+      const leftover = (uncommittedFiles(projectRoot) ?? [])
+        .filter((f) => !matchesAnyGlob(f, [...ALWAYS_WRITABLE, ...COMMIT_STEP_LEAVES]));
+      if (leftover.length > 0) problems.push(`uncommitted changes: ${leftover.join(", ")}`);
     }
   }
 
-  // Flush trailing list
-  if (currentKey && listValues.length > 0) {
-    result[currentKey] = JSON.stringify(listValues);
+  if (problems.length === 0) {
+    if (commit) recordCommit(state, commit);
+    return;
   }
+  state.status = "failing";
+  state.reason = null;
+  state.last_error = `[git] ${problems.join("; ")}`;
+  appendLog(projectRoot, "WARN", "applyHandoff", `COMMIT_CHECK: ${problems.join("; ")}`);
+}
 
-  return result;
+/** Set commit_hash and add the commit to the story's list (once) */
+function recordCommit(state: State, commit: CommitInfo): void {
+  state.commit_hash = commit.hash;
+  if (state.commits.some((c) => c.hash === commit.hash)) return;
+  state.commits.push({ ...commit, recorded_at: new Date().toISOString() });
 }
 
-/** Parse a YAML list value (either JSON-encoded string[] or empty) */
-function parseYamlList(value: string | undefined): string[] {
-  if (!value) return [];
-  try {
-    const parsed = JSON.parse(value);
-    return Array.isArray(parsed) ? parsed : [];
-  } catch {
-    return value ? [value] : [];
-  }
+/** " Commits: 3f2a9c1 feat(US-001): cart totals." — empty when none were recorded */
+function describeCommits(state: State): string {
+  if (state.commits.length === 0) return "";
+  return ` Commits: ${state.commits.map((c) => `${c.hash.slice(0, 7)} ${c.subject}`).join(", ")}.`;
 }
 
-// ─── Post-Hook: Apply HANDOFF Results to STATE ───────────────────────────────
+/**
+ * Record post-check results on a HANDOFF that reports `pass`. A failing
+ * required check turns the step into `failing` with reason
+ * `post_check_failed`, which on_fail routes like any other reason.
+ */
+function applyPostChecks(state: State, report: PostCheckReport): void {
+  state.lint_pass = report.passed;
+  state.checks = report.checks;
+  if (state.status !== "pass" || report.passed) return;
+  const failed = report.checks.filter((c) => !c.passed && c.required);
+  state.status = "failing";
+  state.reason = "post_check_failed";
+  state.last_error = `[post_check] ${failed.map((c) => `${c.name} ${c.timed_out ? "timed out" : `exited ${c.exit_code}`} (${c.output})`).join("; ")}`;
+}
 
 /**
- * After executor exits, read HANDOFF.md and update STATE.json accordingly.
- * This is the TypeScript equivalent of the Protocol's post-execution hook.
- *
- * Call this after the executor process exits, before the next dispatch().
- *
- * Returns a structured HandoffResult so the caller (hook, LLM, CLI) can
- * see exactly what happened — never throws.
+ * Reconcile the executor's reported test outcome (already applied to
+ * `state`) with the orchestrator's own run. `override` mode replaces the
+ * results; both modes record disagreements in last_error.
  */
-export function applyHandoff(projectRoot: string): HandoffResult {
+function reconcileTestRun(
+  projectRoot: string,
+  state: State,
+  handoff: HandoffData,
+  run: TestRun,
+  mode: "override" | "check",
+): void {
+  const discrepancies: string[] = [];
+  const outcome = run.timed_out
+    ? `timed out after ${run.duration_ms}ms`
+    : `exited ${run.exit_code}${run.tests ? ` with ${run.tests.fail} failing` : ""}`;
+  if (state.status === "pass" && !run.passed) {
+    discrepancies.push(`HANDOFF reported status "pass" but "${run.command}" ${outcome}`);
+  }
+  if (state.status === "failing" && state.reason === null && run.passed) {
+    discrepancies.push(`HANDOFF reported status "failing" but "${run.command}" passed`);
+  }
+  if (handoff.tests_fail !== null && run.tests && handoff.tests_fail !== run.tests.fail) {
+    discrepancies.push(`HANDOFF reported ${handoff.tests_fail} failing test(s), "${run.command}" found ${run.tests.fail}`);
+  }
+
+  if (mode === "override") {
+    if (run.tests) {
+      state.tests = run.tests;
+      state.failing_tests = run.failing_tests;
+    }
+    if (state.status === "pass" && !run.passed) {
+      state.status = "failing";
+      state.reason = null;
+    } else if (state.status === "failing" && state.reason === null && run.passed) {
+      state.status = "pass";
+    }
+  }
+
+  for (const d of discrepancies) {
+    appendLog(projectRoot, "WARN", "applyHandoff", `TEST_DISCREPANCY: ${d}`);
+  }
+  if (discrepancies.length > 0) {
+    state.last_error = `[tests] ${discrepancies.join("; ")}${mode === "override" ? " (test command result used)" : ""}`;
+  }
+}
+
+function _applyHandoff(
+  projectRoot: string,
+  storyId?: string,
+  tests: HandoffTestRun | null = null,
+  checks: PostCheckReport | null = null,
+): HandoffResult {
   let state: State;
   try {
     state = readState(projectRoot);
@@ -769,7 +1111,27 @@ export function applyHandoff(projectRoot: string): HandoffResult {
     };
   }
 
-  const handoff = parseHandoff(projectRoot);
+  if (storyId) {
+    const storyError = selectStory(projectRoot, state, storyId, "applyHandoff");
+    if (storyError) return { ...storyError, state };
+  }
+
+  let handoff: HandoffData | null;
+  try {
+    handoff = parseHandoff(projectRoot);
+  } catch (err) {
+    if (!(err instanceof HandoffParseError)) throw err;
+    // Leave STATE alone — the executor (or a human) fixes HANDOFF.md and re-applies
+    const message = `HANDOFF.md front matter is invalid (${err.message}). Fix it and re-run apply-handoff.`;
+    appendLog(projectRoot, "ERROR", "applyHandoff", `HANDOFF_INVALID: ${err.message}`);
+    return { type: "error", code: "HANDOFF_INVALID", message, state, recoverable: true };
+  }
+
+  if (!storyId && handoff?.story && handoff.story !== state.story) {
+    if (focusStory(state, handoff.story)) {
+      appendLog(projectRoot, "INFO", "applyHandoff", `Focused story "${handoff.story}" named in HANDOFF`);
+    }
+  }
 
   if (!handoff) {
     // [FIX P0] If state is "running", HANDOFF absence means executor hasn't
@@ -789,7 +1151,7 @@ export function applyHandoff(projectRoot: string): HandoffResult {
     state.reason = null;
     state.completed_at = new Date().toISOString();
     state.last_error = `No HANDOFF.md found after executor completed step "${state.step}". Executor may have crashed or exceeded token limits.`;
-    try { writeState(projectRoot, state); } catch { /* best effort */ }
+    try { writeState(projectRoot, state); } catch (err) { rethrowConflict(err); /* else best effort */ }
     appendLog(projectRoot, "WARN", "applyHandoff", `No HANDOFF.md found after step "${state.step}" — executor may have crashed`);
     return {
       type: "missing",
@@ -838,13 +1200,28 @@ export function applyHandoff(projectRoot: string): HandoffResult {
     };
   }
 
+  // Schema issues are reported, not enforced. Stale HANDOFFs were already
+  // reported when they were first applied.
+  const validation = validateHandoff(handoff);
+  for (const issue of validation) {
+    appendLog(projectRoot, "WARN", "applyHandoff", `HANDOFF_SCHEMA ${issue.kind}: ${issue.message}`);
+  }
+
+  // Failing tests: the front matter list, plus anything the referenced
+  // reports add. Replaces the previous attempt's list.
+  const reports = readFailingTests(projectRoot, handoff.test_reports);
+  for (const warning of reports.warnings) {
+    appendLog(projectRoot, "WARN", "applyHandoff", warning);
+  }
+  const failingTests = [...new Set([...handoff.failing_tests, ...reports.failing])];
+
   // Apply structured fields from HANDOFF
   if (handoff.status) {
     state.status = handoff.status;
   } else {
-    // Infer: if tests_fail > 0, it's failing
+    // Infer: if tests_fail > 0 or tests are named as failing, it's failing
     state.status =
-      handoff.tests_fail && handoff.tests_fail > 0 ? "failing" : "pass";
+      (handoff.tests_fail && handoff.tests_fail > 0) || failingTests.length > 0 ? "failing" : "pass";
   }
 
   state.reason = handoff.reason;
@@ -853,6 +1230,8 @@ export function applyHandoff(projectRoot: string): HandoffResult {
   if (handoff.files_changed.length > 0) {
     state.files_changed = handoff.files_changed;
   }
+  const files = compareFilesChanged(projectRoot, state, handoff.files_changed);
+  state.files_changed_actual = files?.actual ?? null;
 
   if (
     handoff.tests_pass !== null ||
@@ -864,17 +1243,35 @@ export function applyHandoff(projectRoot: string): HandoffResult {
       fail: handoff.tests_fail ?? 0,
       skip: handoff.tests_skip ?? 0,
     };
-    state.failing_tests = []; // could extract from body if needed
   }
+  state.failing_tests = failingTests;
+
+  // Cross-check against the orchestrator's own test run, if it was for this step
+  const testRun = tests && tests.story === state.story && tests.step === state.step ? tests.run : null;
+  if (tests && testRun) reconcileTestRun(projectRoot, state, handoff, testRun, tests.mode);
 
   // [FIX P0] Sanitize before write — HANDOFF status may be "done"/"complete"
   // (CC agent lifecycle status leaking into ACO status field).
   // Without this, writeState → validate() throws and the pipeline stalls.
   sanitize(state, projectRoot);
 
+  // Scope, the commit check and post-checks gate a reported pass (after
+  // sanitize has canonicalized "done" etc.)
+  const scope = checkScope(projectRoot, state);
+  if (scope) applyScope(projectRoot, state, scope);
+  applyCommitStep(projectRoot, state, handoff);
+  const postChecks = checks && checks.story === state.story && checks.step === state.step ? checks : null;
+  if (postChecks) {
+    applyPostChecks(state, postChecks);
+    if (state.reason === "post_check_failed") {
+      appendLog(projectRoot, "WARN", "applyHandoff", `POST_CHECK_FAILED: ${state.last_error}`);
+    }
+  }
+
   try {
     writeState(projectRoot, state);
   } catch (err) {
+    rethrowConflict(err);
     state.last_error = `[applyHandoff] Failed to write STATE after applying HANDOFF: ${(err as Error).message}`;
     appendLog(projectRoot, "CRITICAL", "applyHandoff", `STATE_CORRUPTION: ${state.last_error}`);
     return {
@@ -886,63 +1283,129 @@ export function applyHandoff(projectRoot: string): HandoffResult {
     };
   }
 
+  if (files && (files.unreported.length > 0 || files.untouched.length > 0)) {
+    const parts = [
+      ...(files.unreported.length > 0 ? [`changed but not reported: ${files.unreported.join(", ")}`] : []),
+      ...(files.untouched.length > 0 ? [`reported but untouched: ${files.untouched.join(", ")}`] : []),
+    ];
+    appendLog(projectRoot, "WARN", "applyHandoff", `FILES_MISMATCH: ${parts.join("; ")}`);
+    appendHistory(projectRoot, `### Files — ${state.story ?? "(no story)"} ${state.step} (attempt ${state.attempt})
+- **Date**: ${new Date().toISOString()}
+- **Changed but not reported**: ${files.unreported.join(", ") || "none"}
+- **Reported but untouched**: ${files.untouched.join(", ") || "none"}`);
+  }
   appendLog(projectRoot, "INFO", "applyHandoff", `Applied HANDOFF: step="${state.step}" status="${state.status}"${state.tests ? ` tests=${state.tests.pass}/${state.tests.fail}/${state.tests.skip}` : ""}`);
-  return { type: "applied", state };
+  return {
+    type: "applied",
+    state,
+    validation,
+    ...(testRun ? { test_run: testRun } : {}),
+    ...(postChecks ? { post_checks: postChecks } : {}),
+    ...(scope ? { scope } : {}),
+    ...(files ? { files } : {}),
+  };
 }
 
 // ─── Post-Check Runner ───────────────────────────────────────────────────────
 
+export interface PostCheckReport {
+  story: string | null;
+  step: string;
+  /** False if any required check failed */
+  passed: boolean;
+  checks: CheckResult[];
+}
+
 /**
- * Run the post_check command for the current step.
- * Returns true if check passed (or no check defined), false if failed.
+ * Run the current step's post-checks (rule.post_check — a command or a list
+ * of named checks), store the per-check results and lint_pass in STATE, and
+ * write each check's output tail to .ai/checks/. A step without checks
+ * passes with an empty list.
  *
  * This is a synchronous shell execution — zero LLM tokens.
  */
-export function runPostCheck(
-  projectRoot: string,
-  execSync: (cmd: string, opts: object) => Buffer,
-): boolean {
+export function runPostChecks(projectRoot: string, storyId?: string): PostCheckReport {
   const state = readState(projectRoot);
-  const rule = getRule(state.step);
-
-  if (!rule.post_check) return true;
+  if (storyId && !focusStory(state, storyId)) {
+    throw new Error(`Story "${storyId}" is not active. Active stories: ${activeStoryIds(state).join(", ") || "(none)"}`);
+  }
+  const rule = getRule(state.step, projectRoot, state.task_type);
+  const checks = runChecks(projectRoot, getPostChecks(rule));
+  const report: PostCheckReport = { story: state.story, step: state.step, passed: checksPassed(checks), checks };
+  if (checks.length === 0) return report;
+  logChecks(projectRoot, "postCheck", checks);
+
+  // The checks may run for a while — re-read under the lock so updates made
+  // by other processes meanwhile are not overwritten.
+  const saved = withStateLock(projectRoot, () => withAction("postCheck", () => {
+    const current = readState(projectRoot);
+    if (report.story && report.story !== current.story && !focusStory(current, report.story)) return;
+    if (current.step !== report.step) return; // the story moved on; results are stale
+    current.lint_pass = report.passed;
+    current.checks = checks;
+    writeState(projectRoot, current);
+  }));
+  if (!saved.acquired) {
+    appendLog(projectRoot, "WARN", "postCheck", `post-check results not recorded: ${saved.message}`);
+  }
+  return report;
+}
 
-  try {
-    execSync(rule.post_check, {
-      cwd: projectRoot,
-      stdio: "pipe",
-      timeout: 60_000,
-    });
-    state.lint_pass = true;
-    writeState(projectRoot, state);
-    return true;
-  } catch {
-    state.lint_pass = false;
-    writeState(projectRoot, state);
-    return false;
+/** One hook.log line per check */
+function logChecks(projectRoot: string, context: string, checks: CheckResult[]): void {
+  for (const c of checks) {
+    appendLog(
+      projectRoot,
+      c.passed ? "INFO" : "WARN",
+      context,
+      `${c.name}${c.required ? "" : " (optional)"}: ${c.passed ? "passed" : c.timed_out ? "timed out" : `failed, exit ${c.exit_code}`} — ${c.output}`,
+    );
   }
 }
 
+/**
+ * Run the post-checks for the current step; true if every required check
+ * passed (or none is defined). Kept for existing callers — `execSync` is no
+ * longer used; see runPostChecks() for per-check results.
+ */
+export function runPostCheck(projectRoot: string, _execSync?: unknown): boolean {
+  return runPostChecks(projectRoot).passed;
+}
+
 // ─── Human Review Approval ───────────────────────────────────────────────────
 
 /**
  * Mark the review step as approved by human.
  * Optionally attach a human note (modification requests, clarifications).
+ * `storyId` selects one of several stories waiting at a gate.
  */
 export function approveReview(
   projectRoot: string,
   humanNote?: string,
+  storyId?: string,
+): ActionResult {
+  return locked(projectRoot, "approve", () =>
+    notifying(projectRoot, () => _approveReview(projectRoot, humanNote, storyId), (r) => resultNotifications(projectRoot, r)),
+  );
+}
+
+function _approveReview(
+  projectRoot: string,
+  humanNote?: string,
+  storyId?: string,
 ): ActionResult {
   let state: State;
   try { state = readState(projectRoot); } catch (err) {
     return { type: "error", code: "STATE_NOT_FOUND", message: (err as Error).message, recoverable: false };
   }
-  if (state.step !== "review") {
+  const storyError = selectStory(projectRoot, state, storyId, "approve");
+  if (storyError) return storyError;
+  if (!isHumanGate(projectRoot, state)) {
     appendLog(projectRoot, "ERROR", "approve", `WRONG_STEP: current step is "${state.step}", not "review"`);
     return {
       type: "error",
       code: "WRONG_STEP",
-      message: `Cannot approve review: current step is "${state.step}", not "review"`,
+      message: `Cannot approve review: current step is "${state.step}", not "review" (or another human gate)`,
       recoverable: false,
     };
   }
@@ -960,17 +1423,30 @@ export function rejectReview(
   projectRoot: string,
   reason: string,
   humanNote?: string,
+  storyId?: string,
+): ActionResult {
+  const reject = () => _rejectReview(projectRoot, reason, humanNote, storyId);
+  return locked(projectRoot, "reject", () => notifying(projectRoot, reject, (r) => resultNotifications(projectRoot, r)));
+}
+
+function _rejectReview(
+  projectRoot: string,
+  reason: string,
+  humanNote?: string,
+  storyId?: string,
 ): ActionResult {
   let state: State;
   try { state = readState(projectRoot); } catch (err) {
     return { type: "error", code: "STATE_NOT_FOUND", message: (err as Error).message, recoverable: false };
   }
-  if (state.step !== "review") {
+  const storyError = selectStory(projectRoot, state, storyId, "reject");
+  if (storyError) return storyError;
+  if (!isHumanGate(projectRoot, state)) {
     appendLog(projectRoot, "ERROR", "reject", `WRONG_STEP: current step is "${state.step}", not "review"`);
     return {
       type: "error",
       code: "WRONG_STEP",
-      message: `Cannot reject review: current step is "${state.step}", not "review"`,
+      message: `Cannot reject review: current step is "${state.step}", not "review" (or another human gate)`,
       recoverable: false,
     };
   }
@@ -1032,14 +1508,33 @@ function ensureState(projectRoot: string): State {
 // ─── Start New Story ─────────────────────────────────────────────────────────
 
 /**
- * Begin a new User Story. Resets state to bdd step with attempt 1.
+ * Begin a new User Story. Resets state to the first step of the task_type's
+ * pipeline (bdd for the default story pipeline) with attempt 1.
  * Auto-initializes STATE.json if the project hasn't adopted the framework yet.
+ *
+ * An unfinished focused story is parked in `state.stories`, not overwritten —
+ * several stories can be in flight at once.
+ *
+ * A story queued in .ai/BACKLOG.json leaves the queue when started; its
+ * task_type and complexity are used unless overridden, and it is refused
+ * (BLOCKED_BY) while its blockers are unfinished unless `force` is set.
  */
 export function startStory(
   projectRoot: string,
   storyId: string,
-  options: { agentTeams?: boolean; force?: boolean } = {},
+  options: { agentTeams?: boolean; force?: boolean; taskType?: string } = {},
 ): ActionResult {
+  return locked(projectRoot, "startStory", () => _startStory(projectRoot, storyId, options));
+}
+
+function _startStory(
+  projectRoot: string,
+  storyId: string,
+  options: { agentTeams?: boolean; force?: boolean; taskType?: string },
+): ActionResult {
+  const rulesError = checkStepRules(projectRoot, "startStory");
+  if (rulesError) return rulesError;
+
   let state: State;
   try {
     state = ensureState(projectRoot);
@@ -1047,6 +1542,25 @@ export function startStory(
     return { type: "error", code: "STATE_NOT_FOUND", message: (err as Error).message, recoverable: false };
   }
 
+  let queued: BacklogEntry | undefined;
+  try {
+    queued = listBacklog(projectRoot).find((e) => e.story === storyId);
+  } catch (err) {
+    return { type: "error", code: "INVALID_BACKLOG", message: (err as Error).message, recoverable: false };
+  }
+  if (queued && !queued.ready && !options.force) {
+    appendLog(projectRoot, "WARN", "startStory", `Story ${storyId} blocked by ${queued.waiting_on.join(", ")}`);
+    return {
+      type: "error",
+      code: "BLOCKED_BY",
+      message: `Story ${storyId} is blocked by unfinished ${queued.waiting_on.join(", ")}. Use --force to start it anyway.`,
+      recoverable: true,
+    };
+  }
+
+  // Restarting a parked story: bring it into focus so the guards below see it
+  if (!focusStory(state, storyId)) parkStory(state);
+
   // Guard: prevent restarting a completed story
   if (state.story === storyId && state.step === "done" && !options.force) {
     appendLog(projectRoot, "WARN", "startStory", `Story ${storyId} already completed (step: done)`);
@@ -1069,10 +1583,33 @@ export function startStory(
     };
   }
 
-  const rule = getRule("bdd");
+  // Optional story branch — created (or checked out again) from HEAD
+  let branch: string | null = null;
+  const git = gitConfig(projectRoot);
+  if (git.branch_per_story) {
+    if (!isGitRepo(projectRoot)) {
+      appendLog(projectRoot, "WARN", "startStory", `git.branch_per_story is set but ${projectRoot} is not a git repository — no story branch`);
+    } else {
+      branch = `${git.branch_prefix}${storyId}`;
+      const gitError = switchToBranch(projectRoot, branch);
+      if (gitError) {
+        appendLog(projectRoot, "ERROR", "startStory", `BRANCH_FAILED: ${branch}: ${gitError}`);
+        return {
+          type: "error",
+          code: "BRANCH_FAILED",
+          message: `Could not check out branch "${branch}": ${gitError}`,
+          recoverable: true,
+        };
+      }
+    }
+  }
+
+  const taskType = options.taskType ?? queued?.task_type ?? "story";
+  const firstStep = getStepSequence(projectRoot, taskType)[0];
+  const rule = getRule(firstStep, projectRoot, taskType);
 
   state.story = storyId;
-  state.step = "bdd";
+  state.step = firstStep;
   state.attempt = 1;
   state.max_attempts = rule.max_attempts;
   state.status = "pending";
@@ -1083,19 +1620,61 @@ export function startStory(
   state.tests = null;
   state.failing_tests = [];
   state.lint_pass = null;
+  state.checks = [];
   state.files_changed = [];
-  state.blocked_by = [];
+  state.files_changed_actual = null;
+  state.branch = branch;
+  state.commit_hash = null;
+  state.commits = [];
+  state.blocked_by = queued?.blocked_by ?? [];
   state.human_note = null;
   state.last_error = null;
-  state.agent_teams = options.agentTeams ?? false;
+  state.task_type = taskType;
+  state.agent_teams =
+    options.agentTeams ?? (queued ? getDispatchMode(queued.complexity) === "team" : false);
 
   writeState(projectRoot, state);
+  if (queued) removeBacklogItem(projectRoot, storyId);
 
   // Auto-generate per-story checklist
-  generateChecklist(projectRoot, storyId);
+  generateChecklist(projectRoot, storyId, taskType);
+
+  const onBranch = branch ? ` on branch ${branch}` : "";
+  appendLog(projectRoot, "INFO", "startStory", `Started story ${storyId} at ${firstStep} step${onBranch}`);
+  return { type: "ok", state, message: `Started story ${storyId} at ${firstStep} step${onBranch}` };
+}
+
+/**
+ * Start the highest-priority backlog story whose blockers are all done.
+ * Called by dispatch() when a story reaches "done"; also `backlog next`.
+ */
+export function startNextStory(projectRoot: string): ActionResult {
+  return locked(projectRoot, "startNextStory", () => _startNextStory(projectRoot));
+}
 
-  appendLog(projectRoot, "INFO", "startStory", `Started story ${storyId} at bdd step`);
-  return { type: "ok", state, message: `Started story ${storyId} at bdd step` };
+function _startNextStory(projectRoot: string): ActionResult {
+  let entries: BacklogEntry[];
+  let next: BacklogEntry | null;
+  try {
+    entries = listBacklog(projectRoot);
+    next = nextBacklogItem(projectRoot);
+  } catch (err) {
+    return { type: "error", code: "INVALID_BACKLOG", message: (err as Error).message, recoverable: false };
+  }
+  if (!next) {
+    if (entries.length === 0) {
+      return { type: "error", code: "BACKLOG_EMPTY", message: "Backlog is empty", recoverable: false };
+    }
+    const waiting = entries.map((e) => `${e.story} (waiting on ${e.waiting_on.join(", ")})`);
+    return {
+      type: "error",
+      code: "BACKLOG_BLOCKED",
+      message: `No backlog story is ready: ${waiting.join("; ")}`,
+      recoverable: true,
+    };
+  }
+  appendLog(projectRoot, "INFO", "startNextStory", `Starting ${next.story} from backlog (priority ${next.priority}, complexity ${next.complexity})`);
+  return startStory(projectRoot, next.story);
 }
 
 /**
@@ -1186,8 +1765,12 @@ export function queryProjectStatus(projectRoot: string): Record<string, unknown>
       tests: null,
       lint_pass: null,
       files_changed: [],
+      files_changed_actual: null,
+      commits: [],
       blocked_by: [],
       human_note: null,
+      stories: [],
+      backlog: { pending: 0, next: null },
       memory_summary,
       has_framework: framework,
     };
@@ -1196,15 +1779,31 @@ export function queryProjectStatus(projectRoot: string): Record<string, unknown>
   const state = readState(projectRoot);
 
   // Resolve next_step so the caller knows the pipeline trajectory
-  let next_step: string | null = null;
-  try {
-    if (state.step !== "done") {
-      const rule = getRule(state.step);
-      next_step = rule.next_on_pass;
+  const nextStep = (step: string, taskType: string): string | null => {
+    try {
+      return step === "done" ? null : getRule(step, projectRoot, taskType).next_on_pass;
+    } catch {
+      return null; // unknown step
     }
-  } catch {
-    // unknown step — leave null
-  }
+  };
+  const next_step = nextStep(state.step, state.task_type);
+
+  // Every active story (focused first), so reviewers can batch approvals
+  const stories = activeStoryIds(state).map((id) => {
+    const s = id === state.story ? state : state.stories[id];
+    return {
+      story: id,
+      task_type: s.task_type,
+      step: s.step,
+      next_step: nextStep(s.step, s.task_type),
+      status: s.status,
+      attempt: s.attempt,
+      max_attempts: s.max_attempts,
+      human_note: s.human_note,
+      commits: s.commits,
+      focused: id === state.story,
+    };
+  });
 
   return {
     project: state.project,
@@ -1219,14 +1818,29 @@ export function queryProjectStatus(projectRoot: string): Record<string, unknown>
     tests: state.tests,
     lint_pass: state.lint_pass,
     files_changed: state.files_changed,
+    files_changed_actual: state.files_changed_actual,
+    branch: state.branch,
+    commits: state.commits,
     blocked_by: state.blocked_by,
     human_note: state.human_note,
     last_error: state.last_error,
+    stories,
+    backlog: backlogSummary(projectRoot),
     memory_summary,
     has_framework: framework,
   };
 }
 
+/** Queue length and next ready story — null fields if BACKLOG.json is unreadable */
+function backlogSummary(projectRoot: string): { pending: number | null; next: string | null } {
+  try {
+    const entries = listBacklog(projectRoot);
+    return { pending: entries.length, next: entries.find((e) => e.ready)?.story ?? null };
+  } catch {
+    return { pending: null, next: null };
+  }
+}
+
 /**
  * Scan a workspace directory for all projects.
  */
@@ -1309,18 +1923,31 @@ export function listProjects(workspaceRoot: string): Record<string, unknown>[] {
  * to Claude Code with full project context, without going through the
  * micro-waterfall pipeline.
  *
- * Pipeline: custom → update-memory → done
+ * Pipeline: custom → update-memory → done (or the project's `custom` pipeline)
  */
 export function startCustom(
   projectRoot: string,
   instruction: string,
   options: { label?: string; agentTeams?: boolean } = {},
 ): ActionResult {
+  return locked(projectRoot, "startCustom", () => _startCustom(projectRoot, instruction, options));
+}
+
+function _startCustom(
+  projectRoot: string,
+  instruction: string,
+  options: { label?: string; agentTeams?: boolean },
+): ActionResult {
+  const rulesError = checkStepRules(projectRoot, "startCustom");
+  if (rulesError) return rulesError;
+
   const state = ensureState(projectRoot);
-  const rule = getRule("custom");
+  parkStory(state);
+  const firstStep = getStepSequence(projectRoot, "custom")[0];
+  const rule = getRule(firstStep, projectRoot, "custom");
 
   state.story = options.label ?? `CUSTOM-${Date.now()}`;
-  state.step = "custom";
+  state.step = firstStep;
   state.attempt = 1;
   state.max_attempts = rule.max_attempts;
   state.status = "pending";
@@ -1331,7 +1958,12 @@ export function startCustom(
   state.tests = null;
   state.failing_tests = [];
   state.lint_pass = null;
+  state.checks = [];
   state.files_changed = [];
+  state.files_changed_actual = null;
+  state.branch = null;
+  state.commit_hash = null;
+  state.commits = [];
   state.blocked_by = [];
   state.human_note = instruction;
   state.last_error = null;
@@ -1353,7 +1985,15 @@ export function startCustom(
 export function rollback(
   projectRoot: string,
   targetStep: string,
-  options: { force?: boolean } = {},
+  options: { force?: boolean; story?: string } = {},
+): ActionResult {
+  return locked(projectRoot, "rollback", () => _rollback(projectRoot, targetStep, options));
+}
+
+function _rollback(
+  projectRoot: string,
+  targetStep: string,
+  options: { force?: boolean; story?: string },
 ): ActionResult {
   let state: State;
   try {
@@ -1362,7 +2002,13 @@ export function rollback(
     return { type: "error", code: "STATE_NOT_FOUND", message: (err as Error).message, recoverable: false };
   }
 
-  const sequence = getStepSequence();
+  const rulesError = checkStepRules(projectRoot, "rollback");
+  if (rulesError) return rulesError;
+
+  const storyError = selectStory(projectRoot, state, options.story, "rollback");
+  if (storyError) return storyError;
+
+  const sequence = getStepSequence(projectRoot, state.task_type);
 
   // Validate target step exists in sequence (or is "bootstrap")
   const targetIndex = targetStep === "bootstrap" ? -1 : sequence.indexOf(targetStep);
@@ -1402,9 +2048,7 @@ export function rollback(
 
   // Reset state
   const previousStep = state.step;
-  const rule = targetStep === "bootstrap"
-    ? getRule("bootstrap")
-    : getRule(targetStep);
+  const rule = getRule(targetStep, projectRoot, state.task_type);
 
   state.step = targetStep;
   state.status = "pending";
@@ -1414,6 +2058,7 @@ export function rollback(
   state.reason = null;
   state.last_error = null;
   state.files_changed = [];
+  state.files_changed_actual = null;
   state.dispatched_at = null;
   state.completed_at = null;
   // [FIX P1] Clear stale test data — without this, old test results
@@ -1421,6 +2066,7 @@ export function rollback(
   state.tests = null;
   state.failing_tests = [];
   state.lint_pass = null;
+  state.checks = [];
 
   writeState(projectRoot, state);
 
@@ -1454,11 +2100,15 @@ function countCompletedStories(projectRoot: string): number {
 }
 
 /**
- * Find the step that comes before a given step in the sequence.
+ * Find the step that comes before a given step in the task_type's pipeline.
  * Returns null if the step is the first one (no earlier step).
  */
-function getEarlierStep(step: string): string | null {
-  const sequence = getStepSequence();
+function getEarlierStep(
+  step: string,
+  projectRoot: string,
+  taskType: string,
+): string | null {
+  const sequence = getStepSequence(projectRoot, taskType);
   const index = sequence.indexOf(step);
   if (index <= 0) return null;
   return sequence[index - 1];
@@ -1486,7 +2136,15 @@ function getEarlierStep(step: string): string | null {
 export function reopen(
   projectRoot: string,
   targetStep: string,
-  options: { humanNote?: string } = {},
+  options: { humanNote?: string; story?: string } = {},
+): ActionResult {
+  return locked(projectRoot, "reopen", () => _reopen(projectRoot, targetStep, options));
+}
+
+function _reopen(
+  projectRoot: string,
+  targetStep: string,
+  options: { humanNote?: string; story?: string },
 ): ActionResult {
   let state: State;
   try {
@@ -1495,6 +2153,14 @@ export function reopen(
     return { type: "error", code: "STATE_NOT_FOUND", message: (err as Error).message, recoverable: false };
   }
 
+  const rulesError = checkStepRules(projectRoot, "reopen");
+  if (rulesError) return rulesError;
+
+  // Only the focused story can be at "done" — parked stories are still active
+  // and go through the NOT_DONE guard below once focused.
+  const storyError = selectStory(projectRoot, state, options.story, "reopen");
+  if (storyError) return storyError;
+
   // Guard: story must be completed
   if (state.step !== "done") {
     appendLog(projectRoot, "ERROR", "reopen", `NOT_DONE: current step is "${state.step}", not "done". Use rollback instead.`);
@@ -1517,7 +2183,7 @@ export function reopen(
   }
 
   // Validate target step
-  const sequence = getStepSequence();
+  const sequence = getStepSequence(projectRoot, state.task_type);
   const targetIndex = targetStep === "bootstrap" ? -1 : sequence.indexOf(targetStep);
 
   if (targetStep !== "bootstrap" && targetIndex === -1) {
@@ -1532,9 +2198,7 @@ export function reopen(
 
   // Reset state to target step
   const previousStep = state.step; // "done"
-  const rule = targetStep === "bootstrap"
-    ? getRule("bootstrap")
-    : getRule(targetStep);
+  const rule = getRule(targetStep, projectRoot, state.task_type);
 
   state.step = targetStep;
   state.status = "pending";
@@ -1544,11 +2208,13 @@ export function reopen(
   state.reason = null;
   state.last_error = null;
   state.files_changed = [];
+  state.files_changed_actual = null;
   state.dispatched_at = null;
   state.completed_at = null;
   state.tests = null;
   state.failing_tests = [];
   state.lint_pass = null;
+  state.checks = [];
   state.human_note = options.humanNote ?? null;
   state.reopened_from = targetStep;  // Feature 1: Track reopen target for escalation
 
@@ -1571,6 +2237,94 @@ export function reopen(
   };
 }
 
+// ─── Undo ────────────────────────────────────────────────────────────────────
+
+/**
+ * Undo the last `steps` mutating calls by restoring the STATE.json (and
+ * .ai/CHECKLIST.md, .ai/BACKLOG.json) captured before them — see undo.ts.
+ *
+ * Guards:
+ *   - Only snapshots still on the stack (UNDO_DEPTH) can be restored
+ *   - Refuses to go back past a dispatch whose executor run has started:
+ *     the executor may already have changed files (use rollback instead)
+ *
+ * The restore is itself a new revision, journaled as "undo" and recorded in
+ * history.md. Undo is not undoable.
+ */
+export function undo(projectRoot: string, steps = 1): ActionResult {
+  return locked(projectRoot, "undo", () => _undo(projectRoot, steps), { undoable: false });
+}
+
+function _undo(projectRoot: string, steps: number): ActionResult {
+  let current: State;
+  try {
+    current = readState(projectRoot);
+  } catch (err) {
+    return { type: "error", code: "STATE_NOT_FOUND", message: (err as Error).message, recoverable: false };
+  }
+
+  if (!Number.isInteger(steps) || steps < 1) {
+    return { type: "error", code: "INVALID_UNDO", message: `Undo count must be an integer >= 1, got ${steps}`, recoverable: false };
+  }
+
+  const stack = readUndoStack(projectRoot);
+  if (stack.length < steps) {
+    return {
+      type: "error",
+      code: "NOTHING_TO_UNDO",
+      message: stack.length === 0
+        ? "Nothing to undo"
+        : `Only ${stack.length} action(s) can be undone (asked for ${steps})`,
+      recoverable: false,
+    };
+  }
+
+  const undone = stack.slice(-steps).reverse(); // newest first
+  const target = undone[steps - 1];
+
+  // A dispatched_at the target snapshot doesn't have means an executor run began
+  const dispatchedAt = (state: State) =>
+    [state, ...Object.values(state.stories ?? {})].map((s) => [s.story, s.dispatched_at, s.step] as const);
+  const before = new Map(dispatchedAt(target.state).map(([story, at]) => [story, at]));
+  const later = [current, ...undone.slice(0, steps - 1).map((s) => s.state)];
+  for (const state of later) {
+    for (const [story, at, step] of dispatchedAt(state)) {
+      if (at && at !== before.get(story)) {
+        const message = `Cannot undo past the dispatch of ${story ?? "(no story)"} step "${step}" at ${at} — the executor run has started and may have changed files. Use "rollback" instead.`;
+        appendLog(projectRoot, "ERROR", "undo", `EXECUTOR_STARTED: ${message}`);
+        return { type: "error", code: "EXECUTOR_STARTED", message, recoverable: false };
+      }
+    }
+  }
+
+  const restored = target.state;
+  migrateState(restored);
+  restored.revision = current.revision; // restoring is a new write, not a rewind
+  try {
+    writeState(projectRoot, restored);
+  } catch (err) {
+    rethrowConflict(err);
+    appendLog(projectRoot, "ERROR", "undo", `UNDO_FAILED: ${(err as Error).message}`);
+    return { type: "error", code: "UNDO_FAILED", message: (err as Error).message, recoverable: false };
+  }
+
+  restoreSnapshotFiles(projectRoot, target);
+  writeUndoStack(projectRoot, stack.slice(0, stack.length - steps));
+
+  const actions = undone.map((s) => s.action).join(", ");
+  appendLog(projectRoot, "INFO", "undo", `Undid ${steps} action(s): ${actions}`);
+  appendHistory(projectRoot, `### Undo — ${steps} action(s)
+- **Date**: ${new Date().toISOString()}
+- **Undone**: ${actions}
+- **Restored**: ${restored.story ?? "(no story)"} at ${restored.step} (${restored.status})`);
+
+  return {
+    type: "ok",
+    state: restored,
+    message: `Undid ${actions} — ${restored.story ?? "project"} is back at step "${restored.step}" (status: ${restored.status})`,
+  };
+}
+
 // ─── Review (On-Demand Review Session) ───────────────────────────────────────
 
 /**
@@ -1883,7 +2637,7 @@ export function checkPrerequisites(projectRoot: string): PrereqCheckResult {
     return { ok: true, missing: [], warnings: [], suggested_rollback: null };
   }
 
-  const rule = getRule(state.step);
+  const rule = getRule(state.step, projectRoot, state.task_type);
   const storyId = state.story ?? "unknown";
   const resolvedPaths = resolvePaths(rule.claude_reads, storyId);
 
@@ -1933,71 +2687,281 @@ export function checkPrerequisites(projectRoot: string): PrereqCheckResult {
 
 // ─── Checklist System ────────────────────────────────────────────────────────
 
+/** Checklist wording for the built-in steps (section title + items) */
+const CHECKLIST_SECTIONS: Record<string, { title: string; items: string[] }> = {
+  bdd: {
+    title: "BDD",
+    items: [
+      "All scenarios written with Given/When/Then",
+      "All scenarios tagged with test level (@unit, @integration, @e2e, etc.)",
+      "Non-Goals section defined",
+      "Unclear items marked [NEEDS CLARIFICATION]",
+    ],
+  },
+  "sdd-delta": {
+    title: "SDD Delta",
+    items: [
+      "Delta Spec produced (ADDED / MODIFIED / REMOVED)",
+      "Affected modules identified",
+      "Non-Goals / Out of Scope section included",
+    ],
+  },
+  contract: {
+    title: "API Contract",
+    items: [
+      "Affected endpoints/events updated in OpenAPI/AsyncAPI",
+      "Types synchronized with implementation",
+    ],
+  },
+  review: {
+    title: "Review",
+    items: ["Human approved BDD + Delta + Contract"],
+  },
+  scaffold: {
+    title: "Test Scaffolding",
+    items: [
+      "All BDD scenarios have corresponding test skeletons",
+      "All tests fail (RED) — no implementation code yet",
+      "NFR thresholds referenced from nfr.md",
+    ],
+  },
+  impl: {
+    title: "Implementation",
+    items: [
+      "All tests pass (GREEN)",
+      "Only affected files modified (Diff-Only)",
+      "No unrelated refactoring",
+    ],
+  },
+  verify: {
+    title: "Verify",
+    items: [
+      "Completeness: all BDD covered, all Delta items implemented",
+      "Correctness: all tests pass, NFR thresholds met",
+      "Coherence: SDD merged Delta, contracts consistent, Constitution respected",
+    ],
+  },
+  commit: {
+    title: "Commit",
+    items: [
+      "Code committed with conventional commit message",
+      "Story ID included in commit message",
+      "Commit hash recorded in HANDOFF.md",
+    ],
+  },
+  "update-memory": {
+    title: "Update Memory",
+    items: [
+      "PROJECT_MEMORY.md updated (NOW/TESTS/NEXT/ISSUES)",
+      ".ai/history.md appended (DONE + LOG entry)",
+      "HANDOFF.md overwritten with session summary",
+    ],
+  },
+};
+
 /**
  * Generate .ai/CHECKLIST.md for a story. Called by startStory().
  * The checklist is a per-story progress tracker that CC must update
- * as it completes each step.
+ * as it completes each step. Sections follow the task_type's pipeline;
+ * project-defined steps use their `checklist` items from step-rules.
  */
-export function generateChecklist(projectRoot: string, storyId: string): string {
+export function generateChecklist(
+  projectRoot: string,
+  storyId: string,
+  taskType = "story",
+): string {
   const checklistPath = join(projectRoot, ".ai", "CHECKLIST.md");
   const aiDir = join(projectRoot, ".ai");
   if (!existsSync(aiDir)) {
     mkdirSync(aiDir, { recursive: true });
   }
 
-  const content = `# Checklist: ${storyId}
+  const table = getRulesTable(projectRoot, taskType);
+  const sections = table.pipeline.steps.map((step) => {
+    const rule = table.steps[step];
+    const builtin = CHECKLIST_SECTIONS[step];
+    const title = builtin?.title ?? rule.display_name;
+    const items = rule.checklist ?? builtin?.items ?? [`${rule.display_name} completed`];
+    return `## ${title}\n${items.map((item) => `- [ ] ${item}`).join("\n")}\n`;
+  });
 
-> Auto-generated by ACO. Executor MUST check off items as they are completed.
+  const content =
+    `# Checklist: ${storyId}\n\n` +
+    `> Auto-generated by ACO. Executor MUST check off items as they are completed.\n\n` +
+    sections.join("\n");
 
-## BDD
-- [ ] All scenarios written with Given/When/Then
-- [ ] All scenarios tagged with test level (@unit, @integration, @e2e, etc.)
-- [ ] Non-Goals section defined
-- [ ] Unclear items marked [NEEDS CLARIFICATION]
+  writeFileSync(checklistPath, content, "utf-8");
+  return checklistPath;
+}
 
-## SDD Delta
-- [ ] Delta Spec produced (ADDED / MODIFIED / REMOVED)
-- [ ] Affected modules identified
-- [ ] Non-Goals / Out of Scope section included
+const CHECKLIST_ITEM = /^(\s*[-*] \[)([ xX])(\] )(.*)$/;
 
-## API Contract
-- [ ] Affected endpoints/events updated in OpenAPI/AsyncAPI
-- [ ] Types synchronized with implementation
+/**
+ * Check off one item of .ai/CHECKLIST.md — the MCP
+ * `check_off_checklist_item` path. `item` matches an item's text exactly
+ * (ignoring case and spacing), or else as a unique substring; unchecked
+ * items win over checked ones.
+ */
+export function checkOffChecklistItem(
+  projectRoot: string,
+  item: string,
+):
+  | { type: "checked"; item: string; already_checked: boolean }
+  | { type: "error"; code: string; message: string; recoverable: boolean } {
+  const checklistPath = join(projectRoot, ".ai", "CHECKLIST.md");
+  if (!existsSync(checklistPath)) {
+    return { type: "error", code: "CHECKLIST_NOT_FOUND", message: "No .ai/CHECKLIST.md — start a story first", recoverable: false };
+  }
+  const lines = readFileSync(checklistPath, "utf-8").split("\n");
+  const normalize = (text: string) => text.trim().replace(/\s+/g, " ").toLowerCase();
+  const wanted = normalize(item);
+  const items = lines
+    .map((line, index) => ({ index, match: CHECKLIST_ITEM.exec(line) }))
+    .filter((entry): entry is { index: number; match: RegExpExecArray } => entry.match !== null);
+
+  const exact = items.filter((entry) => normalize(entry.match[4]) === wanted);
+  const candidates = exact.length > 0 ? exact : items.filter((entry) => normalize(entry.match[4]).includes(wanted));
+  const open = candidates.filter((entry) => entry.match[2] === " ");
+  if (candidates.length === 0 || !wanted) {
+    const remaining = items.filter((entry) => entry.match[2] === " ").map((entry) => entry.match[4]);
+    return {
+      type: "error",
+      code: "ITEM_NOT_FOUND",
+      message: `No checklist item matches "${item}". Open items: ${remaining.length ? remaining.join("; ") : "(none)"}`,
+      recoverable: true,
+    };
+  }
+  if (open.length > 1) {
+    return {
+      type: "error",
+      code: "AMBIGUOUS_ITEM",
+      message: `"${item}" matches ${open.length} open items: ${open.map((entry) => entry.match[4]).join("; ")}`,
+      recoverable: true,
+    };
+  }
+  if (open.length === 0) return { type: "checked", item: candidates[0].match[4], already_checked: true };
 
-## Review
-- [ ] Human approved BDD + Delta + Contract
+  const [{ index, match }] = open;
+  lines[index] = `${match[1]}x${match[3]}${match[4]}`;
+  writeFileAtomic(checklistPath, lines.join("\n"));
+  appendLog(projectRoot, "INFO", "checklist", `Checked off: ${match[4]}`);
+  return { type: "checked", item: match[4], already_checked: false };
+}
 
-## Test Scaffolding
-- [ ] All BDD scenarios have corresponding test skeletons
-- [ ] All tests fail (RED) — no implementation code yet
-- [ ] NFR thresholds referenced from nfr.md
+// ─── Internal Helpers ────────────────────────────────────────────────────────
 
-## Implementation
-- [ ] All tests pass (GREEN)
-- [ ] Only affected files modified (Diff-Only)
-- [ ] No unrelated refactoring
+/**
+ * Load the project's effective rules table once up front so a malformed
+ * `.ai/step-rules.yaml` surfaces as a structured INVALID_STEP_RULES error
+ * rather than an INTERNAL_ERROR thrown from deep inside getRule().
+ */
+function checkStepRules(
+  projectRoot: string,
+  context: string,
+): { type: "error"; code: string; message: string; recoverable: boolean } | null {
+  try {
+    getRulesTable(projectRoot);
+    return null;
+  } catch (err) {
+    appendLog(projectRoot, "ERROR", context, `INVALID_STEP_RULES: ${(err as Error).message}`);
+    return {
+      type: "error",
+      code: "INVALID_STEP_RULES",
+      message: (err as Error).message,
+      recoverable: false,
+    };
+  }
+}
+
+/** The project's `git:` settings; defaults if none (or the file is invalid) */
+function gitConfig(projectRoot: string): GitConfig {
+  try {
+    return readStepRuleOverrides(projectRoot)?.git ?? GIT_DEFAULTS;
+  } catch {
+    return GIT_DEFAULTS;
+  }
+}
 
-## Verify
-- [ ] Completeness: all BDD covered, all Delta items implemented
-- [ ] Correctness: all tests pass, NFR thresholds met
-- [ ] Coherence: SDD merged Delta, contracts consistent, Constitution respected
+/**
+ * Run a read-modify-write of STATE.json under the project lock, journaling
+ * its writes to events.jsonl as `context` and (unless `undoable` is false)
+ * saving an undo snapshot when STATE changes. Pending migrations and
+ * sanitize fixes are persisted first (repairState, journaled as "migrate"). Contention
+ * past LOCK_TIMEOUT_MS becomes a recoverable LOCKED error; a write that lost
+ * the revision compare-and-swap becomes a recoverable CONFLICT error carrying
+ * the current state, so callers can re-read and retry.
+ */
+function locked<T>(
+  projectRoot: string,
+  context: string,
+  fn: () => T,
+  options: { undoable?: boolean } = {},
+): T | { type: "error"; code: string; message: string; state?: State; recoverable: boolean } {
+  const run = options.undoable === false ? fn : () => withUndo(projectRoot, context, fn);
+  let result: LockResult<T>;
+  try {
+    result = withStateLock(projectRoot, () => {
+      withAction("migrate", () => repairState(projectRoot));
+      return withAction(context, run);
+    });
+  } catch (err) {
+    if (!(err instanceof StateConflictError)) throw err;
+    appendLog(projectRoot, "WARN", context, `CONFLICT: ${err.message}`);
+    return { type: "error", code: "CONFLICT", message: err.message, state: err.current, recoverable: true };
+  }
+  if (result.acquired) return result.value;
+  appendLog(projectRoot, "WARN", context, `LOCKED: ${result.message}`);
+  return { type: "error", code: "LOCKED", message: result.message, recoverable: true };
+}
 
-## Commit
-- [ ] Code committed with conventional commit message
-- [ ] Story ID included in commit message
-- [ ] Commit hash recorded in HANDOFF.md
+/**
+ * Run `fn` and queue the notifications its result stands for (notify.ts) —
+ * only when it moved the story's step, status or attempt, so asking again
+ * at a waiting review, or applying the same HANDOFF twice (Stop hook and
+ * watch daemon), doesn't repeat them.
+ */
+function notifying<T>(projectRoot: string, fn: () => T, events: (result: T) => NotificationEvent[]): T {
+  const before = progressOf(projectRoot);
+  const result = fn();
+  if (progressOf(projectRoot) !== before) queueNotifications(projectRoot, events(result));
+  return result;
+}
 
-## Update Memory
-- [ ] PROJECT_MEMORY.md updated (NOW/TESTS/NEXT/ISSUES)
-- [ ] .ai/history.md appended (DONE + LOG entry)
-- [ ] HANDOFF.md overwritten with session summary
-`;
+/** `story step status #attempt` as stored in STATE.json, or null when it can't be read */
+function progressOf(projectRoot: string): string | null {
+  try {
+    const raw = JSON.parse(readFileSync(statePath(projectRoot), "utf-8"));
+    return `${raw.story} ${raw.step} ${raw.status} #${raw.attempt}`;
+  } catch {
+    return null;
+  }
+}
 
-  writeFileSync(checklistPath, content, "utf-8");
-  return checklistPath;
+/** Let a lost compare-and-swap escape catch-all handlers up to locked() */
+function rethrowConflict(err: unknown): void {
+  if (err instanceof StateConflictError) throw err;
 }
 
-// ─── Internal Helpers ────────────────────────────────────────────────────────
+/**
+ * Focus `storyId` (no-op when undefined). Returns a STORY_NOT_FOUND error if
+ * the story is neither focused nor parked in `state.stories`.
+ */
+function selectStory(
+  projectRoot: string,
+  state: State,
+  storyId: string | undefined,
+  context: string,
+): { type: "error"; code: string; message: string; recoverable: boolean } | null {
+  if (!storyId || focusStory(state, storyId)) return null;
+  const active = activeStoryIds(state);
+  appendLog(projectRoot, "ERROR", context, `STORY_NOT_FOUND: "${storyId}"`);
+  return {
+    type: "error",
+    code: "STORY_NOT_FOUND",
+    message: `Story "${storyId}" is not active. Active stories: ${active.length ? active.join(", ") : "(none)"}`,
+    recoverable: false,
+  };
+}
 
 function elapsedMinutes(isoTimestamp: string): number {
   return Math.round(
@@ -2005,12 +2969,29 @@ function elapsedMinutes(isoTimestamp: string): number {
   );
 }
 
+/** True when the current step is a human gate (review or a project-declared gate) */
+function isHumanGate(projectRoot: string, state: State): boolean {
+  if (state.step === "done") return false;
+  try {
+    return getRule(state.step, projectRoot, state.task_type)?.requires_human === true;
+  } catch {
+    return state.step === "review";
+  }
+}
+
 /**
  * [FIX P2] Use resolvePaths() for review request paths to stay consistent
  * with the path resolution logic (prevents stale paths if format changes).
+ * Project-declared human gates other than "review" get a generic request.
  */
-function formatReviewRequest(state: State): string {
+function formatReviewRequest(state: State, rule: StepRule): string {
   const storyId = state.story ?? "(no story)";
+  if (state.step !== "review") {
+    return (
+      `Story ${storyId} is waiting at "${rule.display_name}" for human approval.\n\n` +
+      `Reply "approved" to continue, or provide feedback.`
+    );
+  }
   const paths = resolvePaths(
     [
       "docs/bdd/US-{story}.md",
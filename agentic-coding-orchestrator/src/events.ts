@@ -0,0 +1,174 @@
+/**
+ * events.ts — State Transition Journal (.ai/events.jsonl)
+ *
+ * Every STATE.json write appends one JSON line per story whose fields
+ * changed, recording the step / status / attempt before and after, the
+ * action that caused it and who asked for it:
+ *
+ *   {"ts":"2026-01-01T00:00:00.000Z","action":"approve","actor":"human",
+ *    "story":"US-007","before":{"step":"review","status":"needs_human","attempt":1},
+ *    "after":{"step":"review","status":"pass","attempt":1},"revision":12}
+ *
+ * writeState() calls recordTransitions(); dispatch.ts names the action with
+ * withAction(). The file is append-only — hook.log stays the free-text log.
+ *
+ * All operations are synchronous file I/O — zero LLM tokens.
+ */
+
+import { existsSync, readFileSync, appendFileSync } from "fs";
+import { join } from "path";
+import type { State, StoryState } from "./state";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** The part of a story an event tracks */
+export interface StepSnapshot {
+  step: string;
+  status: string;
+  attempt: number;
+}
+
+export interface StateEvent {
+  ts: string;
+  /** Mutating call that wrote STATE (dispatch, approve, timeout, ...) */
+  action: string;
+  /** human / executor / orchestrator, or $ORCHESTRATOR_ACTOR */
+  actor: string;
+  story: string | null;
+  /** null when the story was not in STATE before this write */
+  before: StepSnapshot | null;
+  after: StepSnapshot;
+  /** STATE.json revision this write produced */
+  revision: number;
+}
+
+export interface EventFilter {
+  story?: string;
+  /** Matches the step before or after the transition */
+  step?: string;
+  action?: string;
+  /** Inclusive ISO 8601 bounds */
+  since?: string;
+  until?: string;
+}
+
+// ─── Action Context ──────────────────────────────────────────────────────────
+
+/** Who triggers each action when $ORCHESTRATOR_ACTOR is not set */
+const DEFAULT_ACTORS: Record<string, string> = {
+  approve: "human",
+  reject: "human",
+  rollback: "human",
+  reopen: "human",
+  startStory: "human",
+  startCustom: "human",
+  applyHandoff: "executor",
+  reportError: "executor",
+};
+
+/** Innermost action currently writing STATE (module-level, sync only) */
+let currentAction: string | null = null;
+
+/**
+ * Run `fn` with STATE writes journaled as `action`. Nested calls name their
+ * own writes (dispatch → startNextStory records "startNextStory").
+ */
+export function withAction<T>(action: string, fn: () => T): T {
+  const outer = currentAction;
+  currentAction = action;
+  try {
+    return fn();
+  } finally {
+    currentAction = outer;
+  }
+}
+
+function currentActor(action: string): string {
+  return process.env.ORCHESTRATOR_ACTOR || DEFAULT_ACTORS[action] || "orchestrator";
+}
+
+// ─── Journal I/O ─────────────────────────────────────────────────────────────
+
+/** Resolve the events.jsonl path for a project root */
+export function eventsPath(projectRoot: string): string {
+  return join(projectRoot, ".ai", "events.jsonl");
+}
+
+/** Append events as JSON lines. No-op if .ai/ doesn't exist. */
+export function appendEvents(projectRoot: string, events: StateEvent[]): void {
+  if (events.length === 0 || !existsSync(join(projectRoot, ".ai"))) return;
+  appendFileSync(eventsPath(projectRoot), events.map((e) => JSON.stringify(e) + "\n").join(""));
+}
+
+/**
+ * Diff two STATE snapshots and append one event per story that changed.
+ * `before` is null for the first write of a project. Called by writeState().
+ */
+export function recordTransitions(projectRoot: string, before: State | null, after: State): void {
+  const action = currentAction ?? "write";
+  const ts = after.updated_at ?? new Date().toISOString();
+  const events: StateEvent[] = [];
+  for (const [story, fields] of storiesOf(after)) {
+    const previous = before ? storiesOf(before).get(story) ?? null : null;
+    if (previous && JSON.stringify(previous) === JSON.stringify(fields)) continue;
+    events.push({
+      ts,
+      action,
+      actor: currentActor(action),
+      story,
+      before: previous ? snapshot(previous) : null,
+      after: snapshot(fields),
+      revision: after.revision,
+    });
+  }
+  appendEvents(projectRoot, events);
+}
+
+/**
+ * Read the journal, oldest first, keeping events that match every filter.
+ * Malformed lines (e.g. a torn write from a crash) are skipped.
+ */
+export function readEvents(projectRoot: string, filter: EventFilter = {}): StateEvent[] {
+  const path = eventsPath(projectRoot);
+  if (!existsSync(path)) return [];
+  const since = filter.since ? Date.parse(filter.since) : -Infinity;
+  const until = filter.until ? Date.parse(filter.until) : Infinity;
+  const events: StateEvent[] = [];
+  for (const line of readFileSync(path, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    let event: StateEvent;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    const ts = Date.parse(event.ts);
+    if (ts < since || ts > until) continue;
+    if (filter.story !== undefined && event.story !== filter.story) continue;
+    if (filter.action !== undefined && event.action !== filter.action) continue;
+    if (filter.step !== undefined && event.before?.step !== filter.step && event.after.step !== filter.step) continue;
+    events.push(event);
+  }
+  return events;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Focused + parked stories keyed by id (null before any story starts) */
+function storiesOf(state: State): Map<string | null, StoryState> {
+  const {
+    schema_version: _schemaVersion,
+    project: _project,
+    stories,
+    revision: _revision,
+    updated_at: _updatedAt,
+    ...focused
+  } = state;
+  const map = new Map<string | null, StoryState>(Object.entries(stories ?? {}));
+  map.set(focused.story, focused);
+  return map;
+}
+
+function snapshot(story: StoryState): StepSnapshot {
+  return { step: story.step, status: story.status, attempt: story.attempt };
+}
@@ -0,0 +1,360 @@
+/**
+ * executor.ts — Executor Adapters (+ runStep)
+ *
+ * An Executor carries out one dispatched step: it gets the prompt, works in
+ * the project root and writes .ai/HANDOFF.md. Everything else in the
+ * orchestrator is synchronous; running the executor is the one part that
+ * takes minutes, so start() returns an Execution that can be polled,
+ * cancelled and awaited.
+ *
+ * runStep() drives one step from a library call:
+ *   dispatch() → executor.start() → await result() → applyHandoff()
+ * When the executor ends without writing a fresh HANDOFF (crash, timeout,
+ * cancel), runStep writes a failing one so the step does not stay
+ * `running` — the same recovery bin/dispatch-claude-code.sh does.
+ *
+ * Built-in adapters:
+ *   claudeCodeExecutor()   `claude -p` headless, prompt on stdin
+ *   commandExecutor()      any shell command, prompt on stdin
+ *   fakeExecutor()         in-process handler, for tests
+ */
+
+import { spawn, ChildProcess } from "child_process";
+import { existsSync, mkdirSync, readFileSync, statSync } from "fs";
+import { join } from "path";
+import { writeFileAtomic } from "./lock";
+import { dispatch, applyHandoff, DispatchResult, HandoffResult } from "./dispatch";
+import { handoffPath, formatHandoff } from "./handoff";
+import { readState } from "./state";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** One dispatched step, as handed to an executor */
+export interface ExecutorTask {
+  projectRoot: string;
+  project: string | null;
+  story: string | null;
+  step: string;
+  attempt: number;
+  prompt: string;
+  /** Kill the executor after this long; 0 = no limit */
+  timeout_ms: number;
+}
+
+export type ExecutionStatus = "running" | "exited" | "timed_out" | "cancelled" | "failed_to_start";
+
+export interface ExecutionResult {
+  status: Exclude<ExecutionStatus, "running">;
+  /** null unless the executor exited by itself */
+  exit_code: number | null;
+  /** Last OUTPUT_TAIL_CHARS of stdout + stderr */
+  output_tail: string;
+  duration_ms: number;
+  /** Why the executor could not start, null otherwise */
+  error: string | null;
+}
+
+/** A running executor */
+export interface Execution {
+  readonly task: ExecutorTask;
+  /** "running" until the executor has finished */
+  poll(): ExecutionStatus;
+  /** Stop the executor; result() then reports "cancelled". No-op once finished. */
+  cancel(): void;
+  /** Resolves when the executor has finished. Never rejects. */
+  result(): Promise<ExecutionResult>;
+}
+
+export interface Executor {
+  readonly name: string;
+  start(task: ExecutorTask): Execution;
+}
+
+export type RunStepResult =
+  /** dispatch() had nothing to run (done, needs_human, blocked, error, ...) */
+  | { type: "not_dispatched"; dispatch: DispatchResult }
+  | {
+      type: "executed";
+      dispatch: Extract<DispatchResult, { type: "dispatched" }>;
+      execution: ExecutionResult;
+      /** A failing HANDOFF was written because the executor left none */
+      synthesized_handoff: boolean;
+      handoff: HandoffResult;
+    };
+
+/** Characters of combined stdout + stderr kept per execution */
+const OUTPUT_TAIL_CHARS = 16000;
+
+/** Grace period between SIGTERM and SIGKILL when stopping an executor */
+const KILL_GRACE_MS = 5000;
+
+// ─── runStep ─────────────────────────────────────────────────────────────────
+
+/**
+ * Dispatch the next step, run it with `executor`, and apply the HANDOFF it
+ * leaves. The executor is killed after the step's timeout_min unless
+ * `options.timeout_ms` says otherwise. `onStart` gets the Execution, e.g.
+ * to cancel it from outside, and the dispatch result it runs.
+ */
+export async function runStep(
+  projectRoot: string,
+  executor: Executor,
+  options: {
+    storyId?: string;
+    timeout_ms?: number;
+    onStart?: (execution: Execution, dispatched: Extract<DispatchResult, { type: "dispatched" }>) => void;
+  } = {},
+): Promise<RunStepResult> {
+  const dispatched = dispatch(projectRoot, options.storyId);
+  if (dispatched.type !== "dispatched") return { type: "not_dispatched", dispatch: dispatched };
+
+  const state = readState(projectRoot);
+  const before = handoffStamp(projectRoot);
+  const execution = executor.start({
+    projectRoot,
+    project: dispatched.project,
+    story: dispatched.story,
+    step: dispatched.step,
+    attempt: dispatched.attempt,
+    prompt: dispatched.prompt,
+    timeout_ms: options.timeout_ms ?? state.timeout_min * 60_000,
+  });
+  options.onStart?.(execution, dispatched);
+  const result = await execution.result();
+
+  const after = handoffStamp(projectRoot);
+  const synthesized = after === null || after === before;
+  if (synthesized) writeFailingHandoff(projectRoot, execution.task, executor.name, result);
+  return {
+    type: "executed",
+    dispatch: dispatched,
+    execution: result,
+    synthesized_handoff: synthesized,
+    handoff: applyHandoff(projectRoot, dispatched.story ?? undefined),
+  };
+}
+
+/**
+ * mtime + content of HANDOFF.md, null if there is none. Compared before and
+ * after the run: the mtime guard in applyHandoff() alone cannot tell apart a
+ * HANDOFF left by a run that ended a moment before this dispatch.
+ */
+function handoffStamp(projectRoot: string): string | null {
+  const path = handoffPath(projectRoot);
+  if (!existsSync(path)) return null;
+  return `${statSync(path).mtimeMs}\n${readFileSync(path, "utf-8")}`;
+}
+
+/** Why the executor ended, for the synthetic HANDOFF */
+function describeExecution(name: string, result: ExecutionResult): string {
+  switch (result.status) {
+    case "timed_out":
+      return `${name} executor timed out after ${Math.round(result.duration_ms / 1000)}s`;
+    case "cancelled":
+      return `${name} executor was cancelled`;
+    case "failed_to_start":
+      return `${name} executor could not start: ${result.error}`;
+    default:
+      return `${name} executor exited with code ${result.exit_code} without writing HANDOFF.md`;
+  }
+}
+
+function writeFailingHandoff(projectRoot: string, task: ExecutorTask, name: string, result: ExecutionResult): void {
+  const why = describeExecution(name, result);
+  const tail = result.output_tail.trim().split("\n").slice(-20).join("\n");
+  mkdirSync(join(projectRoot, ".ai"), { recursive: true });
+  writeFileAtomic(
+    handoffPath(projectRoot),
+    `---\nstory: ${task.story ?? ""}\nstep: ${task.step}\nattempt: ${task.attempt}\nstatus: failing\n---\n` +
+      `# HANDOFF — Executor Recovery\n\n${why}.\n` +
+      `This HANDOFF was written by the orchestrator so the step does not stay running.\n` +
+      (tail ? `\n## Output (tail)\n\n\`\`\`\n${tail}\n\`\`\`\n` : ""),
+  );
+}
+
+// ─── Process Adapters ────────────────────────────────────────────────────────
+
+/**
+ * Claude Code in headless mode: `claude [permissions] -p` with the prompt on
+ * stdin (no argument-length limit). Without `permissionMode` it runs with
+ * --dangerously-skip-permissions, since `-p` cannot prompt.
+ */
+export function claudeCodeExecutor(options: {
+  /** Binary to run (default "claude") */
+  command?: string;
+  permissionMode?: string;
+  allowedTools?: string[];
+  /** Extra CLI arguments, placed before -p */
+  args?: string[];
+} = {}): Executor {
+  const args = [
+    ...(options.permissionMode
+      ? ["--permission-mode", options.permissionMode]
+      : ["--dangerously-skip-permissions"]),
+    ...(options.allowedTools ?? []).flatMap((tool) => ["--allowedTools", tool]),
+    ...(options.args ?? []),
+    "-p",
+  ];
+  return {
+    name: "claude-code",
+    start: (task) => startProcess(task, options.command ?? "claude", args, false),
+  };
+}
+
+/**
+ * Any shell command, run in the project root with the prompt on stdin and
+ * the task in ACO_PROJECT_ROOT / ACO_STORY / ACO_STEP / ACO_ATTEMPT.
+ */
+export function commandExecutor(command: string, options: { name?: string } = {}): Executor {
+  return {
+    name: options.name ?? "command",
+    start: (task) => startProcess(task, command, [], true),
+  };
+}
+
+/** Spawn the executor in its own process group so a kill reaches its children */
+function startProcess(task: ExecutorTask, command: string, args: string[], shell: boolean): Execution {
+  const started = Date.now();
+  let status: ExecutionStatus = "running";
+  let output = "";
+  let stopping: ExecutionStatus | null = null;
+  let timer: unknown = null;
+  let killTimer: unknown = null;
+  let resolve!: (result: ExecutionResult) => void;
+  const done = new Promise<ExecutionResult>((r) => { resolve = r; });
+
+  const finish = (exitStatus: Exclude<ExecutionStatus, "running">, exit_code: number | null, error: string | null) => {
+    if (status !== "running") return;
+    status = exitStatus;
+    if (timer) clearTimeout(timer);
+    if (killTimer) clearTimeout(killTimer);
+    resolve({ status: exitStatus, exit_code, output_tail: output, duration_ms: Date.now() - started, error });
+  };
+  const collect = (chunk: Buffer) => {
+    output = (output + chunk.toString("utf-8")).slice(-OUTPUT_TAIL_CHARS);
+  };
+
+  let child: ChildProcess;
+  try {
+    child = spawn(command, args, {
+      cwd: task.projectRoot,
+      shell,
+      detached: true,
+      stdio: ["pipe", "pipe", "pipe"],
+      env: {
+        ...process.env,
+        ACO_PROJECT_ROOT: task.projectRoot,
+        ACO_STORY: task.story ?? "",
+        ACO_STEP: task.step,
+        ACO_ATTEMPT: String(task.attempt),
+      },
+    });
+  } catch (err) {
+    finish("failed_to_start", null, err instanceof Error ? err.message : String(err));
+    return { task, poll: () => status, cancel: () => {}, result: () => done };
+  }
+
+  const stop = (reason: "timed_out" | "cancelled") => {
+    if (status !== "running" || stopping) return;
+    stopping = reason;
+    signalGroup(child, "SIGTERM");
+    killTimer = setTimeout(() => signalGroup(child, "SIGKILL"), KILL_GRACE_MS);
+  };
+
+  child.stdout?.on("data", collect);
+  child.stderr?.on("data", collect);
+  child.on("error", (err) => finish("failed_to_start", null, err.message));
+  child.on("close", (code) => {
+    if (stopping) finish(stopping as "timed_out" | "cancelled", null, null);
+    else finish("exited", code, null);
+  });
+  // An executor that never reads stdin must not crash us with EPIPE
+  child.stdin?.on("error", () => {});
+  child.stdin?.write(task.prompt);
+  child.stdin?.end();
+  if (task.timeout_ms > 0) timer = setTimeout(() => stop("timed_out"), task.timeout_ms);
+
+  return { task, poll: () => status, cancel: () => stop("cancelled"), result: () => done };
+}
+
+/** Signal the executor's process group, falling back to the process itself */
+function signalGroup(child: ChildProcess, signal: string): void {
+  try {
+    if (child.pid) process.kill(-child.pid, signal);
+    else child.kill(signal);
+  } catch {
+    try { child.kill(signal); } catch { /* already gone */ }
+  }
+}
+
+// ─── Fake Adapter ────────────────────────────────────────────────────────────
+
+/** What the fake executor does for one task */
+export interface FakeRun {
+  /**
+   * HANDOFF.md to write: front-matter fields (story, step and attempt are
+   * filled in from the task), or the raw file content. Omit to write none.
+   */
+  handoff?: Record<string, unknown> | string;
+  /** Markdown body below the front matter */
+  body?: string;
+  exit_code?: number;
+  output?: string;
+  /** Finish after this many ms (default: next tick) */
+  delay_ms?: number;
+  /** Never finish by itself — only a timeout or cancel() ends it */
+  hang?: boolean;
+}
+
+/**
+ * In-process executor for tests: `handler` plays the executor (it may edit
+ * files in task.projectRoot) and describes the HANDOFF to leave. Every task
+ * it receives is kept in `tasks`.
+ */
+export function fakeExecutor(
+  handler: (task: ExecutorTask) => FakeRun | void = () => ({ handoff: { status: "pass" } }),
+): Executor & { tasks: ExecutorTask[] } {
+  const tasks: ExecutorTask[] = [];
+  return {
+    name: "fake",
+    tasks,
+    start(task) {
+      tasks.push(task);
+      const started = Date.now();
+      let status: ExecutionStatus = "running";
+      let resolve!: (result: ExecutionResult) => void;
+      const done = new Promise<ExecutionResult>((r) => { resolve = r; });
+      const timers: unknown[] = [];
+      const finish = (exitStatus: Exclude<ExecutionStatus, "running">, exit_code: number | null, output: string) => {
+        if (status !== "running") return;
+        status = exitStatus;
+        timers.forEach(clearTimeout);
+        resolve({ status: exitStatus, exit_code, output_tail: output, duration_ms: Date.now() - started, error: null });
+      };
+
+      const run = handler(task) ?? {};
+      if (!run.hang) {
+        timers.push(setTimeout(() => {
+          if (status !== "running") return;
+          if (run.handoff !== undefined) writeFakeHandoff(task, run);
+          finish("exited", run.exit_code ?? 0, run.output ?? "");
+        }, run.delay_ms ?? 0));
+      }
+      if (task.timeout_ms > 0) timers.push(setTimeout(() => finish("timed_out", null, run.output ?? ""), task.timeout_ms));
+
+      return { task, poll: () => status, cancel: () => finish("cancelled", null, run.output ?? ""), result: () => done };
+    },
+  };
+}
+
+function writeFakeHandoff(task: ExecutorTask, run: FakeRun): void {
+  let content: string;
+  if (typeof run.handoff === "string") {
+    content = run.handoff;
+  } else {
+    const fields = { story: task.story, step: task.step, attempt: task.attempt, ...run.handoff };
+    content = formatHandoff(fields, run.body ?? "Done.\n");
+  }
+  mkdirSync(join(task.projectRoot, ".ai"), { recursive: true });
+  writeFileAtomic(handoffPath(task.projectRoot), content);
+}
@@ -0,0 +1,262 @@
+/**
+ * git.ts — Git Queries (+ Story Branches)
+ *
+ * The orchestrator asks git what actually changed instead of trusting the
+ * executor's HANDOFF. Every query runs `git` directly (no shell) in the
+ * project root and returns null when the project is not a git repository
+ * or git is not installed — callers then skip the git-based checks.
+ * switchToBranch() is the only call that changes the repository.
+ *
+ * Only paths inside the project root are considered; results are relative
+ * to it.
+ *
+ * Synchronous process calls — zero LLM tokens.
+ */
+
+import { spawnSync } from "child_process";
+import { existsSync, statSync } from "fs";
+import { join, relative } from "path";
+
+const GIT_TIMEOUT_MS = 30_000;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * Where the repository stood when a step was dispatched (markRunning).
+ * Paths are relative to the repository root.
+ */
+export interface GitSnapshot {
+  /** HEAD commit, null in a repository without commits */
+  head: string | null;
+  /** Uncommitted paths → blob hash of their working-tree content (null: deleted) */
+  dirty: Record<string, string | null>;
+}
+
+/** A resolved commit */
+export interface CommitInfo {
+  /** Full hash */
+  hash: string;
+  /** First line of the message */
+  subject: string;
+}
+
+// ─── Runner ──────────────────────────────────────────────────────────────────
+
+/** Run git with `args` in `cwd`; stdout on exit 0, else null. Never throws. */
+export function runGit(cwd: string, args: string[], input?: string): string | null {
+  const proc = spawnGit(cwd, args, input);
+  if (proc.error || proc.status !== 0) return null;
+  return proc.stdout;
+}
+
+function spawnGit(cwd: string, args: string[], input?: string) {
+  return spawnSync("git", ["-c", "core.quotePath=false", ...args], {
+    cwd,
+    input,
+    encoding: "utf-8",
+    timeout: GIT_TIMEOUT_MS,
+    maxBuffer: 64 * 1024 * 1024,
+  });
+}
+
+/** True if `projectRoot` is inside a git work tree */
+export function isGitRepo(projectRoot: string): boolean {
+  return runGit(projectRoot, ["rev-parse", "--is-inside-work-tree"])?.trim() === "true";
+}
+
+// ─── Working Tree ────────────────────────────────────────────────────────────
+
+/**
+ * Paths under the project root with uncommitted changes (staged, unstaged
+ * or untracked; ignored files excluded), relative to the repository root.
+ * Renames report both paths. null outside a git repository.
+ */
+export function workingTreeChanges(projectRoot: string): string[] | null {
+  const out = runGit(projectRoot, ["status", "--porcelain", "-z", "--untracked-files=all", "--", "."]);
+  if (out === null) return null;
+  const paths: string[] = [];
+  const entries = out.split("\0");
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.length < 4) continue;
+    paths.push(entry.slice(3));
+    // "R  new\0old\0" / "C  new\0old\0": the source path follows
+    if ((entry[0] === "R" || entry[0] === "C") && entries[i + 1]) paths.push(entries[++i]);
+  }
+  return paths;
+}
+
+/** Uncommitted files relative to the project root; null outside a git repository */
+export function uncommittedFiles(projectRoot: string): string[] | null {
+  const prefix = runGit(projectRoot, ["rev-parse", "--show-prefix"])?.trim();
+  const dirty = workingTreeChanges(projectRoot);
+  if (prefix === undefined || dirty === null) return null;
+  return dirty.map((path) => toProjectPath(prefix, path)).sort();
+}
+
+/** Paths touched by commits made since `sinceIso`; null outside a git repository */
+export function committedChangesSince(projectRoot: string, sinceIso: string): string[] | null {
+  const out = runGit(projectRoot, ["log", `--since=${sinceIso}`, "--name-only", "--pretty=format:", "--", "."]);
+  if (out === null) return null;
+  return [...new Set(out.split("\n").map((l) => l.trim()).filter(Boolean))];
+}
+
+/**
+ * Files changed since `sinceIso`: committed since then, or uncommitted —
+ * in both cases only if the file was last modified after `sinceIso`, so
+ * changes left over from earlier steps (and files a commit step merely
+ * commits) are not counted. Deleted files have no mtime and are skipped.
+ * The fallback when no GitSnapshot was taken; null outside a repository.
+ */
+export function filesChangedSince(projectRoot: string, sinceIso: string, toleranceMs = 2000): string[] | null {
+  const prefix = runGit(projectRoot, ["rev-parse", "--show-prefix"])?.trim();
+  const dirty = workingTreeChanges(projectRoot);
+  const committed = committedChangesSince(projectRoot, sinceIso);
+  if (prefix === undefined || dirty === null || committed === null) return null;
+  const since = new Date(sinceIso).getTime() - toleranceMs;
+  return [...new Set([...committed, ...dirty])]
+    .map((path) => toProjectPath(prefix, path))
+    .filter((path) => {
+      const full = join(projectRoot, path);
+      return existsSync(full) && statSync(full).mtimeMs >= since;
+    })
+    .sort();
+}
+
+// ─── Snapshots ───────────────────────────────────────────────────────────────
+
+/** Record HEAD and the content of every uncommitted path; null outside a repository */
+export function snapshotGit(projectRoot: string): GitSnapshot | null {
+  const topLevel = runGit(projectRoot, ["rev-parse", "--show-toplevel"])?.trim();
+  const dirty = workingTreeChanges(projectRoot);
+  if (!topLevel || dirty === null) return null;
+  const head = runGit(projectRoot, ["rev-parse", "--verify", "-q", "HEAD"])?.trim() || null;
+  return { head, dirty: hashWorkingTree(topLevel, dirty) };
+}
+
+/**
+ * Files whose content differs from what it was at `base` — committed or
+ * not, deleted files included. A file that was already modified at `base`
+ * counts only if it changed again, so a commit step that commits earlier
+ * work changes nothing. Sorted, relative to the project root; null outside
+ * a repository.
+ */
+export function filesChangedSinceSnapshot(projectRoot: string, base: GitSnapshot): string[] | null {
+  const topLevel = runGit(projectRoot, ["rev-parse", "--show-toplevel"])?.trim();
+  const prefix = runGit(projectRoot, ["rev-parse", "--show-prefix"])?.trim();
+  const dirty = workingTreeChanges(projectRoot);
+  if (!topLevel || prefix === undefined || dirty === null) return null;
+
+  const head = runGit(projectRoot, ["rev-parse", "--verify", "-q", "HEAD"])?.trim() || null;
+  let committed: string[] = [];
+  if (head && head !== base.head) {
+    const out = base.head
+      ? runGit(projectRoot, ["diff", "--name-only", "--no-renames", base.head, head, "--", "."])
+      : runGit(projectRoot, ["ls-tree", "-r", "--name-only", "--full-name", head, "--", "."]);
+    if (out === null) return null;
+    committed = out.split("\n").filter(Boolean);
+  }
+
+  const candidates = [...new Set([...committed, ...dirty, ...Object.keys(base.dirty)])];
+  const before = base.head ? treeBlobs(topLevel, base.head) : {};
+  const after = hashWorkingTree(topLevel, candidates);
+  return candidates
+    .filter((path) => {
+      const was = path in base.dirty ? base.dirty[path] : before[path] ?? null;
+      return was !== after[path];
+    })
+    .map((path) => toProjectPath(prefix, path))
+    .sort();
+}
+
+// ─── Branches ────────────────────────────────────────────────────────────────
+
+/** Checked-out branch name; null when detached or outside a repository */
+export function currentBranch(projectRoot: string): string | null {
+  // symbolic-ref also works before the first commit, unlike rev-parse
+  return runGit(projectRoot, ["symbolic-ref", "--quiet", "--short", "HEAD"])?.trim() || null;
+}
+
+/** True if a local branch named `branch` exists */
+export function branchExists(projectRoot: string, branch: string): boolean {
+  return runGit(projectRoot, ["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`]) !== null;
+}
+
+/**
+ * Check out `branch`, creating it from HEAD if it does not exist.
+ * Uncommitted changes are carried over. Returns git's error, or null.
+ */
+export function switchToBranch(projectRoot: string, branch: string): string | null {
+  if (currentBranch(projectRoot) === branch) return null;
+  const args = branchExists(projectRoot, branch) ? ["checkout", "--quiet", branch] : ["checkout", "--quiet", "-b", branch];
+  const proc = spawnGit(projectRoot, args);
+  if (proc.error) return proc.error.message;
+  return proc.status === 0 ? null : (proc.stderr || `git ${args.join(" ")} failed`).trim();
+}
+
+/**
+ * Resolve an abbreviated or full commit hash; null if it is not a commit
+ * in this repository. Anything but a hex string is rejected before git
+ * sees it, so a HANDOFF value can never be read as an option or revision
+ * expression.
+ */
+export function resolveCommit(projectRoot: string, hash: string): CommitInfo | null {
+  if (!/^[0-9a-f]{4,64}$/i.test(hash)) return null;
+  const out = runGit(projectRoot, ["log", "-1", "--no-walk", "--format=%H%x00%s", `${hash}^{commit}`]);
+  if (!out) return null;
+  const [full, subject = ""] = out.trim().split("\0");
+  return { hash: full, subject };
+}
+
+/** True if `commit` is reachable from `branch` */
+export function isOnBranch(projectRoot: string, commit: string, branch: string): boolean {
+  return runGit(projectRoot, ["merge-base", "--is-ancestor", commit, `refs/heads/${branch}`]) !== null;
+}
+
+/**
+ * Newest commit on `branch` whose message mentions `storyId`, optionally
+ * only among commits after `since`; null if there is none.
+ */
+export function findStoryCommit(
+  projectRoot: string,
+  branch: string,
+  storyId: string,
+  since: string | null,
+): string | null {
+  const range = since ? `${since}..${branch}` : branch;
+  const out = runGit(projectRoot, ["log", range, "--fixed-strings", `--grep=${storyId}`, "--format=%H", "-n", "1"]);
+  return out?.trim() || null;
+}
+
+// ─── Internal Helpers ────────────────────────────────────────────────────────
+
+/** Blob hash of each path's working-tree content (null if it does not exist) */
+function hashWorkingTree(topLevel: string, paths: string[]): Record<string, string | null> {
+  const hashes: Record<string, string | null> = {};
+  const existing = paths.filter((p) => existsSync(join(topLevel, p)) && statSync(join(topLevel, p)).isFile());
+  for (const p of paths) hashes[p] = null;
+  if (existing.length > 0) {
+    const out = runGit(topLevel, ["hash-object", "--stdin-paths"], existing.join("\n") + "\n");
+    const lines = out?.split("\n") ?? [];
+    existing.forEach((p, i) => { hashes[p] = lines[i] || null; });
+  }
+  return hashes;
+}
+
+/** path → blob hash for every file in `commit` */
+function treeBlobs(topLevel: string, commit: string): Record<string, string> {
+  const blobs: Record<string, string> = {};
+  const out = runGit(topLevel, ["ls-tree", "-r", "-z", "--full-tree", commit]) ?? "";
+  for (const entry of out.split("\0")) {
+    // "<mode> blob <hash>\t<path>"
+    const tab = entry.indexOf("\t");
+    if (tab < 0) continue;
+    blobs[entry.slice(tab + 1)] = entry.slice(0, tab).split(" ")[2];
+  }
+  return blobs;
+}
+
+/** Repository-root-relative path → project-relative ("../x" when outside it) */
+function toProjectPath(prefix: string, path: string): string {
+  return prefix ? relative(prefix, path) : path;
+}
@@ -0,0 +1,373 @@
+/**
+ * handoff.ts — HANDOFF.md Parser
+ *
+ * HANDOFF.md is the executor → orchestrator bridge: YAML front matter
+ * between the first two `---` lines, then a free-form markdown body.
+ *
+ *   ---
+ *   story: US-005
+ *   step: impl
+ *   attempt: 2
+ *   status: failing
+ *   reason: null
+ *   files_changed: [src/cart.ts]
+ *   tests: { pass: 42, fail: 2, skip: 1 }
+ *   failing_tests: [cart applies coupon]    ← and/or test_reports: [junit.xml]
+ *   commit_hash: "3f2a9c1"                  ← commit step only
+ *   ---
+ *   # What was done
+ *   ---                        ← a horizontal rule in the body is just body
+ *
+ * The front matter goes through the strict YAML subset parser (yaml.ts).
+ * Malformed front matter throws HandoffParseError — applyHandoff() turns it
+ * into a HANDOFF_INVALID result rather than guessing. Files without front
+ * matter use the legacy keyword fallback.
+ *
+ * Well-formed front matter is then checked against HANDOFF_SCHEMA (a
+ * versioned JSON Schema, printed by `orchestrator handoff-schema`).
+ * Unknown keys, wrong types and missing required fields do not block the
+ * handoff; validateHandoff() reports them so prompts can be tuned.
+ *
+ * formatHandoff() writes the same format from structured fields, for
+ * callers (the MCP `submit_handoff` tool) that do not hand-write the file.
+ *
+ * All operations are synchronous file I/O — zero LLM tokens.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { parseYaml, YamlParseError } from "./yaml";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface HandoffData {
+  story: string | null;
+  step: string | null;
+  attempt: number | null;
+  status: string | null;
+  reason: string | null;
+  files_changed: string[];
+  tests_pass: number | null;
+  tests_fail: number | null;
+  tests_skip: number | null;
+  /** Failing test names listed in the front matter */
+  failing_tests: string[];
+  /** Test runner report files (relative to the project root) to read failing tests from */
+  test_reports: string[];
+  /** Commit the commit step created */
+  commit_hash: string | null;
+  body: string;
+  /** Front matter as parsed, null when the keyword fallback was used */
+  front_matter: Record<string, unknown> | null;
+}
+
+/**
+ * Structured HANDOFF front matter, as submitted through the MCP
+ * `submit_handoff` tool instead of a hand-written HANDOFF.md.
+ */
+export interface HandoffFields {
+  story?: string;
+  step?: string;
+  attempt?: number;
+  status: string;
+  reason?: string | null;
+  files_changed?: string[];
+  tests?: { pass?: number; fail?: number; skip?: number };
+  failing_tests?: string[];
+  test_reports?: string[];
+  commit_hash?: string | null;
+}
+
+export interface HandoffIssue {
+  kind: "unknown_key" | "wrong_type" | "missing_required" | "unsupported_version";
+  /** Dotted path of the offending key, e.g. "tests.pass" */
+  key: string;
+  message: string;
+}
+
+// ─── Errors ──────────────────────────────────────────────────────────────────
+
+export class HandoffParseError extends Error {
+  /** 1-based line in HANDOFF.md, or null if the problem is not line-specific */
+  line: number | null;
+  constructor(line: number | null, message: string) {
+    super(line === null ? message : `line ${line}: ${message}`);
+    this.name = "HandoffParseError";
+    this.line = line;
+  }
+}
+
+// ─── Parser ──────────────────────────────────────────────────────────────────
+
+/** Resolve the HANDOFF.md path for a project root */
+export function handoffPath(projectRoot: string): string {
+  return join(projectRoot, ".ai", "HANDOFF.md");
+}
+
+/**
+ * Parse HANDOFF.md — prioritize YAML front matter, fallback to grep.
+ * Returns null if there is no HANDOFF.md; throws HandoffParseError if its
+ * front matter is malformed.
+ */
+export function parseHandoff(projectRoot: string): HandoffData | null {
+  const path = handoffPath(projectRoot);
+  if (!existsSync(path)) return null;
+  return parseHandoffContent(readFileSync(path, "utf-8"));
+}
+
+/** Parse HANDOFF.md content (see parseHandoff). */
+export function parseHandoffContent(content: string): HandoffData {
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+  if (lines[0]?.trim() !== "---") return parseFallback(content);
+
+  // The front matter ends at the first line that is exactly `---` (or `...`)
+  const close = lines.findIndex((line, i) => i > 0 && (line.trim() === "---" || line.trim() === "..."));
+  if (close < 0) {
+    throw new HandoffParseError(1, "front matter opened with --- is never closed");
+  }
+
+  let yaml: unknown;
+  try {
+    yaml = parseYaml(lines.slice(1, close).join("\n"), { stringKeys: STRING_FIELDS });
+  } catch (err) {
+    if (err instanceof YamlParseError) {
+      // YAML line numbers are relative to the block, which starts on line 2
+      throw new HandoffParseError(err.line + 1, err.message.replace(/^line \d+: /, ""));
+    }
+    throw err;
+  }
+  if (yaml === null) yaml = {};
+  if (typeof yaml !== "object" || Array.isArray(yaml)) {
+    throw new HandoffParseError(2, "front matter must be a mapping of key: value pairs");
+  }
+  return fromFrontMatter(yaml as Record<string, unknown>, lines.slice(close + 1).join("\n").trim());
+}
+
+/** Map parsed front matter onto HandoffData (flat tests_* win over `tests:`) */
+function fromFrontMatter(fm: Record<string, unknown>, body: string): HandoffData {
+  const tests = isMapping(fm.tests) ? fm.tests : {};
+  return {
+    story: asString(fm.story),
+    step: asString(fm.step),
+    attempt: asInt(fm.attempt),
+    status: asString(fm.status),
+    reason: asString(fm.reason) || null,
+    files_changed: asList(fm.files_changed),
+    tests_pass: asInt(fm.tests_pass ?? tests.pass),
+    tests_fail: asInt(fm.tests_fail ?? tests.fail),
+    tests_skip: asInt(fm.tests_skip ?? tests.skip),
+    failing_tests: asList(fm.failing_tests),
+    test_reports: asList(fm.test_reports),
+    commit_hash: asString(fm.commit_hash)?.trim() || null,
+    body,
+    front_matter: fm,
+  };
+}
+
+/** Fallback parser: grep for reason keywords in markdown body */
+function parseFallback(content: string): HandoffData {
+  const reasonMap: Record<string, string> = {
+    "NEEDS CLARIFICATION": "needs_clarification",
+    "CONSTITUTION VIOLATION": "constitution_violation",
+    "SCOPE WARNING": "scope_warning",
+  };
+
+  let reason: string | null = null;
+  for (const [keyword, code] of Object.entries(reasonMap)) {
+    if (content.includes(keyword)) {
+      reason = code;
+      break;
+    }
+  }
+
+  return {
+    story: null,
+    step: null,
+    attempt: null,
+    status: reason ? "failing" : "pass",
+    reason,
+    files_changed: [],
+    tests_pass: null,
+    tests_fail: null,
+    tests_skip: null,
+    failing_tests: [],
+    test_reports: [],
+    commit_hash: null,
+    body: content,
+    front_matter: null,
+  };
+}
+
+// ─── Writer ──────────────────────────────────────────────────────────────────
+
+/**
+ * Render HANDOFF.md from front matter fields and a markdown body. Values are
+ * written in flow style (quoted strings, `[a, b]`, `{pass: 1}`), which
+ * parseHandoffContent() reads back unchanged; undefined fields are left out.
+ */
+export function formatHandoff(fields: Record<string, unknown>, body = ""): string {
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${flowValue(value)}`);
+  return `---\n${lines.join("\n")}\n---\n${body}`;
+}
+
+function flowValue(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(flowValue).join(", ")}]`;
+  if (isMapping(value)) {
+    return `{${Object.entries(value).map(([key, v]) => `${key}: ${flowValue(v)}`).join(", ")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// ─── Schema ──────────────────────────────────────────────────────────────────
+
+/** Bump when keys are added, removed or change type; executors may declare it */
+export const HANDOFF_SCHEMA_VERSION = 3;
+
+/**
+ * JSON Schema for HANDOFF front matter. validateHandoff() interprets the
+ * subset used here (type, properties, required, additionalProperties, items).
+ */
+export const HANDOFF_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: `https://agentic-coding-framework.dev/schemas/handoff/v${HANDOFF_SCHEMA_VERSION}.json`,
+  title: "HANDOFF.md front matter",
+  type: "object",
+  required: ["story", "step", "attempt", "status"],
+  additionalProperties: false,
+  properties: {
+    schema_version: { type: "integer", description: `At most ${HANDOFF_SCHEMA_VERSION}` },
+    story: { type: "string", description: "Story ID, e.g. US-005" },
+    step: { type: "string", description: "Step that was executed" },
+    attempt: { type: "integer" },
+    status: { type: "string", description: "pass | failing | needs_human" },
+    reason: { type: ["string", "null"], description: "Why the step is failing, e.g. needs_clarification" },
+    files_changed: { type: ["array", "null"], items: { type: "string" } },
+    tests: {
+      type: ["object", "null"],
+      additionalProperties: false,
+      properties: {
+        pass: { type: "integer" },
+        fail: { type: "integer" },
+        skip: { type: "integer" },
+      },
+    },
+    tests_pass: { type: ["integer", "null"] },
+    tests_fail: { type: ["integer", "null"] },
+    tests_skip: { type: ["integer", "null"] },
+    failing_tests: { type: ["array", "null"], items: { type: "string" }, description: "Names of the tests that fail" },
+    test_reports: {
+      type: ["array", "string", "null"],
+      items: { type: "string" },
+      description: "JUnit XML, TAP, go test -json or vitest/jest JSON report files",
+    },
+    commit_hash: { type: ["string", "null"], description: "Commit created by the commit step, quoted: \"3f2a9c1\"" },
+  },
+} as const;
+
+/**
+ * Front matter keys typed string (or string | null) that YAML would read as
+ * numbers when unquoted — `commit_hash: 0123456` must not lose its zero
+ */
+const STRING_FIELDS: readonly string[] = Object.entries(HANDOFF_SCHEMA.properties)
+  .filter(([, node]) => {
+    const types: readonly string[] = typeof node.type === "string" ? [node.type] : node.type;
+    return types.includes("string") && !types.includes("integer");
+  })
+  .map(([key]) => key);
+
+interface SchemaNode {
+  type?: string | readonly string[];
+  required?: readonly string[];
+  additionalProperties?: boolean;
+  properties?: Record<string, SchemaNode>;
+  items?: SchemaNode;
+}
+
+/**
+ * Check a parsed HANDOFF against HANDOFF_SCHEMA. A HANDOFF without front
+ * matter reports every required field as missing. Never throws.
+ */
+export function validateHandoff(handoff: HandoffData): HandoffIssue[] {
+  const fm = handoff.front_matter ?? {};
+  const issues: HandoffIssue[] = [];
+  const declared = fm.schema_version;
+  if (typeof declared === "number" && declared > HANDOFF_SCHEMA_VERSION) {
+    issues.push({
+      kind: "unsupported_version",
+      key: "schema_version",
+      message: `schema_version ${declared} is newer than this orchestrator supports (${HANDOFF_SCHEMA_VERSION})`,
+    });
+    return issues;
+  }
+  checkNode(HANDOFF_SCHEMA as SchemaNode, fm, "", issues);
+  return issues;
+}
+
+function checkNode(node: SchemaNode, value: unknown, path: string, issues: HandoffIssue[]): void {
+  if (node.type) {
+    const types = typeof node.type === "string" ? [node.type] : node.type;
+    if (!types.includes(jsonType(value))) {
+      issues.push({
+        kind: "wrong_type",
+        key: path,
+        message: `${path} should be ${types.join(" or ")}, got ${jsonType(value)} (${JSON.stringify(value)})`,
+      });
+      return;
+    }
+  }
+
+  if (isMapping(value)) {
+    for (const key of node.required ?? []) {
+      if (!(key in value)) {
+        issues.push({ kind: "missing_required", key: keyPath(path, key), message: `${keyPath(path, key)} is required` });
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const childNode = node.properties?.[key];
+      if (childNode) {
+        checkNode(childNode, child, keyPath(path, key), issues);
+      } else if (node.additionalProperties === false) {
+        issues.push({ kind: "unknown_key", key: keyPath(path, key), message: `${keyPath(path, key)} is not a known key and was ignored` });
+      }
+    }
+  } else if (Array.isArray(value) && node.items) {
+    value.forEach((item, i) => checkNode(node.items!, item, `${path}[${i}]`, issues));
+  }
+}
+
+function keyPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/** JSON Schema type name of a parsed YAML value */
+function jsonType(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+// ─── Value Coercion ──────────────────────────────────────────────────────────
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  return typeof value === "string" ? value : String(value);
+}
+
+function asInt(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? Math.trunc(value) : null;
+  if (typeof value === "string" && /^\s*-?\d+\s*$/.test(value)) return parseInt(value, 10);
+  return null;
+}
+
+function asList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((v) => v !== null).map(String);
+  if (typeof value === "string" && value) return [value];
+  return [];
+}
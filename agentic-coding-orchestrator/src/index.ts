@@ -4,6 +4,7 @@
  * Three modules, one pipeline:
  *   state.ts   → STATE.json types + I/O
  *   rules.ts   → Step transition rules table (pure data)
+ *   step-rules.ts → Per-project `.ai/step-rules.yaml` overrides
  *   dispatch.ts → State machine + prompt builder + handoff parser
  */
 
@@ -15,14 +16,22 @@ export {
   initState,
   validate,
   sanitize,
+  normalizeStatus,
   isTimedOut,
   isMaxedOut,
   markRunning,
   markCompleted,
   generateClaudeMd,
   writeClaudeMd,
+  focusStory,
+  parkStory,
+  activeStoryIds,
+  StateConflictError,
+  migrateState,
+  repairState,
+  STATE_SCHEMA_VERSION,
 } from "./state";
-export type { State, TestResults } from "./state";
+export type { State, StoryState, TestResults, CheckResult, CommitRecord } from "./state";
 
 // Rules
 export {
@@ -35,8 +44,167 @@ export {
   getDispatchMode,
   getFailTarget,
   getStepSequence,
+  getRulesTable,
+  getKnownSteps,
+  DEFAULT_PIPELINES,
+  getPostChecks,
+  POST_CHECK_KINDS,
+  POST_CHECK_TIMEOUT_SEC,
 } from "./rules";
-export type { StepRule } from "./rules";
+export type { StepRule, RulesTable, Pipeline, PostCheck, PostCheckSpec, PostCheckKind } from "./rules";
+
+// Step rule overrides (.ai/step-rules.yaml)
+export {
+  readStepRuleOverrides,
+  parseStepRulesFile,
+  stepRulesPath,
+  SCOPE_MODES,
+  GIT_DEFAULTS,
+  NOTIFIER_KINDS,
+  NOTIFICATION_EVENT_TYPES,
+} from "./step-rules";
+export type {
+  StepRuleOverride,
+  StepRulesFile,
+  PipelineDefinition,
+  TestCommandConfig,
+  ScopeMode,
+  GitConfig,
+  NotifierConfig,
+  NotifierKind,
+  NotificationEventType,
+} from "./step-rules";
+export { parseYaml, YamlParseError } from "./yaml";
+
+// HANDOFF.md parser (parseHandoff / HandoffData are also exported via dispatch)
+export {
+  parseHandoffContent,
+  formatHandoff,
+  handoffPath,
+  HandoffParseError,
+  validateHandoff,
+  HANDOFF_SCHEMA,
+  HANDOFF_SCHEMA_VERSION,
+} from "./handoff";
+export type { HandoffIssue, HandoffFields } from "./handoff";
+
+// Failing test names from JUnit XML / TAP / go test -json / vitest-jest JSON reports
+export { parseTestReport, readFailingTests } from "./test-reports";
+export type { TestReport, TestReportFormat } from "./test-reports";
+
+// Orchestrator-run test command (`test:` in .ai/step-rules.yaml)
+export { runTestCommand, describeTestRun } from "./test-runner";
+export type { TestRun } from "./test-runner";
+
+// Backlog (.ai/BACKLOG.json)
+export {
+  backlogPath,
+  readBacklog,
+  writeBacklog,
+  addBacklogItem,
+  listBacklog,
+  nextBacklogItem,
+  removeBacklogItem,
+  markStoryCompleted,
+} from "./backlog";
+export type { Backlog, BacklogItem, BacklogEntry, BacklogResult, AddBacklogOptions } from "./backlog";
+
+// Atomic writes + STATE.lock
+export {
+  withStateLock,
+  writeFileAtomic,
+  lockPath,
+  LOCK_TIMEOUT_MS,
+  STALE_LOCK_MS,
+} from "./lock";
+export type { LockResult } from "./lock";
+
+// State transition journal (.ai/events.jsonl)
+export {
+  eventsPath,
+  readEvents,
+  appendEvents,
+  recordTransitions,
+  withAction,
+} from "./events";
+export type { StateEvent, StepSnapshot, EventFilter } from "./events";
+
+// Undo snapshots (.ai/UNDO.json)
+export { undoPath, readUndoStack, writeUndoStack, withUndo, restoreSnapshotFiles, UNDO_DEPTH } from "./undo";
+export type { UndoSnapshot } from "./undo";
+
+// Named post-checks (.ai/checks/)
+export { runChecks, checksPassed, checksDir, readCheckOutputTail } from "./checks";
+
+// Read-only git queries
+export {
+  runGit,
+  isGitRepo,
+  workingTreeChanges,
+  committedChangesSince,
+  filesChangedSince,
+  snapshotGit,
+  filesChangedSinceSnapshot,
+  uncommittedFiles,
+  currentBranch,
+  branchExists,
+  switchToBranch,
+  findStoryCommit,
+  resolveCommit,
+  isOnBranch,
+} from "./git";
+export type { GitSnapshot, CommitInfo } from "./git";
+
+// Diff-scope enforcement (claude_writes)
+export { globToRegExp, matchesAnyGlob, findScopeViolations, ALWAYS_WRITABLE } from "./scope";
+
+// Executor adapters + runStep (dispatch → executor → applyHandoff)
+export { runStep, claudeCodeExecutor, commandExecutor, fakeExecutor } from "./executor";
+export type {
+  Executor,
+  ExecutorTask,
+  Execution,
+  ExecutionStatus,
+  ExecutionResult,
+  RunStepResult,
+  FakeRun,
+} from "./executor";
+
+// Supervisor loop (`orchestrator run`)
+export { runStory, formatTranscriptEntry, RUN_UNTIL } from "./supervisor";
+export type { RunUntil, RunStopReason, RunOptions, RunResult, TranscriptEntry } from "./supervisor";
+
+// Workspace daemon (`orchestrator watch`)
+export { watchWorkspace, scanProject, findWatchedProjects } from "./watch";
+export type { Watcher, WatchEvent, WatchEventType, WatchListener, WatchOptions, WatchSeen } from "./watch";
+
+// Local HTTP/JSON API (`orchestrator serve`)
+export { startServer, API_ACTIONS, DEFAULT_PORT } from "./server";
+export type { ApiServer, ApiError, ServeOptions } from "./server";
+
+// MCP stdio server (`orchestrator mcp`)
+export { serveMcp, handleMcpMessage, MCP_TOOLS, MCP_PROTOCOL_VERSIONS } from "./mcp";
+export type { McpTool, McpToolResult, McpInput, McpOutput, JsonRpcResponse } from "./mcp";
+
+// Notifications for state events (`notify:` in .ai/step-rules.yaml)
+export {
+  makeNotification,
+  dispatchNotifications,
+  stepPassedNotification,
+  resultNotifications,
+  formatNotification,
+  sendNotifications,
+  loadNotifiers,
+  createNotifier,
+  queueNotifications,
+  flushNotifications,
+  stdoutNotifier,
+  fileNotifier,
+  webhookNotifier,
+  commandNotifier,
+  signPayload,
+} from "./notify";
+export type { Notifier, NotificationEvent, NotifyOutcome } from "./notify";
 
 // Auto (unified entry point)
 export { auto, classify } from "./auto";
@@ -48,10 +216,13 @@ export {
   buildPrompt,
   parseHandoff,
   applyHandoff,
+  submitHandoff,
   runPostCheck,
+  runPostChecks,
   approveReview,
   rejectReview,
   startStory,
+  startNextStory,
   startCustom,
   detectFramework,
   queryProjectStatus,
@@ -59,8 +230,10 @@ export {
   rollback, // [v0.6.0] Rollback to previous step
   checkPrerequisites, // [v0.6.0] Pre-dispatch file checks
   generateChecklist, // [v0.6.0] Per-story checklist generation
+  checkOffChecklistItem,
   reopen, // [v0.8.0] Reopen completed story at step
+  undo,
   review, // [v0.8.0] On-demand review session prompt
   triage, // [v0.8.0] Triage ISSUES into action plan
 } from "./dispatch";
-export type { DispatchResult, HandoffData, PrereqCheckResult } from "./dispatch";
+export type { DispatchResult, HandoffData, PrereqCheckResult, PostCheckReport, ScopeReport, FilesReport } from "./dispatch";
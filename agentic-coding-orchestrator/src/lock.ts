@@ -0,0 +1,234 @@
+/**
+ * lock.ts — Atomic Writes + Advisory Lock for .ai/ State Files
+ *
+ * The Stop and SessionEnd hooks can fire together, so two orchestrator
+ * processes may read-modify-write STATE.json at the same time. Two tools:
+ *
+ *   writeFileAtomic(path, data)   — write a temp file, then rename over the
+ *                                   target: readers never see a partial file
+ *   withStateLock(root, fn)       — run fn while holding `.ai/STATE.lock`
+ *
+ * The lock is a file created with O_EXCL holding the owner's pid / host.
+ * It is reentrant within a process (dispatch → startStory nests). A lock
+ * whose owner process on this host is gone is broken; one from another host
+ * (whose pid cannot be checked) is broken once older than STALE_LOCK_MS.
+ *
+ * All operations are synchronous — zero LLM tokens.
+ */
+
+import {
+  existsSync,
+  readFileSync,
+  writeFileSync,
+  mkdirSync,
+  unlinkSync,
+  statSync,
+  renameSync,
+  linkSync,
+  openSync,
+  writeSync,
+  closeSync,
+} from "fs";
+import { join, dirname } from "path";
+import { hostname } from "os";
+
+// ─── Config Constants ────────────────────────────────────────────────────────
+
+/** How long to wait for a contended lock before giving up (LOCKED) */
+export const LOCK_TIMEOUT_MS = 5_000;
+
+/** A lock from another host held longer than this is assumed abandoned and broken */
+export const STALE_LOCK_MS = 120_000;
+
+const POLL_INTERVAL_MS = 25;
+
+// ─── Atomic Write ────────────────────────────────────────────────────────────
+
+/**
+ * Write `data` to `path` via a sibling temp file + rename, so a concurrent
+ * reader sees either the old or the new content, never a torn write.
+ */
+export function writeFileAtomic(path: string, data: string): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  const tmp = `${path}.${uniqueSuffix()}.tmp`;
+  try {
+    writeFileSync(tmp, data, "utf-8");
+    renameSync(tmp, path);
+  } catch (err) {
+    try { unlinkSync(tmp); } catch { /* already gone */ }
+    throw err;
+  }
+}
+
+// ─── Advisory Lock ───────────────────────────────────────────────────────────
+
+export type LockResult<T> =
+  | { acquired: true; value: T }
+  | { acquired: false; message: string };
+
+interface LockOwner {
+  pid: number;
+  host: string;
+  acquired_at: string;
+}
+
+/** Resolve the lock file path for a project root */
+export function lockPath(projectRoot: string): string {
+  return join(projectRoot, ".ai", "STATE.lock");
+}
+
+/** Lock depth per lock path held by this process (reentrancy) */
+const held = new Map<string, number>();
+
+/**
+ * Run `fn` while holding the project's STATE lock.
+ * Waits up to `timeoutMs` for another process to release it; returns
+ * `{ acquired: false }` instead of throwing when it cannot.
+ * Errors thrown by `fn` propagate after the lock is released.
+ */
+export function withStateLock<T>(
+  projectRoot: string,
+  fn: () => T,
+  options: { timeoutMs?: number; staleMs?: number } = {},
+): LockResult<T> {
+  const path = lockPath(projectRoot);
+  const depth = held.get(path) ?? 0;
+  if (depth > 0) {
+    held.set(path, depth + 1);
+    try {
+      return { acquired: true, value: fn() };
+    } finally {
+      held.set(path, depth);
+    }
+  }
+
+  // No .ai/ yet means no STATE.json to protect (startStory's auto-init creates it)
+  if (!existsSync(dirname(path))) return { acquired: true, value: fn() };
+
+  const acquired = acquire(path, options.timeoutMs ?? LOCK_TIMEOUT_MS, options.staleMs ?? STALE_LOCK_MS);
+  if (!acquired.ok) return { acquired: false, message: acquired.message };
+
+  held.set(path, 1);
+  try {
+    return { acquired: true, value: fn() };
+  } finally {
+    held.delete(path);
+    // Only remove our own lock — if it was broken as stale, it may be another's now
+    if (readContent(path) === acquired.content) {
+      try { unlinkSync(path); } catch { /* already gone */ }
+    }
+  }
+}
+
+/**
+ * Try to create the lock file until timeout. Returns the content written
+ * (to recognise our own lock on release) or a reason string.
+ */
+function acquire(
+  path: string,
+  timeoutMs: number,
+  staleMs: number,
+): { ok: true; content: string } | { ok: false; message: string } {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    try {
+      const fd = openSync(path, "wx");
+      const owner: LockOwner = { pid: process.pid, host: hostname(), acquired_at: new Date().toISOString() };
+      const content = JSON.stringify(owner);
+      writeSync(fd, content);
+      closeSync(fd);
+      return { ok: true, content };
+    } catch (err) {
+      if ((err as { code?: string }).code !== "EEXIST") throw err;
+    }
+
+    const stale = staleContent(path, staleMs);
+    if (stale !== null) {
+      breakLock(path, stale);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      const owner = parseOwner(readContent(path));
+      const message = `STATE.lock held by ${owner ? `pid ${owner.pid} on ${owner.host} since ${owner.acquired_at}` : "another process"} — gave up after ${timeoutMs}ms`;
+      return { ok: false, message };
+    }
+    sleep(POLL_INTERVAL_MS);
+  }
+}
+
+/**
+ * The lock file's content if the lock is stale, else null. A lock owned on
+ * this host is stale only when its pid is gone — a live holder keeps it
+ * however long it runs. A lock from another host, or one whose owner is not
+ * written yet, is stale once untouched for `staleMs`.
+ */
+function staleContent(path: string, staleMs: number): string | null {
+  let content: string;
+  let mtimeMs: number;
+  try {
+    content = readFileSync(path, "utf-8");
+    mtimeMs = statSync(path).mtimeMs;
+  } catch {
+    return null; // released meanwhile — just retry
+  }
+  const owner = parseOwner(content);
+  if (owner && owner.host === hostname()) return isAlive(owner.pid) ? null : content;
+  return Date.now() - mtimeMs > staleMs ? content : null;
+}
+
+/**
+ * Break a stale lock without racing other waiters. Unlinking by path could
+ * remove a fresh lock another waiter created after breaking the same stale
+ * one; instead the lock is renamed aside (atomic, so only one waiter gets
+ * it) and checked to still be the lock judged stale. A fresh lock taken by
+ * mistake is linked back, unless yet another lock has appeared meanwhile.
+ */
+function breakLock(path: string, stale: string): void {
+  const aside = `${path}.${uniqueSuffix()}.stale`;
+  try {
+    renameSync(path, aside);
+  } catch {
+    return; // another waiter broke it first
+  }
+  if (readContent(aside) !== stale) {
+    try { linkSync(aside, path); } catch { /* a newer lock holds the path */ }
+  }
+  try { unlinkSync(aside); } catch { /* already gone */ }
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as { code?: string }).code !== "ESRCH"; // EPERM: alive, not ours
+  }
+}
+
+function readContent(path: string): string | null {
+  try {
+    return readFileSync(path, "utf-8");
+  } catch {
+    return null; // already removed
+  }
+}
+
+function parseOwner(content: string | null): LockOwner | null {
+  try {
+    return content ? JSON.parse(content) : null;
+  } catch {
+    return null; // being written
+  }
+}
+
+function uniqueSuffix(): string {
+  return `${process.pid}.${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Block the thread without spinning (all orchestrator I/O is synchronous). */
+function sleep(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
@@ -0,0 +1,323 @@
+/**
+ * mcp.ts — Model Context Protocol Server (`orchestrator mcp`)
+ *
+ * Gives the executor tools instead of file conventions: rather than reading
+ * `.ai/STATE.json` and hand-writing HANDOFF.md (where most malformed
+ * handoffs come from), it calls
+ *
+ *   get_current_task             peek() at the story's running step and prompt
+ *   submit_handoff               structured HANDOFF fields → validated,
+ *                                written and applied (submitHandoff)
+ *   check_off_checklist_item     tick an item in .ai/CHECKLIST.md
+ *   report_clarification_needed  failing HANDOFF with reason needs_clarification
+ *
+ * Transport is stdio: newline-delimited JSON-RPC 2.0 on stdin/stdout, one
+ * server per project. Only the `tools` capability is offered. Tool failures
+ * (invalid input, wrong step, ...) come back as `isError` results carrying
+ * the orchestrator's structured error, so the agent can correct and retry.
+ *
+ * handleMcpMessage() is synchronous, like the dispatch.ts functions behind
+ * it; serveMcp() only adds the line framing around it.
+ */
+
+import { readFileSync } from "fs";
+import { dirname, join } from "path";
+import { peek, submitHandoff, checkOffChecklistItem } from "./dispatch";
+import { HANDOFF_SCHEMA, HandoffFields } from "./handoff";
+import { readState, focusStory } from "./state";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export interface McpToolResult {
+  content: { type: "text"; text: string }[];
+  structuredContent: unknown;
+  isError: boolean;
+}
+
+/** Where serveMcp() reads requests from (process.stdin by default) */
+export interface McpInput {
+  setEncoding(encoding: string): void;
+  on(event: "data", cb: (chunk: string) => void): void;
+  on(event: "end", cb: () => void): void;
+}
+
+/** Where serveMcp() writes responses to (process.stdout by default) */
+export interface McpOutput {
+  write(data: string): boolean;
+}
+
+type ToolArgs = Record<string, unknown>;
+
+interface ToolDefinition extends McpTool {
+  /** Returns the orchestrator result and whether it counts as success */
+  call(projectRoot: string, args: ToolArgs): { result: unknown; ok: boolean };
+}
+
+/** Newest first; an initialize with any other version gets the newest */
+export const MCP_PROTOCOL_VERSIONS: readonly string[] = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+const SERVER_NAME = "agentic-coding-orchestrator";
+
+const RPC_PARSE_ERROR = -32700;
+const RPC_INVALID_REQUEST = -32600;
+const RPC_METHOD_NOT_FOUND = -32601;
+const RPC_INVALID_PARAMS = -32602;
+
+// ─── Tools ───────────────────────────────────────────────────────────────────
+
+const storyProperty = { type: "string", description: "Active story to act on (default: the focused story)" };
+
+// Nested `tests:` replaces the flat tests_* keys; schema_version is implied
+const {
+  schema_version: _schemaVersion,
+  tests_pass: _testsPass,
+  tests_fail: _testsFail,
+  tests_skip: _testsSkip,
+  ...handoffProperties
+} = HANDOFF_SCHEMA.properties;
+
+const TOOLS: ToolDefinition[] = [
+  {
+    name: "get_current_task",
+    description:
+      "The step you are executing: story, step, attempt and the full prompt with its instructions. " +
+      "`running` is false when no step is dispatched — the result then previews what would run next.",
+    inputSchema: { type: "object", properties: { story: storyProperty }, additionalProperties: false },
+    call(projectRoot, args) {
+      const story = args.story as string | undefined;
+      const preview = peek(projectRoot, story);
+      return { result: { running: isRunning(projectRoot, story), ...preview }, ok: preview.type !== "error" };
+    },
+  },
+  {
+    name: "submit_handoff",
+    description:
+      "Finish the current step: validates the fields, writes .ai/HANDOFF.md and applies it (tests, post-checks, " +
+      "scope). story, step and attempt default to the running step. Call once, as the last thing you do.",
+    inputSchema: {
+      type: "object",
+      required: ["status"],
+      additionalProperties: false,
+      properties: {
+        ...handoffProperties,
+        status: { type: "string", enum: ["pass", "failing", "needs_human"] },
+        summary: { type: "string", description: "Markdown: what was done, what is unresolved, notes for the next step" },
+      },
+    },
+    call(projectRoot, args) {
+      const { summary, ...fields } = args;
+      const result = submitHandoff(projectRoot, fields as unknown as HandoffFields, (summary as string | undefined) ?? "");
+      return { result, ok: result.type === "applied" };
+    },
+  },
+  {
+    name: "check_off_checklist_item",
+    description: "Mark an item of .ai/CHECKLIST.md as done. `item` is the item text, or a unique part of it.",
+    inputSchema: {
+      type: "object",
+      required: ["item"],
+      additionalProperties: false,
+      properties: { item: { type: "string" } },
+    },
+    call(projectRoot, args) {
+      const result = checkOffChecklistItem(projectRoot, args.item as string);
+      return { result, ok: result.type === "checked" };
+    },
+  },
+  {
+    name: "report_clarification_needed",
+    description:
+      "Stop the step because the requirements are unclear. Hands off as failing with reason " +
+      "needs_clarification; the question is passed on to the person reviewing.",
+    inputSchema: {
+      type: "object",
+      required: ["question"],
+      additionalProperties: false,
+      properties: { question: { type: "string" }, story: storyProperty },
+    },
+    call(projectRoot, args) {
+      const body = `# Clarification needed\n\n${(args.question as string).trim()}\n`;
+      const result = submitHandoff(
+        projectRoot,
+        { status: "failing", reason: "needs_clarification" },
+        body,
+        args.story as string | undefined,
+      );
+      return { result, ok: result.type === "applied" };
+    },
+  },
+];
+
+export const MCP_TOOLS: readonly McpTool[] = TOOLS.map(({ name, description, inputSchema }) => ({
+  name,
+  description,
+  inputSchema,
+}));
+
+/** True if the story (default: focused) has a dispatched step */
+function isRunning(projectRoot: string, storyId?: string): boolean {
+  try {
+    const state = readState(projectRoot);
+    if (storyId && !focusStory(state, storyId)) return false;
+    return state.status === "running";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Top-level argument problems: not an object, unknown or missing keys,
+ * non-strings where a string is expected. Deeper HANDOFF checks are
+ * submitHandoff()'s.
+ */
+function checkArgs(args: unknown, schema: Record<string, unknown>): string[] {
+  if (typeof args !== "object" || args === null || Array.isArray(args)) return ["arguments must be an object"];
+  const properties = schema.properties as Record<string, { type?: unknown }>;
+  const problems: string[] = [];
+  for (const [key, value] of Object.entries(args)) {
+    if (!(key in properties)) problems.push(`unknown argument "${key}"`);
+    else if (properties[key].type === "string" && typeof value !== "string") problems.push(`"${key}" must be a string`);
+  }
+  for (const key of (schema.required as string[] | undefined) ?? []) {
+    const value = (args as ToolArgs)[key];
+    if (value === undefined || value === null || (typeof value === "string" && !value.trim())) {
+      problems.push(`"${key}" is required`);
+    }
+  }
+  return problems;
+}
+
+/** Run one tool; failures become an isError result, never a throw */
+function callTool(projectRoot: string, name: string, args: unknown): McpToolResult | null {
+  const tool = TOOLS.find((t) => t.name === name);
+  if (!tool) return null;
+  let result: unknown;
+  let ok: boolean;
+  const problems = checkArgs(args ?? {}, tool.inputSchema);
+  if (problems.length > 0) {
+    result = { type: "error", code: "INVALID_ARGUMENTS", message: problems.join("; "), recoverable: true };
+    ok = false;
+  } else {
+    try {
+      ({ result, ok } = tool.call(projectRoot, (args ?? {}) as ToolArgs));
+    } catch (err) {
+      result = { type: "error", code: "INTERNAL_ERROR", message: (err as Error).message, recoverable: true };
+      ok = false;
+    }
+  }
+  return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }], structuredContent: result, isError: !ok };
+}
+
+// ─── JSON-RPC ────────────────────────────────────────────────────────────────
+
+/**
+ * Handle one decoded JSON-RPC message for `projectRoot`. Returns the
+ * response, or null for notifications (no `id`), which get none.
+ */
+export function handleMcpMessage(projectRoot: string, message: unknown): JsonRpcResponse | null {
+  if (typeof message !== "object" || message === null || Array.isArray(message)) {
+    return rpcError(null, RPC_INVALID_REQUEST, "Expected a JSON-RPC request object");
+  }
+  const { id, method, params } = message as { id?: string | number | null; method?: unknown; params?: unknown };
+  const isNotification = id === undefined;
+  if (typeof method !== "string") {
+    return isNotification ? null : rpcError(id, RPC_INVALID_REQUEST, "Missing method");
+  }
+  if (isNotification) return null; // notifications/initialized, notifications/cancelled, ...
+
+  const p = (params ?? {}) as Record<string, unknown>;
+  switch (method) {
+    case "initialize": {
+      const requested = p.protocolVersion as string | undefined;
+      return rpcResult(id, {
+        protocolVersion: requested && MCP_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSIONS[0],
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: { name: SERVER_NAME, version: packageVersion() },
+        instructions:
+          "Call get_current_task first. Finish the step with submit_handoff (or report_clarification_needed) " +
+          "instead of writing .ai/HANDOFF.md by hand.",
+      });
+    }
+    case "ping":
+      return rpcResult(id, {});
+    case "tools/list":
+      return rpcResult(id, { tools: MCP_TOOLS });
+    case "tools/call": {
+      const result = callTool(projectRoot, String(p.name), p.arguments);
+      return result ? rpcResult(id, result) : rpcError(id, RPC_INVALID_PARAMS, `Unknown tool "${p.name}"`);
+    }
+    default:
+      return rpcError(id, RPC_METHOD_NOT_FOUND, `Method not found: ${method}`);
+  }
+}
+
+function rpcResult(id: string | number | null, result: unknown): JsonRpcResponse {
+  return { jsonrpc: "2.0", id, result };
+}
+
+function rpcError(id: string | number | null, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: "2.0", id, error: { code, message } };
+}
+
+function packageVersion(): string {
+  try {
+    return JSON.parse(readFileSync(join(dirname(__dirname), "package.json"), "utf-8")).version;
+  } catch {
+    return "0.0.0";
+  }
+}
+
+// ─── Stdio Transport ─────────────────────────────────────────────────────────
+
+/**
+ * Serve MCP for `projectRoot` over newline-delimited JSON-RPC until the
+ * input ends. Nothing but responses is written to `output`.
+ */
+export function serveMcp(
+  projectRoot: string,
+  input: McpInput = process.stdin,
+  output: McpOutput = process.stdout,
+): Promise<void> {
+  return new Promise((resolveServe) => {
+    let buffer = "";
+    const handleLine = (line: string) => {
+      if (!line.trim()) return;
+      let message: unknown;
+      try {
+        message = JSON.parse(line);
+      } catch (err) {
+        output.write(JSON.stringify(rpcError(null, RPC_PARSE_ERROR, `Parse error: ${(err as Error).message}`)) + "\n");
+        return;
+      }
+      const response = handleMcpMessage(projectRoot, message);
+      if (response) output.write(JSON.stringify(response) + "\n");
+    };
+
+    input.setEncoding("utf-8");
+    input.on("data", (chunk) => {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) >= 0) {
+        handleLine(buffer.slice(0, newline));
+        buffer = buffer.slice(newline + 1);
+      }
+    });
+    input.on("end", () => {
+      handleLine(buffer);
+      resolveServe();
+    });
+  });
+}
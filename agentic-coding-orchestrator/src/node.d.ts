@@ -9,9 +9,20 @@ declare module "fs" {
   export function writeFileSync(path: string, data: string, encoding?: string): void;
   export function mkdirSync(path: string, options?: { recursive?: boolean }): string | undefined;
   export function readdirSync(path: string): string[];
-  export function statSync(path: string): { isDirectory(): boolean; isFile(): boolean; mtimeMs: number };
+  export function statSync(path: string): { isDirectory(): boolean; isFile(): boolean; mtimeMs: number; size: number };
   export function unlinkSync(path: string): void;
   export function rmSync(path: string, options?: { recursive?: boolean; force?: boolean }): void;
+  export function appendFileSync(path: string, data: string, encoding?: string): void;
+  export function renameSync(oldPath: string, newPath: string): void;
+  export function linkSync(existingPath: string, newPath: string): void;
+  export function openSync(path: string, flags: string): number;
+  export function writeSync(fd: number, data: string): number;
+  export function closeSync(fd: number): void;
+  export interface FSWatcher {
+    close(): void;
+    on(event: "error", cb: (err: Error) => void): this;
+  }
+  export function watch(path: string, listener: (event: string, filename: string | null) => void): FSWatcher;
 }
 
 declare module "path" {
@@ -30,18 +41,112 @@ declare module "child_process" {
     encoding?: string;
     stdio?: string | string[];
   }): string | Buffer;
+  export function spawnSync(command: string, args: string[], options?: {
+    cwd?: string;
+    input?: string;
+    encoding?: string;
+    timeout?: number;
+    maxBuffer?: number;
+    env?: Record<string, string | undefined>;
+  }): {
+    status: number | null;
+    signal: string | null;
+    stdout: string;
+    stderr: string;
+    error?: Error & { code?: string };
+  };
+  export function spawnSync(command: string, options?: {
+    cwd?: string;
+    shell?: boolean | string;
+    encoding?: string;
+    timeout?: number;
+    maxBuffer?: number;
+    env?: Record<string, string | undefined>;
+  }): {
+    status: number | null;
+    signal: string | null;
+    stdout: string;
+    stderr: string;
+    error?: Error & { code?: string };
+  };
+  export interface ChildProcess {
+    readonly pid?: number;
+    readonly stdin: { write(data: string): boolean; end(): void; on(event: "error", cb: (err: Error) => void): void } | null;
+    readonly stdout: { on(event: "data", cb: (chunk: Buffer) => void): void } | null;
+    readonly stderr: { on(event: "data", cb: (chunk: Buffer) => void): void } | null;
+    on(event: "close", cb: (code: number | null, signal: string | null) => void): this;
+    on(event: "error", cb: (err: Error & { code?: string }) => void): this;
+    kill(signal?: string): boolean;
+  }
+  export function spawn(command: string, args: string[], options?: {
+    cwd?: string;
+    env?: Record<string, string | undefined>;
+    shell?: boolean | string;
+    detached?: boolean;
+    stdio?: string | string[];
+  }): ChildProcess;
+}
+
+declare module "http" {
+  export interface IncomingMessage {
+    method?: string;
+    url?: string;
+    headers: Record<string, string | string[] | undefined>;
+    on(event: "data", cb: (chunk: Buffer) => void): this;
+    on(event: "end" | "close", cb: () => void): this;
+    on(event: "error", cb: (err: Error) => void): this;
+    destroy(): void;
+  }
+  export interface ServerResponse {
+    statusCode: number;
+    headersSent: boolean;
+    setHeader(name: string, value: string | number): void;
+    writeHead(status: number, headers?: Record<string, string | number>): this;
+    write(chunk: string): boolean;
+    end(chunk?: string): void;
+    on(event: "close", cb: () => void): this;
+  }
+  export interface Server {
+    listen(port: number, host: string, cb?: () => void): this;
+    address(): { port: number; address: string } | string | null;
+    close(cb?: (err?: Error) => void): this;
+    closeAllConnections?(): void;
+    on(event: "error", cb: (err: Error & { code?: string }) => void): this;
+  }
+  export function createServer(handler: (req: IncomingMessage, res: ServerResponse) => void): Server;
+}
+
+declare module "crypto" {
+  export interface Hmac {
+    update(data: string): Hmac;
+    digest(encoding: "hex"): string;
+  }
+  export function createHmac(algorithm: string, key: string): Hmac;
+  export function randomBytes(size: number): Buffer;
+  export function timingSafeEqual(a: Buffer, b: Buffer): boolean;
 }
 
 declare module "os" {
   export function tmpdir(): string;
   export function homedir(): string;
+  export function hostname(): string;
 }
 
 declare var process: {
   argv: string[];
+  execPath: string;
+  pid: number;
+  kill(pid: number, signal?: string | number): boolean;
   exit(code?: number): never;
   cwd(): string;
   env: Record<string, string | undefined>;
+  on(event: string, cb: (...args: any[]) => void): void;
+  stdin: {
+    setEncoding(encoding: string): void;
+    on(event: "data", cb: (chunk: string) => void): void;
+    on(event: "end", cb: () => void): void;
+  };
+  stdout: { write(data: string): boolean };
 };
 
 declare var console: {
@@ -52,11 +157,33 @@ declare var console: {
 
 declare var require: (id: string) => any;
 
+declare function fetch(
+  url: string,
+  init?: { method?: string; headers?: Record<string, string>; body?: string; signal?: unknown },
+): Promise<{ ok: boolean; status: number; statusText: string; text(): Promise<string> }>;
+
+declare var AbortSignal: { timeout(ms: number): unknown };
+
+declare function setTimeout(cb: () => void, ms: number): unknown;
+declare function clearTimeout(handle: unknown): void;
+declare function setInterval(cb: () => void, ms: number): unknown;
+declare function clearInterval(handle: unknown): void;
+
 declare class Buffer {
   static from(str: string, encoding?: string): Buffer;
+  static concat(chunks: Buffer[]): Buffer;
   toString(encoding?: string): string;
   readonly length: number;
 }
 
+declare class URL {
+  constructor(url: string, base?: string);
+  readonly protocol: string;
+  readonly host: string;
+  readonly hostname: string;
+  readonly pathname: string;
+  readonly searchParams: { get(name: string): string | null };
+}
+
 declare var __dirname: string;
 declare var __filename: string;
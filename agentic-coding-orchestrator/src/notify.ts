@@ -0,0 +1,404 @@
+/**
+ * notify.ts — Notifications for State Events
+ *
+ * Replaces the channel handling in bin/notify-agi.sh with a Notifier
+ * interface. State changes become NotificationEvents:
+ *
+ *   dispatched        a step was handed to the executor
+ *   step_passed       a HANDOFF reporting pass was applied, or a review approved
+ *   step_failed       a HANDOFF reporting failing was applied, or a review rejected
+ *   needs_human       a review checkpoint, or a question from the executor
+ *   blocked           a step used all of its attempts
+ *   timeout           a running step passed its timeout_min
+ *   done              the story completed
+ *   review_suggested  the completed story is due an on-demand review
+ *
+ * Each project configures its notifiers in the `notify:` list of
+ * .ai/step-rules.yaml. Built-in adapters: stdout, file (JSON lines),
+ * webhook (JSON POST signed with HMAC-SHA256) and command (shell command
+ * with the event on stdin and in ACO_* variables).
+ *
+ * dispatch(), applyHandoff(), approveReview() and rejectReview() queue
+ * them whenever they move a story on, so every caller — CLI, Stop hook,
+ * supervisor, watch daemon, HTTP API, MCP server — notifies the same way.
+ * A notifier that fails is logged to hook.log; it never fails the state
+ * change that caused the event.
+ */
+
+import { appendFileSync, mkdirSync } from "fs";
+import { basename, dirname, isAbsolute, join } from "path";
+import { spawn } from "child_process";
+import { createHmac } from "crypto";
+import { readState, appendLog, State } from "./state";
+import { getRule } from "./rules";
+import { readStepRuleOverrides, NotifierConfig, NotificationEventType } from "./step-rules";
+import type { DispatchResult, HandoffResult, ActionResult } from "./dispatch";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type { NotificationEventType } from "./step-rules";
+
+export interface NotificationEvent {
+  type: NotificationEventType;
+  ts: string;
+  /** STATE.project, or the directory name */
+  project: string;
+  /** Absolute project root */
+  project_root: string;
+  story: string | null;
+  step: string | null;
+  attempt: number | null;
+  /** Plain text, ready for a chat message */
+  message: string;
+}
+
+export interface Notifier {
+  /** Identifies the notifier in hook.log, e.g. `webhook https://...` */
+  name: string;
+  /** Event types this notifier receives; all when omitted */
+  events?: NotificationEventType[];
+  /** Deliver one event; rejects when it could not be delivered */
+  notify(event: NotificationEvent): Promise<void>;
+}
+
+export interface NotifyOutcome {
+  notifier: string;
+  event: NotificationEventType;
+  ok: boolean;
+  error: string | null;
+}
+
+const DEFAULT_TIMEOUT_SEC = 10;
+const DEFAULT_FILE = ".ai/notifications.jsonl";
+
+// ─── Events ──────────────────────────────────────────────────────────────────
+
+/** Build one event; `project` is read from STATE when it can be */
+export function makeNotification(
+  projectRoot: string,
+  type: NotificationEventType,
+  fields: { story: string | null; step: string | null; attempt?: number | null; message: string },
+): NotificationEvent {
+  return {
+    type,
+    ts: new Date().toISOString(),
+    project: projectName(projectRoot),
+    project_root: projectRoot,
+    story: fields.story,
+    step: fields.step,
+    attempt: fields.attempt ?? null,
+    message: fields.message,
+  };
+}
+
+/** The events a dispatch() result stands for (none for errors / already_running) */
+export function dispatchNotifications(projectRoot: string, result: DispatchResult): NotificationEvent[] {
+  switch (result.type) {
+    case "dispatched":
+      return [
+        makeNotification(projectRoot, "dispatched", {
+          story: result.story,
+          step: result.step,
+          attempt: result.attempt,
+          message: `${label(result.story, result.step)} #${result.attempt} dispatched`,
+        }),
+      ];
+    case "needs_human":
+      return [makeNotification(projectRoot, "needs_human", { story: result.story, step: result.step, message: result.message })];
+    case "blocked":
+      return [
+        makeNotification(projectRoot, "blocked", {
+          story: result.story,
+          step: result.step,
+          message: `${label(result.story, result.step)} blocked: ${result.reason}`,
+        }),
+      ];
+    case "timeout":
+      return [
+        makeNotification(projectRoot, "timeout", {
+          story: result.story,
+          step: result.step,
+          message: `${label(result.story, result.step)} timed out: ${result.last_error ?? `${result.elapsed_min} min`}`,
+        }),
+      ];
+    case "done": {
+      const events = [makeNotification(projectRoot, "done", { story: result.story, step: "done", message: result.summary })];
+      if (result.review_suggested) {
+        events.push(
+          makeNotification(projectRoot, "review_suggested", {
+            story: result.story,
+            step: "done",
+            message: `Story ${result.story} completed; an on-demand review is suggested (orchestrator review)`,
+          }),
+        );
+      }
+      return events;
+    }
+    default:
+      return [];
+  }
+}
+
+/** A HANDOFF reporting pass was applied */
+export function stepPassedNotification(
+  projectRoot: string,
+  story: string | null,
+  step: string | null,
+  attempt: number | null = null,
+): NotificationEvent {
+  const which = attempt === null ? label(story, step) : `${label(story, step)} #${attempt}`;
+  return makeNotification(projectRoot, "step_passed", { story, step, attempt, message: `${which} passed` });
+}
+
+/**
+ * The events an applyHandoff(), approveReview() or rejectReview() result
+ * stands for: the step passed, failed, or needs a human
+ */
+export function resultNotifications(projectRoot: string, result: HandoffResult | ActionResult): NotificationEvent[] {
+  if (result.type !== "applied" && result.type !== "ok") return [];
+  return stepNotifications(projectRoot, result.state);
+}
+
+function stepNotifications(projectRoot: string, state: State): NotificationEvent[] {
+  const { story, step, attempt, reason } = state;
+  const which = `${label(story, step)} #${attempt}`;
+  switch (state.status) {
+    case "pass":
+      return [stepPassedNotification(projectRoot, story, step, attempt)];
+    case "failing":
+      if (expectedRed(projectRoot, state)) return [stepPassedNotification(projectRoot, story, step, attempt)];
+      return [
+        makeNotification(projectRoot, "step_failed", { story, step, attempt, message: `${which} failed${reason ? `: ${reason}` : ""}` }),
+      ];
+    case "needs_human":
+      return [
+        makeNotification(projectRoot, "needs_human", { story, step, attempt, message: `${which} needs a human${reason ? `: ${reason}` : ""}` }),
+      ];
+    default:
+      return [];
+  }
+}
+
+/** One line: `app: US-001 impl #2 dispatched` */
+export function formatNotification(event: NotificationEvent): string {
+  return `${event.project}: ${event.message}`;
+}
+
+/** A scaffold-style step's plain failing is its expected RED; dispatch() treats it as pass */
+function expectedRed(projectRoot: string, state: State): boolean {
+  try {
+    return !state.reason && getRule(state.step, projectRoot, state.task_type).treat_failing_as_pass === true;
+  } catch {
+    return false;
+  }
+}
+
+function label(story: string | null, step: string | null): string {
+  return `${story ?? "-"} ${step ?? "-"}`;
+}
+
+function projectName(projectRoot: string): string {
+  try {
+    return readState(projectRoot).project || basename(projectRoot);
+  } catch {
+    return basename(projectRoot);
+  }
+}
+
+// ─── Sending ─────────────────────────────────────────────────────────────────
+
+/** Deliveries started by queueNotifications(), chained in order */
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Send events in the background, after everything queued before them —
+ * the state changes in dispatch.ts are synchronous and can't await them.
+ * A process that exits on its own waits for the deliveries; call
+ * flushNotifications() before process.exit().
+ */
+export function queueNotifications(projectRoot: string, events: NotificationEvent[]): void {
+  if (events.length === 0) return;
+  const notifiers = loadNotifiers(projectRoot);
+  if (notifiers.length === 0) return;
+  queue = queue.then(() => sendNotifications(projectRoot, events, notifiers));
+}
+
+/** Resolves once every queued delivery has finished */
+export async function flushNotifications(): Promise<void> {
+  let drained: Promise<unknown>;
+  do {
+    drained = queue;
+    await drained;
+  } while (drained !== queue);
+}
+
+/**
+ * Send each event to every notifier subscribed to its type, in order.
+ * Never rejects; each delivery is logged to hook.log as NOTIFY_RESULT.
+ */
+export async function sendNotifications(
+  projectRoot: string,
+  events: NotificationEvent[],
+  notifiers: Notifier[] = loadNotifiers(projectRoot),
+): Promise<NotifyOutcome[]> {
+  const outcomes: NotifyOutcome[] = [];
+  for (const event of events) {
+    for (const notifier of notifiers) {
+      if (notifier.events && !notifier.events.includes(event.type)) continue;
+      try {
+        await notifier.notify(event);
+        outcomes.push({ notifier: notifier.name, event: event.type, ok: true, error: null });
+        appendLog(projectRoot, "INFO", "notify", `NOTIFY_RESULT: ${event.type} → ${notifier.name} OK`);
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        outcomes.push({ notifier: notifier.name, event: event.type, ok: false, error });
+        appendLog(projectRoot, "WARN", "notify", `NOTIFY_RESULT: ${event.type} → ${notifier.name} FAILED: ${error}`);
+      }
+    }
+  }
+  return outcomes;
+}
+
+/** The notifiers in the project's `notify:` config (none if unset or invalid) */
+export function loadNotifiers(projectRoot: string): Notifier[] {
+  let configs: NotifierConfig[];
+  try {
+    configs = readStepRuleOverrides(projectRoot)?.notify ?? [];
+  } catch {
+    return []; // dispatch() reports INVALID_STEP_RULES
+  }
+  return configs.map((config) => createNotifier(projectRoot, config));
+}
+
+/** Build the adapter for one `notify:` entry */
+export function createNotifier(projectRoot: string, config: NotifierConfig): Notifier {
+  const timeoutMs = (config.timeout_sec ?? DEFAULT_TIMEOUT_SEC) * 1000;
+  let notifier: Notifier;
+  switch (config.type) {
+    case "stdout":
+      notifier = stdoutNotifier();
+      break;
+    case "file": {
+      const path = config.path ?? DEFAULT_FILE;
+      notifier = fileNotifier(isAbsolute(path) ? path : join(projectRoot, path));
+      break;
+    }
+    case "webhook": {
+      const secret = config.secret ?? (config.secret_env ? process.env[config.secret_env] : undefined);
+      if (config.secret_env && !secret) {
+        notifier = {
+          name: `webhook ${config.url}`,
+          notify: () => Promise.reject(new Error(`$${config.secret_env} is not set; refusing to send unsigned`)),
+        };
+      } else {
+        notifier = webhookNotifier(config.url as string, { secret, timeout_ms: timeoutMs });
+      }
+      break;
+    }
+    case "command":
+      notifier = commandNotifier(config.command as string, { cwd: projectRoot, timeout_ms: timeoutMs });
+      break;
+  }
+  return { ...notifier, events: config.events };
+}
+
+// ─── Adapters ────────────────────────────────────────────────────────────────
+
+/** Print one line per event */
+export function stdoutNotifier(write: (line: string) => void = (line) => console.log(line)): Notifier {
+  return {
+    name: "stdout",
+    notify: async (event) => write(`[notify] ${event.type} ${formatNotification(event)}`),
+  };
+}
+
+/** Append each event as a JSON line */
+export function fileNotifier(path: string): Notifier {
+  return {
+    name: `file ${path}`,
+    notify: async (event) => {
+      mkdirSync(dirname(path), { recursive: true });
+      appendFileSync(path, JSON.stringify(event) + "\n", "utf-8");
+    },
+  };
+}
+
+/** `sha256=<hex>` HMAC of `body` — the X-ACO-Signature-256 header value */
+export function signPayload(secret: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+/**
+ * POST each event as JSON. With a secret, X-ACO-Signature-256 carries the
+ * HMAC-SHA256 of the body so the receiver can verify the sender. Any
+ * non-2xx response counts as a failed delivery.
+ */
+export function webhookNotifier(url: string, options: { secret?: string; timeout_ms?: number } = {}): Notifier {
+  return {
+    name: `webhook ${url}`,
+    notify: async (event) => {
+      const body = JSON.stringify(event);
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        "User-Agent": "agentic-coding-orchestrator",
+        "X-ACO-Event": event.type,
+      };
+      if (options.secret) headers["X-ACO-Signature-256"] = signPayload(options.secret, body);
+      const res = await fetch(url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(options.timeout_ms ?? DEFAULT_TIMEOUT_SEC * 1000),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}`.trim());
+    },
+  };
+}
+
+/**
+ * Run a shell command per event, with the event as JSON on stdin and in
+ * ACO_EVENT, ACO_PROJECT, ACO_PROJECT_ROOT, ACO_STORY, ACO_STEP and
+ * ACO_MESSAGE. A non-zero exit or the timeout counts as a failed delivery.
+ */
+export function commandNotifier(command: string, options: { cwd?: string; timeout_ms?: number } = {}): Notifier {
+  return {
+    name: `command ${command}`,
+    notify: (event) =>
+      new Promise<void>((resolvePromise, rejectPromise) => {
+        let stderr = "";
+        const child = spawn(command, [], {
+          cwd: options.cwd ?? event.project_root,
+          shell: true,
+          stdio: ["pipe", "ignore", "pipe"],
+          env: {
+            ...process.env,
+            ACO_EVENT: event.type,
+            ACO_PROJECT: event.project,
+            ACO_PROJECT_ROOT: event.project_root,
+            ACO_STORY: event.story ?? "",
+            ACO_STEP: event.step ?? "",
+            ACO_MESSAGE: formatNotification(event),
+          },
+        });
+        const timer = setTimeout(() => {
+          child.kill("SIGKILL");
+          rejectPromise(new Error(`timed out after ${options.timeout_ms ?? DEFAULT_TIMEOUT_SEC * 1000} ms`));
+        }, options.timeout_ms ?? DEFAULT_TIMEOUT_SEC * 1000);
+        child.stderr?.on("data", (chunk) => {
+          stderr = (stderr + chunk.toString("utf-8")).slice(-2000);
+        });
+        child.on("error", (err) => {
+          clearTimeout(timer);
+          rejectPromise(err);
+        });
+        child.on("close", (code) => {
+          clearTimeout(timer);
+          if (code === 0) resolvePromise();
+          else rejectPromise(new Error(`exited ${code}${stderr.trim() ? `: ${stderr.trim()}` : ""}`));
+        });
+        child.stdin?.on("error", () => { /* the command did not read stdin */ });
+        child.stdin?.write(JSON.stringify(event) + "\n");
+        child.stdin?.end();
+      }),
+  };
+}
@@ -6,9 +6,14 @@
  * what files the executor reads, what it writes, what post-check to run,
  * max attempts, timeout, and where to go on pass/fail.
  *
- * Projects can override defaults via `.ai/step-rules.yaml` (future).
+ * Projects can override defaults via `.ai/step-rules.yaml` — see step-rules.ts
+ * for the file format. getRulesTable() merges those overrides onto the
+ * defaults below; every lookup helper accepts an optional project root.
  */
 
+import { readStepRuleOverrides } from "./step-rules";
+import type { PipelineDefinition } from "./step-rules";
+
 // ─── Types ───────────────────────────────────────────────────────────────────
 
 export interface StepRule {
@@ -20,7 +25,8 @@ export interface StepRule {
   requires_human: boolean;
   claude_reads: string[];
   claude_writes: string[];
-  post_check: string | null;
+  /** A shell command, or a list of named checks (see PostCheckSpec) */
+  post_check: string | PostCheckSpec[] | null;
   step_instruction: string;
   /**
    * When true, a "failing" status from the executor is treated as "pass"
@@ -28,8 +34,34 @@ export interface StepRule {
    * are the expected, correct output.
    */
   treat_failing_as_pass?: boolean;
+  /**
+   * Items for this step's section in .ai/CHECKLIST.md. Built-in steps have
+   * their own wording in generateChecklist(); project-defined steps set this.
+   */
+  checklist?: string[];
+}
+
+export const POST_CHECK_KINDS = ["lint", "typecheck", "test", "format", "custom"] as const;
+export type PostCheckKind = (typeof POST_CHECK_KINDS)[number];
+
+/** One named post-check as written in `.ai/step-rules.yaml` */
+export interface PostCheckSpec {
+  name: string;
+  command: string;
+  /** Default: the name if it is a known kind, else "custom" */
+  kind?: PostCheckKind;
+  /** Default: POST_CHECK_TIMEOUT_SEC */
+  timeout_sec?: number;
+  /** An optional check is reported but never fails the step. Default: true */
+  required?: boolean;
 }
 
+/** PostCheckSpec with defaults filled in */
+export type PostCheck = Required<PostCheckSpec>;
+
+/** Timeout for a check that does not set timeout_sec */
+export const POST_CHECK_TIMEOUT_SEC = 60;
+
 /** Complexity-to-dispatch-mode mapping */
 export const DISPATCH_MODES: Record<string, string> = {
   S: "single",
@@ -178,7 +210,7 @@ export const STEP_RULES: Record<string, StepRule> = {
       "docs/constitution.md",
       ".ai/HANDOFF.md",
     ],
-    claude_writes: [],
+    claude_writes: ["docs/sdd.md"], // Delta Spec merged into the main SDD
     post_check: null,
     step_instruction:
       "Execute triple check: " +
@@ -205,7 +237,7 @@ export const STEP_RULES: Record<string, StepRule> = {
       "Use a conventional commit message summarizing what was done (e.g. feat:, fix:, refactor:). " +
       "Include story ID in the commit message. " +
       "Do NOT commit PROJECT_MEMORY.md or .ai/history.md — those are updated in the next step. " +
-      "After committing, record the commit hash in HANDOFF.md front-matter as `commit_hash: <hash>`.",
+      "After committing, record the commit hash in HANDOFF.md front-matter as `commit_hash: \"<hash>\"` (quoted).",
   },
   "update-memory": {
     display_name: "Update Memory",
@@ -312,14 +344,243 @@ export const DEFAULT_TEAM_ROLES: Record<
   },
 };
 
+// ─── Pipelines ───────────────────────────────────────────────────────────────
+
+/** Built-in step lists per task_type (used when the project declares none) */
+export const DEFAULT_PIPELINES: Record<string, string[]> = {
+  story: [
+    "bdd",
+    "sdd-delta",
+    "contract",
+    "review",
+    "scaffold",
+    "impl",
+    "verify",
+    "commit",
+    "update-memory",
+  ],
+  custom: ["custom", "update-memory"],
+};
+
+export interface Pipeline {
+  task_type: string;
+  steps: string[];
+}
+
+/** Defaults for fields a project-defined step may omit */
+const NEW_STEP_DEFAULTS: Omit<StepRule, "display_name" | "step_instruction"> = {
+  next_on_pass: "done",
+  on_fail: {},
+  max_attempts: 2,
+  timeout_min: 10,
+  requires_human: false,
+  claude_reads: [".ai/HANDOFF.md"],
+  claude_writes: [],
+  post_check: null,
+};
+
+// ─── Project Overrides ───────────────────────────────────────────────────────
+
+export interface RulesTable {
+  steps: Record<string, StepRule>;
+  bootstrap: StepRule;
+  /** Step list for the task_type the table was resolved for */
+  pipeline: Pipeline;
+  /** Path of the override file, or null when only defaults apply */
+  source: string | null;
+}
+
+/**
+ * Build the effective rules table for a project and task_type: defaults
+ * merged with the project's `.ai/step-rules.yaml`. Scalar and list fields
+ * replace the default; `on_fail` routes are merged (so a project can add one
+ * reason without restating `default`). New steps may be declared alongside
+ * the built-ins.
+ *
+ * When the project declares a pipeline for the task_type, its step order
+ * drives `next_on_pass`, its `human_gates` drive `requires_human`, and its
+ * `on_fail` routes are merged on top. Task types without a declared pipeline
+ * use DEFAULT_PIPELINES (unknown types fall back to the story pipeline).
+ *
+ * Throws if the override file is malformed or any pipeline routes to a step
+ * outside itself.
+ */
+export function getRulesTable(projectRoot?: string, taskType = "story"): RulesTable {
+  const overrides = projectRoot ? readStepRuleOverrides(projectRoot) : null;
+  if (!overrides) {
+    return {
+      steps: STEP_RULES,
+      bootstrap: BOOTSTRAP_RULE,
+      pipeline: defaultPipeline(taskType),
+      source: null,
+    };
+  }
+
+  const errors: string[] = [];
+  const steps: Record<string, StepRule> = { ...STEP_RULES };
+  let bootstrap = BOOTSTRAP_RULE;
+
+  for (const [step, override] of Object.entries(overrides.steps)) {
+    if (step === "done") {
+      errors.push(`steps.done: "done" is terminal and has no rule`);
+      continue;
+    }
+    const base = step === "bootstrap" ? BOOTSTRAP_RULE : STEP_RULES[step];
+    if (!base && !override.display_name) {
+      errors.push(`steps.${step}: unknown step — declare a new step with at least display_name and step_instruction`);
+      continue;
+    }
+    const from: StepRule = base ?? {
+      display_name: step,
+      step_instruction: "",
+      ...NEW_STEP_DEFAULTS,
+      on_fail: { default: step },
+    };
+    const merged: StepRule = {
+      ...from,
+      ...override,
+      on_fail: { ...from.on_fail, ...(override.on_fail ?? {}) },
+    };
+    if (step === "bootstrap") bootstrap = merged;
+    else steps[step] = merged;
+  }
+
+  // Every transition target must resolve to a real step
+  const isTarget = (s: string) => s === "done" || s === "bootstrap" || s in steps;
+  for (const [step, rule] of [["bootstrap", bootstrap] as const, ...Object.entries(steps)]) {
+    if (!isTarget(rule.next_on_pass)) {
+      errors.push(`steps.${step}.next_on_pass: unknown step "${rule.next_on_pass}"`);
+    }
+    for (const [reason, target] of Object.entries(rule.on_fail)) {
+      if (!isTarget(target)) {
+        errors.push(`steps.${step}.on_fail.${reason}: unknown step "${target}"`);
+      }
+    }
+  }
+
+  // Validate every declared pipeline, not only the one being resolved
+  if (errors.length === 0) {
+    for (const name of Object.keys(overrides.pipelines)) {
+      applyPipeline(name, overrides.pipelines, steps, bootstrap, errors);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid ${overrides.path}:\n${errors.map((e) => `  - ${e}`).join("\n")}`,
+    );
+  }
+  return { ...applyPipeline(taskType, overrides.pipelines, steps, bootstrap, []), source: overrides.path };
+}
+
+function defaultPipeline(taskType: string): Pipeline {
+  const steps = DEFAULT_PIPELINES[taskType] ?? DEFAULT_PIPELINES.story;
+  return { task_type: taskType, steps: [...steps] };
+}
+
+/** Resolve a task_type's pipeline onto the merged step rules */
+function applyPipeline(
+  taskType: string,
+  pipelines: Record<string, PipelineDefinition>,
+  steps: Record<string, StepRule>,
+  bootstrap: StepRule,
+  errors: string[],
+): Omit<RulesTable, "source"> {
+  const name = pipelines[taskType]
+    ? taskType
+    : DEFAULT_PIPELINES[taskType] || !pipelines.story ? null : "story";
+  if (!name) {
+    return { steps, bootstrap, pipeline: defaultPipeline(taskType) };
+  }
+
+  const def = pipelines[name];
+  const where = `pipelines.${name}`;
+  const resolved: Record<string, StepRule> = { ...steps };
+
+  def.steps.forEach((step, i) => {
+    const rule = steps[step];
+    if (!rule) {
+      errors.push(`${where}.steps: unknown step "${step}"`);
+      return;
+    }
+    resolved[step] = {
+      ...rule,
+      next_on_pass: def.next_on_pass?.[step] ?? def.steps[i + 1] ?? "done",
+      requires_human: def.human_gates ? def.human_gates.includes(step) : rule.requires_human,
+      on_fail: { ...rule.on_fail, ...(def.on_fail?.[step] ?? {}) },
+    };
+  });
+
+  const inPipeline = (s: string) => s === "done" || def.steps.includes(s);
+  for (const key of [
+    ...(def.human_gates ?? []),
+    ...Object.keys(def.next_on_pass ?? {}),
+    ...Object.keys(def.on_fail ?? {}),
+  ]) {
+    if (!def.steps.includes(key)) {
+      errors.push(`${where}: "${key}" is configured but not listed in steps`);
+    }
+  }
+  for (const step of def.steps) {
+    const rule = resolved[step];
+    if (!rule || !steps[step]) continue;
+    if (!inPipeline(rule.next_on_pass)) {
+      errors.push(`${where}: ${step}.next_on_pass "${rule.next_on_pass}" is not in this pipeline`);
+    }
+    for (const [reason, target] of Object.entries(rule.on_fail)) {
+      if (!inPipeline(target)) {
+        errors.push(`${where}: ${step}.on_fail.${reason} routes to "${target}", which is not in this pipeline`);
+      }
+    }
+    if (!rule.requires_human && !rule.step_instruction.trim()) {
+      errors.push(`${where}: ${step} is dispatched to the executor but has no step_instruction`);
+    }
+  }
+
+  return {
+    steps: resolved,
+    // Bootstrap hands over to the first step of the (project) story pipeline
+    bootstrap: name === "story" ? { ...bootstrap, next_on_pass: def.steps[0] } : bootstrap,
+    pipeline: { task_type: taskType, steps: [...def.steps] },
+  };
+}
+
 // ─── Lookup Helpers ──────────────────────────────────────────────────────────
 
-/** Get the rule for a given step */
-export function getRule(step: string): StepRule {
-  if (step === "bootstrap") return BOOTSTRAP_RULE;
+/**
+ * Get the rule for a given step. With a project root, the project's
+ * `.ai/step-rules.yaml` overrides and the pipeline for `taskType` apply.
+ */
+export function getRule(step: string, projectRoot?: string, taskType?: string): StepRule {
+  const table = getRulesTable(projectRoot, taskType);
+  if (step === "bootstrap") return table.bootstrap;
   if (step === "done")
     throw new Error('No rule for "done" — story is complete');
-  return STEP_RULES[step];
+  return table.steps[step];
+}
+
+/**
+ * The post-checks of a rule as a list with defaults applied. A plain
+ * command string is a single required check named "post_check".
+ */
+export function getPostChecks(rule: StepRule): PostCheck[] {
+  if (!rule.post_check) return [];
+  const specs: PostCheckSpec[] =
+    typeof rule.post_check === "string"
+      ? [{ name: "post_check", command: rule.post_check, kind: "custom" }]
+      : rule.post_check;
+  return specs.map((spec) => ({
+    name: spec.name,
+    command: spec.command,
+    kind: spec.kind ?? ((POST_CHECK_KINDS as readonly string[]).includes(spec.name) ? (spec.name as PostCheckKind) : "custom"),
+    timeout_sec: spec.timeout_sec ?? POST_CHECK_TIMEOUT_SEC,
+    required: spec.required ?? true,
+  }));
+}
+
+/** Every step name a project knows about (built-in + project-defined) */
+export function getKnownSteps(projectRoot?: string): string[] {
+  return ["bootstrap", ...Object.keys(getRulesTable(projectRoot).steps), "done"];
 }
 
 /**
@@ -353,25 +614,24 @@ export function getDispatchMode(
 }
 
 /** Get the next step after a failure, using reason-based routing */
-export function getFailTarget(step: string, reason: string | null): string {
-  const rule = getRule(step);
+export function getFailTarget(
+  step: string,
+  reason: string | null,
+  projectRoot?: string,
+  taskType?: string,
+): string {
+  const rule = getRule(step, projectRoot, taskType);
   if (reason && rule.on_fail[reason]) {
     return rule.on_fail[reason];
   }
   return rule.on_fail.default;
 }
 
-/** Get ordered step sequence for the micro-waterfall loop */
-export function getStepSequence(): string[] {
-  return [
-    "bdd",
-    "sdd-delta",
-    "contract",
-    "review",
-    "scaffold",
-    "impl",
-    "verify",
-    "commit",
-    "update-memory",
-  ];
+/**
+ * Get the ordered step sequence for a task_type's pipeline (default: the
+ * story micro-waterfall). With a project root, a pipeline declared in
+ * `.ai/step-rules.yaml` replaces the built-in list.
+ */
+export function getStepSequence(projectRoot?: string, taskType = "story"): string[] {
+  return getRulesTable(projectRoot, taskType).pipeline.steps;
 }
@@ -0,0 +1,57 @@
+/**
+ * scope.ts — Diff-Scope Enforcement (claude_writes)
+ *
+ * Each StepRule lists the files its executor may write (`claude_writes`,
+ * with {story} resolved). applyHandoff() compares them with the files git
+ * says changed during the step (git.ts) and fails a reported pass that
+ * wrote outside them with reason `scope_violation`.
+ *
+ * Glob syntax, matched against project-relative paths:
+ *   *.ts            no "/" — matches the file name in any directory
+ *   docs/bdd/*.md   "*" stays within one directory
+ *   src/**          "**" spans directories
+ *   *               anything
+ *
+ * `.ai/**` (HANDOFF.md, checks, logs) is always writable.
+ */
+
+/** Paths every step may write */
+export const ALWAYS_WRITABLE = [".ai/**"];
+
+/** Translate one claude_writes glob into an anchored RegExp */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*" && glob[i + 1] === "*") {
+      // "**/" also matches zero directories
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (ch === "*") {
+      source += "[^/]*";
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  // Like .gitignore: a pattern without "/" matches the name at any depth
+  const anyDepth = !glob.includes("/");
+  return new RegExp(`^${anyDepth ? "(?:.*/)?" : ""}${source}$`);
+}
+
+/** True if `path` matches any of `globs` */
+export function matchesAnyGlob(path: string, globs: string[]): boolean {
+  return globs.some((g) => globToRegExp(g).test(path));
+}
+
+/** Changed files outside `writes` (plus ALWAYS_WRITABLE), in input order */
+export function findScopeViolations(changed: string[], writes: string[]): string[] {
+  const allowed = [...writes, ...ALWAYS_WRITABLE];
+  return changed.filter((path) => !matchesAnyGlob(path, allowed));
+}
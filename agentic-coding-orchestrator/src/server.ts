@@ -0,0 +1,620 @@
+/**
+ * server.ts — Local HTTP/JSON API (`orchestrator serve`)
+ *
+ * Exposes the dispatch.ts actions of every project in a workspace over
+ * HTTP, so a dashboard or another process can drive the orchestrator
+ * without spawning the CLI per call:
+ *
+ *   GET  /projects                         listProjects()
+ *   GET  /projects/:name/status            queryProjectStatus()
+ *   POST /projects/:name/<action>          dispatch, peek, apply-handoff, approve,
+ *                                          reject, start-story, start-custom,
+ *                                          rollback, reopen, review, triage
+ *   GET  /events[?project=:name]           server-sent events: one `state` event
+ *                                          per new .ai/events.jsonl entry
+ *
+ * Response bodies are the action's own result (DispatchResult,
+ * HandoffResult, ActionResult, ...). A `type: "error"` result is sent with
+ * 409 when it is recoverable and 422 otherwise; requests the server itself
+ * refuses get the same error shape with 400/401/403/404/405/413/415.
+ *
+ * Binds to 127.0.0.1 by default. Every request needs
+ * `Authorization: Bearer <token>` (or `?access_token=` for EventSource);
+ * without a configured token one is generated at start. Against browsers,
+ * a Host that isn't the bound address (DNS rebinding), an Origin other
+ * than the server's own, and POSTs that aren't application/json (form
+ * CSRF) are refused before the token is even checked.
+ *
+ * Every POST action runs in a child node process (this file, run with the
+ * action as argv): actions do synchronous git and shell work — apply-handoff
+ * runs the whole test command — and wait for the STATE lock with
+ * Atomics.wait, any of which would stall the event loop and with it every
+ * other request and event stream. GET routes only read files and stay
+ * in-process.
+ */
+
+import { createServer, IncomingMessage, ServerResponse, Server } from "http";
+import { existsSync, readFileSync, statSync } from "fs";
+import { join } from "path";
+import { spawn } from "child_process";
+import { randomBytes, timingSafeEqual } from "crypto";
+import {
+  dispatch,
+  peek,
+  applyHandoff,
+  approveReview,
+  rejectReview,
+  startStory,
+  startCustom,
+  rollback,
+  reopen,
+  review,
+  triage,
+  queryProjectStatus,
+  listProjects,
+} from "./dispatch";
+import { eventsPath, StateEvent } from "./events";
+import { flushNotifications } from "./notify";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface ServeOptions {
+  /** Default 127.0.0.1 */
+  host?: string;
+  /** Default DEFAULT_PORT; 0 picks a free port */
+  port?: number;
+  /** Bearer token every request must carry; generated when not given */
+  token?: string;
+  /** How often the event stream checks each project's journal */
+  poll_ms?: number;
+}
+
+export interface ApiServer {
+  server: Server;
+  /** Base URL, e.g. http://127.0.0.1:7420 */
+  readonly url: string;
+  /** The bearer token in force (options.token, or the generated one) */
+  readonly token: string;
+  close(): Promise<void>;
+}
+
+export interface ApiError {
+  type: "error";
+  code: string;
+  message: string;
+  recoverable: boolean;
+}
+
+type FieldType = "string" | "boolean";
+
+interface FieldSpec {
+  type: FieldType;
+  required?: boolean;
+}
+
+type RequestBody = Record<string, string | boolean | undefined>;
+
+interface ActionRoute {
+  fields: Record<string, FieldSpec>;
+  /** Called in the child process; returns the action's result */
+  run(projectRoot: string, body: RequestBody): unknown;
+}
+
+export const DEFAULT_PORT = 7420;
+const DEFAULT_POLL_MS = 1000;
+const HEARTBEAT_MS = 15_000;
+const MAX_BODY_BYTES = 1024 * 1024;
+/** Bind addresses that accept any Host — the token is the only guard there */
+const WILDCARD_HOSTS = ["0.0.0.0", "::"];
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+// ─── Routes ──────────────────────────────────────────────────────────────────
+
+const optionalString: FieldSpec = { type: "string" };
+const requiredString: FieldSpec = { type: "string", required: true };
+const optionalBoolean: FieldSpec = { type: "boolean" };
+
+const str = (body: RequestBody, key: string) => body[key] as string | undefined;
+const bool = (body: RequestBody, key: string) => body[key] as boolean | undefined;
+
+/** POST /projects/:name/<action> — body fields are snake_case */
+const ACTION_ROUTES: Record<string, ActionRoute> = {
+  dispatch: {
+    fields: { story: optionalString },
+    run: (root, b) => dispatch(root, str(b, "story")),
+  },
+  peek: {
+    fields: { story: optionalString },
+    run: (root, b) => peek(root, str(b, "story")),
+  },
+  "apply-handoff": {
+    fields: { story: optionalString },
+    run: (root, b) => applyHandoff(root, str(b, "story")),
+  },
+  approve: {
+    fields: { note: optionalString, story: optionalString },
+    run: (root, b) => approveReview(root, str(b, "note"), str(b, "story")),
+  },
+  reject: {
+    fields: { reason: requiredString, note: optionalString, story: optionalString },
+    run: (root, b) => rejectReview(root, str(b, "reason") as string, str(b, "note"), str(b, "story")),
+  },
+  "start-story": {
+    fields: { story_id: requiredString, task_type: optionalString, force: optionalBoolean, agent_teams: optionalBoolean },
+    run: (root, b) =>
+      startStory(root, str(b, "story_id") as string, {
+        taskType: str(b, "task_type"),
+        force: bool(b, "force"),
+        agentTeams: bool(b, "agent_teams"),
+      }),
+  },
+  "start-custom": {
+    fields: { instruction: requiredString, label: optionalString, agent_teams: optionalBoolean },
+    run: (root, b) =>
+      startCustom(root, str(b, "instruction") as string, { label: str(b, "label"), agentTeams: bool(b, "agent_teams") }),
+  },
+  rollback: {
+    fields: { target_step: requiredString, force: optionalBoolean, story: optionalString },
+    run: (root, b) => rollback(root, str(b, "target_step") as string, { force: bool(b, "force"), story: str(b, "story") }),
+  },
+  reopen: {
+    fields: { target_step: requiredString, note: optionalString, story: optionalString },
+    run: (root, b) =>
+      reopen(root, str(b, "target_step") as string, { humanNote: str(b, "note"), story: str(b, "story") }),
+  },
+  review: {
+    fields: {},
+    run: (root) => review(root),
+  },
+  triage: {
+    fields: {},
+    run: (root) => triage(root),
+  },
+};
+
+export const API_ACTIONS: readonly string[] = Object.keys(ACTION_ROUTES);
+
+/**
+ * Check a parsed JSON body against a route's fields. Returns the problems
+ * found — unknown fields, missing required ones, wrong types, blank strings.
+ */
+function validateBody(body: unknown, fields: Record<string, FieldSpec>): string[] {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return ["request body must be a JSON object"];
+  }
+  const problems: string[] = [];
+  const record = body as Record<string, unknown>;
+  for (const key of Object.keys(record)) {
+    if (!(key in fields)) problems.push(`unknown field "${key}"`);
+  }
+  for (const [key, spec] of Object.entries(fields)) {
+    const value = record[key];
+    if (value === undefined || value === null) {
+      if (spec.required) problems.push(`"${key}" is required`);
+      continue;
+    }
+    if (typeof value !== spec.type) {
+      problems.push(`"${key}" must be a ${spec.type}`);
+    } else if (spec.type === "string" && !(value as string).trim()) {
+      problems.push(`"${key}" must not be empty`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Run an action in a child process (see runChild below) and resolve with
+ * its result as soon as the child prints it; the child may stay alive a
+ * while longer to deliver the notifications the action queued.
+ */
+function runInChild(action: string, projectRoot: string, body: RequestBody): Promise<unknown> {
+  return new Promise((resolveRun, rejectRun) => {
+    const child = spawn(process.execPath, [__filename, action, projectRoot], { stdio: ["pipe", "pipe", "pipe"] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let settled = false;
+    child.stdout?.on("data", (chunk) => {
+      stdout.push(chunk);
+      const text = Buffer.concat(stdout).toString("utf-8");
+      const end = text.indexOf("\n");
+      if (settled || end === -1) return;
+      settled = true;
+      try {
+        resolveRun(JSON.parse(text.slice(0, end)));
+      } catch (err) {
+        rejectRun(new Error(`${action} printed an invalid result: ${(err as Error).message}`));
+      }
+    });
+    child.stderr?.on("data", (chunk) => stderr.push(chunk));
+    child.on("error", (err) => {
+      if (!settled) rejectRun(err);
+      settled = true;
+    });
+    child.on("close", (code) => {
+      if (settled) return;
+      settled = true;
+      const detail = Buffer.concat(stderr).toString("utf-8").trim();
+      rejectRun(new Error(`${action} exited ${code} without a result${detail ? `: ${detail}` : ""}`));
+    });
+    child.stdin?.on("error", () => {});
+    child.stdin?.write(JSON.stringify(body));
+    child.stdin?.end();
+  });
+}
+
+/**
+ * Child side of runInChild: read the request body from stdin, run the
+ * action, print its result as one JSON line, then exit once queued
+ * notifications are delivered.
+ */
+function runChild(action: string, projectRoot: string): void {
+  let text = "";
+  process.stdin.setEncoding("utf-8");
+  process.stdin.on("data", (chunk) => (text += chunk));
+  process.stdin.on("end", () => {
+    const result = ACTION_ROUTES[action].run(projectRoot, JSON.parse(text || "{}") as RequestBody);
+    process.stdout.write(JSON.stringify(result) + "\n");
+    void flushNotifications().then(() => process.exit(0));
+  });
+}
+
+// ─── Server ──────────────────────────────────────────────────────────────────
+
+/** Who may talk to the server: the token, and the host names it answers to */
+interface Guard {
+  token: string;
+  /** Accepted Host names; null accepts any (wildcard bind) */
+  hostnames: string[] | null;
+}
+
+/** Start the API for `workspaceRoot`; resolves once it is listening */
+export function startServer(workspaceRoot: string, options: ServeOptions = {}): Promise<ApiServer> {
+  const host = options.host ?? "127.0.0.1";
+  const urlHost = host.includes(":") ? `[${host}]` : host;
+  const guard: Guard = {
+    token: options.token || randomBytes(24).toString("hex"),
+    hostnames: WILDCARD_HOSTS.includes(host) ? null : [...new Set([...LOOPBACK_HOSTS, urlHost.toLowerCase()])],
+  };
+  const stream = createEventStream(workspaceRoot, options.poll_ms ?? DEFAULT_POLL_MS);
+  const server = createServer((req, res) => {
+    handleRequest(workspaceRoot, guard, stream, req, res);
+  });
+
+  return new Promise((resolvePromise, rejectPromise) => {
+    server.on("error", rejectPromise);
+    server.listen(options.port ?? DEFAULT_PORT, host, () => {
+      const address = server.address();
+      const port = typeof address === "object" && address ? address.port : options.port ?? DEFAULT_PORT;
+      resolvePromise({
+        server,
+        url: `http://${urlHost}:${port}`,
+        token: guard.token,
+        close: () =>
+          new Promise<void>((done) => {
+            stream.closeAll();
+            server.close(() => done());
+            server.closeAllConnections?.();
+          }),
+      });
+    });
+  });
+}
+
+function handleRequest(
+  workspaceRoot: string,
+  guard: Guard,
+  stream: EventStream,
+  req: IncomingMessage,
+  res: ServerResponse,
+): void {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const method = req.method ?? "GET";
+
+  const refused = checkOrigin(req, guard);
+  if (refused) {
+    sendError(res, 403, "FORBIDDEN", refused, false);
+    return;
+  }
+  if (!isAuthorized(req, url, guard.token)) {
+    sendError(res, 401, "UNAUTHORIZED", "Missing or invalid bearer token", false);
+    return;
+  }
+
+  try {
+    const parts = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+
+    if (parts.length === 1 && parts[0] === "projects") {
+      if (method !== "GET") return sendMethodNotAllowed(res, "GET");
+      sendJson(res, 200, listProjects(workspaceRoot));
+      return;
+    }
+
+    if (parts.length === 1 && parts[0] === "events") {
+      if (method !== "GET") return sendMethodNotAllowed(res, "GET");
+      const project = url.searchParams.get("project");
+      if (project !== null && !findProject(workspaceRoot, project)) {
+        return sendError(res, 404, "PROJECT_NOT_FOUND", `No project "${project}" in ${workspaceRoot}`, false);
+      }
+      stream.subscribe(res, project);
+      return;
+    }
+
+    if (parts.length === 3 && parts[0] === "projects") {
+      const [, name, action] = parts;
+      const projectRoot = findProject(workspaceRoot, name);
+      const route = ACTION_ROUTES[action];
+      if (action !== "status" && !route) {
+        return sendError(res, 404, "NOT_FOUND", `Unknown action "${action}"`, false);
+      }
+      if (!projectRoot) {
+        return sendError(res, 404, "PROJECT_NOT_FOUND", `No project "${name}" in ${workspaceRoot}`, false);
+      }
+      if (action === "status") {
+        if (method !== "GET") return sendMethodNotAllowed(res, "GET");
+        sendJson(res, 200, queryProjectStatus(projectRoot));
+        return;
+      }
+      if (method !== "POST") return sendMethodNotAllowed(res, "POST");
+      if (!isJson(req)) {
+        return sendError(res, 415, "UNSUPPORTED_MEDIA_TYPE", "Send the request body as application/json", false);
+      }
+      readBody(req, res, (body) => {
+        const problems = validateBody(body, route.fields);
+        if (problems.length > 0) {
+          sendError(res, 400, "INVALID_REQUEST", `Invalid ${action} request: ${problems.join("; ")}`, false);
+          return;
+        }
+        runAction(res, runInChild(action, projectRoot, body as RequestBody));
+      });
+      return;
+    }
+
+    sendError(res, 404, "NOT_FOUND", `No route for ${method} ${url.pathname}`, false);
+  } catch (err) {
+    sendError(res, 500, "INTERNAL_ERROR", (err as Error).message, true);
+  }
+}
+
+/** Send an action's result, mapping `type: "error"` to 409 / 422 */
+function runAction(res: ServerResponse, result: Promise<unknown>): void {
+  result.then(
+    (value) => {
+      const error = value as Partial<ApiError>;
+      const status = error?.type === "error" ? (error.recoverable ? 409 : 422) : 200;
+      sendJson(res, status, value);
+    },
+    (err) => sendError(res, 500, "INTERNAL_ERROR", (err as Error).message, true),
+  );
+}
+
+/** Absolute root of project `name` in the workspace, or null */
+function findProject(workspaceRoot: string, name: string): string | null {
+  if (!name || name.startsWith(".") || /[\\/]/.test(name)) return null;
+  const found = listProjects(workspaceRoot).some((p) => p.dir === name);
+  return found ? join(workspaceRoot, name) : null;
+}
+
+/**
+ * Why a browser-borne request must be refused, or null. The Host must be
+ * one the server is bound to, so a rebound DNS name can't reach it; an
+ * Origin, when sent, must be the server's own.
+ */
+function checkOrigin(req: IncomingMessage, guard: Guard): string | null {
+  const hostHeader = req.headers["host"];
+  if (typeof hostHeader !== "string" || !hostHeader) return "Missing Host header";
+  let hostname: string;
+  try {
+    hostname = new URL(`http://${hostHeader}`).hostname.toLowerCase();
+  } catch {
+    return `Invalid Host header "${hostHeader}"`;
+  }
+  if (guard.hostnames && !guard.hostnames.includes(hostname)) return `Host "${hostHeader}" is not served here`;
+
+  const origin = req.headers["origin"];
+  if (origin === undefined) return null;
+  try {
+    const parsed = new URL(String(origin));
+    if (parsed.protocol === "http:" && parsed.host === hostHeader.toLowerCase()) return null;
+  } catch {
+    // "null" and other opaque origins
+  }
+  return `Cross-origin requests from ${origin} are not allowed`;
+}
+
+function isJson(req: IncomingMessage): boolean {
+  const type = req.headers["content-type"];
+  return typeof type === "string" && type.split(";")[0].trim().toLowerCase() === "application/json";
+}
+
+function isAuthorized(req: IncomingMessage, url: URL, token: string): boolean {
+  const header = req.headers["authorization"];
+  if (typeof header === "string" && header.startsWith("Bearer ")) return tokenMatches(header.slice(7), token);
+  return tokenMatches(url.searchParams.get("access_token"), token);
+}
+
+/** Constant-time comparison, so response timing doesn't leak the token */
+function tokenMatches(given: string | null, token: string): boolean {
+  if (given === null) return false;
+  const a = Buffer.from(given, "utf-8");
+  const b = Buffer.from(token, "utf-8");
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Collect and JSON-parse the request body (empty body → {}) */
+function readBody(req: IncomingMessage, res: ServerResponse, onBody: (body: unknown) => void): void {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let aborted = false;
+  req.on("data", (chunk) => {
+    if (aborted) return;
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      aborted = true;
+      sendError(res, 413, "PAYLOAD_TOO_LARGE", `Request body exceeds ${MAX_BODY_BYTES} bytes`, false);
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on("end", () => {
+    if (aborted) return;
+    const text = Buffer.concat(chunks).toString("utf-8").trim();
+    if (!text) return onBody({});
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch (err) {
+      sendError(res, 400, "INVALID_REQUEST", `Request body is not valid JSON: ${(err as Error).message}`, false);
+      return;
+    }
+    onBody(body);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body, null, 2) + "\n");
+}
+
+function sendError(res: ServerResponse, status: number, code: string, message: string, recoverable: boolean): void {
+  const body: ApiError = { type: "error", code, message, recoverable };
+  sendJson(res, status, body);
+}
+
+function sendMethodNotAllowed(res: ServerResponse, allow: string): void {
+  res.setHeader("Allow", allow);
+  sendError(res, 405, "METHOD_NOT_ALLOWED", `Use ${allow}`, false);
+}
+
+// ─── Event Stream ────────────────────────────────────────────────────────────
+
+interface EventStream {
+  /** Keep `res` open and send it new state events (of one project, or all) */
+  subscribe(res: ServerResponse, project: string | null): void;
+  closeAll(): void;
+}
+
+/**
+ * Position in a project's journal: `lines` complete lines already sent.
+ * One write appends an event per changed story, all with the same
+ * revision, so SSE ids are `<project>:<revision>.<index>` with `index`
+ * counting events within the revision.
+ */
+interface JournalCursor {
+  size: number;
+  lines: number;
+  revision: number;
+  index: number;
+}
+
+/**
+ * Tail every initialized project's .ai/events.jsonl while at least one
+ * client is connected. Only events written after the first client
+ * connected are sent; a project that appears later is sent in full.
+ */
+function createEventStream(workspaceRoot: string, pollMs: number): EventStream {
+  const clients = new Map<ServerResponse, string | null>();
+  const cursors = new Map<string, JournalCursor>();
+  let poll: unknown = null;
+  let heartbeat: unknown = null;
+
+  const projects = () =>
+    listProjects(workspaceRoot)
+      .filter((p) => p.has_framework)
+      .map((p) => String(p.dir));
+
+  const send = (name: string, event: StateEvent, index: number) => {
+    const message = `id: ${name}:${event.revision}.${index}\nevent: state\ndata: ${JSON.stringify({ project: name, ...event })}\n\n`;
+    for (const [res, filter] of clients) {
+      if (filter === null || filter === name) res.write(message);
+    }
+  };
+
+  /** Advance `cursor` past the journal's new complete lines, sending them unless `quiet` */
+  const advance = (name: string, cursor: JournalCursor, quiet: boolean) => {
+    const path = eventsPath(join(workspaceRoot, name));
+    const size = existsSync(path) ? statSync(path).size : 0;
+    if (size === cursor.size) return;
+    if (size < cursor.size) {
+      // Journal replaced or truncated: start over from its first line
+      cursor.lines = 0;
+      cursor.revision = cursor.index = 0;
+    }
+    cursor.size = size;
+    if (size === 0) return;
+    const lines = readFileSync(path, "utf-8").split("\n");
+    lines.pop(); // "" after the last newline, or a line still being written
+    for (const line of lines.slice(cursor.lines)) {
+      let event: StateEvent | null = null;
+      try {
+        event = line.trim() ? (JSON.parse(line) as StateEvent) : null;
+      } catch {
+        // Malformed line (e.g. from a crash mid-write): skip it, like readEvents
+      }
+      if (!event) continue;
+      cursor.index = event.revision === cursor.revision ? cursor.index + 1 : 0;
+      cursor.revision = event.revision;
+      if (!quiet) send(name, event, cursor.index);
+    }
+    cursor.lines = lines.length;
+  };
+
+  const tick = () => {
+    for (const name of projects()) {
+      let cursor = cursors.get(name);
+      if (!cursor) {
+        // New since the stream started: everything in its journal is news
+        cursor = { size: 0, lines: 0, revision: 0, index: 0 };
+        cursors.set(name, cursor);
+      }
+      advance(name, cursor, false);
+    }
+  };
+
+  const start = () => {
+    cursors.clear();
+    for (const name of projects()) {
+      const cursor = { size: 0, lines: 0, revision: 0, index: 0 };
+      advance(name, cursor, true);
+      cursors.set(name, cursor);
+    }
+    poll = setInterval(tick, pollMs);
+    heartbeat = setInterval(() => {
+      for (const res of clients.keys()) res.write(": ping\n\n");
+    }, HEARTBEAT_MS);
+  };
+
+  const stop = () => {
+    clearInterval(poll);
+    clearInterval(heartbeat);
+    poll = heartbeat = null;
+  };
+
+  return {
+    subscribe(res, project) {
+      if (clients.size === 0) start();
+      clients.set(res, project);
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      res.write(": connected\n\n");
+      res.on("close", () => {
+        clients.delete(res);
+        if (clients.size === 0) stop();
+      });
+    },
+    closeAll() {
+      for (const res of clients.keys()) res.end();
+      clients.clear();
+      stop();
+    },
+  };
+}
+
+// `node dist/server.js <action> <projectRoot>` — the child runInChild spawns
+if (process.argv[1] === __filename) {
+  const [, , action, projectRoot] = process.argv;
+  runChild(action, projectRoot);
+}
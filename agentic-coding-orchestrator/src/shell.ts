@@ -0,0 +1,41 @@
+/**
+ * shell.ts — Run a Project Shell Command
+ *
+ * Shared by the orchestrator-run test command (test-runner.ts) and the
+ * post-checks (checks.ts): one synchronous shell invocation in the project
+ * root with a timeout, capturing exit code and output.
+ */
+
+import { spawnSync } from "child_process";
+
+export interface ShellResult {
+  /** null when the command was killed (timeout) or could not start */
+  exit_code: number | null;
+  timed_out: boolean;
+  stdout: string;
+  stderr: string;
+  duration_ms: number;
+  /** Why the command could not start, null if it ran */
+  error: string | null;
+}
+
+/** Run `command` through the shell in `cwd`. Never throws. */
+export function runShell(cwd: string, command: string, timeoutSec: number): ShellResult {
+  const started = Date.now();
+  const proc = spawnSync(command, {
+    cwd,
+    shell: true,
+    encoding: "utf-8",
+    timeout: timeoutSec * 1000,
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  const timed_out = proc.error?.code === "ETIMEDOUT";
+  return {
+    exit_code: timed_out ? null : proc.status,
+    timed_out,
+    stdout: proc.stdout ?? "",
+    stderr: proc.stderr ?? "",
+    duration_ms: Date.now() - started,
+    error: proc.error && !timed_out ? proc.error.message : null,
+  };
+}
@@ -5,8 +5,13 @@
  * All operations are synchronous file I/O — zero LLM tokens.
  */
 
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
+import { existsSync, readFileSync, writeFileSync, mkdirSync, appendFileSync } from "fs";
 import { join, dirname } from "path";
+import { getKnownSteps } from "./rules";
+import { writeFileAtomic } from "./lock";
+import { recordTransitions } from "./events";
+import { snapshotGit } from "./git";
+import type { GitSnapshot } from "./git";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -16,7 +21,34 @@ export interface TestResults {
   skip: number;
 }
 
+/** Outcome of one named post-check (see checks.ts) */
+export interface CheckResult {
+  name: string;
+  /** lint | typecheck | test | format | custom */
+  kind: string;
+  command: string;
+  /** An optional check that fails does not fail lint_pass */
+  required: boolean;
+  passed: boolean;
+  /** null when the check timed out or could not start */
+  exit_code: number | null;
+  timed_out: boolean;
+  duration_ms: number;
+  /** Output tail, relative to the project root: .ai/checks/<name>.log */
+  output: string;
+}
+
+/** A commit the commit step reported and git confirmed */
+export interface CommitRecord {
+  /** Full hash */
+  hash: string;
+  subject: string;
+  recorded_at: string;
+}
+
 export interface State {
+  /** STATE.json format version — see STATE_SCHEMA_VERSION / migrateState() */
+  schema_version: number;
   project: string;
   story: string | null;
   step: string;
@@ -29,14 +61,62 @@ export interface State {
   timeout_min: number;
   tests: TestResults | null;
   failing_tests: string[];
+  /** All required post-checks passed; null until they have run */
   lint_pass: boolean | null;
+  /** Per-check results of the last post-check run for this step */
+  checks: CheckResult[];
+  /** Files the executor reported in HANDOFF.md */
   files_changed: string[];
+  /** Files git saw change during the last applied step; null without git */
+  files_changed_actual: string[] | null;
+  /** Repository position when the current step was dispatched; null without git */
+  git_base: GitSnapshot | null;
+  /** Story branch (git.branch_per_story), checked at every dispatch; null if unused */
+  branch: string | null;
+  /** Latest commit the commit step recorded (full hash once verified) */
+  commit_hash: string | null;
+  /** Every commit the commit step recorded for this story, oldest first */
+  commits: CommitRecord[];
   blocked_by: string[];
   human_note: string | null;
   last_error: string | null;
   task_type: string;
   agent_teams: boolean;
   reopened_from: string | null;
+  /**
+   * Incremented by every writeState(). A write whose `revision` no longer
+   * matches STATE.json on disk is rejected (StateConflictError) instead of
+   * silently discarding the other writer's update.
+   */
+  revision: number;
+  /** When STATE.json was last written (ISO 8601) */
+  updated_at: string | null;
+  /**
+   * Other active stories, keyed by story id. The flat fields above always
+   * describe the focused story; focusStory() swaps a parked story in.
+   */
+  stories: Record<string, StoryState>;
+}
+
+/** Per-story fields of State — everything except project-level bookkeeping */
+export type StoryState = Omit<State, "schema_version" | "project" | "stories" | "revision" | "updated_at">;
+
+// ─── Errors ──────────────────────────────────────────────────────────────────
+
+/** Thrown by writeState() when STATE.json changed after `state` was read */
+export class StateConflictError extends Error {
+  /** Revision the caller read */
+  expected: number;
+  /** STATE.json as it is on disk now */
+  current: State;
+  constructor(expected: number, current: State) {
+    super(
+      `STATE.json changed underneath this update (read revision ${expected}, now ${current.revision}) — re-read and retry`,
+    );
+    this.name = "StateConflictError";
+    this.expected = expected;
+    this.current = current;
+  }
 }
 
 // ─── Defaults ────────────────────────────────────────────────────────────────
@@ -44,6 +124,7 @@ export interface State {
 /** Create a blank STATE.json for a new project */
 export function createInitialState(project: string): State {
   return {
+    schema_version: STATE_SCHEMA_VERSION,
     project,
     story: null,
     step: "bootstrap",
@@ -57,16 +138,137 @@ export function createInitialState(project: string): State {
     tests: null,
     failing_tests: [],
     lint_pass: null,
+    checks: [],
     files_changed: [],
+    files_changed_actual: null,
+    git_base: null,
+    branch: null,
+    commit_hash: null,
+    commits: [],
     blocked_by: [],
     human_note: null,
     last_error: null,
     task_type: "story",
     agent_teams: false,
     reopened_from: null,
+    revision: 0,
+    updated_at: null,
+    stories: {},
   };
 }
 
+// ─── Schema Migrations ───────────────────────────────────────────────────────
+
+/** STATE.json format written by this version of the orchestrator */
+export const STATE_SCHEMA_VERSION = 7;
+
+interface Migration {
+  /** Version this migration produces (input is `to - 1`) */
+  to: number;
+  description: string;
+  migrate: (raw: Record<string, any>) => void;
+}
+
+/**
+ * Upgrade steps, oldest first. Files written before versioning count as
+ * version 0. Add a step (and bump STATE_SCHEMA_VERSION) whenever a State
+ * field is added, renamed or changes meaning — never edit a shipped step.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    to: 1,
+    description: "fill fields added before schema versioning",
+    migrate(raw) {
+      raw.task_type ??= raw.step === "custom" ? "custom" : "story";
+      raw.agent_teams ??= false;
+      raw.reopened_from ??= null;
+      raw.failing_tests ??= [];
+      raw.files_changed ??= [];
+      raw.blocked_by ??= [];
+      raw.lint_pass ??= null;
+      raw.human_note ??= null;
+      raw.last_error ??= null;
+    },
+  },
+  {
+    to: 2,
+    description: "add stories map for multiple active stories",
+    migrate(raw) {
+      raw.stories ??= {};
+    },
+  },
+  {
+    to: 3,
+    description: "add revision / updated_at for compare-and-swap writes",
+    migrate(raw) {
+      if (typeof raw.revision !== "number") raw.revision = 0;
+      raw.updated_at ??= null;
+    },
+  },
+  {
+    to: 4,
+    description: "add per-check post-check results",
+    migrate(raw) {
+      raw.checks ??= [];
+      for (const story of Object.values(raw.stories ?? {}) as Record<string, any>[]) {
+        story.checks ??= [];
+      }
+    },
+  },
+  {
+    to: 5,
+    description: "add git-observed files_changed_actual and the dispatch-time git_base",
+    migrate(raw) {
+      for (const story of [raw, ...Object.values(raw.stories ?? {})] as Record<string, any>[]) {
+        story.files_changed_actual ??= null;
+        story.git_base ??= null;
+      }
+    },
+  },
+  {
+    to: 6,
+    description: "add story branch and commit_hash",
+    migrate(raw) {
+      for (const story of [raw, ...Object.values(raw.stories ?? {})] as Record<string, any>[]) {
+        story.branch ??= null;
+        story.commit_hash ??= null;
+      }
+    },
+  },
+  {
+    to: 7,
+    description: "add per-story commits list",
+    migrate(raw) {
+      for (const story of [raw, ...Object.values(raw.stories ?? {})] as Record<string, any>[]) {
+        story.commits ??= [];
+      }
+    },
+  },
+];
+
+/**
+ * Upgrade a parsed STATE.json object to STATE_SCHEMA_VERSION in place.
+ * Returns the descriptions of the steps applied (empty if already current).
+ * Throws if the file comes from a newer orchestrator than this one.
+ */
+export function migrateState(raw: Record<string, any>): string[] {
+  const from = typeof raw.schema_version === "number" ? raw.schema_version : 0;
+  if (from > STATE_SCHEMA_VERSION) {
+    throw new Error(
+      `STATE.json schema_version ${from} is newer than this orchestrator supports (${STATE_SCHEMA_VERSION}). ` +
+        `Upgrade @agentic-coding-framework/orchestrator-core to read it.`,
+    );
+  }
+  const applied: string[] = [];
+  for (const step of MIGRATIONS) {
+    if (step.to <= from) continue;
+    step.migrate(raw);
+    applied.push(`v${step.to - 1} → v${step.to}: ${step.description}`);
+  }
+  raw.schema_version = STATE_SCHEMA_VERSION;
+  return applied;
+}
+
 // ─── File I/O ────────────────────────────────────────────────────────────────
 
 /** Resolve the STATE.json path for a project root */
@@ -74,32 +276,84 @@ export function statePath(projectRoot: string): string {
   return join(projectRoot, ".ai", "STATE.json");
 }
 
-/** Read STATE.json from disk. Sanitizes then validates. Throws if file doesn't exist. */
+/**
+ * Read STATE.json from disk. Migrates, sanitizes, then validates — in
+ * memory only: readers hold no lock, so the file is left to repairState().
+ * Throws if the file doesn't exist or has a newer, unknown schema_version.
+ */
 export function readState(projectRoot: string): State {
   const path = statePath(projectRoot);
   if (!existsSync(path)) {
     throw new Error(`STATE.json not found at ${path}. Run initState() first.`);
   }
-  const raw = readFileSync(path, "utf-8");
-  const parsed = JSON.parse(raw);
-  const warnings = sanitize(parsed, projectRoot);
-  validate(parsed);
-  // If sanitize corrected anything, persist the fix so next read is clean
-  if (warnings.length > 0) {
-    writeState(projectRoot, parsed);
-  }
+  const parsed = JSON.parse(readFileSync(path, "utf-8"));
+  migrateState(parsed);
+  sanitize(parsed);
+  validate(parsed, projectRoot);
   return parsed;
 }
 
-/** Write STATE.json to disk. Creates .ai/ directory if needed. */
+/**
+ * Persist what readState() does in memory — migrations and sanitize()
+ * fixes — so the next read is clean. Callers hold the STATE lock
+ * (dispatch.ts runs it at the start of every locked() action). Returns
+ * false, writing nothing, when the file is missing, already clean, or
+ * invalid; the action itself reports the latter.
+ */
+export function repairState(projectRoot: string): boolean {
+  const path = statePath(projectRoot);
+  if (!existsSync(path)) return false;
+  let parsed: State;
+  let migrations: string[];
+  let warnings: string[];
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
+    migrations = migrateState(parsed);
+    warnings = sanitize(parsed, projectRoot);
+    validate(parsed, projectRoot);
+  } catch {
+    return false;
+  }
+  if (migrations.length === 0 && warnings.length === 0) return false;
+  for (const m of migrations) {
+    appendLog(projectRoot, "INFO", "migrate", `STATE.json ${m}`);
+  }
+  writeState(projectRoot, parsed);
+  return true;
+}
+
+/**
+ * Write STATE.json to disk (temp file + rename, so readers never see a
+ * partial file). Creates .ai/ directory if needed. Callers doing a
+ * read-modify-write hold withStateLock() — see dispatch.ts.
+ *
+ * Compare-and-swap: throws StateConflictError if the file's revision is no
+ * longer `state.revision`. On success bumps `state.revision` / `updated_at`
+ * in place, so the same object can be written again, and journals the
+ * transition to .ai/events.jsonl.
+ */
 export function writeState(projectRoot: string, state: State): void {
-  validate(state);
+  validate(state, projectRoot);
   const path = statePath(projectRoot);
-  const dir = dirname(path);
-  if (!existsSync(dir)) {
-    mkdirSync(dir, { recursive: true });
+  const expected = state.revision ?? 0;
+  let current: State | null = null;
+  if (existsSync(path)) {
+    try {
+      current = JSON.parse(readFileSync(path, "utf-8"));
+    } catch {
+      // Unparseable file — nothing to protect, let this write repair it
+    }
+    // Never overwrite a file from a newer orchestrator (migrateState throws)
+    if (current) migrateState(current);
+    if (current && current.revision !== expected) {
+      throw new StateConflictError(expected, current);
+    }
   }
-  writeFileSync(path, JSON.stringify(state, null, 2) + "\n", "utf-8");
+  const next = { ...state, revision: expected + 1, updated_at: new Date().toISOString() };
+  writeFileAtomic(path, JSON.stringify(next, null, 2) + "\n");
+  state.revision = next.revision;
+  state.updated_at = next.updated_at;
+  recordTransitions(projectRoot, current, next);
 }
 
 /** Initialize .ai/STATE.json for a new project. No-op if already exists. */
@@ -122,7 +376,8 @@ export type LogLevel = "ERROR" | "WARN" | "INFO" | "CRITICAL" | "TIMEOUT";
 
 /**
  * Append a timestamped line to .ai/hook.log (best-effort, never throws).
- * If .ai/ directory doesn't exist, silently skips.
+ * If .ai/ directory doesn't exist, silently skips. Uses O_APPEND so lines
+ * from concurrent hooks are never lost.
  */
 export function appendLog(
   projectRoot: string,
@@ -134,10 +389,8 @@ export function appendLog(
     const logPath = join(projectRoot, ".ai", "hook.log");
     const ts = new Date().toISOString();
     const line = `${ts} [${level}] [${context}] ${message}\n`;
-    // Append: read existing content + append new line
-    let existing = "";
-    try { existing = readFileSync(logPath, "utf-8"); } catch { /* file may not exist */ }
-    writeFileSync(logPath, existing + line, "utf-8");
+    if (!existsSync(dirname(logPath))) return;
+    appendFileSync(logPath, line, "utf-8");
   } catch {
     // best-effort — if .ai/ doesn't exist yet, silently skip
   }
@@ -154,10 +407,7 @@ export function appendHistory(projectRoot: string, entry: string): void {
     if (!existsSync(aiDir)) {
       mkdirSync(aiDir, { recursive: true });
     }
-    let existing = "";
-    try { existing = readFileSync(historyPath, "utf-8"); } catch { /* file may not exist */ }
-    const content = existing + entry + "\n";
-    writeFileSync(historyPath, content, "utf-8");
+    appendFileSync(historyPath, entry + "\n", "utf-8");
   } catch {
     // best-effort — silently skip
   }
@@ -238,20 +488,18 @@ export function writeClaudeMd(
 
 // ─── Valid Value Sets ────────────────────────────────────────────────────────
 
-const VALID_STEPS = new Set([
-  "bootstrap",
-  "bdd",
-  "sdd-delta",
-  "contract",
-  "review",
-  "scaffold",
-  "impl",
-  "verify",
-  "commit",
-  "update-memory",
-  "custom",
-  "done",
-]);
+/**
+ * Valid step names: the built-in steps plus any the project declares in
+ * `.ai/step-rules.yaml`. A malformed override file falls back to the
+ * built-ins here — dispatch() reports it as INVALID_STEP_RULES.
+ */
+function validSteps(projectRoot?: string): Set<string> {
+  try {
+    return new Set(getKnownSteps(projectRoot));
+  } catch {
+    return new Set(getKnownSteps());
+  }
+}
 
 const VALID_STATUSES = new Set([
   "pending",
@@ -266,6 +514,8 @@ const VALID_REASONS = new Set([
   "constitution_violation",
   "needs_clarification",
   "nfr_missing",
+  "post_check_failed",
+  "scope_violation",
   "scope_warning",
   "test_timeout",
 ]);
@@ -288,6 +538,11 @@ const STATUS_TYPO_MAP: Record<string, string> = {
   blocked: "needs_human",
 };
 
+/** Canonical form of a status with a known typo, else the status unchanged */
+export function normalizeStatus(status: string): string {
+  return VALID_STATUSES.has(status) ? status : STATUS_TYPO_MAP[status.toLowerCase()] ?? status;
+}
+
 /**
  * Best-effort sanitization of a raw STATE.json object.
  * Auto-corrects known typos in `status` and cleans up invalid `reason`.
@@ -298,8 +553,8 @@ export function sanitize(state: State, projectRoot?: string): string[] {
 
   // ── Status auto-correct ──
   if (state.status && !VALID_STATUSES.has(state.status)) {
-    const corrected = STATUS_TYPO_MAP[state.status.toLowerCase()];
-    if (corrected) {
+    const corrected = normalizeStatus(state.status);
+    if (corrected !== state.status) {
       warnings.push(
         `⚠️  Auto-corrected status: "${state.status}" → "${corrected}"`,
       );
@@ -342,34 +597,91 @@ export function sanitize(state: State, projectRoot?: string): string[] {
 
 // ─── Validation ──────────────────────────────────────────────────────────────
 
-/** Validate a State object. Throws on invalid fields. */
-export function validate(state: State): void {
+/**
+ * Validate a State object. Throws on invalid fields.
+ * With a project root, steps declared in `.ai/step-rules.yaml` are valid too.
+ */
+export function validate(state: State, projectRoot?: string): void {
   if (!state.project) {
     throw new Error("State.project is required");
   }
-  if (!VALID_STEPS.has(state.step)) {
+  const steps = validSteps(projectRoot);
+  validateStory(state, steps, "");
+  for (const [id, story] of Object.entries(state.stories ?? {})) {
+    validateStory(story, steps, `stories.${id}: `);
+  }
+}
+
+function validateStory(story: StoryState, steps: Set<string>, label: string): void {
+  if (!steps.has(story.step)) {
     throw new Error(
-      `Invalid step: "${state.step}". Valid: ${[...VALID_STEPS].join(", ")}`,
+      `${label}Invalid step: "${story.step}". Valid: ${[...steps].join(", ")}`,
     );
   }
-  if (!VALID_STATUSES.has(state.status)) {
+  if (!VALID_STATUSES.has(story.status)) {
     throw new Error(
-      `Invalid status: "${state.status}". Valid: ${[...VALID_STATUSES].join(", ")}`,
+      `${label}Invalid status: "${story.status}". Valid: ${[...VALID_STATUSES].join(", ")}`,
     );
   }
-  if (state.reason !== null && !VALID_REASONS.has(state.reason)) {
+  if (story.reason !== null && !VALID_REASONS.has(story.reason)) {
     throw new Error(
-      `Invalid reason: "${state.reason}". Valid: null, ${[...VALID_REASONS].join(", ")}`,
+      `${label}Invalid reason: "${story.reason}". Valid: null, ${[...VALID_REASONS].join(", ")}`,
     );
   }
-  if (state.attempt < 0) {
-    throw new Error(`attempt must be >= 0, got ${state.attempt}`);
+  if (story.attempt < 0) {
+    throw new Error(`${label}attempt must be >= 0, got ${story.attempt}`);
   }
-  if (state.max_attempts < 1) {
-    throw new Error(`max_attempts must be >= 1, got ${state.max_attempts}`);
+  if (story.max_attempts < 1) {
+    throw new Error(`${label}max_attempts must be >= 1, got ${story.max_attempts}`);
   }
 }
 
+// ─── Multiple Stories ────────────────────────────────────────────────────────
+
+/** Copy the focused story's fields out of a State (deep copy). */
+export function storyFields(state: State): StoryState {
+  const {
+    schema_version: _schemaVersion,
+    project: _project,
+    stories: _stories,
+    revision: _revision,
+    updated_at: _updatedAt,
+    ...story
+  } = state;
+  return JSON.parse(JSON.stringify(story));
+}
+
+/** Ids of all active stories: the focused one first, then parked ones. */
+export function activeStoryIds(state: State): string[] {
+  const ids = state.story !== null && state.step !== "done" ? [state.story] : [];
+  return ids.concat(Object.keys(state.stories ?? {}));
+}
+
+/**
+ * Move `storyId` into the flat (focused) fields of `state`, parking the
+ * currently focused story in `state.stories` if it is still active.
+ * A focused story at "done" is dropped — history.md keeps its record.
+ * Returns false (state untouched) if no such story exists.
+ */
+export function focusStory(state: State, storyId: string): boolean {
+  if (state.story === storyId) return true;
+  const target = state.stories[storyId];
+  if (!target) return false;
+  parkStory(state);
+  delete state.stories[storyId];
+  Object.assign(state, target);
+  return true;
+}
+
+/**
+ * Park the focused story in `state.stories` so the flat fields can be
+ * reused for another story. No-op if nothing active is focused.
+ */
+export function parkStory(state: State): void {
+  if (state.story === null || state.step === "done") return;
+  state.stories[state.story] = storyFields(state);
+}
+
 // ─── Convenience Helpers ─────────────────────────────────────────────────────
 
 /** Check if a step has exceeded its timeout */
@@ -385,8 +697,11 @@ export function isMaxedOut(state: State): boolean {
   return state.attempt >= state.max_attempts;
 }
 
-/** Mark state as running with dispatch timestamp */
-export function markRunning(state: State): State {
+/**
+ * Mark state as running with dispatch timestamp. With `projectRoot`, also
+ * snapshot git so applyHandoff() can tell which files the step changed.
+ */
+export function markRunning(state: State, projectRoot?: string): State {
   return {
     ...state,
     status: "running",
@@ -394,6 +709,8 @@ export function markRunning(state: State): State {
     completed_at: null,
     reason: null,
     last_error: null,
+    checks: [], // already quoted in this run's prompt
+    git_base: projectRoot ? snapshotGit(projectRoot) : null,
   };
 }
 
@@ -0,0 +1,565 @@
+/**
+ * step-rules.ts — Per-Project Step Rule Overrides
+ *
+ * Reads `.ai/step-rules.yaml` (or `.ai/step-rules.json`) from a project root
+ * and checks it against the StepRule shape. This module only loads and
+ * validates the file; rules.ts merges the result onto STEP_RULES /
+ * BOOTSTRAP_RULE via getRulesTable().
+ *
+ * File format:
+ *
+ *   steps:
+ *     impl:
+ *       max_attempts: 8
+ *       timeout_min: 20
+ *       post_check: "npm run lint"   # or a list of named checks:
+ *       # post_check:
+ *       #   - { name: lint, command: "npm run lint", timeout_sec: 120 }
+ *       #   - { name: format, command: "npx prettier --check .", required: false }
+ *       on_fail:
+ *         scope_warning: impl     # merged onto the default on_fail routes
+ *     bootstrap:
+ *       timeout_min: 15
+ *     security-review:          # new step: display_name + step_instruction
+ *       display_name: Security Review
+ *       step_instruction: "Audit the diff for injection, authz and secrets."
+ *
+ *   pipelines:                  # per task_type; omitted types use the built-ins
+ *     story:
+ *       steps: [bdd, sdd-delta, review, scaffold, impl, security-review, verify, commit, update-memory]
+ *       human_gates: [review]   # optional, default: each step's requires_human
+ *       next_on_pass:           # optional, default: the next step in the list
+ *         verify: commit
+ *       on_fail:                # optional, merged onto each step's on_fail
+ *         security-review: { default: impl }
+ *
+ *   test:                       # test command the orchestrator runs itself
+ *     command: "npx vitest run --reporter=junit --outputFile=.ai/test-report.xml"
+ *     report: .ai/test-report.xml   # optional, default: parse stdout
+ *     after: [impl, scaffold, verify]   # default
+ *     timeout_sec: 600            # default
+ *     mode: override              # override (default) | check
+ *
+ *   scope: enforce                # claude_writes check in applyHandoff():
+ *                                 # enforce (default) | warn | off
+ *
+ *   git:
+ *     branch_per_story: true      # start-story creates story/<id> (default false)
+ *     branch_prefix: story/       # default
+ *
+ *   notify:                       # notifiers for state events (notify.ts)
+ *     - type: webhook             # stdout | file | webhook | command
+ *       url: https://example.com/aco
+ *       secret_env: ACO_WEBHOOK_SECRET   # HMAC-SHA256 key (or `secret:`)
+ *       events: [needs_human, blocked, done]   # default: every event
+ *     - type: file
+ *       path: .ai/notifications.jsonl      # default
+ */
+
+import { existsSync, readFileSync, statSync } from "fs";
+import { join } from "path";
+import { parseYaml } from "./yaml";
+import { POST_CHECK_KINDS } from "./rules";
+import type { StepRule } from "./rules";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type StepRuleOverride = Partial<StepRule>;
+
+/** A project-declared pipeline for one task_type (see file format above) */
+export interface PipelineDefinition {
+  steps: string[];
+  human_gates?: string[];
+  next_on_pass?: Record<string, string>;
+  on_fail?: Record<string, Record<string, string>>;
+}
+
+/**
+ * Project test command, run by applyHandoff() after the listed steps.
+ * `override` replaces the executor's reported test results with the
+ * command's; `check` keeps them and only flags disagreements.
+ */
+export interface TestCommandConfig {
+  command: string;
+  /** Report file the command writes (relative to the project root); null → parse stdout */
+  report: string | null;
+  after: string[];
+  timeout_sec: number;
+  mode: "override" | "check";
+}
+
+/**
+ * What applyHandoff() does with files changed outside a step's
+ * claude_writes: fail the step (`enforce`), only log them (`warn`), or
+ * skip the check (`off`).
+ */
+export type ScopeMode = "enforce" | "warn" | "off";
+
+export const SCOPE_MODES: ScopeMode[] = ["enforce", "warn", "off"];
+
+/**
+ * Optional git integration: a branch per story, checked at dispatch, and a
+ * commit on it required by the commit step.
+ */
+export interface GitConfig {
+  branch_per_story: boolean;
+  branch_prefix: string;
+}
+
+export const GIT_DEFAULTS: GitConfig = {
+  branch_per_story: false,
+  branch_prefix: "story/",
+};
+
+/** State events a notifier can subscribe to */
+export type NotificationEventType =
+  | "dispatched"
+  | "step_passed"
+  | "step_failed"
+  | "needs_human"
+  | "blocked"
+  | "timeout"
+  | "done"
+  | "review_suggested";
+
+export const NOTIFICATION_EVENT_TYPES: NotificationEventType[] = [
+  "dispatched",
+  "step_passed",
+  "step_failed",
+  "needs_human",
+  "blocked",
+  "timeout",
+  "done",
+  "review_suggested",
+];
+
+export type NotifierKind = "stdout" | "file" | "webhook" | "command";
+
+export const NOTIFIER_KINDS: NotifierKind[] = ["stdout", "file", "webhook", "command"];
+
+/** One entry of the `notify:` list */
+export interface NotifierConfig {
+  type: NotifierKind;
+  /** Event types to send; default all */
+  events: NotificationEventType[];
+  /** file: JSON lines file, relative to the project root */
+  path?: string;
+  /** webhook: URL the event is POSTed to */
+  url?: string;
+  /** webhook: HMAC-SHA256 key, inline or from an environment variable */
+  secret?: string;
+  secret_env?: string;
+  /** command: shell command run in the project root */
+  command?: string;
+  /** webhook / command: give up after this long */
+  timeout_sec?: number;
+}
+
+export interface StepRulesFile {
+  /** Absolute path of the file the overrides were read from */
+  path: string;
+  steps: Record<string, StepRuleOverride>;
+  pipelines: Record<string, PipelineDefinition>;
+  test: TestCommandConfig | null;
+  scope: ScopeMode;
+  git: GitConfig;
+  notify: NotifierConfig[];
+}
+
+export const TEST_COMMAND_DEFAULTS = {
+  after: ["impl", "scaffold", "verify"],
+  timeout_sec: 600,
+  mode: "override",
+} as const;
+
+// ─── File Location ───────────────────────────────────────────────────────────
+
+const CANDIDATE_FILES = ["step-rules.yaml", "step-rules.yml", "step-rules.json"];
+
+/** Resolve the override file for a project root, or null if none exists. */
+export function stepRulesPath(projectRoot: string): string | null {
+  for (const name of CANDIDATE_FILES) {
+    const path = join(projectRoot, ".ai", name);
+    if (existsSync(path)) return path;
+  }
+  return null;
+}
+
+// ─── Loader ──────────────────────────────────────────────────────────────────
+
+/** Parsed files keyed by path, invalidated when the file's mtime or size changes. */
+const cache = new Map<string, { mtimeMs: number; size: number; file: StepRulesFile }>();
+
+/**
+ * Read and validate the project's step-rules file.
+ * Returns null when the project has no override file.
+ * Throws an Error listing every problem when the file is malformed.
+ */
+export function readStepRuleOverrides(projectRoot: string): StepRulesFile | null {
+  const path = stepRulesPath(projectRoot);
+  if (!path) return null;
+
+  const { mtimeMs, size } = statSync(path);
+  const cached = cache.get(path);
+  if (cached && cached.mtimeMs === mtimeMs && cached.size === size) return cached.file;
+
+  const file = parseStepRulesFile(path, readFileSync(path, "utf-8"));
+  cache.set(path, { mtimeMs, size, file });
+  return file;
+}
+
+/** Parse + validate step-rules content. `path` selects JSON vs YAML and labels errors. */
+export function parseStepRulesFile(path: string, content: string): StepRulesFile {
+  let raw: unknown;
+  try {
+    raw = path.endsWith(".json") ? JSON.parse(content) : parseYaml(content);
+  } catch (err) {
+    throw new Error(`Invalid ${path}: ${(err as Error).message}`);
+  }
+
+  const errors: string[] = [];
+  const steps: Record<string, StepRuleOverride> = {};
+  const pipelines: Record<string, PipelineDefinition> = {};
+
+  let test: TestCommandConfig | null = null;
+  let scope: ScopeMode = "enforce";
+  let git: GitConfig = { ...GIT_DEFAULTS };
+  let notify: NotifierConfig[] = [];
+
+  if (raw === null) {
+    return { path, steps, pipelines, test, scope, git, notify };
+  }
+  if (!isPlainObject(raw)) {
+    throw new Error(
+      `Invalid ${path}: top level must be a mapping with "steps", "pipelines", "test", "scope", "git" and/or "notify" keys`,
+    );
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!TOP_LEVEL_KEYS.includes(key)) {
+      errors.push(`${key}: unknown top-level key (expected: ${TOP_LEVEL_KEYS.join(", ")})`);
+    }
+  }
+
+  const rawSteps = raw["steps"];
+  if (rawSteps !== undefined && rawSteps !== null) {
+    if (!isPlainObject(rawSteps)) {
+      errors.push("steps: must be a mapping of step name → rule fields");
+    } else {
+      for (const [step, fields] of Object.entries(rawSteps)) {
+        const override = validateOverride(`steps.${step}`, fields, errors);
+        if (override) steps[step] = override;
+      }
+    }
+  }
+
+  const rawPipelines = raw["pipelines"];
+  if (rawPipelines !== undefined && rawPipelines !== null) {
+    if (!isPlainObject(rawPipelines)) {
+      errors.push("pipelines: must be a mapping of task_type → pipeline");
+    } else {
+      for (const [taskType, def] of Object.entries(rawPipelines)) {
+        const pipeline = validatePipeline(`pipelines.${taskType}`, def, errors);
+        if (pipeline) pipelines[taskType] = pipeline;
+      }
+    }
+  }
+
+  const rawTest = raw["test"];
+  if (rawTest !== undefined && rawTest !== null) {
+    test = validateTestCommand("test", rawTest, errors);
+  }
+
+  const rawScope = raw["scope"];
+  if (rawScope !== undefined && rawScope !== null) {
+    if (SCOPE_MODES.includes(rawScope as ScopeMode)) scope = rawScope as ScopeMode;
+    else errors.push(`scope: expected one of ${SCOPE_MODES.join(", ")}, got ${JSON.stringify(rawScope)}`);
+  }
+
+  const rawGit = raw["git"];
+  if (rawGit !== undefined && rawGit !== null) {
+    git = validateGitConfig("git", rawGit, errors) ?? git;
+  }
+
+  const rawNotify = raw["notify"];
+  if (rawNotify !== undefined && rawNotify !== null) {
+    notify = validateNotifyConfig("notify", rawNotify, errors);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${path}:\n${errors.map((e) => `  - ${e}`).join("\n")}`);
+  }
+  return { path, steps, pipelines, test, scope, git, notify };
+}
+
+const TOP_LEVEL_KEYS = ["steps", "pipelines", "test", "scope", "git", "notify"];
+
+// ─── Field Validation ────────────────────────────────────────────────────────
+
+type FieldCheck = (value: unknown) => string | null;
+
+const isString: FieldCheck = (v) =>
+  typeof v === "string" ? null : "expected a string";
+const isNonEmptyString: FieldCheck = (v) =>
+  typeof v === "string" && v.trim() ? null : "expected a non-empty string";
+const isBoolean: FieldCheck = (v) =>
+  typeof v === "boolean" ? null : "expected true or false";
+const isPositiveInt: FieldCheck = (v) =>
+  typeof v === "number" && Number.isInteger(v) && v >= 1 ? null : "expected an integer >= 1";
+const isNonNegativeNumber: FieldCheck = (v) =>
+  typeof v === "number" && v >= 0 ? null : "expected a number >= 0";
+const isStringList: FieldCheck = (v) =>
+  Array.isArray(v) && v.every((s) => typeof s === "string") ? null : "expected a list of strings";
+const isStringOrNull: FieldCheck = (v) =>
+  v === null || typeof v === "string" ? null : "expected a string or null";
+const isRouteMap: FieldCheck = (v) =>
+  isPlainObject(v) && Object.values(v).every((s) => typeof s === "string" && s)
+    ? null
+    : "expected a mapping of reason → step name";
+
+const POST_CHECK_FIELDS: Record<string, FieldCheck> = {
+  name: (v) =>
+    typeof v === "string" && /^[A-Za-z0-9_.-]+$/.test(v) ? null : "expected a name of letters, digits, _ . -",
+  command: isNonEmptyString,
+  kind: (v) =>
+    (POST_CHECK_KINDS as readonly unknown[]).includes(v) ? null : `expected one of ${POST_CHECK_KINDS.join(", ")}`,
+  timeout_sec: isPositiveInt,
+  required: isBoolean,
+};
+
+/** null, a command string, or a list of { name, command, kind?, timeout_sec?, required? } */
+const isPostCheck: FieldCheck = (v) => {
+  if (v === null || typeof v === "string") return null;
+  if (!Array.isArray(v) || v.length === 0) return "expected a command string or a list of named checks";
+  const names = new Set<string>();
+  for (const [i, check] of v.entries()) {
+    if (!isPlainObject(check)) return `check ${i + 1}: expected a mapping with name and command`;
+    for (const key of ["name", "command"]) {
+      if (check[key] === undefined) return `check ${i + 1}: "${key}" is required`;
+    }
+    for (const [key, value] of Object.entries(check)) {
+      const fieldCheck = POST_CHECK_FIELDS[key];
+      if (!fieldCheck) return `check ${i + 1}: unknown field "${key}" (valid: ${Object.keys(POST_CHECK_FIELDS).join(", ")})`;
+      const problem = fieldCheck(value);
+      if (problem) return `check ${i + 1}.${key}: ${problem}`;
+    }
+    if (names.has(check.name as string)) return `check "${check.name}" is listed twice`;
+    names.add(check.name as string);
+  }
+  return null;
+};
+
+const FIELD_CHECKS: Record<keyof StepRule, FieldCheck> = {
+  display_name: isNonEmptyString,
+  next_on_pass: isNonEmptyString,
+  on_fail: isRouteMap,
+  max_attempts: isPositiveInt,
+  timeout_min: isNonNegativeNumber,
+  requires_human: isBoolean,
+  claude_reads: isStringList,
+  claude_writes: isStringList,
+  post_check: isPostCheck,
+  step_instruction: isString,
+  treat_failing_as_pass: isBoolean,
+  checklist: isStringList,
+};
+
+function validateOverride(
+  where: string,
+  fields: unknown,
+  errors: string[],
+): StepRuleOverride | null {
+  if (!isPlainObject(fields)) {
+    errors.push(`${where}: must be a mapping of rule fields`);
+    return null;
+  }
+  const override: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(fields)) {
+    const check = FIELD_CHECKS[field as keyof StepRule];
+    if (!check) {
+      errors.push(
+        `${where}.${field}: unknown field (valid: ${Object.keys(FIELD_CHECKS).join(", ")})`,
+      );
+      continue;
+    }
+    const problem = check(value);
+    if (problem) {
+      errors.push(`${where}.${field}: ${problem}, got ${JSON.stringify(value)}`);
+      continue;
+    }
+    override[field] = value;
+  }
+  return override as StepRuleOverride;
+}
+
+function validatePipeline(
+  where: string,
+  def: unknown,
+  errors: string[],
+): PipelineDefinition | null {
+  if (!isPlainObject(def)) {
+    errors.push(`${where}: must be a mapping with a "steps" list`);
+    return null;
+  }
+  const before = errors.length;
+  for (const key of Object.keys(def)) {
+    if (!["steps", "human_gates", "next_on_pass", "on_fail"].includes(key)) {
+      errors.push(`${where}.${key}: unknown field (valid: steps, human_gates, next_on_pass, on_fail)`);
+    }
+  }
+
+  const steps = def["steps"];
+  if (isStringList(steps) !== null || (steps as string[]).length === 0) {
+    errors.push(`${where}.steps: expected a non-empty list of step names`);
+  } else {
+    const seen = new Set<string>();
+    for (const step of steps as string[]) {
+      if (step === "bootstrap" || step === "done") {
+        errors.push(`${where}.steps: "${step}" cannot be part of a pipeline`);
+      } else if (seen.has(step)) {
+        errors.push(`${where}.steps: "${step}" is listed twice`);
+      }
+      seen.add(step);
+    }
+  }
+  if (def["human_gates"] !== undefined && isStringList(def["human_gates"]) !== null) {
+    errors.push(`${where}.human_gates: expected a list of step names`);
+  }
+  if (def["next_on_pass"] !== undefined && isRouteMap(def["next_on_pass"]) !== null) {
+    errors.push(`${where}.next_on_pass: expected a mapping of step → next step`);
+  }
+  const onFail = def["on_fail"];
+  if (onFail !== undefined) {
+    if (!isPlainObject(onFail) || Object.values(onFail).some((r) => isRouteMap(r) !== null)) {
+      errors.push(`${where}.on_fail: expected a mapping of step → { reason: step }`);
+    }
+  }
+  return errors.length === before ? (def as unknown as PipelineDefinition) : null;
+}
+
+function validateTestCommand(
+  where: string,
+  def: unknown,
+  errors: string[],
+): TestCommandConfig | null {
+  if (typeof def === "string") def = { command: def };
+  if (!isPlainObject(def)) {
+    errors.push(`${where}: must be a command string or a mapping with a "command" key`);
+    return null;
+  }
+  const before = errors.length;
+  const checks: Record<string, FieldCheck> = {
+    command: isNonEmptyString,
+    report: isStringOrNull,
+    after: isStringList,
+    timeout_sec: isPositiveInt,
+    mode: (v) => (v === "override" || v === "check" ? null : 'expected "override" or "check"'),
+  };
+  for (const [key, value] of Object.entries(def)) {
+    const check = checks[key];
+    if (!check) {
+      errors.push(`${where}.${key}: unknown field (valid: ${Object.keys(checks).join(", ")})`);
+      continue;
+    }
+    const problem = check(value);
+    if (problem) errors.push(`${where}.${key}: ${problem}, got ${JSON.stringify(value)}`);
+  }
+  if (def["command"] === undefined) errors.push(`${where}.command: required`);
+  if (errors.length > before) return null;
+  return {
+    command: def["command"] as string,
+    report: (def["report"] as string | null | undefined) ?? null,
+    after: (def["after"] as string[] | undefined) ?? [...TEST_COMMAND_DEFAULTS.after],
+    timeout_sec: (def["timeout_sec"] as number | undefined) ?? TEST_COMMAND_DEFAULTS.timeout_sec,
+    mode: (def["mode"] as TestCommandConfig["mode"] | undefined) ?? TEST_COMMAND_DEFAULTS.mode,
+  };
+}
+
+function validateGitConfig(where: string, def: unknown, errors: string[]): GitConfig | null {
+  if (!isPlainObject(def)) {
+    errors.push(`${where}: must be a mapping (branch_per_story, branch_prefix)`);
+    return null;
+  }
+  const before = errors.length;
+  const checks: Record<string, FieldCheck> = {
+    branch_per_story: isBoolean,
+    branch_prefix: (v) =>
+      typeof v === "string" && /^[A-Za-z0-9._\/-]*$/.test(v) && !v.includes("..")
+        ? null
+        : "expected a branch name prefix such as story/",
+  };
+  for (const [key, value] of Object.entries(def)) {
+    const check = checks[key];
+    if (!check) {
+      errors.push(`${where}.${key}: unknown field (valid: ${Object.keys(checks).join(", ")})`);
+      continue;
+    }
+    const problem = check(value);
+    if (problem) errors.push(`${where}.${key}: ${problem}, got ${JSON.stringify(value)}`);
+  }
+  if (errors.length > before) return null;
+  return { ...GIT_DEFAULTS, ...(def as Partial<GitConfig>) };
+}
+
+/** Fields each notifier type accepts, and which of them are required */
+const NOTIFIER_FIELDS: Record<NotifierKind, { fields: Record<string, FieldCheck>; required: string[] }> = {
+  stdout: { fields: {}, required: [] },
+  file: { fields: { path: isNonEmptyString }, required: [] },
+  webhook: {
+    fields: {
+      url: (v) => (typeof v === "string" && /^https?:\/\/\S+$/.test(v) ? null : "expected an http(s) URL"),
+      secret: isNonEmptyString,
+      secret_env: (v) => (typeof v === "string" && /^[A-Za-z_][A-Za-z0-9_]*$/.test(v) ? null : "expected an environment variable name"),
+      timeout_sec: isPositiveInt,
+    },
+    required: ["url"],
+  },
+  command: { fields: { command: isNonEmptyString, timeout_sec: isPositiveInt }, required: ["command"] },
+};
+
+const isEventList: FieldCheck = (v) =>
+  Array.isArray(v) && v.length > 0 && v.every((e) => NOTIFICATION_EVENT_TYPES.includes(e as NotificationEventType))
+    ? null
+    : `expected a list of ${NOTIFICATION_EVENT_TYPES.join(", ")}`;
+
+function validateNotifyConfig(where: string, def: unknown, errors: string[]): NotifierConfig[] {
+  if (!Array.isArray(def)) {
+    errors.push(`${where}: must be a list of notifiers, each with a "type" (${NOTIFIER_KINDS.join(", ")})`);
+    return [];
+  }
+  const notifiers: NotifierConfig[] = [];
+  for (const [i, entry] of def.entries()) {
+    const at = `${where}[${i}]`;
+    if (!isPlainObject(entry) || !NOTIFIER_KINDS.includes(entry["type"] as NotifierKind)) {
+      errors.push(`${at}.type: expected one of ${NOTIFIER_KINDS.join(", ")}`);
+      continue;
+    }
+    const before = errors.length;
+    const kind = NOTIFIER_FIELDS[entry["type"] as NotifierKind];
+    const checks: Record<string, FieldCheck> = { type: () => null, events: isEventList, ...kind.fields };
+    for (const [key, value] of Object.entries(entry)) {
+      const check = checks[key];
+      if (!check) {
+        errors.push(`${at}.${key}: unknown field for a ${entry["type"]} notifier (valid: ${Object.keys(checks).join(", ")})`);
+        continue;
+      }
+      const problem = check(value);
+      if (problem) errors.push(`${at}.${key}: ${problem}, got ${JSON.stringify(value)}`);
+    }
+    for (const key of kind.required) {
+      if (entry[key] === undefined) errors.push(`${at}.${key}: required`);
+    }
+    if (errors.length > before) continue;
+    notifiers.push({
+      ...(entry as unknown as NotifierConfig),
+      events: (entry["events"] as NotificationEventType[] | undefined) ?? [...NOTIFICATION_EVENT_TYPES],
+    });
+  }
+  return notifiers;
+}
+
+// ─── Internal Helpers ────────────────────────────────────────────────────────
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
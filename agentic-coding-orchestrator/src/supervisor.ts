@@ -0,0 +1,172 @@
+/**
+ * supervisor.ts — Run a Story End-to-End (`orchestrator run`)
+ *
+ * Loops runStep() — dispatch → executor → applyHandoff (tests, post-checks,
+ * scope) — on one story until something needs a person or the story is
+ * finished:
+ *
+ *   done          the story completed
+ *   review        a review checkpoint was reached and `until` is "review"
+ *   needs_human   a review checkpoint (with `until` "done") or a question
+ *                 from the executor
+ *   blocked       max attempts exhausted
+ *   timeout / already_running / error / max_steps
+ *
+ * Each executed step becomes a TranscriptEntry, reported through `onStep`
+ * as it happens. The executor is killed after the step's timeout_min
+ * (runStep), and the step then fails and is retried like any other.
+ *
+ * dispatch() and applyHandoff() notify the project's notifiers of each
+ * step (notify.ts); the run resolves once those deliveries are done.
+ */
+
+import { runStep, Executor } from "./executor";
+import { flushNotifications } from "./notify";
+import { getRule } from "./rules";
+import { readState, State } from "./state";
+import type { DispatchResult } from "./dispatch";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type RunUntil = "review" | "done";
+export const RUN_UNTIL: readonly RunUntil[] = ["review", "done"];
+
+export type RunStopReason =
+  | "done"
+  | "review"
+  | "needs_human"
+  | "blocked"
+  | "timeout"
+  | "already_running"
+  | "error"
+  | "max_steps";
+
+/** One executed step */
+export interface TranscriptEntry {
+  story: string | null;
+  step: string;
+  attempt: number;
+  executor: string;
+  /** How the executor ended: exited | timed_out | cancelled | failed_to_start */
+  execution: string;
+  exit_code: number | null;
+  duration_ms: number;
+  /** STATE.status after the HANDOFF was applied (pass, failing, needs_human, ...) */
+  outcome: string;
+  reason: string | null;
+  last_error: string | null;
+  /** The executor left no HANDOFF; the orchestrator wrote a failing one */
+  synthesized_handoff: boolean;
+}
+
+export interface RunResult {
+  stopped: RunStopReason;
+  story: string | null;
+  step: string;
+  message: string;
+  steps: TranscriptEntry[];
+  /** The dispatch result that ended the run, if it was one */
+  dispatch: DispatchResult | null;
+}
+
+export interface RunOptions {
+  until?: RunUntil;
+  storyId?: string;
+  /** Give up after this many executed steps (default DEFAULT_MAX_STEPS) */
+  maxSteps?: number;
+  /** Override the per-step timeout (default: the step's timeout_min) */
+  timeout_ms?: number;
+  onStep?: (entry: TranscriptEntry) => void;
+}
+
+/** Enough for every step of a story to use all of its attempts */
+const DEFAULT_MAX_STEPS = 50;
+
+// ─── Supervisor ──────────────────────────────────────────────────────────────
+
+/** Drive one story with `executor` until it is done or needs attention */
+export async function runStory(projectRoot: string, executor: Executor, options: RunOptions = {}): Promise<RunResult> {
+  const until = options.until ?? "done";
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  const storyId = options.storyId ?? tryReadState(projectRoot)?.story ?? undefined;
+  const steps: TranscriptEntry[] = [];
+  const stop = async (stopped: RunStopReason, message: string, dispatch: DispatchResult | null = null): Promise<RunResult> => {
+    await flushNotifications();
+    const state = tryReadState(projectRoot);
+    return { stopped, story: storyId ?? state?.story ?? null, step: state?.step ?? "none", message, steps, dispatch };
+  };
+
+  while (steps.length < maxSteps) {
+    const result = await runStep(projectRoot, executor, { storyId, timeout_ms: options.timeout_ms });
+    if (result.type === "not_dispatched") {
+      const d = result.dispatch;
+      switch (d.type) {
+        case "done":
+          return stop("done", d.summary, d);
+        case "needs_human":
+          return stop(until === "review" && isReviewCheckpoint(projectRoot, d.step) ? "review" : "needs_human", d.message, d);
+        case "blocked":
+          return stop("blocked", d.reason, d);
+        case "timeout":
+          return stop("timeout", d.last_error ?? `Step "${d.step}" timed out.`, d);
+        case "already_running":
+          return stop("already_running", `Step "${d.step}" is already running (${d.elapsed_min.toFixed(1)} min).`, d);
+        default:
+          return stop("error", d.type === "error" ? `${d.code}: ${d.message}` : `Unexpected dispatch result "${d.type}".`, d);
+      }
+    }
+
+    const state = readState(projectRoot);
+    const entry: TranscriptEntry = {
+      story: result.dispatch.story,
+      step: result.dispatch.step,
+      attempt: result.dispatch.attempt,
+      executor: executor.name,
+      execution: result.execution.status,
+      exit_code: result.execution.exit_code,
+      duration_ms: result.execution.duration_ms,
+      outcome: state.status,
+      reason: state.reason,
+      last_error: state.last_error,
+      synthesized_handoff: result.synthesized_handoff,
+    };
+    steps.push(entry);
+    options.onStep?.(entry);
+
+    // A HANDOFF that could not be applied leaves the step running
+    if (result.handoff.type !== "applied") {
+      const h = result.handoff;
+      return stop("error", h.type === "error" ? `${h.code}: ${h.message}` : h.message);
+    }
+  }
+  return stop("max_steps", `Stopped after ${maxSteps} steps.`);
+}
+
+/** True if `step` is a requires_human step (review) of the current story */
+function isReviewCheckpoint(projectRoot: string, step: string): boolean {
+  const state = tryReadState(projectRoot);
+  try {
+    return getRule(step, projectRoot, state?.task_type).requires_human;
+  } catch {
+    return false;
+  }
+}
+
+/** STATE, or null when it is missing or unreadable (dispatch() reports why) */
+function tryReadState(projectRoot: string): State | null {
+  try {
+    return readState(projectRoot);
+  } catch {
+    return null;
+  }
+}
+
+/** One transcript line: `US-001 impl #2 → failing (claude-code exited 1, 41s): ...` */
+export function formatTranscriptEntry(entry: TranscriptEntry): string {
+  const ran = entry.execution === "exited" ? `exited ${entry.exit_code}` : entry.execution.replace(/_/g, " ");
+  const detail = entry.outcome === "pass" ? "" : entry.last_error ? `: ${entry.last_error}` : entry.reason ? `: ${entry.reason}` : "";
+  return (
+    `${entry.story ?? "-"} ${entry.step} #${entry.attempt} → ${entry.outcome}` +
+    ` (${entry.executor} ${ran}, ${Math.round(entry.duration_ms / 1000)}s)${detail}`
+  );
+}
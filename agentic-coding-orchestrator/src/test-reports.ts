@@ -0,0 +1,252 @@
+/**
+ * test-reports.ts — Failing Test Names from Test Runner Reports
+ *
+ * HANDOFF.md may point at report files written by the project's test
+ * runner (`test_reports: [reports/junit.xml]`). The failing test names
+ * end up in STATE.failing_tests, so the next attempt's prompt lists them.
+ *
+ * Supported formats (detected from content, not file extension):
+ *   junit      JUnit XML — <testcase> with a <failure> or <error> child
+ *   tap        TAP — `not ok N - name` (leaf subtests only, TODO/SKIP ignored)
+ *   go-json    `go test -json` — {"Action":"fail","Test":...} lines (leaf subtests only)
+ *   jest-json  vitest / jest `--json` — testResults[].assertionResults[] with status "failed"
+ *
+ * All operations are synchronous file I/O — zero LLM tokens.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { isAbsolute, join } from "path";
+import type { TestResults } from "./state";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type TestReportFormat = "junit" | "tap" | "go-json" | "jest-json";
+
+export interface TestReport {
+  format: TestReportFormat;
+  /** Leaf test counts (a suite is not counted on top of its tests) */
+  tests: TestResults;
+  failing: string[];
+}
+
+// ─── Reading ─────────────────────────────────────────────────────────────────
+
+/**
+ * Collect failing test names from report files (paths relative to the
+ * project root). Unreadable or unrecognized reports become warnings.
+ */
+export function readFailingTests(
+  projectRoot: string,
+  reports: string[],
+): { failing: string[]; warnings: string[] } {
+  const failing: string[] = [];
+  const warnings: string[] = [];
+  for (const report of reports) {
+    const path = isAbsolute(report) ? report : join(projectRoot, report);
+    if (!existsSync(path)) {
+      warnings.push(`test report "${report}" not found`);
+      continue;
+    }
+    let parsed: TestReport | null;
+    try {
+      parsed = parseTestReport(readFileSync(path, "utf-8"));
+    } catch (err) {
+      warnings.push(`test report "${report}" could not be read: ${(err as Error).message}`);
+      continue;
+    }
+    if (!parsed) {
+      warnings.push(`test report "${report}" is not JUnit XML, TAP, go test -json or vitest/jest JSON`);
+      continue;
+    }
+    failing.push(...parsed.failing);
+  }
+  return { failing: unique(failing), warnings };
+}
+
+/** Detect the report format and extract failing test names; null if unknown */
+export function parseTestReport(content: string): TestReport | null {
+  const text = content.replace(/^\uFEFF/, "").trim();
+  if (text.startsWith("<")) {
+    return /<testcase\b/.test(text) || /<testsuites?\b/.test(text)
+      ? { format: "junit", ...parseJUnit(text) }
+      : null;
+  }
+  if (text.startsWith("{")) {
+    const whole = tryJson(text);
+    if (whole && Array.isArray((whole as JestReport).testResults)) {
+      return { format: "jest-json", ...parseJest(whole as JestReport) };
+    }
+    const firstLine = tryJson(text.split("\n")[0]);
+    if (firstLine && typeof (firstLine as GoEvent).Action === "string") {
+      return { format: "go-json", ...parseGoJson(text) };
+    }
+    return null;
+  }
+  if (/^TAP version \d+/m.test(text) || /^\s*(not )?ok\b/m.test(text)) {
+    return { format: "tap", ...parseTap(text) };
+  }
+  return null;
+}
+
+// ─── JUnit XML ───────────────────────────────────────────────────────────────
+
+type Parsed = Omit<TestReport, "format">;
+
+function parseJUnit(xml: string): Parsed {
+  const tests: TestResults = { pass: 0, fail: 0, skip: 0 };
+  const failing: string[] = [];
+  const testcase = /<testcase\b([^>]*?)(\/>|>([\s\S]*?)<\/testcase>)/g;
+  for (const match of xml.matchAll(testcase)) {
+    const body = match[3] ?? "";
+    if (/<skipped\b/.test(body)) {
+      tests.skip++;
+      continue;
+    }
+    if (!/<(failure|error)\b/.test(body)) {
+      tests.pass++;
+      continue;
+    }
+    tests.fail++;
+    const name = xmlAttr(match[1], "name");
+    const classname = xmlAttr(match[1], "classname");
+    if (!name) continue;
+    failing.push(classname && !name.startsWith(classname) ? `${classname}.${name}` : name);
+  }
+  return { tests, failing: unique(failing) };
+}
+
+function xmlAttr(attrs: string, name: string): string | null {
+  const match = attrs.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  if (!match) return null;
+  return decodeXml(match[2] ?? match[3]);
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+// ─── TAP ─────────────────────────────────────────────────────────────────────
+
+/**
+ * TAP subtests are reported before their parent, indented. Only leaf test
+ * points are counted and named — a parent that fails because a subtest
+ * failed is dropped in favour of the subtest.
+ */
+function parseTap(tap: string): Parsed {
+  const tests: TestResults = { pass: 0, fail: 0, skip: 0 };
+  const failing: string[] = [];
+  /** indents with a test point since the enclosing parent's point */
+  const pending = new Set<number>();
+  for (const line of tap.split("\n")) {
+    const match = line.match(/^(\s*)(not ok|ok)\b\s*(\d+)?\s*(?:-\s*)?(.*)$/);
+    if (!match) continue;
+    const indent = match[1].length;
+    let hasChildren = false;
+    for (const depth of pending) {
+      if (depth > indent) {
+        hasChildren = true;
+        pending.delete(depth);
+      }
+    }
+    pending.add(indent);
+    if (hasChildren) continue;
+
+    const [description, directive = ""] = match[4].split(/\s+#\s+/, 2);
+    if (/^(TODO|SKIP)\b/i.test(directive)) {
+      tests.skip++;
+    } else if (match[2] === "ok") {
+      tests.pass++;
+    } else {
+      tests.fail++;
+      failing.push(description.trim() || `test ${match[3] ?? "?"}`);
+    }
+  }
+  return { tests, failing: unique(failing) };
+}
+
+// ─── go test -json ───────────────────────────────────────────────────────────
+
+interface GoEvent {
+  Action?: string;
+  Package?: string;
+  Test?: string;
+}
+
+/** `TestA` is not counted when it has subtests (`TestA/sub`) — they are */
+function parseGoJson(text: string): Parsed {
+  const outcomes = new Map<string, string>();
+  for (const line of text.split("\n")) {
+    const event = tryJson(line) as GoEvent | null;
+    if (!event?.Test || !["pass", "fail", "skip"].includes(event.Action ?? "")) continue;
+    outcomes.set(`${event.Package ?? ""}\0${event.Test}`, event.Action!);
+  }
+  const keys = [...outcomes.keys()];
+  const tests: TestResults = { pass: 0, fail: 0, skip: 0 };
+  const failing: string[] = [];
+  for (const [key, action] of outcomes) {
+    if (keys.some((other) => other.startsWith(`${key}/`))) continue;
+    tests[action as keyof TestResults]++;
+    if (action === "fail") failing.push(key.split("\0")[1]);
+  }
+  return { tests, failing: unique(failing) };
+}
+
+// ─── vitest / jest JSON ──────────────────────────────────────────────────────
+
+interface JestReport {
+  testResults: Array<{
+    name?: string;
+    status?: string;
+    assertionResults?: Array<{
+      fullName?: string;
+      title?: string;
+      ancestorTitles?: string[];
+      status?: string;
+    }>;
+  }>;
+}
+
+/** A test file that failed without any failed assertion (e.g. a syntax error) counts as one failing test */
+function parseJest(report: JestReport): Parsed {
+  const tests: TestResults = { pass: 0, fail: 0, skip: 0 };
+  const failing: string[] = [];
+  for (const file of report.testResults) {
+    let failed = 0;
+    for (const a of file.assertionResults ?? []) {
+      if (a.status === "passed") {
+        tests.pass++;
+      } else if (a.status === "failed") {
+        tests.fail++;
+        failed++;
+        failing.push(a.fullName || [...(a.ancestorTitles ?? []), a.title ?? ""].filter(Boolean).join(" > "));
+      } else {
+        tests.skip++; // pending, skipped, todo, disabled
+      }
+    }
+    if (failed === 0 && file.status === "failed" && file.name) {
+      tests.fail++;
+      failing.push(file.name);
+    }
+  }
+  return { tests, failing: unique(failing.filter(Boolean)) };
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function tryJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+function unique(names: string[]): string[] {
+  return [...new Set(names)];
+}
@@ -0,0 +1,97 @@
+/**
+ * test-runner.ts — Orchestrator-Run Test Command
+ *
+ * Runs the project's `test:` command from .ai/step-rules.yaml (see
+ * step-rules.ts) and turns its report — or its stdout — into TestResults
+ * and failing test names via test-reports.ts. applyHandoff() uses the
+ * result to override or cross-check what the executor wrote in HANDOFF.md.
+ *
+ * A synchronous shell execution — zero LLM tokens.
+ */
+
+import { existsSync, readFileSync, unlinkSync } from "fs";
+import { isAbsolute, join } from "path";
+import { parseTestReport } from "./test-reports";
+import { runShell } from "./shell";
+import type { TestCommandConfig } from "./step-rules";
+import type { TestResults } from "./state";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface TestRun {
+  command: string;
+  /** null when the command was killed (timeout) or could not start */
+  exit_code: number | null;
+  timed_out: boolean;
+  /** Exit code 0 and no failing tests in the report */
+  passed: boolean;
+  /** Counts from the report or stdout, null if neither could be parsed */
+  tests: TestResults | null;
+  failing_tests: string[];
+  duration_ms: number;
+  /** Last OUTPUT_TAIL_CHARS of stdout + stderr */
+  output_tail: string;
+  /** Problems reading the report (missing file, unknown format) */
+  warnings: string[];
+}
+
+const OUTPUT_TAIL_CHARS = 4000;
+
+// ─── Runner ──────────────────────────────────────────────────────────────────
+
+/**
+ * Run the configured test command in the project root. Never throws.
+ * A `report:` file left by an earlier run is deleted first, so a command
+ * that crashes before writing one is never credited with the old results.
+ */
+export function runTestCommand(projectRoot: string, config: TestCommandConfig): TestRun {
+  const warnings: string[] = [];
+  const reportPath = config.report
+    ? isAbsolute(config.report) ? config.report : join(projectRoot, config.report)
+    : null;
+  if (reportPath && existsSync(reportPath)) {
+    try {
+      unlinkSync(reportPath);
+    } catch (err) {
+      warnings.push(`stale test report "${config.report}" could not be removed: ${(err as Error).message}`);
+    }
+  }
+
+  const proc = runShell(projectRoot, config.command, config.timeout_sec);
+  if (proc.error) warnings.push(`test command could not run: ${proc.error}`);
+
+  let reportText: string | null = proc.stdout;
+  if (reportPath) {
+    reportText = existsSync(reportPath) ? readFileSync(reportPath, "utf-8") : null;
+    if (reportText === null) warnings.push(`test report "${config.report}" was not written`);
+  }
+  const report = reportText === null ? null : parseTestReport(reportText);
+  if (reportText !== null && !report) {
+    warnings.push(
+      config.report
+        ? `test report "${config.report}" is not JUnit XML, TAP, go test -json or vitest/jest JSON`
+        : "test command output is not a test report — only its exit code is used",
+    );
+  }
+
+  return {
+    command: config.command,
+    exit_code: proc.exit_code,
+    timed_out: proc.timed_out,
+    passed: proc.exit_code === 0 && (report?.tests.fail ?? 0) === 0,
+    tests: report?.tests ?? null,
+    failing_tests: report?.failing ?? [],
+    duration_ms: proc.duration_ms,
+    output_tail: (proc.stdout + proc.stderr).slice(-OUTPUT_TAIL_CHARS),
+    warnings,
+  };
+}
+
+/** One-line summary for hook.log and the CLI */
+export function describeTestRun(run: TestRun): string {
+  const outcome = run.timed_out
+    ? "timed out"
+    : run.exit_code === null ? "did not run" : `exited ${run.exit_code}`;
+  const counts = run.tests ? ` tests=${run.tests.pass}/${run.tests.fail}/${run.tests.skip}` : "";
+  return `"${run.command}" ${outcome}${counts} in ${run.duration_ms}ms`;
+}
@@ -0,0 +1,145 @@
+/**
+ * undo.ts — STATE Snapshots for `orchestrator undo` (.ai/UNDO.json)
+ *
+ * Before each mutating call in dispatch.ts, withUndo() captures STATE.json,
+ * .ai/CHECKLIST.md (startStory regenerates it) and .ai/BACKLOG.json
+ * (startStory dequeues the story). If the call changed STATE, the snapshot
+ * is pushed onto a bounded stack; undo() in dispatch.ts pops it and
+ * restoreSnapshotFiles() puts the files back.
+ *
+ *   { "snapshots": [
+ *       { "action": "approve", "taken_at": "...", "state": { ... },
+ *         "checklist": "# Checklist: ...", "backlog": "{ \"items\": ... }" }
+ *   ] }                                                   (newest last)
+ *
+ * All operations are synchronous file I/O — zero LLM tokens.
+ */
+
+import { existsSync, readFileSync, unlinkSync } from "fs";
+import { join } from "path";
+import { writeFileAtomic } from "./lock";
+import { backlogPath } from "./backlog";
+import type { State } from "./state";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface UndoSnapshot {
+  /** Mutating call this snapshot precedes (approve, rollback, ...) */
+  action: string;
+  taken_at: string;
+  /** STATE.json as it was before the call */
+  state: State;
+  /** .ai/CHECKLIST.md before the call, null if there was none */
+  checklist: string | null;
+  /** .ai/BACKLOG.json before the call, null if there was none (absent in older snapshots) */
+  backlog?: string | null;
+}
+
+/** Snapshots kept — older ones fall off the bottom of the stack */
+export const UNDO_DEPTH = 20;
+
+// ─── File I/O ────────────────────────────────────────────────────────────────
+
+/** Resolve the UNDO.json path for a project root */
+export function undoPath(projectRoot: string): string {
+  return join(projectRoot, ".ai", "UNDO.json");
+}
+
+/** Resolve the CHECKLIST.md path for a project root */
+export function checklistPath(projectRoot: string): string {
+  return join(projectRoot, ".ai", "CHECKLIST.md");
+}
+
+/** Read the undo stack, oldest first. A missing or corrupt file is empty. */
+export function readUndoStack(projectRoot: string): UndoSnapshot[] {
+  const path = undoPath(projectRoot);
+  if (!existsSync(path)) return [];
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8"));
+    return Array.isArray(parsed.snapshots) ? parsed.snapshots : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Write the undo stack atomically, keeping the newest UNDO_DEPTH entries. */
+export function writeUndoStack(projectRoot: string, snapshots: UndoSnapshot[]): void {
+  writeFileAtomic(
+    undoPath(projectRoot),
+    JSON.stringify({ snapshots: snapshots.slice(-UNDO_DEPTH) }, null, 2) + "\n",
+  );
+}
+
+// ─── Capture ─────────────────────────────────────────────────────────────────
+
+/** Nesting depth of withUndo() — only the outermost call is one undo step */
+let depth = 0;
+
+/**
+ * Run `fn` and, if it changed STATE.json, push the pre-call snapshot so
+ * undo() can restore it. Nested calls (dispatch → startNextStory) belong
+ * to the outer action. Callers hold the STATE lock.
+ */
+export function withUndo<T>(projectRoot: string, action: string, fn: () => T): T {
+  if (depth > 0) return fn();
+  const before = takeSnapshot(projectRoot, action);
+  depth++;
+  let value: T;
+  try {
+    value = fn();
+  } finally {
+    depth--;
+  }
+  if (before && readRevision(projectRoot) !== before.state.revision) {
+    writeUndoStack(projectRoot, [...readUndoStack(projectRoot), before]);
+  }
+  return value;
+}
+
+/** Capture STATE.json + CHECKLIST.md as-is (no migration), or null if no STATE */
+function takeSnapshot(projectRoot: string, action: string): UndoSnapshot | null {
+  const statePath = join(projectRoot, ".ai", "STATE.json");
+  if (!existsSync(statePath)) return null;
+  let state: State;
+  try {
+    state = JSON.parse(readFileSync(statePath, "utf-8"));
+  } catch {
+    return null; // nothing sane to restore
+  }
+  return {
+    action,
+    taken_at: new Date().toISOString(),
+    state,
+    checklist: readIfExists(checklistPath(projectRoot)),
+    backlog: readIfExists(backlogPath(projectRoot)),
+  };
+}
+
+// ─── Restore ─────────────────────────────────────────────────────────────────
+
+/**
+ * Put CHECKLIST.md and BACKLOG.json back as the snapshot found them:
+ * rewritten atomically, or removed if they did not exist. STATE.json is
+ * undo()'s to write. Callers hold the STATE lock.
+ */
+export function restoreSnapshotFiles(projectRoot: string, snapshot: UndoSnapshot): void {
+  restoreFile(checklistPath(projectRoot), snapshot.checklist);
+  if (snapshot.backlog !== undefined) restoreFile(backlogPath(projectRoot), snapshot.backlog);
+}
+
+function restoreFile(path: string, content: string | null): void {
+  if (content !== null) writeFileAtomic(path, content);
+  else if (existsSync(path)) unlinkSync(path);
+}
+
+function readIfExists(path: string): string | null {
+  return existsSync(path) ? readFileSync(path, "utf-8") : null;
+}
+
+function readRevision(projectRoot: string): number | undefined {
+  try {
+    return JSON.parse(readFileSync(join(projectRoot, ".ai", "STATE.json"), "utf-8")).revision;
+  } catch {
+    return undefined;
+  }
+}
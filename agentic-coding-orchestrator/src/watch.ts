@@ -0,0 +1,242 @@
+/**
+ * watch.ts — Workspace Daemon (`orchestrator watch`)
+ *
+ * Replaces the Claude Code Stop/SessionEnd hook as the thing that notices
+ * an executor finished: every project listProjects() finds in the
+ * workspace gets a file watcher on its `.ai/` directory, and a fresh
+ * HANDOFF.md for a `running` story is applied with applyHandoff(). A
+ * periodic rescan also catches missed file events, picks up new projects,
+ * and times out running steps past their timeout_min (via dispatch(), which
+ * owns the timeout transition).
+ *
+ * Each outcome is a WatchEvent passed to the registered listeners.
+ *
+ * scanProject() holds the logic and is synchronous; watchWorkspace() only
+ * adds the watchers and timers around it.
+ */
+
+import { existsSync, statSync, watch, FSWatcher } from "fs";
+import { join } from "path";
+import { applyHandoff, dispatch, listProjects } from "./dispatch";
+import { handoffPath, parseHandoff } from "./handoff";
+import { readState, activeStoryIds, isTimedOut, appendLog, State } from "./state";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type WatchEventType = "handoff_applied" | "handoff_rejected" | "timeout" | "error";
+
+export interface WatchEvent {
+  type: WatchEventType;
+  ts: string;
+  /** Absolute project root */
+  project: string;
+  story: string | null;
+  step: string | null;
+  /** Story status after the event (pass, failing, needs_human, timeout, ...) */
+  status: string | null;
+  message: string;
+}
+
+export type WatchListener = (event: WatchEvent) => void;
+
+export interface WatchOptions {
+  /** Full rescan interval: timeouts, new projects, missed file events */
+  interval_ms?: number;
+  /** A HANDOFF.md must be unchanged this long before it is applied */
+  settle_ms?: number;
+  listeners?: WatchListener[];
+}
+
+export interface Watcher {
+  /** Project roots currently watched */
+  readonly projects: string[];
+  on(listener: WatchListener): void;
+  /** Rescan the whole workspace now; returns the events it emitted */
+  scan(): WatchEvent[];
+  stop(): void;
+}
+
+/** Per-project memory between scans: mtime of the last HANDOFF.md handled */
+export type WatchSeen = Map<string, number>;
+
+const DEFAULT_INTERVAL_MS = 30_000;
+const DEFAULT_SETTLE_MS = 1000;
+
+// ─── Scanning ────────────────────────────────────────────────────────────────
+
+/** Absolute roots of the initialized projects in `workspaceRoot` */
+export function findWatchedProjects(workspaceRoot: string): string[] {
+  return listProjects(workspaceRoot)
+    .filter((p) => p.has_framework)
+    .map((p) => join(workspaceRoot, String(p.dir)));
+}
+
+/**
+ * Apply a fresh, settled HANDOFF.md and time out overdue steps in one
+ * project. A HANDOFF is handled once per mtime; one for a story that is
+ * not running (already applied, or left from an earlier step) is skipped.
+ */
+export function scanProject(projectRoot: string, seen: WatchSeen, settleMs = DEFAULT_SETTLE_MS): WatchEvent[] {
+  const events: WatchEvent[] = [];
+  let state: State;
+  try {
+    state = readState(projectRoot);
+  } catch {
+    return events; // not initialized, or STATE.json unreadable — dispatch reports that
+  }
+
+  const path = handoffPath(projectRoot);
+  if (existsSync(path)) {
+    const mtime = statSync(path).mtimeMs;
+    if (seen.get(projectRoot) !== mtime && Date.now() - mtime >= settleMs) {
+      seen.set(projectRoot, mtime);
+      const event = applyFreshHandoff(projectRoot, state);
+      if (event) events.push(event);
+      try {
+        state = readState(projectRoot);
+      } catch {
+        return events;
+      }
+    }
+  }
+
+  for (const id of activeStoryIds(state)) {
+    const story = id === state.story ? state : state.stories[id];
+    if (!isTimedOut(story as State)) continue;
+    const result = dispatch(projectRoot, id);
+    if (result.type !== "timeout") continue;
+    events.push(makeEvent("timeout", projectRoot, id, result.step, "timeout", result.last_error ?? `Step "${result.step}" timed out`));
+  }
+  return events;
+}
+
+/** applyHandoff() for the story HANDOFF.md names, if that story is running */
+function applyFreshHandoff(projectRoot: string, state: State): WatchEvent | null {
+  let storyId = state.story;
+  try {
+    storyId = parseHandoff(projectRoot)?.story || state.story;
+  } catch {
+    // Malformed front matter: applyHandoff() reports HANDOFF_INVALID for the focused story
+  }
+  const story = storyId === state.story ? state : storyId ? state.stories[storyId] : undefined;
+  if (!story || story.status !== "running") return null;
+
+  const result = applyHandoff(projectRoot, storyId ?? undefined);
+  switch (result.type) {
+    case "applied":
+      return makeEvent(
+        "handoff_applied",
+        projectRoot,
+        result.state.story,
+        result.state.step,
+        result.state.status,
+        `HANDOFF applied: ${result.state.step} → ${result.state.status}`,
+      );
+    case "error":
+      return makeEvent("handoff_rejected", projectRoot, storyId, story.step, story.status, `${result.code}: ${result.message}`);
+    default:
+      // stale / pending / missing: the executor has not written this step's HANDOFF yet
+      return null;
+  }
+}
+
+function makeEvent(
+  type: WatchEventType,
+  project: string,
+  story: string | null,
+  step: string | null,
+  status: string | null,
+  message: string,
+): WatchEvent {
+  return { type, ts: new Date().toISOString(), project, story, step, status, message };
+}
+
+// ─── Daemon ──────────────────────────────────────────────────────────────────
+
+/**
+ * Watch every initialized project in `workspaceRoot` until stop(). Scans
+ * once immediately, so HANDOFFs written while no daemon ran are applied.
+ */
+export function watchWorkspace(workspaceRoot: string, options: WatchOptions = {}): Watcher {
+  const intervalMs = options.interval_ms ?? DEFAULT_INTERVAL_MS;
+  const settleMs = options.settle_ms ?? DEFAULT_SETTLE_MS;
+  const listeners: WatchListener[] = [...(options.listeners ?? [])];
+  const seen: WatchSeen = new Map();
+  const watchers = new Map<string, FSWatcher>();
+  const pending = new Map<string, unknown>();
+  let stopped = false;
+
+  const emit = (events: WatchEvent[]) => {
+    for (const event of events) {
+      for (const listener of listeners) {
+        try {
+          listener(event);
+        } catch (err) {
+          appendLog(event.project, "WARN", "watch", `Listener failed: ${(err as Error).message}`);
+        }
+      }
+    }
+    return events;
+  };
+
+  const scanOne = (projectRoot: string): WatchEvent[] => {
+    try {
+      return emit(scanProject(projectRoot, seen, settleMs));
+    } catch (err) {
+      return emit([makeEvent("error", projectRoot, null, null, null, (err as Error).message)]);
+    }
+  };
+
+  // A file event means a write is in progress — scan once it has settled
+  const schedule = (projectRoot: string) => {
+    if (stopped) return;
+    if (pending.has(projectRoot)) clearTimeout(pending.get(projectRoot));
+    pending.set(projectRoot, setTimeout(() => {
+      pending.delete(projectRoot);
+      if (!stopped) scanOne(projectRoot);
+    }, settleMs + 50));
+  };
+
+  const scan = (): WatchEvent[] => {
+    const roots = findWatchedProjects(workspaceRoot);
+    for (const root of roots) {
+      if (watchers.has(root)) continue;
+      try {
+        const watcher = watch(join(root, ".ai"), (_event, filename) => {
+          if (!filename || filename === "HANDOFF.md") schedule(root);
+        });
+        watcher.on("error", () => {
+          watcher.close();
+          watchers.delete(root); // re-added by the next scan
+        });
+        watchers.set(root, watcher);
+      } catch {
+        /* .ai/ vanished — the periodic scan still covers the project */
+      }
+    }
+    for (const [root, watcher] of watchers) {
+      if (roots.includes(root)) continue;
+      watcher.close();
+      watchers.delete(root);
+    }
+    return roots.flatMap(scanOne);
+  };
+
+  const interval = setInterval(() => { if (!stopped) scan(); }, intervalMs);
+  scan();
+
+  return {
+    get projects() {
+      return [...watchers.keys()];
+    },
+    on: (listener) => { listeners.push(listener); },
+    scan,
+    stop() {
+      stopped = true;
+      clearInterval(interval);
+      for (const timer of pending.values()) clearTimeout(timer);
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+  };
+}
@@ -0,0 +1,386 @@
+/**
+ * yaml.ts — Minimal YAML Subset Parser
+ *
+ * Just enough YAML for orchestrator config files (`.ai/step-rules.yaml`) and
+ * HANDOFF.md front matter: nested block mappings, block lists, inline
+ * `[a, b]` lists and `{k: v}` mappings, quoted strings, `|` / `>` block
+ * scalars, `#` comments and plain scalars (null / booleans / numbers / strings).
+ * Anchors, tags and multi-document streams are not supported.
+ *
+ * Zero dependencies, zero LLM tokens. Malformed input throws YamlParseError
+ * with the 1-based line number — callers decide how to surface it.
+ */
+
+// ─── Errors ──────────────────────────────────────────────────────────────────
+
+export class YamlParseError extends Error {
+  line: number;
+  constructor(line: number, message: string) {
+    super(`line ${line}: ${message}`);
+    this.name = "YamlParseError";
+    this.line = line;
+  }
+}
+
+// ─── Line Model ──────────────────────────────────────────────────────────────
+
+interface Line {
+  no: number; // 1-based line number in the source text
+  indent: number;
+  text: string; // content without indentation and trailing comment
+}
+
+/** Strip a trailing `# comment` that is outside quotes. */
+function stripComment(raw: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i];
+    if (quote) {
+      if (ch === "\\" && quote === '"') { i++; continue; }
+      if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === "'") { quote = ch; continue; }
+    if (ch === "#" && (i === 0 || raw[i - 1] === " " || raw[i - 1] === "\t")) {
+      return raw.slice(0, i);
+    }
+  }
+  return raw;
+}
+
+function toLines(text: string): Line[] {
+  const lines: Line[] = [];
+  const raw = text.replace(/\r\n?/g, "\n").split("\n");
+  for (let i = 0; i < raw.length; i++) {
+    const content = stripComment(raw[i]).trimEnd();
+    if (!content.trim()) continue;
+    const indentMatch = content.match(/^[ \t]*/)![0];
+    if (indentMatch.includes("\t")) {
+      throw new YamlParseError(i + 1, "tabs are not allowed in indentation");
+    }
+    lines.push({ no: i + 1, indent: indentMatch.length, text: content.slice(indentMatch.length) });
+  }
+  return lines;
+}
+
+// ─── Parser ──────────────────────────────────────────────────────────────────
+
+export interface YamlOptions {
+  /**
+   * Top-level keys whose plain scalars are never coerced to numbers, e.g.
+   * `commit_hash: 0123456` stays "0123456" rather than becoming 123456.
+   */
+  stringKeys?: readonly string[];
+}
+
+/**
+ * Parse a YAML document into plain JS values (objects, arrays, strings,
+ * numbers, booleans, null). An empty document yields null.
+ */
+export function parseYaml(text: string, options: YamlOptions = {}): unknown {
+  const lines = toLines(text);
+  if (lines.length === 0) return null;
+  // The final newline terminates the last line rather than starting a new one
+  const source = text.replace(/\r\n?/g, "\n").replace(/\n$/, "").split("\n");
+  const parser = new BlockParser(lines, source, new Set(options.stringKeys ?? []));
+  const value = parser.parseBlock(lines[0].indent);
+  if (parser.pos < lines.length) {
+    const line = lines[parser.pos];
+    throw new YamlParseError(line.no, `unexpected content "${line.text}"`);
+  }
+  return value;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === "-" || text.startsWith("- ");
+}
+
+/**
+ * Find the `:` separating a mapping key from its value (first colon followed
+ * by a space or end of line, outside quotes). Returns -1 if none.
+ */
+function findKeySeparator(text: string): number {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === "\\" && quote === '"') { i++; continue; }
+      if (ch === quote) quote = null;
+      continue;
+    }
+    if ((ch === '"' || ch === "'") && i === 0) { quote = ch; continue; }
+    if (ch === ":" && (i === text.length - 1 || text[i + 1] === " ")) return i;
+  }
+  return -1;
+}
+
+/** `|`, `|-`, `|+`, `>`, `>-`, `>+` — a multi-line scalar follows */
+function isBlockScalarHeader(text: string): boolean {
+  return /^[|>][-+]?$/.test(text);
+}
+
+class BlockParser {
+  pos = 0;
+  /** Nesting level of the mapping / sequence being parsed (0 = top level) */
+  private depth = 0;
+  /** `source` is the raw text by line — block scalars keep blanks and `#` */
+  constructor(private lines: Line[], private source: string[], private stringKeys: Set<string>) {}
+
+  parseBlock(indent: number): unknown {
+    const line = this.lines[this.pos];
+    if (isSequenceItem(line.text)) return this.parseSequence(indent);
+    return this.parseMapping(indent);
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const top = this.depth++ === 0;
+    try {
+      this.parseMappingEntries(indent, top, result);
+    } finally {
+      this.depth--;
+    }
+    return result;
+  }
+
+  private parseMappingEntries(indent: number, top: boolean, result: Record<string, unknown>): void {
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      if (line.indent < indent) break;
+      if (line.indent > indent) {
+        throw new YamlParseError(line.no, "unexpected indentation");
+      }
+      if (isSequenceItem(line.text)) {
+        throw new YamlParseError(line.no, "list item where a mapping key was expected");
+      }
+      const sep = findKeySeparator(line.text);
+      if (sep <= 0) {
+        throw new YamlParseError(line.no, `expected "key: value", got "${line.text}"`);
+      }
+      const key = parseKey(line.text.slice(0, sep).trim(), line.no);
+      const rest = line.text.slice(sep + 1).trim();
+      this.pos++;
+      const value = rest ? this.parseValue(rest, indent, line.no) : this.parseNested(indent, true);
+      // A plain scalar that parsed as a number is kept as written
+      result[key] = top && typeof value === "number" && this.stringKeys.has(key) ? rest : value;
+    }
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const result: unknown[] = [];
+    this.depth++;
+    try {
+      this.parseSequenceItems(indent, result);
+    } finally {
+      this.depth--;
+    }
+    return result;
+  }
+
+  private parseSequenceItems(indent: number, result: unknown[]): void {
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      if (line.indent < indent) break;
+      if (line.indent > indent) {
+        throw new YamlParseError(line.no, "unexpected indentation");
+      }
+      if (!isSequenceItem(line.text)) break;
+      const item = line.text.slice(1).trimStart();
+      if (!item) {
+        this.pos++;
+        result.push(this.parseNested(indent, false));
+        continue;
+      }
+      // "- key: value" or "- - nested": re-read the remainder as a block
+      // starting at the column where the item content begins. A flow
+      // collection ("- { a: 1 }") is a value even though it contains ": ".
+      if (isSequenceItem(item) || (!/^[{[]/.test(item) && findKeySeparator(item) > 0)) {
+        const column = line.indent + (line.text.length - item.length);
+        this.lines[this.pos] = { no: line.no, indent: column, text: item };
+        result.push(this.parseBlock(column));
+        continue;
+      }
+      this.pos++;
+      result.push(this.parseValue(item, indent, line.no));
+    }
+  }
+
+  /** An inline value, or the header of a block scalar on the following lines */
+  private parseValue(text: string, parentIndent: number, lineNo: number): unknown {
+    return isBlockScalarHeader(text)
+      ? this.parseBlockScalar(text, parentIndent, lineNo)
+      : parseScalar(text, lineNo);
+  }
+
+  /**
+   * Read a `|` (literal) or `>` (folded) scalar from the raw source lines
+   * after `headerLineNo` that are blank or indented deeper than the parent.
+   * Chomping: default keeps one trailing newline, `-` none, `+` all.
+   */
+  private parseBlockScalar(header: string, parentIndent: number, headerLineNo: number): string {
+    const body: string[] = [];
+    let contentIndent = -1;
+    let lastNo = headerLineNo;
+    for (let i = headerLineNo; i < this.source.length; i++) {
+      const raw = this.source[i];
+      if (!raw.trim()) {
+        body.push("");
+        continue;
+      }
+      const indent = raw.match(/^ */)![0].length;
+      if (indent <= parentIndent) break;
+      if (contentIndent < 0) contentIndent = indent;
+      if (indent < contentIndent) {
+        throw new YamlParseError(i + 1, "block scalar line is indented less than its first line");
+      }
+      body.push(raw.slice(contentIndent));
+      lastNo = i + 1;
+    }
+    // Blank lines after the last content line belong to chomping, not content
+    let end = body.length;
+    while (end > 0 && body[end - 1] === "") end--;
+    const content = body.slice(0, end);
+    const extraNewlines = body.length - end;
+    while (this.pos < this.lines.length && this.lines[this.pos].no <= lastNo) this.pos++;
+
+    const text = header[0] === "|" ? content.join("\n") : foldLines(content);
+    if (!text) return "";
+    const chomp = header[1];
+    if (chomp === "-") return text;
+    if (chomp === "+") return text + "\n".repeat(1 + extraNewlines);
+    return text + "\n";
+  }
+
+  /**
+   * Parse the value of a key (or list item) whose content is on the
+   * following lines. A mapping value may be a list at the same indent.
+   */
+  private parseNested(parentIndent: number, allowSameIndentList: boolean): unknown {
+    const next = this.lines[this.pos];
+    if (!next) return null;
+    if (next.indent > parentIndent) return this.parseBlock(next.indent);
+    if (allowSameIndentList && next.indent === parentIndent && isSequenceItem(next.text)) {
+      return this.parseSequence(parentIndent);
+    }
+    return null;
+  }
+}
+
+// ─── Scalars ─────────────────────────────────────────────────────────────────
+
+/** Folded (`>`) scalar: single newlines become spaces, blank lines newlines. */
+function foldLines(lines: string[]): string {
+  let out = "";
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line === "") {
+      out += "\n";
+    } else {
+      const prev = lines[i - 1];
+      out += i > 0 && prev !== "" ? " " + line : line;
+    }
+  }
+  return out;
+}
+
+function parseKey(raw: string, lineNo: number): string {
+  if (raw.startsWith('"') || raw.startsWith("'")) {
+    const value = parseScalar(raw, lineNo);
+    return String(value);
+  }
+  return raw;
+}
+
+function parseScalar(raw: string, lineNo: number): unknown {
+  const text = raw.trim();
+  if (text.startsWith("[")) return parseFlowSequence(text, lineNo);
+  if (text.startsWith("{")) return parseFlowMapping(text, lineNo);
+  if (text.startsWith('"')) return parseDoubleQuoted(text, lineNo);
+  if (text.startsWith("'")) return parseSingleQuoted(text, lineNo);
+  return parsePlain(text);
+}
+
+function parsePlain(text: string): unknown {
+  if (text === "null" || text === "~" || text === "Null" || text === "NULL") return null;
+  if (text === "true" || text === "True" || text === "TRUE") return true;
+  if (text === "false" || text === "False" || text === "FALSE") return false;
+  if (/^[-+]?\d+$/.test(text)) return parseInt(text, 10);
+  if (/^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(text)) return parseFloat(text);
+  return text;
+}
+
+function parseDoubleQuoted(text: string, lineNo: number): string {
+  if (text.length < 2 || !text.endsWith('"')) {
+    throw new YamlParseError(lineNo, `unterminated double-quoted string: ${text}`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new YamlParseError(lineNo, `invalid double-quoted string: ${text}`);
+  }
+}
+
+function parseSingleQuoted(text: string, lineNo: number): string {
+  if (text.length < 2 || !text.endsWith("'")) {
+    throw new YamlParseError(lineNo, `unterminated single-quoted string: ${text}`);
+  }
+  return text.slice(1, -1).replace(/''/g, "'");
+}
+
+/** Parse an inline `[a, "b", [c]]` list. */
+function parseFlowSequence(text: string, lineNo: number): unknown[] {
+  if (!text.endsWith("]")) {
+    throw new YamlParseError(lineNo, `unterminated inline list: ${text}`);
+  }
+  const inner = text.slice(1, -1).trim();
+  if (!inner) return [];
+  return splitFlowItems(inner, lineNo).map((item) => parseScalar(item, lineNo));
+}
+
+/** Parse an inline `{ key: value, other: [a, b] }` mapping. */
+function parseFlowMapping(text: string, lineNo: number): Record<string, unknown> {
+  if (!text.endsWith("}")) {
+    throw new YamlParseError(lineNo, `unterminated inline mapping: ${text}`);
+  }
+  const result: Record<string, unknown> = {};
+  const inner = text.slice(1, -1).trim();
+  if (!inner) return result;
+  for (const item of splitFlowItems(inner, lineNo)) {
+    const sep = findKeySeparator(item);
+    if (sep <= 0) {
+      throw new YamlParseError(lineNo, `expected "key: value" in inline mapping, got "${item}"`);
+    }
+    const rest = item.slice(sep + 1).trim();
+    result[parseKey(item.slice(0, sep).trim(), lineNo)] = rest ? parseScalar(rest, lineNo) : null;
+  }
+  return result;
+}
+
+/** Split flow-collection content on top-level commas (respects quotes and brackets). */
+function splitFlowItems(inner: string, lineNo: number): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < inner.length; i++) {
+    const ch = inner[i];
+    if (quote) {
+      if (ch === "\\" && quote === '"') { i++; continue; }
+      if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === "[" || ch === "{") depth++;
+    else if (ch === "]" || ch === "}") depth--;
+    else if (ch === "," && depth === 0) {
+      items.push(inner.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  if (quote || depth !== 0) {
+    throw new YamlParseError(lineNo, `unbalanced inline list: [${inner}]`);
+  }
+  const last = inner.slice(start).trim();
+  if (last) items.push(last);
+  return items;
+}
@@ -0,0 +1,168 @@
+/**
+ * backlog.test.js — Story backlog with dependency-aware auto-start
+ *
+ * Tests for: addBacklogItem() validation, listBacklog() ordering and
+ * readiness, startStory() / startNextStory() consuming the queue, and
+ * dispatch() starting the next unblocked story when one reaches "done".
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+
+const { initState, readState, writeState } = require("../dist/state");
+const { dispatch, peek, startStory, startNextStory, queryProjectStatus } = require("../dist/dispatch");
+const {
+  addBacklogItem, listBacklog, nextBacklogItem, readBacklog, markStoryCompleted,
+} = require("../dist/backlog");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function makeTempDir() {
+  return mkdtempSync(join(tmpdir(), "aco-backlog-"));
+}
+
+/** Put the focused story on its last step with status pass */
+function finishFocusedStory(tempDir) {
+  const state = readState(tempDir);
+  state.step = "update-memory";
+  state.status = "pass";
+  writeState(tempDir, state);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. Queue
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("backlog: queue", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); initState(tempDir, "test-app"); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("orders by priority, then insertion order", () => {
+    addBacklogItem(tempDir, "US-001", { priority: 3 });
+    addBacklogItem(tempDir, "US-002", { priority: 1 });
+    addBacklogItem(tempDir, "US-003", { priority: 3 });
+    assert.deepEqual(listBacklog(tempDir).map((e) => e.story), ["US-002", "US-001", "US-003"]);
+  });
+
+  it("skips items whose blockers are not completed", () => {
+    addBacklogItem(tempDir, "US-001", { priority: 2 });
+    addBacklogItem(tempDir, "US-002", { priority: 1, blockedBy: ["US-001"] });
+    const [blocked] = listBacklog(tempDir);
+    assert.equal(blocked.story, "US-002");
+    assert.equal(blocked.ready, false);
+    assert.deepEqual(blocked.waiting_on, ["US-001"]);
+    assert.equal(nextBacklogItem(tempDir).story, "US-001");
+
+    markStoryCompleted(tempDir, "US-001");
+    assert.equal(nextBacklogItem(tempDir).story, "US-002");
+  });
+
+  it("validates complexity, priority, duplicates and blockers", () => {
+    assert.equal(addBacklogItem(tempDir, "US-001", { complexity: "XL" }).code, "INVALID_COMPLEXITY");
+    assert.equal(addBacklogItem(tempDir, "US-001", { priority: 0 }).code, "INVALID_PRIORITY");
+    assert.equal(addBacklogItem(tempDir, "US-001", { blockedBy: ["US-999"] }).code, "UNKNOWN_BLOCKER");
+    assert.equal(addBacklogItem(tempDir, "US-001", { blockedBy: ["US-001"] }).code, "UNKNOWN_BLOCKER");
+    assert.equal(addBacklogItem(tempDir, "US-001").type, "ok");
+    assert.equal(addBacklogItem(tempDir, "US-001").code, "DUPLICATE_STORY");
+    // active stories are valid blockers
+    const result = addBacklogItem(tempDir, "US-002", { blockedBy: ["US-050"], knownStories: ["US-050"] });
+    assert.equal(result.type, "ok");
+  });
+
+  it("markStoryCompleted records stories finished before the first backlog add", () => {
+    rmSync(join(tempDir, ".ai", "BACKLOG.json"), { force: true });
+    markStoryCompleted(tempDir, "US-001");
+    assert.deepEqual(readBacklog(tempDir), { items: [], completed: ["US-001"] });
+
+    assert.equal(addBacklogItem(tempDir, "US-002", { blockedBy: ["US-001"] }).type, "ok");
+    assert.equal(nextBacklogItem(tempDir).story, "US-002");
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. Starting stories from the backlog
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("backlog: starting stories", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); initState(tempDir, "test-app"); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("startNextStory starts the next ready story and dequeues it", () => {
+    addBacklogItem(tempDir, "US-001", { complexity: "L" });
+    addBacklogItem(tempDir, "US-002", { blockedBy: ["US-001"] });
+    const result = startNextStory(tempDir);
+    assert.equal(result.type, "ok");
+    assert.equal(result.state.story, "US-001");
+    assert.equal(result.state.agent_teams, true, "L complexity → team dispatch mode");
+    assert.deepEqual(readBacklog(tempDir).items.map((i) => i.story), ["US-002"]);
+  });
+
+  it("startNextStory reports an empty or fully blocked backlog", () => {
+    assert.equal(startNextStory(tempDir).code, "BACKLOG_EMPTY");
+    addBacklogItem(tempDir, "US-001", { knownStories: ["US-000"], blockedBy: ["US-000"] });
+    const result = startNextStory(tempDir);
+    assert.equal(result.code, "BACKLOG_BLOCKED");
+    assert.ok(result.message.includes("US-001 (waiting on US-000)"));
+  });
+
+  it("startStory refuses a blocked backlog story unless forced", () => {
+    addBacklogItem(tempDir, "US-001");
+    addBacklogItem(tempDir, "US-002", { blockedBy: ["US-001"], taskType: "custom" });
+    assert.equal(startStory(tempDir, "US-002").code, "BLOCKED_BY");
+
+    const forced = startStory(tempDir, "US-002", { force: true });
+    assert.equal(forced.type, "ok");
+    assert.equal(forced.state.task_type, "custom", "task_type comes from the backlog item");
+    assert.deepEqual(forced.state.blocked_by, ["US-001"]);
+    assert.deepEqual(readBacklog(tempDir).items.map((i) => i.story), ["US-001"]);
+  });
+
+  it("dispatch auto-starts the next unblocked story when a story is done", () => {
+    startStory(tempDir, "US-001");
+    addBacklogItem(tempDir, "US-002", { blockedBy: ["US-001"], knownStories: ["US-001"] });
+    addBacklogItem(tempDir, "US-003", { priority: 1 });
+    finishFocusedStory(tempDir);
+
+    const result = dispatch(tempDir);
+    assert.equal(result.type, "done");
+    assert.equal(result.story, "US-001");
+    assert.equal(result.next_story, "US-003", "US-003 has higher priority and no blockers");
+
+    assert.deepEqual(readBacklog(tempDir).completed, ["US-001"]);
+    const state = readState(tempDir);
+    assert.equal(state.story, "US-003");
+    assert.equal(state.step, "bdd");
+  });
+
+  it("completion unblocks dependents for the next auto-start", () => {
+    startStory(tempDir, "US-001");
+    addBacklogItem(tempDir, "US-002", { blockedBy: ["US-001"], knownStories: ["US-001"] });
+    assert.equal(nextBacklogItem(tempDir), null);
+    finishFocusedStory(tempDir);
+
+    const result = dispatch(tempDir);
+    assert.equal(result.next_story, "US-002");
+    assert.equal(readState(tempDir).story, "US-002");
+  });
+
+  it("peek never starts backlog stories", () => {
+    startStory(tempDir, "US-001");
+    addBacklogItem(tempDir, "US-002");
+    finishFocusedStory(tempDir);
+    const result = peek(tempDir);
+    assert.equal(result.type, "done");
+    assert.equal(result.next_story, undefined);
+    assert.equal(readBacklog(tempDir).items.length, 1);
+  });
+
+  it("queryProjectStatus summarizes the backlog", () => {
+    addBacklogItem(tempDir, "US-001");
+    addBacklogItem(tempDir, "US-002", { blockedBy: ["US-001"] });
+    assert.deepEqual(queryProjectStatus(tempDir).backlog, { pending: 2, next: "US-001" });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * commits.test.js — Commit tracking from the commit step
+ *
+ * Tests for: resolveCommit(), applyHandoff() verifying commit_hash with git
+ * and recording it in the story's commits list, and the commits showing up
+ * in queryProjectStatus() and the done summary.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, writeFileSync, mkdirSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+const { execFileSync } = require("child_process");
+
+const { initState, writeState, readState } = require("../dist/state");
+const { applyHandoff, dispatch, queryProjectStatus } = require("../dist/dispatch");
+const { resolveCommit } = require("../dist/git");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function git(dir, ...args) {
+  return execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], {
+    cwd: dir,
+    encoding: "utf-8",
+  }).trim();
+}
+
+function writeFile(dir, path, content = "x\n") {
+  mkdirSync(join(dir, path, ".."), { recursive: true });
+  writeFileSync(join(dir, path), content);
+}
+
+function writeHandoff(dir, commitHash) {
+  writeFileSync(
+    join(dir, ".ai", "HANDOFF.md"),
+    `---\nstory: US-001\nstep: commit\nattempt: 1\nstatus: pass\ncommit_hash: "${commitHash}"\n---\nDone.\n`,
+  );
+}
+
+/** Commit the pending work (as the commit step does) and return the full hash */
+function commitWork(dir, message) {
+  git(dir, "commit", "-q", "-am", message);
+  return git(dir, "rev-parse", "HEAD");
+}
+
+/**
+ * A repo with one commit, .ai/ ignored, an uncommitted edit left by earlier
+ * steps, and US-001 dispatched at the commit step
+ */
+function setup(gitRepo = true) {
+  const dir = mkdtempSync(join(tmpdir(), "aco-commits-"));
+  if (gitRepo) {
+    git(dir, "init", "-q");
+    writeFile(dir, ".gitignore", ".ai/\n");
+    writeFile(dir, "src/cart.ts", "cart v1\n");
+    git(dir, "add", "-A");
+    git(dir, "commit", "-q", "-m", "initial");
+    writeFile(dir, "src/cart.ts", "cart v2\n");
+  }
+  const { state } = initState(dir, "test-app");
+  Object.assign(state, { story: "US-001", step: "commit", status: "pending", attempt: 1, max_attempts: 3 });
+  writeState(dir, state);
+  assert.equal(dispatch(dir).type, "dispatched");
+  return dir;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. resolveCommit
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("commits: resolveCommit", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = setup(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("expands an abbreviated hash and reads the subject", () => {
+    const hash = commitWork(tempDir, "feat(US-001): cart totals");
+    assert.deepEqual(resolveCommit(tempDir, hash.slice(0, 7)), { hash, subject: "feat(US-001): cart totals" });
+  });
+
+  it("rejects unknown hashes and anything that is not hex", () => {
+    assert.equal(resolveCommit(tempDir, "0000000"), null);
+    assert.equal(resolveCommit(tempDir, "HEAD"), null);
+    assert.equal(resolveCommit(tempDir, "--all"), null);
+    const blob = git(tempDir, "rev-parse", "HEAD:src/cart.ts");
+    assert.equal(resolveCommit(tempDir, blob), null, "a blob is not a commit");
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. applyHandoff
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("commits: applyHandoff", () => {
+  let tempDir;
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("fails the commit step when commit_hash is not in the repository", () => {
+    tempDir = setup();
+    writeHandoff(tempDir, "deadbeef");
+    const state = applyHandoff(tempDir).state;
+    assert.equal(state.status, "failing");
+    assert.equal(state.last_error, '[git] commit_hash "deadbeef" is not a commit in this repository');
+    assert.equal(state.commit_hash, null);
+    assert.deepEqual(state.commits, []);
+  });
+
+  it("records each verified commit once, with its subject", () => {
+    tempDir = setup();
+    const first = commitWork(tempDir, "feat(US-001): cart totals");
+    writeHandoff(tempDir, first.slice(0, 7));
+    const state = applyHandoff(tempDir).state;
+    assert.equal(state.status, "pass");
+    assert.equal(state.commit_hash, first);
+    assert.equal(state.commits.length, 1);
+    assert.equal(state.commits[0].hash, first);
+    assert.equal(state.commits[0].subject, "feat(US-001): cart totals");
+
+    // The commit step runs again (e.g. after a rollback) with a new commit
+    Object.assign(state, { status: "pending", attempt: 1 });
+    writeState(tempDir, state);
+    writeFile(tempDir, "src/cart.ts", "cart v3\n");
+    dispatch(tempDir);
+    const second = commitWork(tempDir, "fix(US-001): rounding");
+    writeHandoff(tempDir, second);
+    applyHandoff(tempDir);
+    assert.deepEqual(readState(tempDir).commits.map((c) => c.hash), [first, second]);
+  });
+
+  it("keeps the hash as reported outside a git repository", () => {
+    tempDir = setup(false);
+    writeHandoff(tempDir, "abc1234");
+    const state = applyHandoff(tempDir).state;
+    assert.equal(state.status, "pass");
+    assert.equal(state.commit_hash, "abc1234");
+    assert.deepEqual(state.commits, []);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 3. Reporting
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("commits: status and done summary", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = setup(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("queryProjectStatus lists the story's commits", () => {
+    const hash = commitWork(tempDir, "feat(US-001): cart totals");
+    writeHandoff(tempDir, hash);
+    applyHandoff(tempDir);
+
+    const status = queryProjectStatus(tempDir);
+    assert.deepEqual(status.commits.map((c) => c.hash), [hash]);
+    assert.deepEqual(status.stories[0].commits.map((c) => c.subject), ["feat(US-001): cart totals"]);
+  });
+
+  it("the done summary names the commits", () => {
+    const hash = commitWork(tempDir, "feat(US-001): cart totals");
+    writeHandoff(tempDir, hash);
+    applyHandoff(tempDir);
+    const state = readState(tempDir);
+    Object.assign(state, { step: "update-memory", status: "pass" });
+    writeState(tempDir, state);
+
+    const result = dispatch(tempDir);
+    assert.equal(result.type, "done");
+    assert.match(result.summary, new RegExp(`Commits: ${hash.slice(0, 7)} feat\\(US-001\\): cart totals\\.`));
+    assert.equal(result.commits[0].hash, hash);
+  });
+});
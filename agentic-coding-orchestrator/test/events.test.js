@@ -0,0 +1,150 @@
+/**
+ * events.test.js — State transition journal (.ai/events.jsonl)
+ *
+ * Tests for: one event per changed story on each STATE write, action /
+ * actor attribution, readEvents() filters, and the `orchestrator events`
+ * CLI command.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, appendFileSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+const { execFileSync } = require("child_process");
+
+const { initState, readState, writeState } = require("../dist/state");
+const { dispatch, startStory, approveReview } = require("../dist/dispatch");
+const { readEvents, eventsPath } = require("../dist/events");
+
+const CLI = join(__dirname, "..", "dist", "cli.js");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function makeTempDir() {
+  return mkdtempSync(join(tmpdir(), "aco-events-"));
+}
+
+/** Put the focused story at the review gate */
+function atReview(tempDir) {
+  const state = readState(tempDir);
+  state.step = "review";
+  state.status = "needs_human";
+  writeState(tempDir, state);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. Recording
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("events: recording", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); initState(tempDir, "test-app"); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("records each mutation with before / after, action and actor", () => {
+    startStory(tempDir, "US-001");
+    dispatch(tempDir);
+    const events = readEvents(tempDir, { story: "US-001" });
+    assert.deepEqual(events.map((e) => e.action), ["startStory", "dispatch"]);
+
+    const [started, dispatched] = events;
+    assert.equal(started.actor, "human");
+    assert.equal(started.after.step, "bdd");
+    assert.deepEqual(dispatched.before, { step: "bdd", status: "pending", attempt: 1 });
+    assert.deepEqual(dispatched.after, { step: "bdd", status: "running", attempt: 1 });
+    assert.equal(dispatched.actor, "orchestrator");
+    assert.equal(dispatched.revision, readState(tempDir).revision);
+    assert.ok(!Number.isNaN(Date.parse(dispatched.ts)));
+  });
+
+  it("attributes approvals to the human and honours ORCHESTRATOR_ACTOR", () => {
+    startStory(tempDir, "US-001");
+    atReview(tempDir);
+    process.env.ORCHESTRATOR_ACTOR = "reviewer-bot";
+    try {
+      approveReview(tempDir);
+    } finally {
+      delete process.env.ORCHESTRATOR_ACTOR;
+    }
+    const [approved] = readEvents(tempDir, { action: "approve" });
+    assert.equal(approved.actor, "reviewer-bot");
+    assert.deepEqual(approved.after, { step: "review", status: "pass", attempt: 1 });
+  });
+
+  it("records timeouts detected by dispatch", () => {
+    startStory(tempDir, "US-001");
+    const state = readState(tempDir);
+    state.status = "running";
+    state.dispatched_at = new Date(Date.now() - 60 * 60_000).toISOString();
+    writeState(tempDir, state);
+    assert.equal(dispatch(tempDir).type, "timeout");
+    const [timeout] = readEvents(tempDir, { action: "timeout" });
+    assert.equal(timeout.before.status, "running");
+    assert.equal(timeout.after.status, "timeout");
+  });
+
+  it("writes outside withAction are recorded as plain writes; no-op writes are skipped", () => {
+    startStory(tempDir, "US-001");
+    const before = readEvents(tempDir).length;
+    writeState(tempDir, readState(tempDir));
+    assert.equal(readEvents(tempDir).length, before, "nothing changed");
+    const state = readState(tempDir);
+    state.human_note = "note";
+    writeState(tempDir, state);
+    assert.equal(readEvents(tempDir).at(-1).action, "write");
+  });
+
+  it("only the stories that changed get events", () => {
+    startStory(tempDir, "US-001");
+    startStory(tempDir, "US-002");
+    dispatch(tempDir, "US-002");
+    const last = readEvents(tempDir).filter((e) => e.action === "dispatch");
+    assert.deepEqual(last.map((e) => e.story), ["US-002"]);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. Reading
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("events: readEvents / CLI", () => {
+  let tempDir;
+  beforeEach(() => {
+    tempDir = makeTempDir();
+    initState(tempDir, "test-app");
+    startStory(tempDir, "US-001");
+    dispatch(tempDir);
+    startStory(tempDir, "US-002");
+  });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("filters by story, step and time range", () => {
+    assert.deepEqual(readEvents(tempDir, { story: "US-002" }).map((e) => e.action), ["startStory"]);
+    assert.ok(readEvents(tempDir, { step: "bdd" }).length >= 3);
+    assert.deepEqual(readEvents(tempDir, { since: "2999-01-01T00:00:00Z" }), []);
+    assert.deepEqual(readEvents(tempDir, { until: "2000-01-01T00:00:00Z" }), []);
+    assert.equal(readEvents(tempDir, { since: "2000-01-01T00:00:00Z" }).length, readEvents(tempDir).length);
+  });
+
+  it("skips torn lines", () => {
+    appendFileSync(eventsPath(tempDir), '{"ts":"2026-01-01T00:0');
+    assert.ok(readEvents(tempDir).length > 0);
+  });
+
+  it("orchestrator events prints filtered events", () => {
+    const out = execFileSync("node", [CLI, "events", tempDir, "--story", "US-001", "--json"], {
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+    });
+    const events = out.trim().split("\n").map((l) => JSON.parse(l));
+    assert.ok(events.every((e) => e.story === "US-001"));
+    assert.deepEqual(events.map((e) => e.action), ["startStory", "dispatch"]);
+
+    const text = execFileSync("node", [CLI, "events", tempDir, "--action", "dispatch"], {
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+    });
+    assert.match(text, /dispatch\(orchestrator\)\s+US-001\s+bdd\/pending#1 → bdd\/running#1/);
+  });
+});
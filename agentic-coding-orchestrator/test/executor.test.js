@@ -0,0 +1,150 @@
+/**
+ * executor.test.js — Executor adapters and runStep()
+ *
+ * Tests for: runStep() chaining dispatch → executor → applyHandoff, the
+ * failing HANDOFF written when an executor leaves none, timeouts and
+ * cancel(), and the command / Claude Code process adapters.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, writeFileSync, readFileSync, chmodSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+
+const { initState, writeState, readState } = require("../dist/state");
+const { runStep, fakeExecutor, commandExecutor, claudeCodeExecutor } = require("../dist/executor");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** A project with US-001 pending at `step` */
+function setup(step = "bdd") {
+  const dir = mkdtempSync(join(tmpdir(), "aco-executor-"));
+  const { state } = initState(dir, "test-app");
+  Object.assign(state, { story: "US-001", step, status: "pending", attempt: 1, max_attempts: 3 });
+  writeState(dir, state);
+  return dir;
+}
+
+/** Shell snippet that writes a passing HANDOFF from the ACO_* variables */
+const WRITE_PASS_HANDOFF =
+  'printf -- "---\\nstory: %s\\nstep: %s\\nattempt: %s\\nstatus: pass\\n---\\nDone.\\n" ' +
+  '"$ACO_STORY" "$ACO_STEP" "$ACO_ATTEMPT" > .ai/HANDOFF.md';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. runStep with the fake executor
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("executor: runStep", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = setup(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("dispatches, runs the executor with the prompt and applies its HANDOFF", async () => {
+    const executor = fakeExecutor(() => ({ handoff: { status: "pass" } }));
+    const result = await runStep(tempDir, executor);
+
+    assert.equal(result.type, "executed");
+    assert.equal(result.dispatch.step, "bdd");
+    assert.equal(result.execution.status, "exited");
+    assert.equal(result.synthesized_handoff, false);
+    assert.equal(result.handoff.type, "applied");
+    assert.equal(executor.tasks.length, 1);
+    assert.equal(executor.tasks[0].prompt, result.dispatch.prompt);
+    assert.equal(executor.tasks[0].timeout_ms, readState(tempDir).timeout_min * 60_000);
+
+    const state = readState(tempDir);
+    assert.equal(state.step, "bdd");
+    assert.equal(state.status, "pass");
+  });
+
+  it("returns the dispatch result when there is nothing to run", async () => {
+    const state = readState(tempDir);
+    Object.assign(state, { step: "review" });
+    writeState(tempDir, state);
+    const executor = fakeExecutor();
+    const result = await runStep(tempDir, executor);
+    assert.equal(result.type, "not_dispatched");
+    assert.equal(result.dispatch.type, "needs_human");
+    assert.equal(executor.tasks.length, 0);
+  });
+
+  it("writes a failing HANDOFF when the executor leaves none", async () => {
+    const result = await runStep(tempDir, fakeExecutor(() => ({ exit_code: 1, output: "out of tokens\n" })));
+    assert.equal(result.synthesized_handoff, true);
+    assert.equal(result.handoff.type, "applied");
+    assert.equal(readState(tempDir).status, "failing");
+    const handoff = readFileSync(join(tempDir, ".ai", "HANDOFF.md"), "utf-8");
+    assert.match(handoff, /fake executor exited with code 1 without writing HANDOFF\.md/);
+    assert.match(handoff, /out of tokens/);
+  });
+
+  it("a hanging executor is stopped at the timeout, or by cancel()", async () => {
+    const timedOut = await runStep(tempDir, fakeExecutor(() => ({ hang: true })), { timeout_ms: 20 });
+    assert.equal(timedOut.execution.status, "timed_out");
+    assert.equal(readState(tempDir).status, "failing");
+
+    const cancelled = await runStep(tempDir, fakeExecutor(() => ({ hang: true })), {
+      onStart: (execution) => {
+        assert.equal(execution.poll(), "running");
+        execution.cancel();
+        assert.equal(execution.poll(), "cancelled");
+      },
+    });
+    assert.equal(cancelled.execution.status, "cancelled");
+    assert.match(readFileSync(join(tempDir, ".ai", "HANDOFF.md"), "utf-8"), /fake executor was cancelled/);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. Process adapters
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("executor: process adapters", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = setup(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("commandExecutor pipes the prompt to stdin and passes the task in ACO_*", async () => {
+    const executor = commandExecutor(`cat > .ai/prompt.txt && ${WRITE_PASS_HANDOFF} && echo finished`);
+    const result = await runStep(tempDir, executor);
+    assert.equal(result.execution.status, "exited");
+    assert.equal(result.execution.exit_code, 0);
+    assert.equal(result.execution.output_tail, "finished\n");
+    assert.equal(readFileSync(join(tempDir, ".ai", "prompt.txt"), "utf-8"), result.dispatch.prompt);
+    assert.equal(result.handoff.type, "applied");
+    assert.equal(readState(tempDir).status, "pass");
+  });
+
+  it("commandExecutor kills the command at the timeout", async () => {
+    const started = Date.now();
+    const result = await runStep(tempDir, commandExecutor("sleep 30"), { timeout_ms: 200 });
+    assert.equal(result.execution.status, "timed_out");
+    assert.ok(Date.now() - started < 10_000, "the process group is killed, not waited for");
+    assert.equal(result.synthesized_handoff, true);
+    assert.equal(readState(tempDir).status, "failing");
+  });
+
+  it("a command that cannot start is reported, not thrown", async () => {
+    const executor = claudeCodeExecutor({ command: join(tempDir, "no-such-claude") });
+    const result = await runStep(tempDir, executor);
+    assert.equal(result.execution.status, "failed_to_start");
+    assert.match(result.execution.error, /ENOENT/);
+    assert.equal(readState(tempDir).status, "failing");
+  });
+
+  it("claudeCodeExecutor runs headless with the prompt on stdin", async () => {
+    const fakeClaude = join(tempDir, "claude");
+    writeFileSync(fakeClaude, `#!/bin/sh\necho "$@" > .ai/args.txt\ncat > .ai/prompt.txt\n${WRITE_PASS_HANDOFF}\n`);
+    chmodSync(fakeClaude, 0o755);
+
+    const result = await runStep(tempDir, claudeCodeExecutor({ command: fakeClaude, allowedTools: ["Read", "Edit"] }));
+    assert.equal(result.execution.exit_code, 0);
+    assert.equal(
+      readFileSync(join(tempDir, ".ai", "args.txt"), "utf-8").trim(),
+      "--dangerously-skip-permissions --allowedTools Read --allowedTools Edit -p",
+    );
+    assert.equal(readFileSync(join(tempDir, ".ai", "prompt.txt"), "utf-8"), result.dispatch.prompt);
+    assert.equal(readState(tempDir).status, "pass");
+  });
+});
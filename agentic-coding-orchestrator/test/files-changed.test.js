@@ -0,0 +1,146 @@
+/**
+ * files-changed.test.js — files_changed from git vs. the executor's report
+ *
+ * Tests for: the git_base snapshot markRunning() takes at dispatch,
+ * filesChangedSinceSnapshot(), and applyHandoff() storing
+ * files_changed_actual and flagging unreported / untouched files in the
+ * result, hook.log and history.md.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, writeFileSync, mkdirSync, readFileSync, unlinkSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+const { execFileSync } = require("child_process");
+
+const { initState, writeState, readState } = require("../dist/state");
+const { applyHandoff, dispatch } = require("../dist/dispatch");
+const { snapshotGit, filesChangedSinceSnapshot } = require("../dist/git");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function git(dir, ...args) {
+  return execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], {
+    cwd: dir,
+    encoding: "utf-8",
+  });
+}
+
+function writeFile(dir, path, content = "x\n") {
+  mkdirSync(join(dir, path, ".."), { recursive: true });
+  writeFileSync(join(dir, path), content);
+}
+
+function writeHandoff(dir, step, filesChanged) {
+  writeFileSync(
+    join(dir, ".ai", "HANDOFF.md"),
+    `---\nstory: US-001\nstep: ${step}\nattempt: 1\nstatus: pass\nfiles_changed: [${filesChanged.join(", ")}]\n---\nDone.\n`,
+  );
+}
+
+/** A repo with two committed files, .ai/ ignored, and US-001 dispatched at `step` */
+function setup(step) {
+  const dir = mkdtempSync(join(tmpdir(), "aco-files-"));
+  git(dir, "init", "-q");
+  writeFile(dir, ".gitignore", ".ai/\n");
+  writeFile(dir, "src/cart.ts", "cart v1\n");
+  writeFile(dir, "src/coupon.ts", "coupon v1\n");
+  git(dir, "add", "-A");
+  git(dir, "commit", "-q", "-m", "initial");
+  const { state } = initState(dir, "test-app");
+  Object.assign(state, { story: "US-001", step, status: "pending", attempt: 1, max_attempts: 3 });
+  writeState(dir, state);
+  return dir;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. Snapshots
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("files changed: git snapshots", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = setup("impl"); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("dispatch records HEAD and the dirty files", () => {
+    writeFile(tempDir, "src/cart.ts", "cart wip\n");
+    assert.equal(dispatch(tempDir).type, "dispatched");
+    const base = readState(tempDir).git_base;
+    assert.equal(base.head, git(tempDir, "rev-parse", "HEAD").trim());
+    assert.deepEqual(Object.keys(base.dirty), ["src/cart.ts"]);
+  });
+
+  it("counts edits, new files, deletions and commits — not untouched leftovers", () => {
+    writeFile(tempDir, "src/cart.ts", "cart wip\n");
+    const base = snapshotGit(tempDir);
+
+    writeFile(tempDir, "src/total.ts");
+    unlinkSync(join(tempDir, "src/coupon.ts"));
+    assert.deepEqual(filesChangedSinceSnapshot(tempDir, base), ["src/coupon.ts", "src/total.ts"]);
+
+    // Committing the leftover edit changes nothing; editing it again does
+    git(tempDir, "add", "src/cart.ts");
+    git(tempDir, "commit", "-q", "-m", "cart");
+    assert.deepEqual(filesChangedSinceSnapshot(tempDir, base), ["src/coupon.ts", "src/total.ts"]);
+    writeFile(tempDir, "src/cart.ts", "cart v2\n");
+    assert.deepEqual(filesChangedSinceSnapshot(tempDir, base), ["src/cart.ts", "src/coupon.ts", "src/total.ts"]);
+  });
+
+  it("is null outside a git repository", () => {
+    const plain = mkdtempSync(join(tmpdir(), "aco-files-"));
+    try {
+      assert.equal(snapshotGit(plain), null);
+    } finally {
+      rmSync(plain, { recursive: true, force: true });
+    }
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. applyHandoff
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("files changed: applyHandoff", () => {
+  let tempDir;
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("stores both lists and flags the differences", () => {
+    tempDir = setup("impl");
+    dispatch(tempDir);
+    writeFile(tempDir, "src/cart.ts", "cart v2\n");
+    writeFile(tempDir, "src/total.ts");
+    writeHandoff(tempDir, "impl", ["src/cart.ts", "./src/coupon.ts"]);
+
+    const result = applyHandoff(tempDir);
+    assert.equal(result.type, "applied");
+    assert.deepEqual(result.files, {
+      reported: ["src/cart.ts", "./src/coupon.ts"],
+      actual: ["src/cart.ts", "src/total.ts"],
+      unreported: ["src/total.ts"],
+      untouched: ["./src/coupon.ts"],
+    });
+    const state = readState(tempDir);
+    assert.deepEqual(state.files_changed, ["src/cart.ts", "./src/coupon.ts"]);
+    assert.deepEqual(state.files_changed_actual, ["src/cart.ts", "src/total.ts"]);
+
+    const history = readFileSync(join(tempDir, ".ai", "history.md"), "utf-8");
+    assert.match(history, /### Files — US-001 impl \(attempt 1\)/);
+    assert.match(history, /\*\*Changed but not reported\*\*: src\/total\.ts/);
+    assert.match(history, /\*\*Reported but untouched\*\*: \.\/src\/coupon\.ts/);
+    assert.match(readFileSync(join(tempDir, ".ai", "hook.log"), "utf-8"), /FILES_MISMATCH/);
+  });
+
+  it("a commit step that commits earlier work stays in scope", () => {
+    tempDir = setup("commit");
+    writeFile(tempDir, "src/cart.ts", "cart v2\n");
+    dispatch(tempDir);
+    git(tempDir, "commit", "-q", "-am", "feat: US-001 cart");
+    writeHandoff(tempDir, "commit", []);
+
+    const result = applyHandoff(tempDir);
+    assert.deepEqual(result.files.actual, []);
+    assert.deepEqual(result.scope.violations, []);
+    assert.equal(result.state.status, "pass");
+  });
+});
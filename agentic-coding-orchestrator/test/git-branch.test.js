@@ -0,0 +1,150 @@
+/**
+ * git-branch.test.js — Branch per story
+ *
+ * Tests for: the `git:` section of .ai/step-rules.yaml, startStory()
+ * creating story/<id>, dispatch() refusing to run on another branch, and
+ * the commit step requiring a story commit on the branch (commit_hash).
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, writeFileSync, mkdirSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+const { execFileSync } = require("child_process");
+
+const { initState, writeState, readState } = require("../dist/state");
+const { applyHandoff, dispatch, startStory } = require("../dist/dispatch");
+const { parseStepRulesFile } = require("../dist/step-rules");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function git(dir, ...args) {
+  return execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], {
+    cwd: dir,
+    encoding: "utf-8",
+  }).trim();
+}
+
+function writeFile(dir, path, content = "x\n") {
+  mkdirSync(join(dir, path, ".."), { recursive: true });
+  writeFileSync(join(dir, path), content);
+}
+
+function writeHandoff(dir, extra = "") {
+  writeFileSync(
+    join(dir, ".ai", "HANDOFF.md"),
+    `---\nstory: US-001\nstep: commit\nattempt: 1\nstatus: pass\n${extra}---\nDone.\n`,
+  );
+}
+
+/** Move the focused story to the commit step and dispatch it */
+function dispatchCommitStep(dir) {
+  const state = readState(dir);
+  Object.assign(state, { step: "commit", status: "pending", attempt: 1, max_attempts: 2 });
+  writeState(dir, state);
+  const result = dispatch(dir);
+  assert.equal(result.type, "dispatched");
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. Configuration
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("git branches: configuration", () => {
+  it("is off by default and fills the prefix", () => {
+    assert.deepEqual(parseStepRulesFile("step-rules.yaml", "steps: {}\n").git, {
+      branch_per_story: false,
+      branch_prefix: "story/",
+    });
+    assert.deepEqual(parseStepRulesFile("step-rules.yaml", "git:\n  branch_per_story: true\n").git, {
+      branch_per_story: true,
+      branch_prefix: "story/",
+    });
+  });
+
+  it("rejects unknown fields and bad prefixes", () => {
+    assert.throws(
+      () => parseStepRulesFile("step-rules.yaml", "git:\n  branches: true\n  branch_prefix: 'a b'\n"),
+      (err) => /git\.branches: unknown field/.test(err.message) && /git\.branch_prefix: expected a branch name prefix/.test(err.message),
+    );
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. Story branches
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("git branches: story lifecycle", () => {
+  let tempDir;
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "aco-branch-"));
+    git(tempDir, "init", "-q", "-b", "main");
+    writeFile(tempDir, ".gitignore", ".ai/\n");
+    writeFile(tempDir, "src/cart.ts", "cart v1\n");
+    git(tempDir, "add", "-A");
+    git(tempDir, "commit", "-q", "-m", "initial");
+    initState(tempDir, "test-app");
+    writeFileSync(join(tempDir, ".ai", "step-rules.yaml"), "git:\n  branch_per_story: true\n");
+  });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("start-story creates and checks out story/<id>", () => {
+    const result = startStory(tempDir, "US-001");
+    assert.equal(result.type, "ok");
+    assert.match(result.message, /on branch story\/US-001/);
+    assert.equal(git(tempDir, "branch", "--show-current"), "story/US-001");
+    assert.equal(readState(tempDir).branch, "story/US-001");
+  });
+
+  it("dispatch refuses to run on another branch", () => {
+    startStory(tempDir, "US-001");
+    git(tempDir, "checkout", "-q", "main");
+    const result = dispatch(tempDir);
+    assert.equal(result.type, "error");
+    assert.equal(result.code, "WRONG_BRANCH");
+    assert.match(result.message, /Run: git checkout story\/US-001/);
+    assert.equal(readState(tempDir).status, "pending", "STATE is left alone");
+
+    git(tempDir, "checkout", "-q", "story/US-001");
+    assert.equal(dispatch(tempDir).type, "dispatched");
+  });
+
+  it("the commit step needs a story commit on the branch", () => {
+    startStory(tempDir, "US-001");
+    writeFile(tempDir, "src/cart.ts", "cart v2\n");
+    dispatchCommitStep(tempDir);
+    writeHandoff(tempDir);
+
+    const failed = applyHandoff(tempDir).state;
+    assert.equal(failed.status, "failing");
+    assert.equal(
+      failed.last_error,
+      "[git] no commit mentioning US-001 on story/US-001 since the commit step started; uncommitted changes: src/cart.ts",
+    );
+
+    dispatch(tempDir); // retry the commit step
+    git(tempDir, "commit", "-q", "-am", "feat(US-001): cart totals");
+    const hash = git(tempDir, "rev-parse", "HEAD");
+    writeHandoff(tempDir, `commit_hash: "${hash.slice(0, 7)}"\n`);
+    const passed = applyHandoff(tempDir).state;
+    assert.equal(passed.status, "pass");
+    assert.equal(passed.commit_hash, hash, "stored as the full hash");
+  });
+
+  it("without the setting, git is left alone and commit_hash is still recorded", () => {
+    writeFileSync(join(tempDir, ".ai", "step-rules.yaml"), "steps: {}\n");
+    startStory(tempDir, "US-001");
+    assert.equal(git(tempDir, "branch", "--show-current"), "main");
+    assert.equal(readState(tempDir).branch, null);
+
+    writeFile(tempDir, "src/cart.ts", "cart v2\n");
+    dispatchCommitStep(tempDir);
+    git(tempDir, "commit", "-q", "-am", "cart totals");
+    const hash = git(tempDir, "rev-parse", "HEAD");
+    writeHandoff(tempDir, `commit_hash: "${hash.slice(0, 7)}"\n`);
+    const state = applyHandoff(tempDir).state;
+    assert.equal(state.status, "pass");
+    assert.equal(state.commit_hash, hash);
+  });
+});
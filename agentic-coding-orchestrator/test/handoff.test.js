@@ -0,0 +1,224 @@
+/**
+ * handoff.test.js — Strict HANDOFF.md front-matter parsing
+ *
+ * Tests for: front-matter delimiting (body `---` rules), nested `tests:`
+ * maps, lists, quoting and comments, `|` / `>` block scalars in parseYaml(),
+ * HandoffParseError line numbers, applyHandoff() returning
+ * HANDOFF_INVALID instead of guessing, and HANDOFF_SCHEMA validation.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, writeFileSync, readFileSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+
+const { initState, readState, writeState } = require("../dist/state");
+const { applyHandoff } = require("../dist/dispatch");
+const {
+  parseHandoffContent, HandoffParseError, validateHandoff, HANDOFF_SCHEMA, HANDOFF_SCHEMA_VERSION,
+} = require("../dist/handoff");
+const { parseYaml } = require("../dist/yaml");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function makeTempDir() {
+  return mkdtempSync(join(tmpdir(), "aco-handoff-"));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. Front matter
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("handoff: front matter", () => {
+  it("a horizontal rule in the body does not truncate anything", () => {
+    const result = parseHandoffContent([
+      "---",
+      "story: US-001",
+      "step: impl",
+      "status: pass",
+      "---",
+      "# Summary",
+      "",
+      "---",
+      "More notes after a rule.",
+    ].join("\n"));
+    assert.equal(result.status, "pass");
+    assert.ok(result.body.includes("More notes after a rule."));
+    assert.ok(result.body.includes("---"));
+  });
+
+  it("reads nested tests maps, block lists, quotes and comments", () => {
+    const result = parseHandoffContent([
+      "---",
+      "story: \"US-002\"   # quoted",
+      "step: impl",
+      "attempt: 3",
+      "status: failing",
+      "reason: 'test_timeout'",
+      "files_changed:",
+      "  - src/a.ts",
+      "  - \"src/b c.ts\"",
+      "tests: {pass: 3, fail: 1, skip: 0}",
+      "---",
+      "body",
+    ].join("\n"));
+    assert.equal(result.story, "US-002");
+    assert.equal(result.attempt, 3);
+    assert.equal(result.reason, "test_timeout");
+    assert.deepEqual(result.files_changed, ["src/a.ts", "src/b c.ts"]);
+    assert.deepEqual([result.tests_pass, result.tests_fail, result.tests_skip], [3, 1, 0]);
+  });
+
+  it("accepts block-style tests maps and flat tests_* keys", () => {
+    const nested = parseHandoffContent("---\ntests:\n  pass: 10\n  fail: 0\n---\n");
+    assert.equal(nested.tests_pass, 10);
+    assert.equal(nested.tests_skip, null);
+    const flat = parseHandoffContent("---\ntests_pass: 4\ntests_fail: 2\n---\n");
+    assert.equal(flat.tests_fail, 2);
+  });
+
+  it("handles CRLF line endings and `...` as the closing delimiter", () => {
+    const result = parseHandoffContent("---\r\nstory: US-003\r\nstatus: pass\r\n...\r\nbody\r\n");
+    assert.equal(result.story, "US-003");
+    assert.equal(result.body, "body");
+  });
+
+  it("reports malformed front matter with the HANDOFF.md line number", () => {
+    assert.throws(
+      () => parseHandoffContent("---\nstory: US-001\nstatus pass\n---\n"),
+      (err) => err instanceof HandoffParseError && err.line === 3 && /expected "key: value"/.test(err.message),
+    );
+    assert.throws(
+      () => parseHandoffContent("---\nstory: US-001\nstatus: pass\n"),
+      (err) => err instanceof HandoffParseError && /never closed/.test(err.message),
+    );
+    assert.throws(
+      () => parseHandoffContent("---\n- a\n- b\n---\n"),
+      /must be a mapping/,
+    );
+  });
+
+  it("keeps unquoted string fields as written instead of reading numbers", () => {
+    const leadingZero = parseHandoffContent("---\nstory: US-001\nstep: commit\nattempt: 1\nstatus: pass\ncommit_hash: 0123456\n---\n");
+    assert.equal(leadingZero.commit_hash, "0123456");
+    assert.deepEqual(validateHandoff(leadingZero), []);
+
+    const exponent = parseHandoffContent("---\ncommit_hash: 12e4567   # looks like a float\nattempt: 02\n---\n");
+    assert.equal(exponent.commit_hash, "12e4567");
+    assert.equal(exponent.attempt, 2, "integer fields are still numbers");
+
+    assert.deepEqual(parseYaml("a: 0123\nb: {c: 0123}", { stringKeys: ["a", "c"] }), { a: "0123", b: { c: 123 } });
+  });
+
+  it("files without front matter still use the keyword fallback", () => {
+    const result = parseHandoffContent("# HANDOFF\nSCOPE WARNING: touched billing\n");
+    assert.equal(result.status, "failing");
+    assert.equal(result.reason, "scope_warning");
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. Block scalars
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("parseYaml: block scalars", () => {
+  it("keeps literal blocks verbatim, including blank lines and #", () => {
+    const doc = parseYaml("note: |\n  line 1\n  # not a comment\n\n  line 3\nnext: x\n");
+    assert.deepEqual(doc, { note: "line 1\n# not a comment\n\nline 3\n", next: "x" });
+  });
+
+  it("folds > blocks and honours chomping indicators", () => {
+    assert.equal(parseYaml("a: >\n  one\n  two\n\n  three\n").a, "one two\nthree\n");
+    assert.equal(parseYaml("a: |-\n  x\n\n").a, "x");
+    assert.equal(parseYaml("a: |+\n  x\n\n").a, "x\n\n");
+  });
+
+  it("works as a list item", () => {
+    assert.deepEqual(parseYaml("- |\n  a\n  b\n- c\n"), ["a\nb\n", "c"]);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 3. applyHandoff
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("handoff: applyHandoff", () => {
+  let tempDir;
+  beforeEach(() => {
+    tempDir = makeTempDir();
+    const { state } = initState(tempDir, "test-app");
+    Object.assign(state, { story: "US-001", step: "impl", status: "running", attempt: 1, max_attempts: 5 });
+    writeState(tempDir, state);
+  });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("returns HANDOFF_INVALID and leaves STATE untouched", () => {
+    writeFileSync(join(tempDir, ".ai", "HANDOFF.md"), "---\nstory: US-001\nstatus: [pass\n---\n");
+    const before = readState(tempDir);
+    const result = applyHandoff(tempDir);
+    assert.equal(result.type, "error");
+    assert.equal(result.code, "HANDOFF_INVALID");
+    assert.equal(result.recoverable, true);
+    assert.match(result.message, /line 3/);
+    assert.deepEqual(readState(tempDir), before);
+  });
+
+  it("applies nested tests counts", () => {
+    writeFileSync(
+      join(tempDir, ".ai", "HANDOFF.md"),
+      "---\nstory: US-001\nstep: impl\nattempt: 1\nstatus: pass\ntests: {pass: 12, fail: 0, skip: 2}\n---\nDone.\n",
+    );
+    const result = applyHandoff(tempDir);
+    assert.equal(result.type, "applied");
+    assert.deepEqual(result.state.tests, { pass: 12, fail: 0, skip: 2 });
+    assert.deepEqual(result.validation, []);
+  });
+
+  it("reports schema issues in the result and hook.log without blocking", () => {
+    writeFileSync(
+      join(tempDir, ".ai", "HANDOFF.md"),
+      "---\nstory: US-001\nstep: impl\nstatus: pass\ntests: 5/0/1\nfiles: [src/a.ts]\n---\n",
+    );
+    const result = applyHandoff(tempDir);
+    assert.equal(result.type, "applied");
+    assert.equal(result.state.status, "pass");
+    assert.deepEqual(result.validation.map((i) => `${i.kind} ${i.key}`).sort(), [
+      "missing_required attempt", "unknown_key files", "wrong_type tests",
+    ]);
+    const log = readFileSync(join(tempDir, ".ai", "hook.log"), "utf-8");
+    assert.match(log, /HANDOFF_SCHEMA unknown_key: files is not a known key/);
+    assert.match(log, /HANDOFF_SCHEMA wrong_type: tests should be object or null, got string/);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 4. Schema
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("handoff: schema validation", () => {
+  const issues = (text) => validateHandoff(parseHandoffContent(text)).map((i) => `${i.kind} ${i.key}`);
+  const HEAD = "story: US-001\nstep: impl\nattempt: 1\nstatus: pass\n";
+
+  it("a complete front matter has no issues", () => {
+    assert.deepEqual(issues(`---\n${HEAD}reason: null\nfiles_changed: [a.ts]\ntests: {pass: 1, fail: 0, skip: 0}\n---\n`), []);
+    assert.deepEqual(issues(`---\nschema_version: ${HANDOFF_SCHEMA_VERSION}\n${HEAD}tests_fail: 0\n---\n`), []);
+  });
+
+  it("checks nested keys and list items", () => {
+    assert.deepEqual(issues(`---\n${HEAD}tests: {pass: 1, failed: 2}\nfiles_changed: [a.ts, 3]\n---\n`), [
+      "unknown_key tests.failed", "wrong_type files_changed[1]",
+    ]);
+    assert.deepEqual(issues(`---\n${HEAD.replace("attempt: 1", "attempt: \"one\"")}---\n`), ["wrong_type attempt"]);
+  });
+
+  it("a HANDOFF without front matter misses every required field", () => {
+    assert.deepEqual(issues("# just notes\n"), HANDOFF_SCHEMA.required.map((k) => `missing_required ${k}`));
+  });
+
+  it("flags a newer schema_version", () => {
+    assert.deepEqual(issues(`---\nschema_version: ${HANDOFF_SCHEMA_VERSION + 1}\n${HEAD}---\n`), [
+      "unsupported_version schema_version",
+    ]);
+  });
+});
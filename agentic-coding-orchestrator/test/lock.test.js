@@ -0,0 +1,137 @@
+/**
+ * lock.test.js — Atomic, lock-protected STATE.json writes
+ *
+ * Tests for: writeFileAtomic() leaving no temp files, withStateLock()
+ * contention / stale-lock recovery / reentrancy, appendLog() appending,
+ * and mutating dispatch functions returning LOCKED under contention.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, readdirSync, readFileSync, writeFileSync, existsSync, utimesSync } = require("fs");
+const { join } = require("path");
+const { tmpdir, hostname } = require("os");
+
+const { initState, readState, appendLog } = require("../dist/state");
+const { dispatch, peek, startStory } = require("../dist/dispatch");
+const { withStateLock, writeFileAtomic, lockPath } = require("../dist/lock");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function makeTempDir() {
+  return mkdtempSync(join(tmpdir(), "aco-lock-"));
+}
+
+/** Simulate another process holding STATE.lock */
+function holdLock(tempDir, pid, host = hostname()) {
+  writeFileSync(lockPath(tempDir), JSON.stringify({ pid, host, acquired_at: new Date().toISOString() }));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. Atomic writes
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("lock: atomic writes", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("writeFileAtomic replaces the file and leaves no temp files", () => {
+    const path = join(tempDir, "nested", "file.json");
+    writeFileAtomic(path, "one");
+    writeFileAtomic(path, "two");
+    assert.equal(readFileSync(path, "utf-8"), "two");
+    assert.deepEqual(readdirSync(join(tempDir, "nested")), ["file.json"]);
+  });
+
+  it("writeState leaves only STATE.json behind", () => {
+    initState(tempDir, "test-app");
+    startStory(tempDir, "US-001");
+    dispatch(tempDir);
+    const leftovers = readdirSync(join(tempDir, ".ai")).filter((f) => f.endsWith(".tmp") || f === "STATE.lock");
+    assert.deepEqual(leftovers, []);
+  });
+
+  it("appendLog appends instead of rewriting", () => {
+    initState(tempDir, "test-app");
+    for (let i = 0; i < 20; i++) appendLog(tempDir, "INFO", "test", `line ${i}`);
+    const lines = readFileSync(join(tempDir, ".ai", "hook.log"), "utf-8").trim().split("\n");
+    assert.equal(lines.filter((l) => l.includes("[test] line")).length, 20);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. withStateLock
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("lock: withStateLock", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); initState(tempDir, "test-app"); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("releases the lock after fn returns or throws", () => {
+    assert.deepEqual(withStateLock(tempDir, () => 42), { acquired: true, value: 42 });
+    assert.equal(existsSync(lockPath(tempDir)), false);
+    assert.throws(() => withStateLock(tempDir, () => { throw new Error("boom"); }), /boom/);
+    assert.equal(existsSync(lockPath(tempDir)), false);
+  });
+
+  it("is reentrant within a process", () => {
+    const result = withStateLock(tempDir, () => withStateLock(tempDir, () => "inner"));
+    assert.deepEqual(result, { acquired: true, value: { acquired: true, value: "inner" } });
+    assert.equal(existsSync(lockPath(tempDir)), false);
+  });
+
+  it("gives up on a lock held by a live process", () => {
+    holdLock(tempDir, process.ppid);
+    const result = withStateLock(tempDir, () => "never", { timeoutMs: 50 });
+    assert.equal(result.acquired, false);
+    assert.ok(result.message.includes(`pid ${process.ppid}`));
+    assert.equal(existsSync(lockPath(tempDir)), true, "a foreign lock is left alone");
+  });
+
+  it("breaks a lock whose owner process is gone", () => {
+    holdLock(tempDir, 2 ** 22 + 1); // above pid_max — never a live process
+    assert.deepEqual(withStateLock(tempDir, () => "ok", { timeoutMs: 50 }), { acquired: true, value: "ok" });
+  });
+
+  it("breaks another host's lock older than staleMs", () => {
+    holdLock(tempDir, process.ppid, "other-host");
+    const old = new Date(Date.now() - 10 * 60_000);
+    utimesSync(lockPath(tempDir), old, old);
+    assert.equal(withStateLock(tempDir, () => "ok", { timeoutMs: 50 }).acquired, true);
+    assert.deepEqual(readdirSync(join(tempDir, ".ai")).filter((f) => f.startsWith("STATE.lock")), []);
+  });
+
+  it("never breaks the lock of a live holder on this host, however old", () => {
+    holdLock(tempDir, process.ppid);
+    const old = new Date(Date.now() - 10 * 60_000);
+    utimesSync(lockPath(tempDir), old, old);
+    assert.equal(withStateLock(tempDir, () => "never", { timeoutMs: 50 }).acquired, false);
+    assert.equal(JSON.parse(readFileSync(lockPath(tempDir), "utf-8")).pid, process.ppid);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 3. Mutating entry points
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("lock: dispatch under contention", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); initState(tempDir, "test-app"); startStory(tempDir, "US-001"); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("dispatch returns a recoverable LOCKED error and leaves STATE untouched", () => {
+    holdLock(tempDir, process.ppid, "other-host");
+    const result = dispatch(tempDir);
+    assert.equal(result.type, "error");
+    assert.equal(result.code, "LOCKED");
+    assert.equal(result.recoverable, true);
+    assert.equal(readState(tempDir).status, "pending");
+  });
+
+  it("peek is read-only and does not need the lock", () => {
+    holdLock(tempDir, process.ppid, "other-host");
+    assert.equal(peek(tempDir).type, "dispatched");
+  });
+});
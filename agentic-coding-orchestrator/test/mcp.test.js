@@ -0,0 +1,188 @@
+/**
+ * mcp.test.js — `orchestrator mcp` stdio server
+ *
+ * Tests for: the JSON-RPC handshake and tools/list; get_current_task;
+ * submit_handoff writing a validated HANDOFF and applying it (and refusing
+ * invalid input); check_off_checklist_item; report_clarification_needed;
+ * and the stdio transport through the CLI.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, existsSync, readFileSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+const { spawnSync } = require("child_process");
+
+const { initState, readState } = require("../dist/state");
+const { startStory, dispatch } = require("../dist/dispatch");
+const { handleMcpMessage, MCP_TOOLS } = require("../dist/mcp");
+
+const CLI_PATH = join(__dirname, "..", "dist", "cli.js");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** A project with US-001 started and its bdd step dispatched */
+function setup() {
+  const dir = mkdtempSync(join(tmpdir(), "aco-mcp-"));
+  initState(dir, "test-app");
+  startStory(dir, "US-001");
+  assert.equal(dispatch(dir).type, "dispatched");
+  return dir;
+}
+
+let nextId = 1;
+
+/** tools/call → { isError, result } */
+function callTool(dir, name, args) {
+  const response = handleMcpMessage(dir, { jsonrpc: "2.0", id: nextId++, method: "tools/call", params: { name, arguments: args } });
+  assert.equal(response.error, undefined);
+  return { isError: response.result.isError, result: response.result.structuredContent };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. Protocol
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("mcp: protocol", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = setup(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("initializes, lists the tools and ignores notifications", () => {
+    const init = handleMcpMessage(tempDir, {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1" } },
+    });
+    assert.equal(init.result.protocolVersion, "2025-03-26");
+    assert.deepEqual(init.result.capabilities, { tools: { listChanged: false } });
+    assert.equal(handleMcpMessage(tempDir, { jsonrpc: "2.0", method: "notifications/initialized" }), null);
+
+    const list = handleMcpMessage(tempDir, { jsonrpc: "2.0", id: 2, method: "tools/list" });
+    assert.deepEqual(
+      list.result.tools.map((t) => t.name),
+      ["get_current_task", "submit_handoff", "check_off_checklist_item", "report_clarification_needed"],
+    );
+    assert.deepEqual(MCP_TOOLS[1].inputSchema.required, ["status"]);
+  });
+
+  it("answers unknown methods and tools with JSON-RPC errors", () => {
+    assert.equal(handleMcpMessage(tempDir, { jsonrpc: "2.0", id: 3, method: "resources/list" }).error.code, -32601);
+    const unknownTool = handleMcpMessage(tempDir, { jsonrpc: "2.0", id: 4, method: "tools/call", params: { name: "nope" } });
+    assert.equal(unknownTool.error.code, -32602);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. Tools
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("mcp: tools", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = setup(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("get_current_task returns the running step and its prompt", () => {
+    const { isError, result } = callTool(tempDir, "get_current_task", {});
+    assert.equal(isError, false);
+    assert.equal(result.running, true);
+    assert.equal(result.story, "US-001");
+    assert.equal(result.step, "bdd");
+    assert.match(result.prompt, /HANDOFF/);
+  });
+
+  it("submit_handoff writes the HANDOFF with the running step's ids and applies it", () => {
+    const { isError, result } = callTool(tempDir, "submit_handoff", {
+      status: "pass",
+      files_changed: ["docs/bdd/US-001.md"],
+      tests: { pass: 3, fail: 0 },
+      summary: "Wrote the scenarios.",
+    });
+    assert.equal(isError, false);
+    assert.equal(result.type, "applied");
+    assert.equal(readState(tempDir).status, "pass");
+
+    const handoff = readFileSync(join(tempDir, ".ai", "HANDOFF.md"), "utf-8");
+    assert.match(handoff, /^---\nstory: "US-001"\nstep: "bdd"\nattempt: 1\nstatus: "pass"\n/);
+    assert.match(handoff, /files_changed: \["docs\/bdd\/US-001.md"\]/);
+    assert.match(handoff, /Wrote the scenarios\.$/);
+  });
+
+  it("submit_handoff refuses invalid fields without writing anything", () => {
+    const wrongType = callTool(tempDir, "submit_handoff", { status: "pass", files_changed: "src/a.ts" });
+    assert.equal(wrongType.isError, true);
+    assert.equal(wrongType.result.code, "HANDOFF_INVALID");
+    assert.match(wrongType.result.message, /files_changed should be array or null/);
+
+    const badStatus = callTool(tempDir, "submit_handoff", { status: "done" });
+    assert.match(badStatus.result.message, /status must be one of pass, failing, needs_human/);
+
+    const unknown = callTool(tempDir, "submit_handoff", { status: "pass", notes: "x" });
+    assert.equal(unknown.result.code, "INVALID_ARGUMENTS");
+    assert.match(unknown.result.message, /unknown argument "notes"/);
+
+    assert.equal(existsSync(join(tempDir, ".ai", "HANDOFF.md")), false);
+    assert.equal(readState(tempDir).status, "running");
+  });
+
+  it("submit_handoff refuses a story that is not running", () => {
+    callTool(tempDir, "submit_handoff", { status: "pass" });
+    const again = callTool(tempDir, "submit_handoff", { status: "pass" });
+    assert.equal(again.isError, true);
+    assert.equal(again.result.code, "NOT_RUNNING");
+  });
+
+  it("check_off_checklist_item ticks one item by its text or a unique part", () => {
+    const checklist = () => readFileSync(join(tempDir, ".ai", "CHECKLIST.md"), "utf-8");
+
+    const exact = callTool(tempDir, "check_off_checklist_item", { item: "non-goals section defined" });
+    assert.deepEqual(exact.result, { type: "checked", item: "Non-Goals section defined", already_checked: false });
+    assert.match(checklist(), /- \[x\] Non-Goals section defined/);
+
+    const partial = callTool(tempDir, "check_off_checklist_item", { item: "Given/When/Then" });
+    assert.equal(partial.result.item, "All scenarios written with Given/When/Then");
+
+    const ambiguous = callTool(tempDir, "check_off_checklist_item", { item: "scenarios" });
+    assert.equal(ambiguous.result.code, "AMBIGUOUS_ITEM");
+    const missing = callTool(tempDir, "check_off_checklist_item", { item: "deploy to prod" });
+    assert.equal(missing.result.code, "ITEM_NOT_FOUND");
+    assert.match(checklist(), /- \[ \] All scenarios tagged with test level/);
+  });
+
+  it("report_clarification_needed hands off as failing with the question", () => {
+    const { isError, result } = callTool(tempDir, "report_clarification_needed", { question: "Which currency for refunds?" });
+    assert.equal(isError, false);
+    assert.equal(result.type, "applied");
+    assert.equal(readState(tempDir).reason, "needs_clarification");
+    assert.match(readFileSync(join(tempDir, ".ai", "HANDOFF.md"), "utf-8"), /# Clarification needed\n\nWhich currency for refunds\?/);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 3. CLI
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("mcp: orchestrator mcp", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = setup(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("speaks newline-delimited JSON-RPC on stdio", () => {
+    const input = [
+      { jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2025-06-18" } },
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      { jsonrpc: "2.0", id: 2, method: "tools/call", params: { name: "submit_handoff", arguments: { status: "pass" } } },
+    ].map((m) => JSON.stringify(m)).join("\n") + "\nnot json\n";
+    const proc = spawnSync("node", [CLI_PATH, "mcp", tempDir], { input, encoding: "utf-8", timeout: 30_000 });
+
+    assert.equal(proc.status, 0, proc.stderr);
+    const responses = proc.stdout.trim().split("\n").map((line) => JSON.parse(line));
+    assert.deepEqual(responses.map((r) => r.id), [1, 2, null]);
+    assert.equal(responses[0].result.serverInfo.name, "agentic-coding-orchestrator");
+    assert.equal(responses[1].result.isError, false);
+    assert.equal(responses[2].error.code, -32700);
+    assert.equal(readState(tempDir).status, "pass");
+  });
+});
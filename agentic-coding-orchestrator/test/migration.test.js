@@ -0,0 +1,155 @@
+/**
+ * migration.test.js — STATE.json schema versioning
+ *
+ * Tests for: migrateState() upgrading pre-versioning files, readState()
+ * migrating in memory, repairState() and locked actions persisting and
+ * logging the migration, and refusing files written by a newer orchestrator.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, readFileSync, writeFileSync, mkdirSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+
+const {
+  readState, writeState, initState, migrateState, repairState, createInitialState, STATE_SCHEMA_VERSION,
+} = require("../dist/state");
+const { dispatch } = require("../dist/dispatch");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function makeTempDir() {
+  return mkdtempSync(join(tmpdir(), "aco-migration-"));
+}
+
+/** A STATE.json as written by the earliest orchestrator releases */
+const LEGACY_STATE = {
+  project: "old-app",
+  story: "US-003",
+  step: "impl",
+  attempt: 2,
+  max_attempts: 5,
+  status: "failing",
+  reason: null,
+  dispatched_at: "2025-01-01T00:00:00.000Z",
+  completed_at: "2025-01-01T00:10:00.000Z",
+  timeout_min: 10,
+  tests: { pass: 3, fail: 1, skip: 0 },
+};
+
+function writeRaw(tempDir, raw) {
+  mkdirSync(join(tempDir, ".ai"), { recursive: true });
+  writeFileSync(join(tempDir, ".ai", "STATE.json"), JSON.stringify(raw, null, 2));
+}
+
+function readRaw(tempDir) {
+  return JSON.parse(readFileSync(join(tempDir, ".ai", "STATE.json"), "utf-8"));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. migrateState
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("migration: migrateState", () => {
+  it("upgrades an unversioned file through every step", () => {
+    const raw = { ...LEGACY_STATE };
+    const applied = migrateState(raw);
+    assert.equal(applied.length, STATE_SCHEMA_VERSION);
+    assert.ok(applied[0].startsWith("v0 → v1"));
+    assert.equal(raw.schema_version, STATE_SCHEMA_VERSION);
+    assert.equal(raw.task_type, "story");
+    assert.equal(raw.agent_teams, false);
+    assert.equal(raw.reopened_from, null, "missing fields become null, not undefined");
+    assert.deepEqual(raw.failing_tests, []);
+    assert.deepEqual(raw.stories, {});
+    assert.equal(raw.revision, 0);
+    assert.deepEqual(raw.checks, []);
+    assert.equal(raw.files_changed_actual, null);
+    assert.equal(raw.git_base, null);
+    assert.equal(raw.branch, null);
+    assert.equal(raw.commit_hash, null);
+    assert.deepEqual(raw.commits, []);
+  });
+
+  it("infers task_type for legacy custom tasks", () => {
+    const raw = { ...LEGACY_STATE, step: "custom" };
+    migrateState(raw);
+    assert.equal(raw.task_type, "custom");
+  });
+
+  it("only runs the steps after the file's version", () => {
+    const raw = { ...LEGACY_STATE, schema_version: 2, stories: {}, task_type: "story" };
+    const applied = migrateState(raw);
+    assert.equal(applied[0], "v2 → v3: add revision / updated_at for compare-and-swap writes");
+    assert.equal(applied.length, STATE_SCHEMA_VERSION - 2);
+  });
+
+  it("is a no-op for current files", () => {
+    const raw = createInitialState("app");
+    assert.deepEqual(migrateState(raw), []);
+    assert.deepEqual(raw, createInitialState("app"));
+  });
+
+  it("refuses a file from a newer orchestrator", () => {
+    const raw = { ...createInitialState("app"), schema_version: STATE_SCHEMA_VERSION + 1 };
+    assert.throws(() => migrateState(raw), /schema_version \d+ is newer than this orchestrator supports/);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. readState / writeState
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("migration: on read", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("readState migrates in memory and leaves the file alone", () => {
+    writeRaw(tempDir, LEGACY_STATE);
+    const state = readState(tempDir);
+    assert.equal(state.story, "US-003");
+    assert.equal(state.schema_version, STATE_SCHEMA_VERSION);
+    assert.deepEqual(state.tests, { pass: 3, fail: 1, skip: 0 });
+    assert.deepEqual(readRaw(tempDir), LEGACY_STATE);
+  });
+
+  it("repairState persists the upgraded file and logs each step to hook.log", () => {
+    writeRaw(tempDir, LEGACY_STATE);
+    assert.equal(repairState(tempDir), true);
+
+    const raw = readRaw(tempDir);
+    assert.equal(raw.schema_version, STATE_SCHEMA_VERSION);
+    assert.equal(raw.reopened_from, null);
+
+    const log = readFileSync(join(tempDir, ".ai", "hook.log"), "utf-8");
+    assert.equal(log.match(/\[migrate\] STATE\.json v\d → v\d/g).length, STATE_SCHEMA_VERSION);
+
+    assert.equal(repairState(tempDir), false, "a migrated file is not migrated twice");
+    assert.equal(readFileSync(join(tempDir, ".ai", "hook.log"), "utf-8"), log);
+  });
+
+  it("a locked action persists the migration before it runs", () => {
+    writeRaw(tempDir, LEGACY_STATE);
+    assert.equal(dispatch(tempDir).type, "dispatched");
+    const raw = readRaw(tempDir);
+    assert.equal(raw.schema_version, STATE_SCHEMA_VERSION);
+    assert.equal(raw.revision, 2, "the migration and the dispatch are separate writes");
+    assert.match(readFileSync(join(tempDir, ".ai", "hook.log"), "utf-8"), /\[migrate\] STATE\.json v0 → v1/);
+  });
+
+  it("new projects start at the current version", () => {
+    initState(tempDir, "app");
+    assert.equal(readRaw(tempDir).schema_version, STATE_SCHEMA_VERSION);
+  });
+
+  it("readState and writeState refuse a newer file", () => {
+    initState(tempDir, "app");
+    const state = readState(tempDir);
+    writeRaw(tempDir, { ...readRaw(tempDir), schema_version: 99 });
+    assert.throws(() => readState(tempDir), /schema_version 99 is newer/);
+    assert.throws(() => writeState(tempDir, state), /schema_version 99 is newer/);
+    assert.equal(readRaw(tempDir).schema_version, 99, "the newer file is left untouched");
+  });
+});
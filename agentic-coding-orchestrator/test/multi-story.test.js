@@ -0,0 +1,260 @@
+/**
+ * multi-story.test.js — Several active stories in one STATE.json
+ *
+ * Tests for: startStory() parking the focused story, focusStory() swaps,
+ * story-scoped dispatch / applyHandoff / approveReview / rejectReview /
+ * rollback / reopen, STORY_NOT_FOUND, and queryProjectStatus() listing
+ * every active story.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, writeFileSync, readFileSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+
+const {
+  initState, readState, writeState, focusStory, activeStoryIds, createInitialState,
+} = require("../dist/state");
+const {
+  dispatch, peek, startStory, startCustom, applyHandoff, approveReview, rejectReview,
+  rollback, reopen, queryProjectStatus,
+} = require("../dist/dispatch");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function makeTempDir() {
+  return mkdtempSync(join(tmpdir(), "aco-multi-story-"));
+}
+
+function writeHandoff(tempDir, fields) {
+  const yaml = Object.entries(fields).map(([k, v]) => `${k}: ${v}`).join("\n");
+  writeFileSync(join(tempDir, ".ai", "HANDOFF.md"), `---\n${yaml}\n---\n# Done\n`);
+}
+
+/** US-007 parked at the review gate, US-008 focused at bdd */
+function twoStories(tempDir) {
+  initState(tempDir, "test-app");
+  startStory(tempDir, "US-007");
+  const state = readState(tempDir);
+  state.step = "review";
+  state.status = "needs_human";
+  writeState(tempDir, state);
+  startStory(tempDir, "US-008");
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. Focus model
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("multi-story: focus model", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("startStory parks the unfinished focused story instead of overwriting it", () => {
+    twoStories(tempDir);
+    const state = readState(tempDir);
+    assert.equal(state.story, "US-008");
+    assert.equal(state.step, "bdd");
+    assert.equal(state.stories["US-007"].step, "review");
+    assert.equal(state.stories["US-007"].status, "needs_human");
+    assert.deepEqual(activeStoryIds(state), ["US-008", "US-007"]);
+  });
+
+  it("a completed focused story is not parked", () => {
+    initState(tempDir, "test-app");
+    startStory(tempDir, "US-001");
+    const state = readState(tempDir);
+    state.step = "done";
+    writeState(tempDir, state);
+    startStory(tempDir, "US-002");
+    assert.deepEqual(readState(tempDir).stories, {});
+  });
+
+  it("focusStory swaps the flat fields and keeps project-level fields", () => {
+    const state = createInitialState("app");
+    state.story = "US-001";
+    state.step = "impl";
+    state.attempt = 3;
+    state.stories["US-002"] = { ...state, story: "US-002", step: "verify", attempt: 1 };
+    delete state.stories["US-002"].project;
+    delete state.stories["US-002"].stories;
+
+    assert.equal(focusStory(state, "US-002"), true);
+    assert.equal(state.project, "app");
+    assert.equal(state.story, "US-002");
+    assert.equal(state.step, "verify");
+    assert.equal(state.stories["US-001"].attempt, 3);
+    assert.equal(state.stories["US-002"], undefined);
+    assert.equal(focusStory(state, "US-404"), false);
+  });
+
+  it("restarting a parked story focuses it and applies the guards", () => {
+    twoStories(tempDir);
+    const state = readState(tempDir);
+    state.stories["US-007"].status = "running";
+    writeState(tempDir, state);
+    const result = startStory(tempDir, "US-007");
+    assert.equal(result.code, "ALREADY_RUNNING");
+  });
+
+  it("startCustom parks the focused story", () => {
+    initState(tempDir, "test-app");
+    startStory(tempDir, "US-001");
+    startCustom(tempDir, "Bump dependencies", { label: "deps" });
+    const state = readState(tempDir);
+    assert.equal(state.story, "deps");
+    assert.equal(state.stories["US-001"].step, "bdd");
+  });
+
+  it("legacy STATE.json without a stories map still loads", () => {
+    initState(tempDir, "test-app");
+    const raw = JSON.parse(readFileSync(join(tempDir, ".ai", "STATE.json"), "utf-8"));
+    delete raw.stories;
+    delete raw.schema_version;
+    writeFileSync(join(tempDir, ".ai", "STATE.json"), JSON.stringify(raw));
+    assert.deepEqual(readState(tempDir).stories, {});
+  });
+
+  it("validate() checks parked stories too", () => {
+    twoStories(tempDir);
+    const state = readState(tempDir);
+    state.stories["US-007"].step = "nowhere";
+    assert.throws(() => writeState(tempDir, state), /stories\.US-007: Invalid step/);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. Story-scoped operations
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("multi-story: story-scoped operations", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("approveReview on a parked story leaves the other story intact", () => {
+    twoStories(tempDir);
+    const result = approveReview(tempDir, "LGTM", "US-007");
+    assert.equal(result.type, "ok");
+    const state = readState(tempDir);
+    assert.equal(state.story, "US-007");
+    assert.equal(state.status, "pass");
+    assert.equal(state.stories["US-008"].step, "bdd");
+  });
+
+  it("reviewers can batch-approve several gated stories", () => {
+    twoStories(tempDir);
+    startStory(tempDir, "US-009");
+    const state = readState(tempDir);
+    state.step = "review";
+    state.status = "needs_human";
+    writeState(tempDir, state);
+
+    assert.equal(approveReview(tempDir, undefined, "US-007").type, "ok");
+    assert.equal(rejectReview(tempDir, "needs_clarification", "split it", "US-009").type, "ok");
+
+    const state2 = readState(tempDir);
+    assert.equal(state2.story, "US-009");
+    assert.equal(state2.reason, "needs_clarification");
+    assert.equal(state2.stories["US-007"].status, "pass");
+    assert.equal(state2.stories["US-008"].status, "pending");
+
+    assert.equal(dispatch(tempDir, "US-007").step, "scaffold");
+    assert.equal(dispatch(tempDir, "US-008").step, "bdd");
+  });
+
+  it("dispatch / peek of a story report that story", () => {
+    twoStories(tempDir);
+    const preview = peek(tempDir, "US-007");
+    assert.equal(preview.type, "needs_human");
+    assert.equal(preview.story, "US-007");
+    assert.equal(readState(tempDir).story, "US-008", "peek does not persist focus");
+
+    const result = dispatch(tempDir, "US-008");
+    assert.equal(result.type, "dispatched");
+    assert.equal(result.story, "US-008");
+  });
+
+  it("unknown story ids return STORY_NOT_FOUND", () => {
+    twoStories(tempDir);
+    for (const result of [
+      dispatch(tempDir, "US-404"),
+      approveReview(tempDir, undefined, "US-404"),
+      rollback(tempDir, "bdd", { story: "US-404" }),
+      applyHandoff(tempDir, "US-404"),
+    ]) {
+      assert.equal(result.type, "error");
+      assert.equal(result.code, "STORY_NOT_FOUND");
+      assert.ok(result.message.includes("US-008, US-007"));
+    }
+  });
+
+  it("applyHandoff targets the story named in the HANDOFF front matter", () => {
+    twoStories(tempDir);
+    dispatch(tempDir, "US-007"); // still at review gate
+    dispatch(tempDir, "US-008"); // running bdd
+    startStory(tempDir, "US-009");
+    writeHandoff(tempDir, { story: "US-008", step: "bdd", attempt: 1, status: "pass" });
+
+    const result = applyHandoff(tempDir);
+    assert.equal(result.type, "applied");
+    assert.equal(result.state.story, "US-008");
+    assert.equal(result.state.status, "pass");
+    const state = readState(tempDir);
+    assert.equal(state.stories["US-009"].step, "bdd");
+    assert.equal(state.stories["US-009"].status, "pending");
+  });
+
+  it("dispatch moves on to a parked story once the focused one is done", () => {
+    twoStories(tempDir);
+    const state = readState(tempDir);
+    state.step = "done";
+    writeState(tempDir, state);
+    const result = dispatch(tempDir);
+    assert.equal(result.type, "needs_human");
+    assert.equal(result.story, "US-007");
+  });
+
+  it("rollback targets the selected story", () => {
+    twoStories(tempDir);
+    const result = rollback(tempDir, "sdd-delta", { story: "US-007" });
+    assert.equal(result.type, "ok");
+    const state = readState(tempDir);
+    assert.equal(state.story, "US-007");
+    assert.equal(state.step, "sdd-delta");
+    assert.equal(state.stories["US-008"].step, "bdd");
+  });
+
+  it("reopen refuses a parked (still active) story", () => {
+    twoStories(tempDir);
+    const result = reopen(tempDir, "impl", { story: "US-007" });
+    assert.equal(result.code, "NOT_DONE");
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 3. Status
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("multi-story: queryProjectStatus", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("lists every active story, focused first", () => {
+    twoStories(tempDir);
+    const status = queryProjectStatus(tempDir);
+    assert.equal(status.story, "US-008");
+    assert.deepEqual(
+      status.stories.map((s) => [s.story, s.step, s.status, s.focused]),
+      [["US-008", "bdd", "pending", true], ["US-007", "review", "needs_human", false]],
+    );
+    assert.equal(status.stories[1].next_step, "scaffold");
+  });
+
+  it("is empty for an uninitialized project", () => {
+    assert.deepEqual(queryProjectStatus(tempDir).stories, []);
+  });
+});
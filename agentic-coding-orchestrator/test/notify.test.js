@@ -0,0 +1,288 @@
+/**
+ * notify.test.js — Notifications for state events
+ *
+ * Tests for: `notify:` validation in .ai/step-rules.yaml; mapping dispatch
+ * results to events; the webhook adapter against a local HTTP stub (body,
+ * HMAC signature, failures logged to hook.log); the file and command
+ * adapters and the per-notifier events filter; dispatch(), applyHandoff(),
+ * approve and reject queueing events only for real state changes, and the
+ * CLI delivering them before it exits; and runStory() sending the events of
+ * a whole run.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, mkdirSync, writeFileSync, readFileSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+const { createHmac } = require("crypto");
+const { execFileSync } = require("child_process");
+const http = require("http");
+
+const { initState, readState, writeState } = require("../dist/state");
+const { startCustom, startStory, dispatch, applyHandoff, approveReview, rejectReview } = require("../dist/dispatch");
+const { parseStepRulesFile } = require("../dist/step-rules");
+const { fakeExecutor } = require("../dist/executor");
+const { runStory } = require("../dist/supervisor");
+const {
+  makeNotification,
+  dispatchNotifications,
+  sendNotifications,
+  loadNotifiers,
+  webhookNotifier,
+  fileNotifier,
+  commandNotifier,
+  flushNotifications,
+} = require("../dist/notify");
+
+const CLI = join(__dirname, "..", "dist", "cli.js");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function makeTempDir() {
+  const dir = mkdtempSync(join(tmpdir(), "aco-notify-"));
+  initState(dir, "test-app");
+  return dir;
+}
+
+function writeStepRules(dir, yaml) {
+  mkdirSync(join(dir, ".ai"), { recursive: true });
+  writeFileSync(join(dir, ".ai", "step-rules.yaml"), yaml);
+}
+
+function readJsonLines(path) {
+  return readFileSync(path, "utf-8").trim().split("\n").map((line) => JSON.parse(line));
+}
+
+/** Local webhook receiver answering `status`; resolves with its url and the requests it got */
+function startStub(status = 204) {
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.setEncoding("utf-8");
+    req.on("data", (chunk) => { body += chunk; });
+    req.on("end", () => {
+      requests.push({ headers: req.headers, body });
+      res.statusCode = status;
+      res.end();
+    });
+  });
+  return new Promise((resolveStub) => {
+    server.listen(0, "127.0.0.1", () => {
+      resolveStub({
+        url: `http://127.0.0.1:${server.address().port}/hook`,
+        requests,
+        close: () => new Promise((r) => server.close(r)),
+      });
+    });
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. Config and events
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("notify: config and events", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("validates the notify: list", () => {
+    const parsed = parseStepRulesFile(
+      "step-rules.yaml",
+      "notify:\n  - type: webhook\n    url: https://example.com/hook\n    secret_env: HOOK_SECRET\n    events: [blocked, done]\n",
+    );
+    assert.deepEqual(parsed.notify, [
+      { type: "webhook", url: "https://example.com/hook", secret_env: "HOOK_SECRET", events: ["blocked", "done"] },
+    ]);
+    assert.deepEqual(parseStepRulesFile("step-rules.yaml", "steps: {}\n").notify, []);
+
+    assert.throws(() => parseStepRulesFile("step-rules.yaml", "notify:\n  - type: sms\n"), /notify\[0\]\.type/);
+    assert.throws(() => parseStepRulesFile("step-rules.yaml", "notify:\n  - type: webhook\n"), /notify\[0\]\.url/);
+    assert.throws(
+      () => parseStepRulesFile("step-rules.yaml", "notify:\n  - type: stdout\n    events: [deployed]\n"),
+      /notify\[0\]\.events/,
+    );
+  });
+
+  it("maps dispatch results to events", () => {
+    const [dispatched] = dispatchNotifications(tempDir, { type: "dispatched", story: "US-001", step: "impl", attempt: 2, prompt: "" });
+    assert.equal(dispatched.type, "dispatched");
+    assert.equal(dispatched.project, "test-app");
+    assert.equal(dispatched.message, "US-001 impl #2 dispatched");
+
+    const done = dispatchNotifications(tempDir, { type: "done", story: "US-001", summary: "Story US-001 completed.", review_suggested: true });
+    assert.deepEqual(done.map((e) => e.type), ["done", "review_suggested"]);
+    assert.deepEqual(dispatchNotifications(tempDir, { type: "already_running", step: "impl", elapsed_min: 1 }), []);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. Adapters
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("notify: adapters", () => {
+  let tempDir, stub;
+  beforeEach(() => { tempDir = makeTempDir(); });
+  afterEach(async () => {
+    await stub?.close();
+    stub = undefined;
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("webhook POSTs the event signed with HMAC-SHA256", async () => {
+    stub = await startStub();
+    const event = makeNotification(tempDir, "blocked", { story: "US-001", step: "impl", message: "US-001 impl blocked" });
+    const [outcome] = await sendNotifications(tempDir, [event], [webhookNotifier(stub.url, { secret: "s3cret" })]);
+
+    assert.equal(outcome.ok, true);
+    const [request] = stub.requests;
+    assert.deepEqual(JSON.parse(request.body), event);
+    assert.equal(request.headers["x-aco-event"], "blocked");
+    const expected = "sha256=" + createHmac("sha256", "s3cret").update(request.body).digest("hex");
+    assert.equal(request.headers["x-aco-signature-256"], expected);
+  });
+
+  it("logs a failed delivery to hook.log without rejecting", async () => {
+    stub = await startStub(500);
+    writeStepRules(tempDir, `notify:\n  - type: webhook\n    url: ${stub.url}\n`);
+    const event = makeNotification(tempDir, "done", { story: "US-001", step: "done", message: "done" });
+    const [outcome] = await sendNotifications(tempDir, [event]);
+
+    assert.equal(outcome.ok, false);
+    assert.match(outcome.error, /HTTP 500/);
+    assert.match(readFileSync(join(tempDir, ".ai", "hook.log"), "utf-8"), /NOTIFY_RESULT: done → webhook http:\/\/127\.0\.0\.1:\d+\/hook FAILED: HTTP 500/);
+  });
+
+  it("refuses to send unsigned when secret_env is unset", async () => {
+    delete process.env.ACO_TEST_UNSET_SECRET;
+    writeStepRules(tempDir, "notify:\n  - type: webhook\n    url: http://127.0.0.1:9/hook\n    secret_env: ACO_TEST_UNSET_SECRET\n");
+    const event = makeNotification(tempDir, "done", { story: null, step: null, message: "done" });
+    const [outcome] = await sendNotifications(tempDir, [event]);
+    assert.match(outcome.error, /\$ACO_TEST_UNSET_SECRET is not set/);
+  });
+
+  it("file and command adapters; notifiers only get the events they list", async () => {
+    writeStepRules(tempDir, [
+      "notify:",
+      "  - type: file",
+      "  - type: command",
+      "    command: 'cat > .ai/cmd-event.json; echo \"$ACO_EVENT $ACO_MESSAGE\" > .ai/cmd-env.txt'",
+      "    events: [needs_human]",
+      "",
+    ].join("\n"));
+    const events = [
+      makeNotification(tempDir, "dispatched", { story: "US-001", step: "bdd", attempt: 1, message: "US-001 bdd #1 dispatched" }),
+      makeNotification(tempDir, "needs_human", { story: "US-001", step: "review", message: "Review needed" }),
+    ];
+    const outcomes = await sendNotifications(tempDir, events, loadNotifiers(tempDir));
+
+    assert.deepEqual(outcomes.map((o) => `${o.event} ${o.notifier.split(" ")[0]} ${o.ok}`), [
+      "dispatched file true",
+      "needs_human file true",
+      "needs_human command true",
+    ]);
+    assert.deepEqual(readJsonLines(join(tempDir, ".ai", "notifications.jsonl")).map((e) => e.type), ["dispatched", "needs_human"]);
+    assert.equal(JSON.parse(readFileSync(join(tempDir, ".ai", "cmd-event.json"), "utf-8")).step, "review");
+    assert.equal(readFileSync(join(tempDir, ".ai", "cmd-env.txt"), "utf-8"), "needs_human test-app: Review needed\n");
+  });
+
+  it("command failures and timeouts reject", async () => {
+    const event = makeNotification(tempDir, "done", { story: null, step: null, message: "done" });
+    await assert.rejects(commandNotifier("echo nope >&2; exit 3", { cwd: tempDir }).notify(event), /exited 3: nope/);
+    await assert.rejects(commandNotifier("sleep 5", { cwd: tempDir, timeout_ms: 100 }).notify(event), /timed out after 100 ms/);
+    await fileNotifier(join(tempDir, "out", "events.jsonl")).notify(event);
+    assert.equal(readJsonLines(join(tempDir, "out", "events.jsonl")).length, 1);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 3. State changes
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("notify: state changes", () => {
+  let tempDir;
+  const sent = () => readJsonLines(join(tempDir, ".ai", "notifications.jsonl")).map((e) => `${e.type} ${e.step}`);
+  beforeEach(() => {
+    tempDir = makeTempDir();
+    writeStepRules(tempDir, "notify:\n  - type: file\n");
+  });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("dispatch and applyHandoff notify; asking again sends nothing", async () => {
+    startCustom(tempDir, "Rename the config flag", { label: "CUSTOM-1" });
+    dispatch(tempDir);
+    assert.equal(dispatch(tempDir).type, "already_running");
+    writeFileSync(
+      join(tempDir, ".ai", "HANDOFF.md"),
+      "---\nstory: CUSTOM-1\nstep: custom\nattempt: 1\nstatus: failing\nreason: needs_clarification\n---\nRed.\n",
+    );
+    applyHandoff(tempDir);
+    applyHandoff(tempDir);
+    await flushNotifications();
+
+    assert.deepEqual(sent(), ["dispatched custom", "step_failed custom"]);
+    const [, failed] = readJsonLines(join(tempDir, ".ai", "notifications.jsonl"));
+    assert.equal(failed.message, "CUSTOM-1 custom #1 failed: needs_clarification");
+  });
+
+  it("a review checkpoint notifies once; approve and reject notify", async () => {
+    startStory(tempDir, "US-001");
+    const state = readState(tempDir);
+    writeState(tempDir, { ...state, step: "review", status: "pending" });
+    assert.equal(dispatch(tempDir).type, "needs_human");
+    assert.equal(dispatch(tempDir).type, "needs_human");
+    rejectReview(tempDir, "nfr_missing", "Add the latency budget");
+    writeState(tempDir, { ...readState(tempDir), status: "needs_human" });
+    approveReview(tempDir);
+    await flushNotifications();
+
+    assert.deepEqual(sent(), ["needs_human review", "step_failed review", "step_passed review"]);
+    assert.match(readJsonLines(join(tempDir, ".ai", "notifications.jsonl"))[1].message, /review #1 failed: nfr_missing$/);
+  });
+
+  it("the CLI delivers before it exits", () => {
+    writeStepRules(tempDir, [
+      "notify:",
+      "  - type: command",
+      "    command: 'sleep 0.3; cat >> .ai/cli-events.jsonl'",
+      "",
+    ].join("\n"));
+    startCustom(tempDir, "Rename the config flag", { label: "CUSTOM-1" });
+    const state = readState(tempDir);
+    writeState(tempDir, { ...state, status: "failing", reason: "post_check_failed", attempt: state.max_attempts });
+
+    // blocked exits 0 straight away — after the notification is out
+    execFileSync("node", [CLI, "dispatch", tempDir], { stdio: "pipe", timeout: 30_000 });
+    const [blocked] = readJsonLines(join(tempDir, ".ai", "cli-events.jsonl"));
+    assert.equal(blocked.type, "blocked");
+    assert.equal(blocked.story, "CUSTOM-1");
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 4. Supervisor
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("notify: runStory", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("sends dispatched, step_passed and done for a run", async () => {
+    writeStepRules(tempDir, "notify:\n  - type: file\n    path: .ai/run-events.jsonl\n");
+    startCustom(tempDir, "Rename the config flag", { label: "CUSTOM-1" });
+    const result = await runStory(tempDir, fakeExecutor());
+    assert.equal(result.stopped, "done");
+
+    const events = readJsonLines(join(tempDir, ".ai", "run-events.jsonl"));
+    assert.deepEqual(events.map((e) => `${e.type} ${e.step}`), [
+      "dispatched custom",
+      "step_passed custom",
+      "dispatched update-memory",
+      "step_passed update-memory",
+      "done done",
+    ]);
+    assert.equal(events[1].message, "CUSTOM-1 custom #1 passed");
+  });
+});
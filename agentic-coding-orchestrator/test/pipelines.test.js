@@ -0,0 +1,290 @@
+/**
+ * pipelines.test.js — User-defined pipelines in .ai/step-rules.yaml
+ *
+ * Tests for: custom steps, per-task_type step lists, derived next_on_pass,
+ * human gates, pipeline validation, and rollback / reopen / checklist /
+ * STATE validation all following the project's pipeline.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, writeFileSync, mkdirSync, readFileSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+
+const { initState, readState, writeState, validate, createInitialState } = require("../dist/state");
+const {
+  dispatch, startStory, startCustom, approveReview, rollback, reopen,
+} = require("../dist/dispatch");
+const { getStepSequence, getRule, getRulesTable } = require("../dist/rules");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function makeTempDir() {
+  return mkdtempSync(join(tmpdir(), "aco-pipelines-"));
+}
+
+function writeRules(tempDir, lines) {
+  mkdirSync(join(tempDir, ".ai"), { recursive: true });
+  writeFileSync(join(tempDir, ".ai", "step-rules.yaml"), lines.join("\n"), "utf-8");
+}
+
+function setupState(tempDir, overrides) {
+  const { state } = initState(tempDir, "test-app");
+  Object.assign(state, overrides);
+  writeState(tempDir, state);
+  return state;
+}
+
+/** Story pipeline without contract, with a security-review step after impl */
+const SECURITY_PIPELINE = [
+  "steps:",
+  "  security-review:",
+  "    display_name: Security Review",
+  "    step_instruction: Audit the diff for injection, authz and secrets.",
+  "    claude_reads: [docs/sdd.md]",
+  "    checklist:",
+  "      - No secrets committed",
+  "      - Inputs validated",
+  "pipelines:",
+  "  story:",
+  "    steps: [bdd, sdd-delta, review, scaffold, impl, security-review, verify, commit, update-memory]",
+  "    on_fail:",
+  "      security-review: { default: impl }",
+];
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. Resolution
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("pipelines: resolution", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("built-in pipelines apply without a config file", () => {
+    assert.deepEqual(getStepSequence(tempDir, "custom"), ["custom", "update-memory"]);
+    assert.equal(getStepSequence(tempDir).length, 9);
+  });
+
+  it("derives next_on_pass from the declared step order", () => {
+    writeRules(tempDir, SECURITY_PIPELINE);
+    assert.deepEqual(getStepSequence(tempDir), [
+      "bdd", "sdd-delta", "review", "scaffold", "impl",
+      "security-review", "verify", "commit", "update-memory",
+    ]);
+    assert.equal(getRule("sdd-delta", tempDir).next_on_pass, "review");
+    assert.equal(getRule("impl", tempDir).next_on_pass, "security-review");
+    assert.equal(getRule("security-review", tempDir).next_on_pass, "verify");
+    assert.equal(getRule("security-review", tempDir).on_fail.default, "impl");
+    assert.equal(getRule("update-memory", tempDir).next_on_pass, "done");
+  });
+
+  it("explicit next_on_pass and human_gates override the list", () => {
+    writeRules(tempDir, [
+      "pipelines:",
+      "  story:",
+      "    steps: [bdd, sdd-delta, review, scaffold, impl, verify, commit, update-memory]",
+      "    human_gates: [review, verify]",
+      "    next_on_pass:",
+      "      verify: update-memory",
+    ]);
+    assert.equal(getRule("verify", tempDir).next_on_pass, "update-memory");
+    assert.equal(getRule("verify", tempDir).requires_human, true);
+    assert.equal(getRule("review", tempDir).requires_human, true);
+  });
+
+  it("pipelines are selected per task_type", () => {
+    writeRules(tempDir, [
+      "pipelines:",
+      "  hotfix:",
+      "    steps: [impl, verify, commit]",
+      "    on_fail:",
+      "      impl: { constitution_violation: impl, needs_clarification: impl, scope_warning: impl }",
+    ]);
+    assert.deepEqual(getStepSequence(tempDir, "hotfix"), ["impl", "verify", "commit"]);
+    assert.equal(getRule("commit", tempDir, "hotfix").next_on_pass, "done");
+    // story pipeline untouched
+    assert.equal(getRule("commit", tempDir).next_on_pass, "update-memory");
+  });
+
+  it("bootstrap hands over to the first step of a project story pipeline", () => {
+    writeRules(tempDir, [
+      "pipelines:",
+      "  story:",
+      "    steps: [sdd-delta, review, impl, verify, commit, update-memory]",
+      "    on_fail:",
+      "      review: { default: sdd-delta, needs_clarification: sdd-delta }",
+    ]);
+    assert.equal(getRule("bootstrap", tempDir).next_on_pass, "sdd-delta");
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. Validation
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("pipelines: validation", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("rejects routes that leave the pipeline", () => {
+    // dropping bdd leaves review.on_fail.default → bdd dangling
+    writeRules(tempDir, [
+      "pipelines:",
+      "  story:",
+      "    steps: [sdd-delta, review, impl]",
+    ]);
+    assert.throws(() => getRulesTable(tempDir), /review\.on_fail\.default routes to "bdd", which is not in this pipeline/);
+  });
+
+  it("rejects unknown steps, duplicates and stray gates", () => {
+    writeRules(tempDir, [
+      "pipelines:",
+      "  story:",
+      "    steps: [bdd, deploy, bdd]",
+      "    human_gates: [review]",
+    ]);
+    assert.throws(() => getRulesTable(tempDir), (err) => {
+      assert.match(err.message, /"bdd" is listed twice/);
+      return true;
+    });
+  });
+
+  it("rejects a dispatched step without step_instruction", () => {
+    writeRules(tempDir, [
+      "steps:",
+      "  docs:",
+      "    display_name: Docs",
+      "pipelines:",
+      "  story:",
+      "    steps: [docs]",
+    ]);
+    assert.throws(() => getRulesTable(tempDir), /docs is dispatched to the executor but has no step_instruction/);
+  });
+
+  it("validate() accepts project-defined steps only with that project root", () => {
+    writeRules(tempDir, SECURITY_PIPELINE);
+    const state = createInitialState("app");
+    state.step = "security-review";
+    assert.doesNotThrow(() => validate(state, tempDir));
+    assert.throws(() => validate(state), /Invalid step/);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 3. Orchestrator flow
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("pipelines: dispatch / rollback / reopen / checklist", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("skips dropped steps and dispatches custom steps", () => {
+    writeRules(tempDir, SECURITY_PIPELINE);
+    setupState(tempDir, { story: "US-001", step: "sdd-delta", status: "pass" });
+    let result = dispatch(tempDir);
+    assert.equal(result.type, "needs_human");
+    assert.equal(result.step, "review", "contract skipped");
+
+    setupState(tempDir, { story: "US-001", step: "impl", status: "pass" });
+    result = dispatch(tempDir);
+    assert.equal(result.type, "dispatched");
+    assert.equal(result.step, "security-review");
+    assert.ok(result.prompt.includes("Audit the diff for injection"));
+    assert.ok(result.prompt.includes('will advance to "verify"'));
+  });
+
+  it("routes custom step failures through pipeline on_fail", () => {
+    writeRules(tempDir, SECURITY_PIPELINE);
+    setupState(tempDir, {
+      story: "US-001", step: "security-review", status: "failing", attempt: 1, max_attempts: 2,
+    });
+    const result = dispatch(tempDir);
+    assert.equal(result.type, "dispatched");
+    assert.equal(result.step, "impl");
+  });
+
+  it("approveReview works on project-declared human gates", () => {
+    writeRules(tempDir, [
+      "steps:",
+      "  sign-off:",
+      "    display_name: Product Sign-off",
+      "pipelines:",
+      "  story:",
+      "    steps: [bdd, sdd-delta, contract, review, scaffold, impl, verify, sign-off, commit, update-memory]",
+      "    human_gates: [review, sign-off]",
+    ]);
+    setupState(tempDir, { story: "US-001", step: "verify", status: "pass" });
+    const result = dispatch(tempDir);
+    assert.equal(result.type, "needs_human");
+    assert.equal(result.step, "sign-off");
+    assert.ok(result.message.includes("Product Sign-off"));
+
+    const approved = approveReview(tempDir);
+    assert.equal(approved.type, "ok");
+    const next = dispatch(tempDir);
+    assert.equal(next.step, "commit");
+  });
+
+  it("startStory begins at the first step of the task_type pipeline", () => {
+    writeRules(tempDir, [
+      "pipelines:",
+      "  hotfix:",
+      "    steps: [impl, verify, commit]",
+      "    on_fail:",
+      "      impl: { constitution_violation: impl, needs_clarification: impl, scope_warning: impl }",
+    ]);
+    const result = startStory(tempDir, "US-009", { taskType: "hotfix" });
+    assert.equal(result.type, "ok");
+    assert.equal(result.state.step, "impl");
+    assert.equal(result.state.task_type, "hotfix");
+
+    const checklist = readFileSync(join(tempDir, ".ai", "CHECKLIST.md"), "utf-8");
+    assert.ok(checklist.includes("## Implementation"));
+    assert.ok(!checklist.includes("## BDD"));
+  });
+
+  it("checklist includes custom steps in pipeline order", () => {
+    writeRules(tempDir, SECURITY_PIPELINE);
+    startStory(tempDir, "US-002");
+    const checklist = readFileSync(join(tempDir, ".ai", "CHECKLIST.md"), "utf-8");
+    assert.ok(!checklist.includes("## API Contract"));
+    assert.ok(checklist.includes("## Security Review\n- [ ] No secrets committed\n- [ ] Inputs validated"));
+    assert.ok(checklist.indexOf("## Implementation") < checklist.indexOf("## Security Review"));
+    assert.ok(checklist.indexOf("## Security Review") < checklist.indexOf("## Verify"));
+  });
+
+  it("rollback validates targets against the pipeline", () => {
+    writeRules(tempDir, SECURITY_PIPELINE);
+    setupState(tempDir, { story: "US-001", step: "verify", status: "failing" });
+    assert.equal(rollback(tempDir, "contract").code, "INVALID_TARGET");
+    const result = rollback(tempDir, "security-review");
+    assert.equal(result.type, "ok");
+    assert.equal(readState(tempDir).step, "security-review");
+  });
+
+  it("reopen accepts custom steps", () => {
+    writeRules(tempDir, SECURITY_PIPELINE);
+    setupState(tempDir, { story: "US-001", step: "done", status: "pending" });
+    const result = reopen(tempDir, "security-review");
+    assert.equal(result.type, "ok");
+    assert.equal(result.state.step, "security-review");
+  });
+
+  it("startCustom follows a project custom pipeline", () => {
+    writeRules(tempDir, [
+      "pipelines:",
+      "  custom:",
+      "    steps: [custom, verify, update-memory]",
+      "    on_fail:",
+      "      verify: { default: custom }",
+    ]);
+    startCustom(tempDir, "Tidy up logging");
+    setupState(tempDir, { status: "pass" });
+    const result = dispatch(tempDir);
+    assert.equal(result.step, "verify");
+  });
+});
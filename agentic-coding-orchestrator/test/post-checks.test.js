@@ -0,0 +1,232 @@
+/**
+ * post-checks.test.js — Named post-checks with captured output
+ *
+ * Tests for: post_check lists in .ai/step-rules.yaml, getPostChecks()
+ * defaults, runPostChecks() storing per-check results + lint_pass and
+ * writing .ai/checks/<name>.log, per-check timeouts, buildPrompt()
+ * quoting failing checks on the retry, and applyHandoff() running the
+ * checks on a reported pass.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, writeFileSync, readFileSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+
+const { initState, readState, writeState } = require("../dist/state");
+const { dispatch, applyHandoff, runPostChecks, runPostCheck } = require("../dist/dispatch");
+const { parseStepRulesFile } = require("../dist/step-rules");
+const { getPostChecks, STEP_RULES } = require("../dist/rules");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function makeTempDir() {
+  return mkdtempSync(join(tmpdir(), "aco-checks-"));
+}
+
+/** A check script: `node check.js "<output>" <exit code>` */
+function writeCheckScript(dir) {
+  writeFileSync(join(dir, "check.js"), "console.log(process.argv[2]); process.exit(Number(process.argv[3]));\n");
+}
+
+function writeChecks(dir, yamlList) {
+  writeFileSync(join(dir, ".ai", "step-rules.yaml"), `steps:\n  impl:\n    post_check:\n${yamlList}`);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. Configuration
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("post-checks: configuration", () => {
+  it("accepts a list of named checks and fills defaults", () => {
+    const file = parseStepRulesFile("step-rules.yaml", [
+      "steps:",
+      "  impl:",
+      "    post_check:",
+      "      - { name: lint, command: npm run lint, timeout_sec: 120 }",
+      "      - name: prettier",
+      "        command: npx prettier --check .",
+      "        kind: format",
+      "        required: false",
+      "",
+    ].join("\n"));
+    const checks = getPostChecks({ ...STEP_RULES.impl, ...file.steps.impl });
+    assert.deepEqual(checks, [
+      { name: "lint", command: "npm run lint", kind: "lint", timeout_sec: 120, required: true },
+      { name: "prettier", command: "npx prettier --check .", kind: "format", timeout_sec: 60, required: false },
+    ]);
+  });
+
+  it("a plain command is one required custom check", () => {
+    assert.deepEqual(getPostChecks({ ...STEP_RULES.impl, post_check: "make lint" }), [
+      { name: "post_check", command: "make lint", kind: "custom", timeout_sec: 60, required: true },
+    ]);
+    assert.deepEqual(getPostChecks(STEP_RULES.impl), []);
+  });
+
+  it("rejects malformed checks", () => {
+    const bad = (list) => () => parseStepRulesFile("step-rules.yaml", `steps:\n  impl:\n    post_check:\n${list}`);
+    assert.throws(bad("      - { name: lint }\n"), /"command" is required/);
+    assert.throws(bad("      - { name: lint, command: x, kind: style }\n"), /kind: expected one of lint, typecheck/);
+    assert.throws(bad("      - { name: a b, command: x }\n"), /expected a name of letters/);
+    assert.throws(bad("      - { name: a, command: x }\n      - { name: a, command: y }\n"), /"a" is listed twice/);
+    assert.throws(bad("      - { name: a, command: x, retries: 2 }\n"), /unknown field "retries"/);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. Running
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("post-checks: runPostChecks", () => {
+  let tempDir;
+  beforeEach(() => {
+    tempDir = makeTempDir();
+    const { state } = initState(tempDir, "test-app");
+    Object.assign(state, { story: "US-001", step: "impl", status: "pass", attempt: 1, max_attempts: 5 });
+    writeState(tempDir, state);
+    writeCheckScript(tempDir);
+  });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("stores per-check results and output tails", () => {
+    writeChecks(tempDir, [
+      `      - { name: lint, command: 'node check.js "lint clean" 0' }`,
+      `      - { name: format, command: 'node check.js "src/a.ts needs formatting" 1', required: false }`,
+      "",
+    ].join("\n"));
+    const report = runPostChecks(tempDir);
+    assert.equal(report.passed, true, "an optional failure does not fail the step");
+    assert.deepEqual(report.checks.map((c) => [c.name, c.kind, c.passed, c.exit_code]), [
+      ["lint", "lint", true, 0],
+      ["format", "format", false, 1],
+    ]);
+
+    const state = readState(tempDir);
+    assert.equal(state.lint_pass, true);
+    assert.equal(state.checks.length, 2);
+    assert.equal(state.checks[1].output, ".ai/checks/format.log");
+    const log = readFileSync(join(tempDir, ".ai", "checks", "format.log"), "utf-8");
+    assert.match(log, /^\$ node check\.js/);
+    assert.match(log, /# exit 1 in \d+ms/);
+    assert.match(log, /src\/a.ts needs formatting/);
+  });
+
+  it("a failing required check fails lint_pass", () => {
+    writeChecks(tempDir, `      - name: typecheck\n        command: 'node check.js "TS2322 bad type" 2'\n`);
+    assert.equal(runPostChecks(tempDir).passed, false);
+    assert.equal(runPostCheck(tempDir), false, "legacy boolean form");
+    assert.equal(readState(tempDir).lint_pass, false);
+  });
+
+  it("each check has its own timeout", () => {
+    writeChecks(tempDir, `      - name: slow\n        command: 'node -e "setTimeout(() => {}, 10000)"'\n        timeout_sec: 1\n`);
+    const [check] = runPostChecks(tempDir).checks;
+    assert.equal(check.timed_out, true);
+    assert.equal(check.exit_code, null);
+    assert.match(readFileSync(join(tempDir, ".ai", "checks", "slow.log"), "utf-8"), /timed out after 1s/);
+  });
+
+  it("a step without checks passes and leaves STATE alone", () => {
+    const revision = readState(tempDir).revision;
+    const report = runPostChecks(tempDir);
+    assert.deepEqual([report.passed, report.checks], [true, []]);
+    assert.equal(readState(tempDir).revision, revision);
+  });
+
+  it("the retry prompt quotes failing checks, then clears them", () => {
+    writeChecks(tempDir, `      - name: lint\n        command: 'node check.js "no-unused-vars at src/cart.ts:12" 1'\n`);
+    runPostChecks(tempDir);
+    const state = readState(tempDir);
+    state.status = "failing";
+    writeState(tempDir, state);
+
+    const result = dispatch(tempDir);
+    assert.equal(result.type, "dispatched");
+    assert.match(result.prompt, /Post-checks failed after the previous attempt:/);
+    assert.match(result.prompt, /- lint: `node check\.js .*` exited 1 — full output in \.ai\/checks\/lint\.log/);
+    assert.match(result.prompt, /```\nno-unused-vars at src\/cart.ts:12\n```/);
+    assert.deepEqual(readState(tempDir).checks, []);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 3. applyHandoff
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("post-checks: applyHandoff", () => {
+  let tempDir;
+  beforeEach(() => {
+    tempDir = makeTempDir();
+    const { state } = initState(tempDir, "test-app");
+    Object.assign(state, { story: "US-001", step: "impl", status: "running", attempt: 1, max_attempts: 5 });
+    writeState(tempDir, state);
+    writeCheckScript(tempDir);
+  });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  function writeHandoff(status) {
+    writeFileSync(
+      join(tempDir, ".ai", "HANDOFF.md"),
+      `---\nstory: US-001\nstep: impl\nattempt: 1\n${status ? `status: ${status}\n` : ""}---\nDone.\n`,
+    );
+  }
+
+  it("a failing required check turns a reported pass into post_check_failed", () => {
+    writeChecks(tempDir, [
+      `      - { name: lint, command: 'node check.js "lint clean" 0' }`,
+      `      - { name: typecheck, command: 'node check.js "TS2322" 2' }`,
+      "",
+    ].join("\n"));
+    writeHandoff("pass");
+
+    const result = applyHandoff(tempDir);
+    assert.equal(result.type, "applied");
+    assert.equal(result.post_checks.passed, false);
+    assert.deepEqual(result.post_checks.checks.map((c) => [c.name, c.passed]), [["lint", true], ["typecheck", false]]);
+    const state = result.state;
+    assert.equal(state.status, "failing");
+    assert.equal(state.reason, "post_check_failed");
+    assert.equal(state.lint_pass, false);
+    assert.equal(state.last_error, "[post_check] typecheck exited 2 (.ai/checks/typecheck.log)");
+    assert.match(readFileSync(join(tempDir, ".ai", "hook.log"), "utf-8"), /POST_CHECK_FAILED/);
+
+    // Routed through on_fail (impl's default retries impl) with the output quoted
+    const next = dispatch(tempDir);
+    assert.equal(next.type, "dispatched");
+    assert.equal(next.step, "impl");
+    assert.equal(next.attempt, 2);
+    assert.match(next.prompt, /- typecheck: `node check\.js .*` exited 2/);
+  });
+
+  it("on_fail can route post_check_failed elsewhere", () => {
+    writeFileSync(
+      join(tempDir, ".ai", "step-rules.yaml"),
+      `steps:\n  impl:\n    post_check: 'node check.js "bad" 1'\n    on_fail:\n      post_check_failed: scaffold\n`,
+    );
+    writeHandoff("done");
+    assert.equal(applyHandoff(tempDir).state.reason, "post_check_failed");
+    const next = dispatch(tempDir);
+    assert.equal(next.step, "scaffold");
+  });
+
+  it("passing and optional checks keep the pass", () => {
+    writeChecks(tempDir, `      - { name: format, command: 'node check.js "needs formatting" 1', required: false }\n`);
+    writeHandoff(null);
+    const result = applyHandoff(tempDir);
+    assert.equal(result.state.status, "pass");
+    assert.equal(result.state.reason, null);
+    assert.equal(result.state.lint_pass, true);
+    assert.equal(result.state.checks.length, 1);
+  });
+
+  it("a reported failure skips the checks", () => {
+    writeChecks(tempDir, `      - { name: lint, command: 'node check.js "bad" 1' }\n`);
+    writeHandoff("failing");
+    const result = applyHandoff(tempDir);
+    assert.equal(result.post_checks, undefined);
+    assert.equal(result.state.reason, null);
+    assert.deepEqual(result.state.checks, []);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * revision.test.js — Optimistic concurrency on STATE.json
+ *
+ * Tests for: writeState() revision / updated_at bookkeeping and
+ * compare-and-swap, the CONFLICT error returned by mutating dispatch
+ * functions, and auto() retrying an intent after a CONFLICT.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, readFileSync, writeFileSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+
+const stateModule = require("../dist/state");
+const { initState, readState, writeState, StateConflictError } = stateModule;
+const { dispatch, startStory, approveReview } = require("../dist/dispatch");
+const { auto } = require("../dist/auto");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function makeTempDir() {
+  return mkdtempSync(join(tmpdir(), "aco-revision-"));
+}
+
+/** Another process rewrites STATE.json (bumping its revision) */
+function concurrentWrite(tempDir, fields = {}) {
+  const path = join(tempDir, ".ai", "STATE.json");
+  const raw = JSON.parse(readFileSync(path, "utf-8"));
+  Object.assign(raw, fields, { revision: raw.revision + 1 });
+  writeFileSync(path, JSON.stringify(raw, null, 2));
+}
+
+/** Make the next `times` readState() calls race with a concurrent writer */
+function raceReads(tempDir, times) {
+  const original = stateModule.readState;
+  let remaining = times;
+  stateModule.readState = (root) => {
+    const state = original(root);
+    if (remaining-- > 0) concurrentWrite(tempDir, { human_note: "from the other writer" });
+    return state;
+  };
+  return () => { stateModule.readState = original; };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. writeState compare-and-swap
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("revision: writeState", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); initState(tempDir, "test-app"); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("bumps revision and updated_at on every write", () => {
+    const state = readState(tempDir);
+    assert.equal(state.revision, 1);
+    assert.ok(state.updated_at);
+    state.human_note = "a";
+    writeState(tempDir, state);
+    assert.equal(state.revision, 2, "the written object is updated in place");
+    state.human_note = "b";
+    writeState(tempDir, state);
+    assert.equal(readState(tempDir).revision, 3);
+  });
+
+  it("rejects a write based on a stale read", () => {
+    const stale = readState(tempDir);
+    concurrentWrite(tempDir, { human_note: "winner" });
+    stale.human_note = "loser";
+    assert.throws(
+      () => writeState(tempDir, stale),
+      (err) => err instanceof StateConflictError && err.expected === 1 && err.current.revision === 2,
+    );
+    assert.equal(readState(tempDir).human_note, "winner");
+  });
+
+  it("loads STATE.json written before revisions existed", () => {
+    const path = join(tempDir, ".ai", "STATE.json");
+    const raw = JSON.parse(readFileSync(path, "utf-8"));
+    delete raw.revision;
+    delete raw.updated_at;
+    delete raw.schema_version;
+    writeFileSync(path, JSON.stringify(raw));
+    const state = readState(tempDir);
+    assert.equal(state.revision, 0);
+    writeState(tempDir, state);
+    const written = readState(tempDir);
+    assert.equal(written.revision, 1);
+    assert.ok(written.updated_at);
+  });
+
+  it("parked stories do not carry project-level revision fields", () => {
+    startStory(tempDir, "US-001");
+    startStory(tempDir, "US-002");
+    const parked = readState(tempDir).stories["US-001"];
+    assert.equal(parked.revision, undefined);
+    assert.equal(parked.updated_at, undefined);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. CONFLICT from mutating functions
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("revision: CONFLICT", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); initState(tempDir, "test-app"); startStory(tempDir, "US-001"); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("dispatch returns CONFLICT with the current state and keeps the other update", () => {
+    const restore = raceReads(tempDir, 1);
+    let result;
+    try { result = dispatch(tempDir); } finally { restore(); }
+    assert.equal(result.type, "error");
+    assert.equal(result.code, "CONFLICT");
+    assert.equal(result.recoverable, true);
+    assert.equal(result.state.human_note, "from the other writer");
+
+    const state = readState(tempDir);
+    assert.equal(state.status, "pending", "the losing update was not written");
+    assert.equal(state.human_note, "from the other writer");
+  });
+
+  it("a retry after CONFLICT succeeds", () => {
+    const stateNow = readState(tempDir);
+    stateNow.step = "review";
+    stateNow.status = "needs_human";
+    writeState(tempDir, stateNow);
+
+    const restore = raceReads(tempDir, 1);
+    try {
+      assert.equal(approveReview(tempDir).code, "CONFLICT");
+      assert.equal(approveReview(tempDir).type, "ok");
+    } finally { restore(); }
+  });
+
+  it("auto re-runs the intent after a CONFLICT", () => {
+    const restore = raceReads(tempDir, 1);
+    let result;
+    try { result = auto(tempDir, "continue"); } finally { restore(); }
+    assert.equal(result.action, "dispatched");
+    assert.equal(readState(tempDir).status, "running");
+  });
+});
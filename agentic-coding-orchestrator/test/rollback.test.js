@@ -575,19 +575,11 @@ describe("rollback: edge cases", () => {
       task_type: "custom",
     });
 
-    // custom is not in getStepSequence() — should this work?
-    // getStepSequence returns ["bdd", ..., "update-memory"], no "custom"
-    // sequence.indexOf("custom") = -1, currentIndex = -1
-    // targetIndex ("bdd") = 0 >= currentIndex (-1) → should throw!
-
-    // Actually let's verify: rollback from custom to anything should be blocked
-    // because currentIndex = -1 and targetIndex >= -1 for any valid step
-    // UNLESS step === "done" is special-cased (it is: `state.step !== "done"`)
-    // But custom is not done... so targetIndex (0) >= currentIndex (-1) → throws
-
+    // Rollback targets come from the task_type's pipeline. The custom
+    // pipeline is ["custom", "update-memory"], so "bdd" is not a valid target.
     const result = rollback(tempDir, "bdd");
     assert.equal(result.type, "error");
-    assert.equal(result.code, "ROLLBACK_FORWARD");
+    assert.equal(result.code, "INVALID_TARGET");
   });
 
   it("rollback from bootstrap is always rejected (step position edge)", () => {
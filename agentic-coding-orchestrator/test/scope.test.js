@@ -0,0 +1,174 @@
+/**
+ * scope.test.js — Diff-scope enforcement against claude_writes
+ *
+ * Tests for: claude_writes glob matching, filesChangedSince() reading git,
+ * and applyHandoff() failing a reported pass that wrote outside the step's
+ * claude_writes with reason scope_violation.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, writeFileSync, mkdirSync, utimesSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+const { execFileSync } = require("child_process");
+
+const { initState, writeState, readState } = require("../dist/state");
+const { applyHandoff, dispatch } = require("../dist/dispatch");
+const { matchesAnyGlob, findScopeViolations } = require("../dist/scope");
+const { filesChangedSince } = require("../dist/git");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function makeTempDir() {
+  return mkdtempSync(join(tmpdir(), "aco-scope-"));
+}
+
+function git(dir, ...args) {
+  return execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], {
+    cwd: dir,
+    encoding: "utf-8",
+  });
+}
+
+function writeFile(dir, path, content = "x\n") {
+  mkdirSync(join(dir, path, ".."), { recursive: true });
+  writeFileSync(join(dir, path), content);
+}
+
+/** Age a file so it predates the dispatch */
+function backdate(dir, path) {
+  const past = new Date(Date.now() - 60_000);
+  utimesSync(join(dir, path), past, past);
+}
+
+function writeHandoff(dir, step, status = "pass") {
+  writeFileSync(
+    join(dir, ".ai", "HANDOFF.md"),
+    `---\nstory: US-001\nstep: ${step}\nattempt: 1\nstatus: ${status}\n---\nDone.\n`,
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. Globs
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("scope: claude_writes globs", () => {
+  it("a pattern without a slash matches the file name at any depth", () => {
+    assert.ok(matchesAnyGlob("src/cart/total.ts", ["*.ts"]));
+    assert.ok(matchesAnyGlob("total.ts", ["*.ts"]));
+    assert.ok(matchesAnyGlob("pkg/cart_test.go", ["*_test.go"]));
+    assert.ok(!matchesAnyGlob("src/cart/total.tsx", ["*.ts"]));
+  });
+
+  it("a pattern with a slash is anchored; ** spans directories", () => {
+    assert.ok(matchesAnyGlob("docs/bdd/US-001.md", ["docs/bdd/US-001.md"]));
+    assert.ok(!matchesAnyGlob("docs/bdd/US-002.md", ["docs/bdd/US-001.md"]));
+    assert.ok(!matchesAnyGlob("other/docs/bdd/US-001.md", ["docs/bdd/*.md"]));
+    assert.ok(matchesAnyGlob("src/a/b/c.ts", ["src/**"]));
+    assert.ok(matchesAnyGlob("src/c.ts", ["src/**/*.ts"]));
+    assert.ok(matchesAnyGlob("deep/dir/anything.bin", ["*"]));
+  });
+
+  it(".ai/** is always writable", () => {
+    assert.deepEqual(
+      findScopeViolations([".ai/HANDOFF.md", ".ai/checks/lint.log", "package.json", "docs/sdd.md"], ["docs/sdd.md"]),
+      ["package.json"],
+    );
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. applyHandoff
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("scope: applyHandoff", () => {
+  let tempDir;
+  beforeEach(() => {
+    tempDir = makeTempDir();
+    git(tempDir, "init", "-q");
+    writeFile(tempDir, "README.md");
+    backdate(tempDir, "README.md");
+    git(tempDir, "add", "-A");
+    git(tempDir, "commit", "-q", "-m", "initial");
+    const { state } = initState(tempDir, "test-app");
+    Object.assign(state, {
+      story: "US-001",
+      step: "bdd",
+      status: "running",
+      attempt: 1,
+      max_attempts: 3,
+      dispatched_at: new Date(Date.now() - 5_000).toISOString(),
+    });
+    writeState(tempDir, state);
+  });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("a pass that wrote outside claude_writes becomes scope_violation", () => {
+    writeFile(tempDir, "docs/bdd/US-001.md");
+    writeFile(tempDir, "src/cart.ts");
+    writeHandoff(tempDir, "bdd");
+
+    const result = applyHandoff(tempDir);
+    assert.equal(result.type, "applied");
+    assert.deepEqual(result.scope.violations, ["src/cart.ts"]);
+    assert.equal(result.state.status, "failing");
+    assert.equal(result.state.reason, "scope_violation");
+    assert.equal(
+      result.state.last_error,
+      '[scope] step "bdd" may only write docs/bdd/US-001.md (plus .ai/), but changed: src/cart.ts',
+    );
+
+    const next = dispatch(tempDir);
+    assert.equal(next.type, "dispatched");
+    assert.equal(next.step, "bdd");
+    assert.match(next.prompt, /rejected for writing outside this step's scope:\n- step "bdd" .* src\/cart\.ts/);
+  });
+
+  it("files committed during the step count; leftovers from earlier steps do not", () => {
+    writeFile(tempDir, "src/old.ts");
+    backdate(tempDir, "src/old.ts");
+    writeFile(tempDir, "src/new.ts");
+    git(tempDir, "add", "src/new.ts");
+    git(tempDir, "commit", "-q", "-m", "new");
+
+    const changed = filesChangedSince(tempDir, readState(tempDir).dispatched_at);
+    assert.ok(changed.includes("src/new.ts"));
+    assert.ok(!changed.includes("src/old.ts"));
+    assert.ok(!changed.includes("README.md"));
+  });
+
+  it("in-scope changes keep the pass", () => {
+    writeFile(tempDir, "docs/bdd/US-001.md");
+    writeHandoff(tempDir, "bdd");
+    const result = applyHandoff(tempDir);
+    assert.equal(result.state.status, "pass");
+    assert.deepEqual(result.scope.violations, []);
+    assert.ok(result.scope.changed.includes("docs/bdd/US-001.md"));
+  });
+
+  it("warn mode only logs; off skips the check", () => {
+    writeFile(tempDir, "src/cart.ts");
+    writeFileSync(join(tempDir, ".ai", "step-rules.yaml"), "scope: warn\n");
+    writeHandoff(tempDir, "bdd");
+    const warned = applyHandoff(tempDir);
+    assert.equal(warned.state.status, "pass");
+    assert.deepEqual(warned.scope.violations, ["src/cart.ts"]);
+
+    const state = readState(tempDir);
+    Object.assign(state, { status: "running" });
+    writeState(tempDir, state);
+    writeFileSync(join(tempDir, ".ai", "step-rules.yaml"), "scope: off\n");
+    const skipped = applyHandoff(tempDir);
+    assert.equal(skipped.scope, undefined);
+  });
+
+  it("is skipped outside a git repository", () => {
+    rmSync(join(tempDir, ".git"), { recursive: true, force: true });
+    writeFile(tempDir, "src/cart.ts");
+    writeHandoff(tempDir, "bdd");
+    const result = applyHandoff(tempDir);
+    assert.equal(result.scope, undefined);
+    assert.equal(result.state.status, "pass");
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * server.test.js — `orchestrator serve` HTTP/JSON API
+ *
+ * Tests for: listing projects and status, action routes returning the
+ * action's own result (apply-handoff from a child process), request
+ * validation and error status codes, bearer token auth, Host / Origin /
+ * content-type checks, and the /events server-sent events stream.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, mkdirSync, writeFileSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+const http = require("http");
+
+const { initState, readState, writeState } = require("../dist/state");
+const { startServer } = require("../dist/server");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** A workspace with an initialized project `app` */
+function setup() {
+  const workspace = mkdtempSync(join(tmpdir(), "aco-serve-"));
+  const project = join(workspace, "app");
+  mkdirSync(project);
+  initState(project, "app");
+  return { workspace, project };
+}
+
+async function call(api, method, path, body, headers = {}) {
+  const res = await fetch(api.url + path, {
+    method,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${api.token}`, ...headers },
+    body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+/**
+ * Open an event stream; resolves once connected with `next` (the first
+ * `state` event's data) and `close()`
+ */
+/** Resolves with { take(n), close() }; take(n) resolves with the first n `state` events as { id, data } */
+function openEventStream(api, path) {
+  return new Promise((resolveOpen, rejectOpen) => {
+    const events = [];
+    const waiters = [];
+    const sep = path.includes("?") ? "&" : "?";
+    const req = http.get(`${api.url}${path}${sep}access_token=${api.token}`, (res) => {
+      let buffer = "";
+      res.setEncoding("utf-8");
+      res.on("data", (chunk) => {
+        buffer += chunk;
+        let match;
+        const pattern = /id: (.*)\nevent: state\ndata: (.*)\n\n/g;
+        while ((match = pattern.exec(buffer))) events.push({ id: match[1], data: JSON.parse(match[2]) });
+        buffer = buffer.slice(buffer.lastIndexOf("\n\n") + 2);
+        for (const waiter of waiters.filter((w) => events.length >= w.n)) {
+          waiters.splice(waiters.indexOf(waiter), 1);
+          waiter.resolve(events.slice(0, waiter.n));
+        }
+      });
+      const take = (n) =>
+        events.length >= n ? Promise.resolve(events.slice(0, n)) : new Promise((resolve) => waiters.push({ n, resolve }));
+      resolveOpen({ take, close: () => req.destroy() });
+    });
+    req.on("error", (err) => { if (err.code !== "ECONNRESET") rejectOpen(err); });
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. Routes
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("server: routes", () => {
+  let workspace, project, api;
+  beforeEach(async () => {
+    ({ workspace, project } = setup());
+    api = await startServer(workspace, { port: 0 });
+  });
+  afterEach(async () => {
+    await api.close();
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it("lists projects and reports status", async () => {
+    const list = await call(api, "GET", "/projects");
+    assert.equal(list.status, 200);
+    assert.deepEqual(list.body.map((p) => p.dir), ["app"]);
+
+    const status = await call(api, "GET", "/projects/app/status");
+    assert.equal(status.status, 200);
+    assert.equal(status.body.project, "app");
+  });
+
+  it("starts a story and dispatches it, returning the action results", async () => {
+    const started = await call(api, "POST", "/projects/app/start-story", { story_id: "US-001" });
+    assert.equal(started.status, 200);
+    assert.equal(started.body.type, "ok");
+
+    const dispatched = await call(api, "POST", "/projects/app/dispatch");
+    assert.equal(dispatched.status, 200);
+    assert.equal(dispatched.body.type, "dispatched");
+    assert.equal(dispatched.body.story, "US-001");
+    assert.equal(readState(project).status, "running");
+  });
+
+  it("applies a HANDOFF in a child process", async () => {
+    await call(api, "POST", "/projects/app/start-story", { story_id: "US-001" });
+    const { body: task } = await call(api, "POST", "/projects/app/dispatch");
+    writeFileSync(
+      join(project, ".ai", "HANDOFF.md"),
+      `---\nstory: US-001\nstep: ${task.step}\nattempt: ${task.attempt}\nstatus: pass\n---\nDone.\n`,
+    );
+    const applied = await call(api, "POST", "/projects/app/apply-handoff", { story: "US-001" });
+    assert.equal(applied.status, 200);
+    assert.equal(applied.body.type, "applied");
+    assert.equal(readState(project).status, "pass");
+  });
+
+  it("sends error results with 409 / 422", async () => {
+    const approve = await call(api, "POST", "/projects/app/approve", {});
+    assert.equal(approve.status, 422);
+    assert.equal(approve.body.type, "error");
+    assert.equal(approve.body.code, "WRONG_STEP");
+  });
+
+  it("validates request bodies", async () => {
+    const missing = await call(api, "POST", "/projects/app/reject", { note: 5, extra: true });
+    assert.equal(missing.status, 400);
+    assert.equal(missing.body.code, "INVALID_REQUEST");
+    assert.match(missing.body.message, /unknown field "extra"/);
+    assert.match(missing.body.message, /"reason" is required/);
+    assert.match(missing.body.message, /"note" must be a string/);
+
+    const garbled = await call(api, "POST", "/projects/app/dispatch", "{not json");
+    assert.equal(garbled.status, 400);
+    assert.match(garbled.body.message, /not valid JSON/);
+  });
+
+  it("answers unknown projects, actions and methods with 404 / 405", async () => {
+    assert.equal((await call(api, "POST", "/projects/nope/dispatch")).body.code, "PROJECT_NOT_FOUND");
+    assert.equal((await call(api, "POST", "/projects/app/launch")).status, 404);
+    const wrongMethod = await call(api, "GET", "/projects/app/dispatch");
+    assert.equal(wrongMethod.status, 405);
+    assert.equal(wrongMethod.body.code, "METHOD_NOT_ALLOWED");
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. Auth and event stream
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("server: auth and events", () => {
+  let workspace, project, api, stream;
+  beforeEach(() => { ({ workspace, project } = setup()); });
+  afterEach(async () => {
+    stream?.close();
+    await api?.close();
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it("requires the bearer token, generating one when none is set", async () => {
+    api = await startServer(workspace, { port: 0, token: "s3cret" });
+    assert.equal(api.token, "s3cret");
+    const denied = await call(api, "GET", "/projects", undefined, { Authorization: "Bearer wrong" });
+    assert.equal(denied.status, 401);
+    assert.equal(denied.body.code, "UNAUTHORIZED");
+    assert.equal((await call(api, "GET", "/projects")).status, 200);
+    await api.close();
+
+    api = await startServer(workspace, { port: 0 });
+    assert.match(api.token, /^[0-9a-f]{48}$/);
+    assert.equal((await call(api, "GET", "/projects", undefined, { Authorization: "" })).status, 401);
+  });
+
+  it("refuses foreign Hosts, cross-origin requests and non-JSON POSTs", async () => {
+    api = await startServer(workspace, { port: 0 });
+    const port = new URL(api.url).port;
+
+    const rebound = await new Promise((resolveGet, rejectGet) => {
+      http
+        .get({ port, path: "/projects", headers: { Host: `evil.example:${port}`, Authorization: `Bearer ${api.token}` } }, (res) => {
+          res.resume();
+          resolveGet(res.statusCode);
+        })
+        .on("error", rejectGet);
+    });
+    assert.equal(rebound, 403);
+
+    const foreign = await call(api, "GET", "/projects", undefined, { Origin: "https://evil.example" });
+    assert.equal(foreign.status, 403);
+    assert.equal(foreign.body.code, "FORBIDDEN");
+    assert.equal((await call(api, "GET", "/projects", undefined, { Origin: api.url })).status, 200);
+
+    const form = await call(api, "POST", "/projects/app/start-story", "story_id=US-001", {
+      "Content-Type": "application/x-www-form-urlencoded",
+    });
+    assert.equal(form.status, 415);
+    assert.equal(form.body.code, "UNSUPPORTED_MEDIA_TYPE");
+    assert.equal(readState(project).story, null);
+  });
+
+  it("streams state changes made after the client connected", async () => {
+    api = await startServer(workspace, { port: 0, poll_ms: 50 });
+    await call(api, "POST", "/projects/app/start-story", { story_id: "US-001" });
+
+    stream = await openEventStream(api, "/events?project=app");
+    await call(api, "POST", "/projects/app/dispatch");
+
+    const [{ id, data }] = await stream.take(1);
+    assert.equal(id, `app:${data.revision}.0`);
+    assert.equal(data.project, "app");
+    assert.equal(data.action, "dispatch");
+    assert.equal(data.story, "US-001");
+    assert.equal(data.after.status, "running");
+    assert.equal(readState(project).revision, data.revision);
+  });
+
+  it("streams every event of a write that changes several stories, with distinct ids", async () => {
+    api = await startServer(workspace, { port: 0, poll_ms: 50 });
+    await call(api, "POST", "/projects/app/start-story", { story_id: "US-001" });
+    await call(api, "POST", "/projects/app/start-story", { story_id: "US-002" });
+
+    stream = await openEventStream(api, "/events?project=app");
+    const state = readState(project);
+    state.human_note = "focused";
+    state.stories["US-001"].human_note = "parked";
+    writeState(project, state);
+
+    const events = await stream.take(2);
+    assert.deepEqual(events.map((e) => e.data.story).sort(), ["US-001", "US-002"]);
+    assert.deepEqual(events.map((e) => e.id), [`app:${state.revision}.0`, `app:${state.revision}.1`]);
+  });
+});
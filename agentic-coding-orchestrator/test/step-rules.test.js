@@ -0,0 +1,269 @@
+/**
+ * step-rules.test.js — Per-project .ai/step-rules.yaml overrides
+ *
+ * Tests for: parseYaml() subset, readStepRuleOverrides() validation,
+ * getRulesTable() merging, and dispatch / buildPrompt / checkPrerequisites /
+ * startStory picking up the merged table for a project root.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, writeFileSync, mkdirSync, readFileSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+
+const { initState, readState, writeState } = require("../dist/state");
+const { dispatch, startStory, checkPrerequisites } = require("../dist/dispatch");
+const { getRule, getRulesTable, getFailTarget, STEP_RULES } = require("../dist/rules");
+const { parseYaml } = require("../dist/yaml");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function makeTempDir() {
+  return mkdtempSync(join(tmpdir(), "aco-step-rules-"));
+}
+
+function writeRules(tempDir, content, name = "step-rules.yaml") {
+  const aiDir = join(tempDir, ".ai");
+  mkdirSync(aiDir, { recursive: true });
+  writeFileSync(join(aiDir, name), content, "utf-8");
+}
+
+function setupState(tempDir, overrides) {
+  const { state } = initState(tempDir, "test-app");
+  Object.assign(state, overrides);
+  writeState(tempDir, state);
+  return state;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. YAML subset parser
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("parseYaml: subset used by step-rules", () => {
+  it("parses nested mappings and scalars", () => {
+    const doc = parseYaml([
+      "steps:",
+      "  impl:",
+      "    max_attempts: 8",
+      "    requires_human: false",
+      "    post_check: \"npm run lint\"   # trailing comment",
+      "    step_instruction: null",
+    ].join("\n"));
+    assert.deepEqual(doc, {
+      steps: {
+        impl: {
+          max_attempts: 8,
+          requires_human: false,
+          post_check: "npm run lint",
+          step_instruction: null,
+        },
+      },
+    });
+  });
+
+  it("parses block lists (indented and same-indent) and inline lists", () => {
+    const doc = parseYaml([
+      "a:",
+      "  - x",
+      "  - 'y z'",
+      "b:",
+      "- one",
+      "c: [p, \"q, r\", 3]",
+    ].join("\n"));
+    assert.deepEqual(doc, { a: ["x", "y z"], b: ["one"], c: ["p", "q, r", 3] });
+  });
+
+  it("parses mappings inside list items", () => {
+    const doc = parseYaml("items:\n  - name: lint\n    timeout: 30\n  - name: test\n");
+    assert.deepEqual(doc, { items: [{ name: "lint", timeout: 30 }, { name: "test" }] });
+  });
+
+  it("throws with a line number on bad indentation", () => {
+    assert.throws(() => parseYaml("a: 1\n   b: 2\n"), /line 2/);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. getRulesTable() merge
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("getRulesTable: merging overrides onto defaults", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("returns defaults when no override file exists", () => {
+    const table = getRulesTable(tempDir);
+    assert.equal(table.source, null);
+    assert.equal(table.steps.impl.max_attempts, STEP_RULES.impl.max_attempts);
+  });
+
+  it("overrides scalar and list fields per step", () => {
+    writeRules(tempDir, [
+      "steps:",
+      "  impl:",
+      "    max_attempts: 8",
+      "    timeout_min: 30",
+      "    post_check: make lint",
+      "    claude_writes: [\"src/**/*.py\"]",
+      "  bootstrap:",
+      "    timeout_min: 20",
+    ].join("\n"));
+
+    const impl = getRule("impl", tempDir);
+    assert.equal(impl.max_attempts, 8);
+    assert.equal(impl.timeout_min, 30);
+    assert.equal(impl.post_check, "make lint");
+    assert.deepEqual(impl.claude_writes, ["src/**/*.py"]);
+    // untouched fields keep defaults
+    assert.equal(impl.display_name, STEP_RULES.impl.display_name);
+    assert.equal(getRule("bootstrap", tempDir).timeout_min, 20);
+    // defaults table itself is not mutated
+    assert.equal(STEP_RULES.impl.max_attempts, 5);
+    assert.equal(getRule("impl").max_attempts, 5);
+  });
+
+  it("merges on_fail routes instead of replacing them", () => {
+    writeRules(tempDir, "steps:\n  impl:\n    on_fail:\n      scope_warning: impl\n");
+    const impl = getRule("impl", tempDir);
+    assert.equal(impl.on_fail.default, "impl");
+    assert.equal(impl.on_fail.constitution_violation, "sdd-delta");
+    assert.equal(getFailTarget("impl", "scope_warning", tempDir), "impl");
+    assert.equal(getFailTarget("impl", "scope_warning"), "review");
+  });
+
+  it("accepts a JSON override file", () => {
+    writeRules(tempDir, JSON.stringify({ steps: { bdd: { max_attempts: 4 } } }), "step-rules.json");
+    assert.equal(getRule("bdd", tempDir).max_attempts, 4);
+  });
+
+  it("picks up edits to the file", () => {
+    writeRules(tempDir, "steps:\n  bdd:\n    max_attempts: 4\n");
+    assert.equal(getRule("bdd", tempDir).max_attempts, 4);
+    writeRules(tempDir, "steps:\n  bdd:\n    max_attempts: 6   # edited\n");
+    assert.equal(getRule("bdd", tempDir).max_attempts, 6);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 3. Validation errors
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("getRulesTable: validation", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("reports every bad field with its path", () => {
+    writeRules(tempDir, [
+      "steps:",
+      "  impl:",
+      "    max_attempts: zero",
+      "    claude_reads: docs/sdd.md",
+      "    colour: blue",
+    ].join("\n"));
+    assert.throws(() => getRulesTable(tempDir), (err) => {
+      assert.match(err.message, /steps\.impl\.max_attempts: expected an integer >= 1/);
+      assert.match(err.message, /steps\.impl\.claude_reads: expected a list of strings/);
+      assert.match(err.message, /steps\.impl\.colour: unknown field/);
+      return true;
+    });
+  });
+
+  it("rejects unknown steps and unknown routing targets", () => {
+    writeRules(tempDir, [
+      "steps:",
+      "  deploy:",
+      "    max_attempts: 1",
+      "  verify:",
+      "    on_fail:",
+      "      default: nowhere",
+    ].join("\n"));
+    assert.throws(() => getRulesTable(tempDir), (err) => {
+      assert.match(err.message, /steps\.deploy: unknown step/);
+      assert.match(err.message, /steps\.verify\.on_fail\.default: unknown step "nowhere"/);
+      return true;
+    });
+  });
+
+  it("reports YAML syntax errors with the file path", () => {
+    writeRules(tempDir, "steps:\n  impl:\n\tmax_attempts: 3\n");
+    assert.throws(() => getRulesTable(tempDir), /step-rules\.yaml: line 3/);
+  });
+
+  it("dispatch returns INVALID_STEP_RULES instead of throwing", () => {
+    setupState(tempDir, { story: "US-001", step: "bdd", status: "pending" });
+    writeRules(tempDir, "steps:\n  bdd:\n    max_attempts: -1\n");
+    const result = dispatch(tempDir);
+    assert.equal(result.type, "error");
+    assert.equal(result.code, "INVALID_STEP_RULES");
+    assert.equal(readState(tempDir).status, "pending", "STATE untouched");
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 4. Orchestrator functions use the merged table
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("step-rules: dispatch / prompt / prereqs use project overrides", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("startStory applies overridden max_attempts / timeout for bdd", () => {
+    writeRules(tempDir, "steps:\n  bdd:\n    max_attempts: 7\n    timeout_min: 12\n");
+    const result = startStory(tempDir, "US-001");
+    assert.equal(result.type, "ok");
+    assert.equal(result.state.max_attempts, 7);
+    assert.equal(result.state.timeout_min, 12);
+  });
+
+  it("dispatch prompt uses overridden step_instruction and reads", () => {
+    writeRules(tempDir, [
+      "steps:",
+      "  bdd:",
+      "    step_instruction: Write Gherkin features only.",
+      "    claude_reads:",
+      "      - docs/product/US-{story}.md",
+    ].join("\n"));
+    startStory(tempDir, "US-001");
+    const result = dispatch(tempDir);
+    assert.equal(result.type, "dispatched");
+    assert.ok(result.prompt.includes("Write Gherkin features only."));
+    assert.ok(result.prompt.includes("- docs/product/US-001.md"));
+  });
+
+  it("retry routing follows overridden on_fail", () => {
+    writeRules(tempDir, "steps:\n  impl:\n    on_fail:\n      scope_warning: impl\n");
+    setupState(tempDir, {
+      story: "US-001", step: "impl", status: "failing", reason: "scope_warning",
+      attempt: 1, max_attempts: 5,
+    });
+    const result = dispatch(tempDir);
+    assert.equal(result.type, "dispatched");
+    assert.equal(result.step, "impl");
+    assert.equal(result.attempt, 2);
+  });
+
+  it("advancing to a step picks up its overridden limits", () => {
+    writeRules(tempDir, "steps:\n  sdd-delta:\n    max_attempts: 9\n");
+    setupState(tempDir, { story: "US-001", step: "bdd", status: "pass" });
+    dispatch(tempDir);
+    const state = readState(tempDir);
+    assert.equal(state.step, "sdd-delta");
+    assert.equal(state.max_attempts, 9);
+  });
+
+  it("checkPrerequisites checks overridden claude_reads", () => {
+    writeRules(tempDir, "steps:\n  bdd:\n    claude_reads: [docs/vision.md]\n");
+    setupState(tempDir, { story: "US-001", step: "bdd", status: "pending" });
+    let prereq = checkPrerequisites(tempDir);
+    assert.deepEqual(prereq.missing, ["docs/vision.md"]);
+
+    mkdirSync(join(tempDir, "docs"), { recursive: true });
+    writeFileSync(join(tempDir, "docs", "vision.md"), "# Vision\n");
+    prereq = checkPrerequisites(tempDir);
+    assert.equal(prereq.ok, true);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * supervisor.test.js — `orchestrator run` / runStory()
+ *
+ * Tests for: runStory() looping dispatch → executor → applyHandoff until
+ * done, a review checkpoint, blocked or max_steps; the transcript; the
+ * executor being killed at the step timeout; and the `run` CLI command.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+const { spawnSync } = require("child_process");
+
+const { initState, readState } = require("../dist/state");
+const { startStory, startCustom } = require("../dist/dispatch");
+const { fakeExecutor } = require("../dist/executor");
+const { runStory, formatTranscriptEntry } = require("../dist/supervisor");
+
+const CLI_PATH = join(__dirname, "..", "dist", "cli.js");
+
+function makeTempDir() {
+  const dir = mkdtempSync(join(tmpdir(), "aco-run-"));
+  initState(dir, "test-app");
+  return dir;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. runStory
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("supervisor: runStory", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("drives a custom task to done and reports each step", async () => {
+    startCustom(tempDir, "Rename the config flag", { label: "CUSTOM-1" });
+    const seen = [];
+    const result = await runStory(tempDir, fakeExecutor(), { onStep: (e) => seen.push(formatTranscriptEntry(e)) });
+
+    assert.equal(result.stopped, "done");
+    assert.equal(result.story, "CUSTOM-1");
+    assert.deepEqual(result.steps.map((s) => `${s.step}:${s.outcome}`), ["custom:pass", "update-memory:pass"]);
+    assert.match(seen[0], /^CUSTOM-1 custom #1 → pass \(fake exited 0, \d+s\)$/);
+    assert.equal(result.dispatch.type, "done");
+  });
+
+  it("--until review stops at the review checkpoint; done reports needs_human", async () => {
+    startStory(tempDir, "US-001");
+    const result = await runStory(tempDir, fakeExecutor(), { until: "review" });
+    assert.equal(result.stopped, "review");
+    assert.equal(result.step, "review");
+    assert.deepEqual(result.steps.map((s) => s.step), ["bdd", "sdd-delta", "contract"]);
+
+    const again = await runStory(tempDir, fakeExecutor(), { until: "done" });
+    assert.equal(again.stopped, "needs_human");
+    assert.equal(again.steps.length, 0);
+  });
+
+  it("retries failing steps until blocked", async () => {
+    startCustom(tempDir, "Flaky task", { label: "CUSTOM-2" });
+    const result = await runStory(tempDir, fakeExecutor(() => ({ handoff: { status: "failing" } })));
+    assert.equal(result.stopped, "blocked");
+    assert.deepEqual(result.steps.map((s) => s.attempt), [1, 2, 3]);
+    assert.match(result.message, /Max attempts \(3\) exhausted/);
+  });
+
+  it("kills a hung executor at the timeout and retries the step", async () => {
+    startCustom(tempDir, "Slow task", { label: "CUSTOM-3" });
+    let calls = 0;
+    const executor = fakeExecutor(() => (++calls === 1 ? { hang: true } : { handoff: { status: "pass" } }));
+    const result = await runStory(tempDir, executor, { timeout_ms: 20 });
+
+    assert.equal(result.stopped, "done");
+    assert.equal(result.steps[0].execution, "timed_out");
+    assert.equal(result.steps[0].outcome, "failing");
+    assert.equal(result.steps[0].synthesized_handoff, true);
+    assert.equal(result.steps[1].attempt, 2);
+  });
+
+  it("stops after maxSteps", async () => {
+    startCustom(tempDir, "Endless task", { label: "CUSTOM-4" });
+    const result = await runStory(tempDir, fakeExecutor(() => ({ handoff: { status: "failing" } })), { maxSteps: 2 });
+    assert.equal(result.stopped, "max_steps");
+    assert.equal(result.steps.length, 2);
+    assert.equal(readState(tempDir).status, "failing");
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. CLI
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("supervisor: orchestrator run", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("runs a shell command executor and prints a transcript", () => {
+    startCustom(tempDir, "Say hello", { label: "CUSTOM-5" });
+    const command =
+      'cat > /dev/null; printf -- "---\\nstory: %s\\nstep: %s\\nattempt: %s\\nstatus: pass\\n---\\n" ' +
+      '"$ACO_STORY" "$ACO_STEP" "$ACO_ATTEMPT" > .ai/HANDOFF.md';
+    const proc = spawnSync("node", [CLI_PATH, "run", tempDir, "--command", command], { encoding: "utf-8", timeout: 60_000 });
+
+    assert.equal(proc.status, 0, proc.stderr);
+    assert.equal(JSON.parse(proc.stdout).stopped, "done");
+    assert.match(proc.stderr, /\[run\] CUSTOM-5 custom #1 → pass \(command exited 0/);
+    assert.match(proc.stderr, /\[run\] CUSTOM-5 update-memory #1 → pass/);
+    assert.match(proc.stderr, /\[run\] STOPPED \(done\)/);
+  });
+
+  it("rejects an unknown --until", () => {
+    const proc = spawnSync("node", [CLI_PATH, "run", tempDir, "--until", "forever"], { encoding: "utf-8" });
+    assert.equal(proc.status, 1);
+    assert.match(proc.stderr, /--until must be one of: review, done/);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * test-command.test.js — Orchestrator-run test command
+ *
+ * Tests for: the `test:` section of .ai/step-rules.yaml, runTestCommand()
+ * parsing stdout or a report file, and applyHandoff() overriding or
+ * cross-checking the executor's reported results after impl/scaffold/verify.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, writeFileSync, readFileSync, existsSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+
+const { initState, writeState } = require("../dist/state");
+const { applyHandoff } = require("../dist/dispatch");
+const { parseStepRulesFile } = require("../dist/step-rules");
+const { runTestCommand } = require("../dist/test-runner");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function makeTempDir() {
+  return mkdtempSync(join(tmpdir(), "aco-testcmd-"));
+}
+
+/** A fake test runner: prints TAP for the given results and exits non-zero on failure */
+function writeRunner(dir, results) {
+  const tap = ["TAP version 13"];
+  results.forEach(([ok, name], i) => tap.push(`${ok ? "ok" : "not ok"} ${i + 1} - ${name}`));
+  tap.push(`1..${results.length}`);
+  const failed = results.some(([ok]) => !ok);
+  writeFileSync(
+    join(dir, "runner.js"),
+    `process.stdout.write(${JSON.stringify(tap.join("\n") + "\n")}); process.exit(${failed ? 1 : 0});\n`,
+  );
+}
+
+function writeRules(dir, testSection) {
+  writeFileSync(join(dir, ".ai", "step-rules.yaml"), `test:\n${testSection}`);
+}
+
+function writeHandoff(dir, frontMatter, step = "impl") {
+  writeFileSync(
+    join(dir, ".ai", "HANDOFF.md"),
+    `---\nstory: US-001\nstep: ${step}\nattempt: 1\n${frontMatter}---\nDone.\n`,
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. Configuration + runner
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("test command: configuration", () => {
+  it("accepts a command string with defaults", () => {
+    const file = parseStepRulesFile("step-rules.yaml", 'test: "npm test"\n');
+    assert.deepEqual(file.test, {
+      command: "npm test",
+      report: null,
+      after: ["impl", "scaffold", "verify"],
+      timeout_sec: 600,
+      mode: "override",
+    });
+    assert.equal(parseStepRulesFile("step-rules.yaml", "steps: {}\n").test, null);
+  });
+
+  it("rejects unknown fields, bad modes and a missing command", () => {
+    assert.throws(
+      () => parseStepRulesFile("step-rules.yaml", "test:\n  cmd: npm test\n  mode: trust\n"),
+      (err) =>
+        /test\.cmd: unknown field/.test(err.message) &&
+        /test\.mode: expected "override" or "check"/.test(err.message) &&
+        /test\.command: required/.test(err.message),
+    );
+  });
+
+  it("runTestCommand parses a report file, or stdout", () => {
+    const dir = makeTempDir();
+    try {
+      writeFileSync(
+        join(dir, "junit.js"),
+        "require('fs').writeFileSync('junit.xml', '<testsuite><testcase name=\"a\"/><testcase name=\"b\"><failure/></testcase></testsuite>'); process.exit(1);\n",
+      );
+      const run = runTestCommand(dir, {
+        command: "node junit.js", report: "junit.xml", after: [], timeout_sec: 30, mode: "override",
+      });
+      assert.equal(run.exit_code, 1);
+      assert.equal(run.passed, false);
+      assert.deepEqual(run.tests, { pass: 1, fail: 1, skip: 0 });
+      assert.deepEqual(run.failing_tests, ["b"]);
+
+      const plain = runTestCommand(dir, {
+        command: "echo all good", report: null, after: [], timeout_sec: 30, mode: "override",
+      });
+      assert.equal(plain.passed, true);
+      assert.equal(plain.tests, null);
+      assert.match(plain.warnings[0], /not a test report/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("runTestCommand ignores a report left by an earlier run", () => {
+    const dir = makeTempDir();
+    try {
+      writeFileSync(join(dir, "junit.xml"), '<testsuite><testcase name="a"/></testsuite>');
+      const run = runTestCommand(dir, {
+        command: "node -e \"process.exit(2)\"", report: "junit.xml", after: [], timeout_sec: 30, mode: "override",
+      });
+      assert.equal(run.passed, false);
+      assert.equal(run.tests, null);
+      assert.match(run.warnings[0], /test report "junit.xml" was not written/);
+      assert.equal(existsSync(join(dir, "junit.xml")), false);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("runTestCommand stops at timeout_sec", () => {
+    const dir = makeTempDir();
+    try {
+      const run = runTestCommand(dir, {
+        command: "node -e \"setTimeout(() => {}, 10000)\"", report: null, after: [], timeout_sec: 1, mode: "override",
+      });
+      assert.equal(run.timed_out, true);
+      assert.equal(run.exit_code, null);
+      assert.equal(run.passed, false);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. applyHandoff
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("test command: applyHandoff", () => {
+  let tempDir;
+  beforeEach(() => {
+    tempDir = makeTempDir();
+    const { state } = initState(tempDir, "test-app");
+    Object.assign(state, { story: "US-001", step: "impl", status: "running", attempt: 1, max_attempts: 5 });
+    writeState(tempDir, state);
+  });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("override: a claimed pass with red tests becomes failing", () => {
+    writeRunner(tempDir, [[true, "adds item"], [false, "applies coupon"]]);
+    writeRules(tempDir, "  command: node runner.js\n");
+    writeHandoff(tempDir, "status: pass\ntests: {pass: 2, fail: 0, skip: 0}\n");
+
+    const result = applyHandoff(tempDir);
+    assert.equal(result.type, "applied");
+    assert.equal(result.test_run.exit_code, 1);
+    const state = result.state;
+    assert.equal(state.status, "failing");
+    assert.deepEqual(state.tests, { pass: 1, fail: 1, skip: 0 });
+    assert.deepEqual(state.failing_tests, ["applies coupon"]);
+    assert.match(state.last_error, /HANDOFF reported status "pass" but "node runner.js" exited 1 with 1 failing/);
+    assert.match(state.last_error, /HANDOFF reported 0 failing test\(s\), "node runner.js" found 1/);
+
+    const log = readFileSync(join(tempDir, ".ai", "hook.log"), "utf-8");
+    assert.match(log, /Test command for step "impl": "node runner.js" exited 1 tests=1\/1\/0/);
+    assert.match(log, /TEST_DISCREPANCY/);
+  });
+
+  it("override: a failing claim without a reason passes when the tests do", () => {
+    writeRunner(tempDir, [[true, "adds item"]]);
+    writeRules(tempDir, "  command: node runner.js\n");
+    writeHandoff(tempDir, "status: failing\n");
+    const state = applyHandoff(tempDir).state;
+    assert.equal(state.status, "pass");
+    assert.match(state.last_error, /reported status "failing" but "node runner.js" passed/);
+  });
+
+  it("override: a failing claim with a reason is kept", () => {
+    writeRunner(tempDir, [[true, "adds item"]]);
+    writeRules(tempDir, "  command: node runner.js\n");
+    writeHandoff(tempDir, "status: failing\nreason: needs_clarification\n");
+    const state = applyHandoff(tempDir).state;
+    assert.equal(state.status, "failing");
+    assert.equal(state.reason, "needs_clarification");
+  });
+
+  it("check: keeps the executor's results and flags the disagreement", () => {
+    writeRunner(tempDir, [[false, "applies coupon"]]);
+    writeRules(tempDir, "  command: node runner.js\n  mode: check\n");
+    writeHandoff(tempDir, "status: pass\ntests: {pass: 3, fail: 0, skip: 0}\n");
+    const state = applyHandoff(tempDir).state;
+    assert.equal(state.status, "pass");
+    assert.deepEqual(state.tests, { pass: 3, fail: 0, skip: 0 });
+    assert.match(state.last_error, /^\[tests\] HANDOFF reported status "pass"/);
+    assert.doesNotMatch(state.last_error, /test command result used/);
+  });
+
+  it("agreement leaves last_error alone", () => {
+    writeRunner(tempDir, [[true, "adds item"]]);
+    writeRules(tempDir, "  command: node runner.js\n");
+    writeHandoff(tempDir, "status: pass\n");
+    const result = applyHandoff(tempDir);
+    assert.equal(result.state.status, "pass");
+    assert.equal(result.state.last_error, null);
+    assert.deepEqual(result.state.tests, { pass: 1, fail: 0, skip: 0 });
+  });
+
+  it("does not run after steps outside `after`, or for stale HANDOFFs", () => {
+    writeRunner(tempDir, [[false, "applies coupon"]]);
+    writeRules(tempDir, "  command: node runner.js\n  after: [verify]\n");
+    writeHandoff(tempDir, "status: pass\n");
+    const result = applyHandoff(tempDir);
+    assert.equal(result.test_run, undefined);
+    assert.equal(result.state.status, "pass");
+
+    writeRules(tempDir, "  command: node runner.js\n");
+    writeHandoff(tempDir, "status: pass\n", "bdd");
+    assert.equal(applyHandoff(tempDir).type, "stale");
+    assert.doesNotMatch(readFileSync(join(tempDir, ".ai", "hook.log"), "utf-8"), /Test command for step/);
+  });
+});
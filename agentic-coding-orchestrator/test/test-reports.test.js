@@ -0,0 +1,197 @@
+/**
+ * test-reports.test.js — Failing test names from HANDOFF and test reports
+ *
+ * Tests for: JUnit XML, TAP, go test -json and vitest/jest JSON parsing
+ * (counts and names), format detection, applyHandoff() filling
+ * STATE.failing_tests from the front matter and referenced reports, and the
+ * retry prompt listing them.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, writeFileSync, readFileSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+
+const { initState, readState, writeState } = require("../dist/state");
+const { applyHandoff, dispatch } = require("../dist/dispatch");
+const { parseTestReport, readFailingTests } = require("../dist/test-reports");
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const JUNIT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="cart" tests="3" failures="1" errors="1">
+    <testcase classname="cart.CartTest" name="adds item" time="0.01"/>
+    <testcase classname="cart.CartTest" name="applies &quot;SAVE10&quot; coupon">
+      <failure message="expected 90">AssertionError</failure>
+    </testcase>
+    <testcase classname="cart.CartTest" name="checks out"><error type="TypeError"/></testcase>
+    <testcase classname="cart.CartTest" name="skipped one"><skipped/></testcase>
+  </testsuite>
+</testsuites>
+`;
+
+const TAP = `TAP version 13
+# Subtest: cart
+    # Subtest: applies coupon
+    not ok 1 - applies coupon
+      ---
+      duration_ms: 1.2
+      ...
+    ok 2 - adds item
+    1..2
+not ok 1 - cart
+ok 2 - login
+not ok 3 - flaky thing # TODO fix later
+not ok 4 - totals round correctly
+1..4
+`;
+
+const GO_JSON = [
+  { Action: "run", Package: "shop/cart", Test: "TestCart" },
+  { Action: "fail", Package: "shop/cart", Test: "TestCart/coupon" },
+  { Action: "fail", Package: "shop/cart", Test: "TestCart" },
+  { Action: "pass", Package: "shop/cart", Test: "TestTotals" },
+  { Action: "fail", Package: "shop/auth", Test: "TestLogin" },
+  { Action: "fail", Package: "shop/cart" },
+].map((e) => JSON.stringify(e)).join("\n");
+
+const JEST_JSON = JSON.stringify({
+  numFailedTests: 2,
+  testResults: [
+    {
+      name: "/app/cart.test.ts",
+      status: "failed",
+      assertionResults: [
+        { fullName: "cart applies coupon", title: "applies coupon", ancestorTitles: ["cart"], status: "failed" },
+        { fullName: "cart adds item", title: "adds item", ancestorTitles: ["cart"], status: "passed" },
+        { title: "rounds totals", ancestorTitles: ["cart", "totals"], status: "failed" },
+      ],
+    },
+    { name: "/app/broken.test.ts", status: "failed", assertionResults: [] },
+    { name: "/app/ok.test.ts", status: "passed", assertionResults: [] },
+  ],
+});
+
+function makeTempDir() {
+  return mkdtempSync(join(tmpdir(), "aco-reports-"));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. Report formats
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("test reports: formats", () => {
+  it("JUnit XML — failures and errors, entities decoded", () => {
+    assert.deepEqual(parseTestReport(JUNIT), {
+      format: "junit",
+      tests: { pass: 1, fail: 2, skip: 1 },
+      failing: ['cart.CartTest.applies "SAVE10" coupon', "cart.CartTest.checks out"],
+    });
+  });
+
+  it("TAP — leaf subtests only, TODO counted as skipped", () => {
+    assert.deepEqual(parseTestReport(TAP), {
+      format: "tap",
+      tests: { pass: 2, fail: 2, skip: 1 },
+      failing: ["applies coupon", "totals round correctly"],
+    });
+  });
+
+  it("go test -json — leaf subtests only, package results ignored", () => {
+    assert.deepEqual(parseTestReport(GO_JSON), {
+      format: "go-json",
+      tests: { pass: 1, fail: 2, skip: 0 },
+      failing: ["TestCart/coupon", "TestLogin"],
+    });
+  });
+
+  it("vitest / jest JSON — assertions, plus files that failed to run", () => {
+    assert.deepEqual(parseTestReport(JEST_JSON), {
+      format: "jest-json",
+      tests: { pass: 1, fail: 3, skip: 0 },
+      failing: ["cart applies coupon", "cart > totals > rounds totals", "/app/broken.test.ts"],
+    });
+  });
+
+  it("unknown content is not a report", () => {
+    assert.equal(parseTestReport("All tests passed!\n"), null);
+    assert.equal(parseTestReport('{"ok": true}'), null);
+    assert.equal(parseTestReport("<html></html>"), null);
+  });
+
+  it("readFailingTests merges reports and warns about bad ones", () => {
+    const dir = makeTempDir();
+    try {
+      writeFileSync(join(dir, "junit.xml"), JUNIT);
+      writeFileSync(join(dir, "go.json"), GO_JSON);
+      writeFileSync(join(dir, "notes.txt"), "hello");
+      const result = readFailingTests(dir, ["junit.xml", "go.json", "missing.xml", "notes.txt"]);
+      assert.equal(result.failing.length, 4);
+      assert.equal(result.warnings.length, 2);
+      assert.match(result.warnings[0], /"missing.xml" not found/);
+      assert.match(result.warnings[1], /"notes.txt" is not JUnit XML/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. applyHandoff + prompt
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("test reports: applyHandoff", () => {
+  let tempDir;
+  beforeEach(() => {
+    tempDir = makeTempDir();
+    const { state } = initState(tempDir, "test-app");
+    Object.assign(state, { story: "US-001", step: "impl", status: "running", attempt: 1, max_attempts: 5 });
+    writeState(tempDir, state);
+  });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  function writeHandoff(frontMatter) {
+    writeFileSync(
+      join(tempDir, ".ai", "HANDOFF.md"),
+      `---\nstory: US-001\nstep: impl\nattempt: 1\n${frontMatter}---\nNotes.\n`,
+    );
+  }
+
+  it("takes failing_tests from the front matter", () => {
+    writeHandoff("status: failing\nfailing_tests:\n  - cart applies coupon\n  - \"totals: rounding\"\n");
+    const result = applyHandoff(tempDir);
+    assert.equal(result.type, "applied");
+    assert.deepEqual(result.state.failing_tests, ["cart applies coupon", "totals: rounding"]);
+    assert.deepEqual(result.validation, []);
+  });
+
+  it("adds names from referenced reports and infers failing", () => {
+    writeFileSync(join(tempDir, "report.json"), JEST_JSON);
+    writeHandoff("failing_tests: [cart applies coupon]\ntest_reports: report.json\n");
+    const state = applyHandoff(tempDir).state;
+    assert.equal(state.status, "failing");
+    assert.deepEqual(state.failing_tests, [
+      "cart applies coupon", "cart > totals > rounds totals", "/app/broken.test.ts",
+    ]);
+  });
+
+  it("logs unreadable reports and clears the previous list", () => {
+    const state = readState(tempDir);
+    state.failing_tests = ["old test"];
+    writeState(tempDir, state);
+    writeHandoff("status: pass\ntest_reports: [reports/none.xml]\n");
+    assert.deepEqual(applyHandoff(tempDir).state.failing_tests, []);
+    const log = readFileSync(join(tempDir, ".ai", "hook.log"), "utf-8");
+    assert.match(log, /test report "reports\/none.xml" not found/);
+  });
+
+  it("the retry prompt lists the failing tests", () => {
+    writeHandoff("status: failing\nfailing_tests: [cart applies coupon]\n");
+    applyHandoff(tempDir);
+    const result = dispatch(tempDir);
+    assert.equal(result.type, "dispatched");
+    assert.match(result.prompt, /Previous attempt had these failing tests:\n- cart applies coupon/);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * undo.test.js — Undo the last orchestrator actions
+ *
+ * Tests for: snapshots taken around mutating calls, undo() restoring
+ * STATE.json, CHECKLIST.md and BACKLOG.json, the executor-run guard, multi-step undo,
+ * and the history.md / events.jsonl records.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, readFileSync, existsSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+
+const { initState, readState, writeState } = require("../dist/state");
+const {
+  dispatch, peek, startStory, approveReview, rollback, undo,
+} = require("../dist/dispatch");
+const { readUndoStack, UNDO_DEPTH } = require("../dist/undo");
+const { addBacklogItem, readBacklog } = require("../dist/backlog");
+const { readEvents } = require("../dist/events");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function makeTempDir() {
+  return mkdtempSync(join(tmpdir(), "aco-undo-"));
+}
+
+/** US-001 at the review gate (set directly, so not undoable) */
+function atReview(tempDir) {
+  startStory(tempDir, "US-001");
+  const state = readState(tempDir);
+  state.step = "review";
+  state.status = "needs_human";
+  writeState(tempDir, state);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. Restoring
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("undo: restoring", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); initState(tempDir, "test-app"); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("reverts a mistaken approve", () => {
+    atReview(tempDir);
+    approveReview(tempDir, "oops");
+    const result = undo(tempDir);
+    assert.equal(result.type, "ok");
+    const state = readState(tempDir);
+    assert.equal(state.step, "review");
+    assert.equal(state.status, "needs_human");
+    assert.equal(state.human_note, null);
+  });
+
+  it("reverts an accidental rollback", () => {
+    atReview(tempDir);
+    rollback(tempDir, "bdd");
+    assert.equal(readState(tempDir).step, "bdd");
+    undo(tempDir);
+    assert.equal(readState(tempDir).step, "review");
+  });
+
+  it("keeps revisions increasing and records the undo", () => {
+    atReview(tempDir);
+    approveReview(tempDir);
+    const revision = readState(tempDir).revision;
+    undo(tempDir);
+    assert.equal(readState(tempDir).revision, revision + 1);
+
+    const history = readFileSync(join(tempDir, ".ai", "history.md"), "utf-8");
+    assert.match(history, /### Undo — 1 action\(s\)/);
+    assert.match(history, /\*\*Undone\*\*: approve/);
+    assert.equal(readEvents(tempDir).at(-1).action, "undo");
+  });
+
+  it("restores the CHECKLIST.md that startStory overwrote", () => {
+    startStory(tempDir, "US-001");
+    const checklist = join(tempDir, ".ai", "CHECKLIST.md");
+    const first = readFileSync(checklist, "utf-8");
+    startStory(tempDir, "US-002");
+    assert.match(readFileSync(checklist, "utf-8"), /US-002/);
+
+    undo(tempDir);
+    assert.equal(readFileSync(checklist, "utf-8"), first);
+    const state = readState(tempDir);
+    assert.equal(state.story, "US-001");
+    assert.deepEqual(state.stories, {});
+  });
+
+  it("removes a CHECKLIST.md that did not exist before", () => {
+    startStory(tempDir, "US-001");
+    undo(tempDir);
+    assert.equal(existsSync(join(tempDir, ".ai", "CHECKLIST.md")), false);
+    assert.equal(readState(tempDir).story, null);
+  });
+
+  it("puts back the backlog item that startStory dequeued", () => {
+    addBacklogItem(tempDir, "US-001");
+    addBacklogItem(tempDir, "US-002", { blockedBy: ["US-001"] });
+    const queued = readFileSync(join(tempDir, ".ai", "BACKLOG.json"), "utf-8");
+    startStory(tempDir, "US-001");
+    assert.deepEqual(readBacklog(tempDir).items.map((i) => i.story), ["US-002"]);
+
+    undo(tempDir);
+    assert.equal(readFileSync(join(tempDir, ".ai", "BACKLOG.json"), "utf-8"), queued);
+    assert.deepEqual(readBacklog(tempDir).items.map((i) => i.story), ["US-001", "US-002"]);
+  });
+
+  it("undoes several actions at once", () => {
+    atReview(tempDir);
+    approveReview(tempDir);
+    rollback(tempDir, "bdd");
+    assert.equal(undo(tempDir, 2).type, "ok");
+    assert.equal(readState(tempDir).status, "needs_human");
+    assert.equal(readUndoStack(tempDir).length, 1, "the startStory snapshot remains");
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. Guards
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("undo: guards", () => {
+  let tempDir;
+  beforeEach(() => { tempDir = makeTempDir(); initState(tempDir, "test-app"); });
+  afterEach(() => { rmSync(tempDir, { recursive: true, force: true }); });
+
+  it("has nothing to undo on a fresh project", () => {
+    assert.equal(undo(tempDir).code, "NOTHING_TO_UNDO");
+    startStory(tempDir, "US-001");
+    const result = undo(tempDir, 3);
+    assert.equal(result.code, "NOTHING_TO_UNDO");
+    assert.match(result.message, /Only 1 action/);
+    assert.equal(undo(tempDir, 0).code, "INVALID_UNDO");
+  });
+
+  it("refuses to undo across a started executor run", () => {
+    startStory(tempDir, "US-001");
+    dispatch(tempDir);
+    const result = undo(tempDir);
+    assert.equal(result.code, "EXECUTOR_STARTED");
+    assert.match(result.message, /US-001 step "bdd"/);
+    assert.equal(readState(tempDir).status, "running", "state left alone");
+  });
+
+  it("refuses even after the run finished", () => {
+    startStory(tempDir, "US-001");
+    dispatch(tempDir);
+    const state = readState(tempDir);
+    state.step = "sdd-delta";
+    state.status = "pass";
+    writeState(tempDir, state);
+    rollback(tempDir, "bdd");
+    assert.equal(undo(tempDir).type, "ok", "the rollback itself can be undone");
+    assert.equal(undo(tempDir).code, "EXECUTOR_STARTED");
+  });
+
+  it("read-only and no-op calls take no snapshot; undo is not undoable", () => {
+    atReview(tempDir);
+    const depth = readUndoStack(tempDir).length;
+    peek(tempDir);
+    dispatch(tempDir); // needs_human — no change
+    assert.equal(readUndoStack(tempDir).length, depth);
+    approveReview(tempDir);
+    undo(tempDir);
+    assert.equal(readUndoStack(tempDir).length, depth);
+  });
+
+  it("keeps at most UNDO_DEPTH snapshots", () => {
+    atReview(tempDir);
+    for (let i = 0; i < UNDO_DEPTH + 2; i++) {
+      approveReview(tempDir);
+      const state = readState(tempDir);
+      state.status = "needs_human";
+      writeState(tempDir, state);
+    }
+    assert.equal(readUndoStack(tempDir).length, UNDO_DEPTH);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * watch.test.js — `orchestrator watch` daemon
+ *
+ * Tests for: scanProject() applying a fresh, settled HANDOFF.md once,
+ * skipping HANDOFFs for stories that are not running, reporting invalid
+ * ones, timing out overdue steps; and watchWorkspace() reacting to a
+ * HANDOFF.md written while it runs.
+ */
+
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { mkdtempSync, rmSync, writeFileSync, mkdirSync } = require("fs");
+const { join } = require("path");
+const { tmpdir } = require("os");
+
+const { initState, writeState, readState } = require("../dist/state");
+const { dispatch } = require("../dist/dispatch");
+const { scanProject, findWatchedProjects, watchWorkspace } = require("../dist/watch");
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** A workspace with project `app` whose US-001 bdd step has been dispatched */
+function setup() {
+  const workspace = mkdtempSync(join(tmpdir(), "aco-watch-"));
+  const project = join(workspace, "app");
+  mkdirSync(project);
+  const { state } = initState(project, "app");
+  Object.assign(state, { story: "US-001", step: "bdd", status: "pending", attempt: 1, max_attempts: 3 });
+  writeState(project, state);
+  assert.equal(dispatch(project).type, "dispatched");
+  return { workspace, project };
+}
+
+function writeHandoff(project, front = "status: pass\n") {
+  writeFileSync(join(project, ".ai", "HANDOFF.md"), `---\nstory: US-001\nstep: bdd\nattempt: 1\n${front}---\nDone.\n`);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 1. scanProject
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("watch: scanProject", () => {
+  let workspace, project;
+  beforeEach(() => { ({ workspace, project } = setup()); });
+  afterEach(() => { rmSync(workspace, { recursive: true, force: true }); });
+
+  it("applies a fresh HANDOFF once", () => {
+    writeHandoff(project);
+    const seen = new Map();
+    const events = scanProject(project, seen, 0);
+    assert.equal(events.length, 1);
+    assert.equal(events[0].type, "handoff_applied");
+    assert.equal(events[0].story, "US-001");
+    assert.equal(events[0].status, "pass");
+    assert.equal(readState(project).status, "pass");
+    assert.deepEqual(scanProject(project, seen, 0), []);
+  });
+
+  it("waits for the HANDOFF to settle", () => {
+    writeHandoff(project);
+    assert.deepEqual(scanProject(project, new Map(), 60_000), []);
+    assert.equal(readState(project).status, "running");
+  });
+
+  it("skips a HANDOFF for a story that is not running", () => {
+    const state = readState(project);
+    Object.assign(state, { status: "needs_human" });
+    writeState(project, state);
+    writeHandoff(project);
+    assert.deepEqual(scanProject(project, new Map(), 0), []);
+    assert.equal(readState(project).status, "needs_human");
+  });
+
+  it("reports a HANDOFF that cannot be applied", () => {
+    writeFileSync(join(project, ".ai", "HANDOFF.md"), "---\nstory: US-001\nstep: [bdd\n---\n");
+    const events = scanProject(project, new Map(), 0);
+    assert.equal(events.length, 1);
+    assert.equal(events[0].type, "handoff_rejected");
+    assert.match(events[0].message, /^HANDOFF_INVALID: /);
+  });
+
+  it("times out a running step past its timeout_min", () => {
+    const state = readState(project);
+    Object.assign(state, { dispatched_at: new Date(Date.now() - 60 * 60_000).toISOString(), timeout_min: 5 });
+    writeState(project, state);
+    const events = scanProject(project, new Map(), 0);
+    assert.deepEqual(events.map((e) => [e.type, e.status]), [["timeout", "timeout"]]);
+    assert.equal(readState(project).status, "timeout");
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 2. watchWorkspace
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe("watch: watchWorkspace", () => {
+  let workspace, project, watcher;
+  beforeEach(() => { ({ workspace, project } = setup()); });
+  afterEach(() => {
+    watcher?.stop();
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it("only watches initialized projects", () => {
+    mkdirSync(join(workspace, "plain"));
+    writeFileSync(join(workspace, "plain", "package.json"), "{}");
+    assert.deepEqual(findWatchedProjects(workspace), [project]);
+  });
+
+  it("applies a HANDOFF written while it runs", async () => {
+    const applied = new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error("no event within 10s")), 10_000);
+      watcher = watchWorkspace(workspace, {
+        interval_ms: 200,
+        settle_ms: 50,
+        listeners: [(event) => { clearTimeout(timer); resolve(event); }],
+      });
+    });
+    assert.deepEqual(watcher.projects, [project]);
+
+    writeHandoff(project);
+
+    const event = await applied;
+    assert.equal(event.type, "handoff_applied");
+    assert.equal(event.project, project);
+    assert.equal(readState(project).status, "pass");
+  });
+});
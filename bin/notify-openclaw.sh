@@ -0,0 +1,87 @@
+#!/bin/bash
+# notify-openclaw.sh — `command` notifier: push orchestrator events via openclaw
+#
+# Sends $ACO_MESSAGE to the channel and target that dispatch-claude-code.sh
+# recorded (--channel / --notify-target) in task-meta.json. Replaces the
+# channel handling that used to live in notify-agi.sh.
+#
+# Register in the project's .ai/step-rules.yaml:
+#   notify:
+#     - type: command
+#       command: ~/.claude/hooks/notify-openclaw.sh
+#       events: [step_passed, step_failed, needs_human, blocked, timeout, done]
+#       timeout_sec: 120        # covers MAX_RETRIES × (30s send + RETRY_DELAY)
+#
+# $NOTIFY_CHANNEL / $NOTIFY_TARGET override task-meta.json. The orchestrator
+# logs the outcome to hook.log as NOTIFY_RESULT; a non-zero exit is a failed
+# delivery.
+
+set -uo pipefail
+
+PROJECT_ROOT="${ACO_PROJECT_ROOT:-$(pwd)}"
+_RD="${RESULT_DIR:-.ai/claude-code-results}"
+[[ "$_RD" == /* ]] || _RD="${PROJECT_ROOT}/${_RD}"
+META_FILE="${_RD}/task-meta.json"
+LOG="${_RD}/hook.log"
+OPENCLAW_BIN="${OPENCLAW_BIN:-openclaw}"
+
+mkdir -p "$_RD"
+log() { echo "[$(date -Iseconds)] $*" >> "$LOG"; }
+
+CHANNEL="${NOTIFY_CHANNEL:-$(jq -r '.notify_channel // ""' "$META_FILE" 2>/dev/null || echo "")}"
+NOTIFY_TARGET="${NOTIFY_TARGET:-$(jq -r '.notify_target // ""' "$META_FILE" 2>/dev/null || echo "")}"
+TASK_NAME=$(jq -r '.task_name // ""' "$META_FILE" 2>/dev/null || echo "")
+
+if [ -z "$CHANNEL" ] || [ -z "$NOTIFY_TARGET" ]; then
+    log "openclaw: SKIPPED ${ACO_EVENT:-?} (channel='$CHANNEL' target='$NOTIFY_TARGET' — missing config)"
+    exit 0
+fi
+if ! command -v "$OPENCLAW_BIN" &>/dev/null; then
+    echo "$OPENCLAW_BIN not found" >&2
+    exit 127
+fi
+
+# ---- Compose message ----
+case "${ACO_EVENT:-}" in
+    step_failed|needs_human|blocked|timeout) ICON="⚠️" ;;
+    *) ICON="✅" ;;
+esac
+MSG="${ICON} ${ACO_MESSAGE:-orchestrator event}"
+[ -n "$TASK_NAME" ] && MSG="${MSG}
+Task: ${TASK_NAME}"
+
+# ---- Resolve timeout command (macOS may only have gtimeout from coreutils) ----
+_TIMEOUT_CMD=""
+if command -v timeout &>/dev/null; then
+    _TIMEOUT_CMD="timeout 30"
+elif command -v gtimeout &>/dev/null; then
+    _TIMEOUT_CMD="gtimeout 30"
+fi
+
+# ---- Send, with retries ----
+# openclaw cold starts or API latency can exceed 15s, hence the generous
+# per-attempt timeout.
+MAX_RETRIES=3
+RETRY_DELAY=3
+for i in $(seq 1 "$MAX_RETRIES"); do
+    _T_START=$(date +%s)
+    if $_TIMEOUT_CMD "$OPENCLAW_BIN" message send \
+        --channel "$CHANNEL" \
+        --target "$NOTIFY_TARGET" \
+        --message "$MSG" >> "$LOG" 2>&1; then
+        log "openclaw: $CHANNEL send OK in $(( $(date +%s) - _T_START ))s (attempt $i/$MAX_RETRIES)"
+        exit 0
+    else
+        _EXIT_CODE=$?
+        _T_ELAPSED=$(( $(date +%s) - _T_START ))
+        if [ "$_EXIT_CODE" -eq 124 ]; then
+            log "openclaw: $CHANNEL send timed out after ${_T_ELAPSED}s (attempt $i/$MAX_RETRIES)"
+        else
+            log "openclaw: $CHANNEL send failed exit=$_EXIT_CODE after ${_T_ELAPSED}s (attempt $i/$MAX_RETRIES)"
+        fi
+        [ "$i" -lt "$MAX_RETRIES" ] && sleep "$RETRY_DELAY"
+    fi
+done
+
+echo "$CHANNEL send to $NOTIFY_TARGET failed after $MAX_RETRIES attempts" >&2
+exit 1